@@ -0,0 +1,31 @@
+import { createReadStream } from 'fs';
+import { Readable } from 'stream';
+import { NextResponse } from 'next/server';
+import { getDataset } from '@/utils/datasetRegistry';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+export async function GET(
+  _request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const dataset = await getDataset(id);
+
+  if (!dataset) {
+    return NextResponse.json({ error: `Dataset "${id}" not found` }, { status: 404 });
+  }
+
+  // Stream the file so large datasets are never buffered in server memory
+  const body = Readable.toWeb(createReadStream(dataset.filePath)) as ReadableStream<Uint8Array>;
+
+  return new Response(body, {
+    headers: {
+      'Content-Type': 'text/csv; charset=utf-8',
+      'Content-Length': String(dataset.info.sizeBytes),
+      'Content-Disposition': `inline; filename="${dataset.info.fileName}"`,
+      'Cache-Control': 'no-store',
+    },
+  });
+}
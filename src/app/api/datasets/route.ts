@@ -0,0 +1,11 @@
+import { NextResponse } from 'next/server';
+import { listDatasets } from '@/utils/datasetRegistry';
+
+// The datasets folder can change at runtime, so never serve a cached listing
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+export async function GET() {
+  const datasets = await listDatasets();
+  return NextResponse.json({ datasets });
+}
@@ -1,5 +1,11 @@
+import { Suspense } from 'react';
 import { Dashboard } from '@/components/Dashboard/Dashboard';
 
+// The dashboard reads its view from the query string, which needs a Suspense boundary
 export default function Home() {
-  return <Dashboard />;
+  return (
+    <Suspense fallback={null}>
+      <Dashboard />
+    </Suspense>
+  );
 }
@@ -0,0 +1,94 @@
+'use client';
+
+import React from 'react';
+import { formatCompact, getNiceMax, truncateLabel } from '@/utils/chartScale';
+
+export interface BarChartItem {
+  key: string;
+  label: string;
+  value: number;
+}
+
+interface BarChartProps {
+  items: BarChartItem[];
+  // Accessible name of the chart
+  title: string;
+  maxBars?: number;
+  // Highlighted keys; the other bars are dimmed while any are selected
+  selected?: string[];
+  // Makes the bars buttons
+  onToggle?: (key: string) => void;
+}
+
+const WIDTH = 320;
+const ROW_HEIGHT = 18;
+const LABEL_WIDTH = 96;
+const VALUE_WIDTH = 40;
+
+// Horizontal bars, largest first; the rest are summarised below the chart.
+// Selected bars are always shown, even outside the largest ones.
+export const BarChart: React.FC<BarChartProps> = ({ items, title, maxBars = 10, selected = [], onToggle }) => {
+  const sorted = items
+    .filter(item => item.value > 0 || selected.includes(item.key))
+    .sort((a, b) => b.value - a.value);
+  const shown = sorted.filter((item, index) => index < maxBars || selected.includes(item.key));
+  const hidden = sorted.length - shown.length;
+  const max = getNiceMax(shown[0]?.value ?? 0);
+  const barSpace = WIDTH - LABEL_WIDTH - VALUE_WIDTH;
+  const height = Math.max(1, shown.length) * ROW_HEIGHT;
+  const hasSelection = selected.length > 0;
+
+  if (shown.length === 0) {
+    return <p className="py-6 text-center text-xs text-gray-400">No values</p>;
+  }
+
+  return (
+    <div>
+      <svg viewBox={`0 0 ${WIDTH} ${height}`} className="w-full h-auto" role={onToggle ? 'group' : 'img'} aria-label={title}>
+        {shown.map((item, index) => {
+          const y = index * ROW_HEIGHT;
+          const width = Math.max(1, (item.value / max) * barSpace);
+          const isSelected = selected.includes(item.key);
+          const toggle = onToggle ? () => onToggle(item.key) : undefined;
+          return (
+            <g
+              key={item.key}
+              transform={`translate(0, ${y})`}
+              role={toggle ? 'button' : undefined}
+              tabIndex={toggle ? 0 : undefined}
+              aria-pressed={toggle ? isSelected : undefined}
+              onClick={toggle}
+              onKeyDown={toggle && ((event) => {
+                if (event.key !== 'Enter' && event.key !== ' ') return;
+                event.preventDefault();
+                toggle();
+              })}
+              className={toggle ? 'cursor-pointer focus:outline-none group' : undefined}
+            >
+              <title>{`${item.label}: ${item.value.toLocaleString()}`}</title>
+              {/* Full-width hit area so short bars are easy to click */}
+              <rect width={WIDTH} height={ROW_HEIGHT} fill="transparent" className={toggle ? 'group-hover:fill-gray-50 group-focus:fill-gray-100' : undefined} />
+              <text x={LABEL_WIDTH - 6} y={ROW_HEIGHT / 2} dy="0.35em" textAnchor="end" className="fill-gray-600 text-[10px]">
+                {truncateLabel(item.label, 16)}
+              </text>
+              <rect
+                x={LABEL_WIDTH}
+                y={3}
+                width={width}
+                height={ROW_HEIGHT - 6}
+                rx={2}
+                className={!hasSelection ? 'fill-blue-500' : isSelected ? 'fill-blue-600' : 'fill-blue-200'}
+              />
+              <text x={LABEL_WIDTH + width + 4} y={ROW_HEIGHT / 2} dy="0.35em" className="fill-gray-500 text-[10px]">
+                {formatCompact(item.value)}
+              </text>
+            </g>
+          );
+        })}
+      </svg>
+      {hidden > 0 && (
+        <p className="mt-1 text-[11px] text-gray-400">+{hidden.toLocaleString()} more values</p>
+      )}
+    </div>
+  );
+};
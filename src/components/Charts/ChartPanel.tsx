@@ -0,0 +1,204 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { ColumnConfig } from '@/types';
+import { useUltraFastFilter } from '@/context/UltraFastFilterContext';
+import { createRangeFilter, isFilterActive, isRangeFilter } from '@/utils/filterModel';
+import { BarChart } from './BarChart';
+import { Histogram } from './Histogram';
+import { LineChart } from './LineChart';
+
+type ChartKind = 'bar' | 'histogram' | 'line';
+
+const CHART_KIND_LABELS: Record<ChartKind, string> = {
+  bar: 'Counts',
+  histogram: 'Distribution',
+  line: 'Over time',
+};
+
+const TIMELINE_UNIT_LABELS = { day: 'per day', week: 'per week', month: 'per month', year: 'per year' };
+
+interface ColumnChartProps {
+  column: ColumnConfig;
+  kind: ChartKind;
+  onRemove: () => void;
+}
+
+// One chart card. Facets follow every filter except the column's own, like
+// the filter controls, so a chart keeps showing the values it could switch to
+// while it drives its column's filter: bars toggle values, histograms brush
+// a range.
+const ColumnChart: React.FC<ColumnChartProps> = ({ column, kind, onRemove }) => {
+  const {
+    state,
+    dispatch,
+    subscribeFacets,
+    isFacetPending,
+    getAvailableFilterOptions,
+    getHistogram,
+    getDateFacets,
+  } = useUltraFastFilter();
+  const facetKind = kind === 'bar' ? 'available' : kind === 'histogram' ? 'histogram' : 'dates';
+
+  useEffect(() => subscribeFacets(column.key, facetKind), [subscribeFacets, column.key, facetKind]);
+  const isPending = isFacetPending(column.key, facetKind);
+  const dateFacets = kind === 'line' ? getDateFacets(column.key) : null;
+
+  const filter = state.filters[column.key];
+  const isFiltered = isFilterActive(filter);
+  const selectedValues = Array.isArray(filter) ? filter : [];
+
+  const toggleValue = (value: string) => {
+    const next = selectedValues.includes(value)
+      ? selectedValues.filter(item => item !== value)
+      : [...selectedValues, value];
+    if (next.length > 0) {
+      dispatch({ type: 'UPDATE_FILTER', payload: { column: column.key, filter: next } });
+    } else {
+      dispatch({ type: 'CLEAR_FILTER', payload: column.key });
+    }
+  };
+
+  // Bins are half-open except the last, which holds the column maximum
+  const brushRange = (min: number, max: number, includesLastBin: boolean) => {
+    dispatch({ type: 'UPDATE_FILTER', payload: { column: column.key, filter: createRangeFilter(min, max, true, includesLastBin) } });
+  };
+
+  return (
+    <div className="border border-gray-200 rounded-lg p-3" aria-busy={isPending}>
+      <div className="flex items-center justify-between mb-2">
+        <div className="min-w-0">
+          <h3 className="text-sm font-medium text-gray-900 truncate">{column.label}</h3>
+          <p className="text-[11px] text-gray-400">
+            {CHART_KIND_LABELS[kind]}
+            {dateFacets && dateFacets.timeline.length > 0 && ` ${TIMELINE_UNIT_LABELS[dateFacets.timelineUnit]}`}
+            {kind === 'bar' && ' · click bars to filter'}
+            {kind === 'histogram' && ' · drag to filter a range'}
+          </p>
+        </div>
+        {isFiltered && (
+          <button
+            type="button"
+            onClick={() => dispatch({ type: 'CLEAR_FILTER', payload: column.key })}
+            className="ml-auto mr-1 text-xs text-red-600 hover:text-red-800 font-medium"
+          >
+            Clear
+          </button>
+        )}
+        <button
+          type="button"
+          onClick={onRemove}
+          className="px-1 text-gray-400 hover:text-red-600"
+          aria-label={`Remove ${column.label} chart`}
+        >
+          ×
+        </button>
+      </div>
+      <div className={isPending ? 'opacity-60 transition-opacity' : 'transition-opacity'}>
+        {kind === 'bar' && (
+          <BarChart
+            title={`Row counts by ${column.label}`}
+            items={getAvailableFilterOptions(column.key).map(option => ({
+              key: option.value,
+              label: option.label,
+              value: option.count ?? 0,
+            }))}
+            selected={selectedValues}
+            onToggle={toggleValue}
+          />
+        )}
+        {kind === 'histogram' && (
+          <Histogram
+            title={`Distribution of ${column.label}`}
+            bins={getHistogram(column.key)}
+            range={isRangeFilter(filter) ? filter : null}
+            onBrush={brushRange}
+          />
+        )}
+        {kind === 'line' && (
+          <LineChart
+            title={`${column.label} over time`}
+            points={(dateFacets?.timeline ?? []).map(bucket => ({ label: bucket.label, value: bucket.count }))}
+          />
+        )}
+      </div>
+    </div>
+  );
+};
+
+interface ChartPanelProps {
+  columns: ColumnConfig[];
+}
+
+// Live charts of the filtered rows: value counts for categorical columns,
+// histograms for numeric ones and timelines for dates. Remount per dataset.
+export const ChartPanel: React.FC<ChartPanelProps> = ({ columns }) => {
+  const { getFilterKind } = useUltraFastFilter();
+  // Null until the user picks charts; the defaults follow the column kinds,
+  // which settle once the worker has indexed the data
+  const [selected, setSelected] = useState<string[] | null>(null);
+  const [isOpen, setIsOpen] = useState(true);
+
+  const getKind = (column: ColumnConfig): ChartKind => {
+    if (column.type === 'date') return 'line';
+    return column.type === 'number' && getFilterKind(column.key) === 'range' ? 'histogram' : 'bar';
+  };
+
+  const defaults = (['bar', 'histogram', 'line'] as const)
+    .map(kind => columns.find(column => column.filterable && getKind(column) === kind)?.key)
+    .filter((key): key is string => key !== undefined);
+  const chartColumns = (selected ?? defaults)
+    .map(key => columns.find(column => column.key === key))
+    .filter((column): column is ColumnConfig => column !== undefined);
+  const available = columns.filter(column => !chartColumns.includes(column));
+
+  return (
+    <div className="bg-white border border-gray-200 rounded-lg">
+      <div className="flex items-center justify-between px-4 py-3">
+        <h2 className="text-base sm:text-lg font-medium text-gray-900">Charts</h2>
+        <div className="flex items-center space-x-3">
+          {isOpen && (
+            <select
+              value=""
+              onChange={(event) => {
+                if (event.target.value) setSelected([...chartColumns.map(column => column.key), event.target.value]);
+              }}
+              disabled={available.length === 0}
+              className="px-2 py-1 text-xs border border-gray-300 rounded-md"
+              aria-label="Add chart"
+            >
+              <option value="">Add chart...</option>
+              {available.map(column => (
+                <option key={column.key} value={column.key}>{column.label}</option>
+              ))}
+            </select>
+          )}
+          <button
+            type="button"
+            onClick={() => setIsOpen(open => !open)}
+            className="text-xs text-blue-600 hover:text-blue-800 font-medium"
+            aria-expanded={isOpen}
+          >
+            {isOpen ? 'Hide' : 'Show'}
+          </button>
+        </div>
+      </div>
+
+      {isOpen && (
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-3 px-4 pb-4">
+          {chartColumns.map(column => (
+            <ColumnChart
+              key={column.key}
+              column={column}
+              kind={getKind(column)}
+              onRemove={() => setSelected(chartColumns.filter(item => item !== column).map(item => item.key))}
+            />
+          ))}
+          {chartColumns.length === 0 && (
+            <p className="text-xs text-gray-500">No charts. Pick a column to chart.</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
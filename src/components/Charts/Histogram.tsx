@@ -0,0 +1,120 @@
+'use client';
+
+import React, { useRef, useState } from 'react';
+import { HistogramBin } from '@/types';
+import { formatCompact, getNiceMax, getTicks } from '@/utils/chartScale';
+
+interface HistogramProps {
+  bins: HistogramBin[];
+  title: string;
+  // Active range, drawn as a band; bars outside it are dimmed
+  range?: { min: number | null; max: number | null } | null;
+  // Makes the plot brushable; called with the dragged bins' outer edges
+  onBrush?: (min: number, max: number, includesLastBin: boolean) => void;
+}
+
+const WIDTH = 320;
+const HEIGHT = 140;
+const MARGIN = { top: 6, right: 6, bottom: 18, left: 32 };
+const PLOT_WIDTH = WIDTH - MARGIN.left - MARGIN.right;
+const PLOT_HEIGHT = HEIGHT - MARGIN.top - MARGIN.bottom;
+
+// Contiguous vertical bars over the column's full range. Dragging across the
+// plot selects whole bins; a click selects the bin under the pointer.
+export const Histogram: React.FC<HistogramProps> = ({ bins, title, range = null, onBrush }) => {
+  const svgRef = useRef<SVGSVGElement>(null);
+  // Bin indices under the pointer while dragging
+  const [brush, setBrush] = useState<{ from: number; to: number } | null>(null);
+
+  if (bins.length === 0) {
+    return <p className="py-6 text-center text-xs text-gray-400">No values</p>;
+  }
+
+  const max = getNiceMax(Math.max(...bins.map(bin => bin.count)));
+  const barWidth = PLOT_WIDTH / bins.length;
+  const toY = (count: number) => MARGIN.top + PLOT_HEIGHT - (count / max) * PLOT_HEIGHT;
+
+  // Bin under a pointer position, clamped to the plot
+  const getBinIndex = (clientX: number): number => {
+    const rect = svgRef.current!.getBoundingClientRect();
+    const x = ((clientX - rect.left) / rect.width) * WIDTH - MARGIN.left;
+    return Math.min(bins.length - 1, Math.max(0, Math.floor(x / barWidth)));
+  };
+
+  const isInRange = (bin: HistogramBin) => {
+    if (!range) return true;
+    return (range.min === null || bin.end > range.min) && (range.max === null || bin.start < range.max);
+  };
+
+  const handlePointerDown = (event: React.PointerEvent) => {
+    if (!onBrush || event.button !== 0) return;
+    event.currentTarget.setPointerCapture(event.pointerId);
+    const index = getBinIndex(event.clientX);
+    setBrush({ from: index, to: index });
+  };
+
+  const handlePointerMove = (event: React.PointerEvent) => {
+    if (!brush) return;
+    setBrush({ ...brush, to: getBinIndex(event.clientX) });
+  };
+
+  const handlePointerUp = () => {
+    if (!brush || !onBrush) return;
+    const first = Math.min(brush.from, brush.to);
+    const last = Math.max(brush.from, brush.to);
+    setBrush(null);
+    onBrush(bins[first].start, bins[last].end, last === bins.length - 1);
+  };
+
+  // Band over the bins being dragged
+  const band = brush
+    ? { x: MARGIN.left + Math.min(brush.from, brush.to) * barWidth, width: (Math.abs(brush.to - brush.from) + 1) * barWidth }
+    : null;
+
+  return (
+    <svg
+      ref={svgRef}
+      viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+      className={`w-full h-auto ${onBrush ? 'cursor-crosshair touch-none select-none' : ''}`}
+      role="img"
+      aria-label={title}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={() => setBrush(null)}
+    >
+      {getTicks(max).map(tick => (
+        <g key={tick}>
+          <line x1={MARGIN.left} x2={WIDTH - MARGIN.right} y1={toY(tick)} y2={toY(tick)} className="stroke-gray-100" />
+          <text x={MARGIN.left - 4} y={toY(tick)} dy="0.35em" textAnchor="end" className="fill-gray-400 text-[9px]">
+            {formatCompact(tick)}
+          </text>
+        </g>
+      ))}
+
+      {band && (
+        <rect x={band.x} y={MARGIN.top} width={band.width} height={PLOT_HEIGHT} className="fill-blue-100" />
+      )}
+
+      {bins.map((bin, index) => (
+        <rect
+          key={index}
+          x={MARGIN.left + index * barWidth + 0.5}
+          y={toY(bin.count)}
+          width={Math.max(0, barWidth - 1)}
+          height={MARGIN.top + PLOT_HEIGHT - toY(bin.count)}
+          className={isInRange(bin) ? 'fill-blue-500' : 'fill-blue-200'}
+        >
+          <title>{`${formatCompact(bin.start)} – ${formatCompact(bin.end)}: ${bin.count.toLocaleString()}`}</title>
+        </rect>
+      ))}
+
+      <text x={MARGIN.left} y={HEIGHT - 4} className="fill-gray-500 text-[9px]">
+        {formatCompact(bins[0].start)}
+      </text>
+      <text x={WIDTH - MARGIN.right} y={HEIGHT - 4} textAnchor="end" className="fill-gray-500 text-[9px]">
+        {formatCompact(bins[bins.length - 1].end)}
+      </text>
+    </svg>
+  );
+};
@@ -0,0 +1,77 @@
+'use client';
+
+import React from 'react';
+import { formatCompact, getNiceMax, getTicks } from '@/utils/chartScale';
+
+export interface LinePoint {
+  label: string;
+  value: number;
+}
+
+interface LineChartProps {
+  points: LinePoint[];
+  title: string;
+}
+
+const WIDTH = 320;
+const HEIGHT = 140;
+const MARGIN = { top: 6, right: 8, bottom: 18, left: 32 };
+
+// Values over evenly spaced periods, with the area below the line shaded
+export const LineChart: React.FC<LineChartProps> = ({ points, title }) => {
+  if (points.length === 0) {
+    return <p className="py-6 text-center text-xs text-gray-400">No values</p>;
+  }
+
+  const max = getNiceMax(Math.max(...points.map(point => point.value)));
+  const plotWidth = WIDTH - MARGIN.left - MARGIN.right;
+  const plotHeight = HEIGHT - MARGIN.top - MARGIN.bottom;
+  const step = points.length > 1 ? plotWidth / (points.length - 1) : 0;
+  const toX = (index: number) => MARGIN.left + (points.length > 1 ? index * step : plotWidth / 2);
+  const toY = (value: number) => MARGIN.top + plotHeight - (value / max) * plotHeight;
+  const baseline = MARGIN.top + plotHeight;
+
+  const line = points.map((point, index) => `${toX(index)},${toY(point.value)}`).join(' ');
+  const area = `M${toX(0)},${baseline} L${line.replace(/ /g, ' L')} L${toX(points.length - 1)},${baseline} Z`;
+  // Hover targets split the plot evenly between points
+  const slot = points.length > 1 ? step : plotWidth;
+
+  return (
+    <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto" role="img" aria-label={title}>
+      {getTicks(max).map(tick => (
+        <g key={tick}>
+          <line x1={MARGIN.left} x2={WIDTH - MARGIN.right} y1={toY(tick)} y2={toY(tick)} className="stroke-gray-100" />
+          <text x={MARGIN.left - 4} y={toY(tick)} dy="0.35em" textAnchor="end" className="fill-gray-400 text-[9px]">
+            {formatCompact(tick)}
+          </text>
+        </g>
+      ))}
+
+      <path d={area} className="fill-blue-100" />
+      <polyline points={line} fill="none" strokeWidth={1.5} strokeLinejoin="round" className="stroke-blue-600" />
+      {points.length === 1 && <circle cx={toX(0)} cy={toY(points[0].value)} r={3} className="fill-blue-600" />}
+
+      {points.map((point, index) => (
+        <rect
+          key={index}
+          x={toX(index) - slot / 2}
+          y={MARGIN.top}
+          width={slot}
+          height={plotHeight}
+          fill="transparent"
+        >
+          <title>{`${point.label}: ${point.value.toLocaleString()}`}</title>
+        </rect>
+      ))}
+
+      <text x={MARGIN.left} y={HEIGHT - 4} className="fill-gray-500 text-[9px]">
+        {points[0].label}
+      </text>
+      {points.length > 1 && (
+        <text x={WIDTH - MARGIN.right} y={HEIGHT - 4} textAnchor="end" className="fill-gray-500 text-[9px]">
+          {points[points.length - 1].label}
+        </text>
+      )}
+    </svg>
+  );
+};
@@ -0,0 +1,126 @@
+'use client';
+
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+
+interface CSVImportProps {
+  onFileSelected: (file: File) => void;
+  disabled?: boolean;
+}
+
+const UploadIcon = ({ className }: { className?: string }) => (
+  <svg className={className} fill="none" stroke="currentColor" viewBox="0 0 24 24">
+    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-8l-4-4m0 0L8 8m4-4v12" />
+  </svg>
+);
+
+const isCSVFile = (file: File) =>
+  file.name.toLowerCase().endsWith('.csv') || file.type === 'text/csv';
+
+// File picker button plus a window-wide drop zone for CSV imports
+export const CSVImport: React.FC<CSVImportProps> = ({ onFileSelected, disabled = false }) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const dragDepthRef = useRef(0);
+  const [isDragging, setIsDragging] = useState(false);
+  const [rejectedName, setRejectedName] = useState<string | null>(null);
+
+  const handleFile = useCallback((file: File | undefined) => {
+    if (!file || disabled) return;
+
+    if (!isCSVFile(file)) {
+      setRejectedName(file.name);
+      return;
+    }
+
+    setRejectedName(null);
+    onFileSelected(file);
+  }, [disabled, onFileSelected]);
+
+  // Track drag enter/leave depth so nested elements don't flicker the overlay
+  useEffect(() => {
+    if (disabled) return;
+
+    const hasFiles = (event: DragEvent) =>
+      Array.from(event.dataTransfer?.types || []).includes('Files');
+
+    const handleDragEnter = (event: DragEvent) => {
+      if (!hasFiles(event)) return;
+      event.preventDefault();
+      dragDepthRef.current++;
+      setIsDragging(true);
+    };
+
+    const handleDragOver = (event: DragEvent) => {
+      if (!hasFiles(event)) return;
+      event.preventDefault();
+    };
+
+    const handleDragLeave = (event: DragEvent) => {
+      if (!hasFiles(event)) return;
+      dragDepthRef.current = Math.max(0, dragDepthRef.current - 1);
+      if (dragDepthRef.current === 0) {
+        setIsDragging(false);
+      }
+    };
+
+    const handleDrop = (event: DragEvent) => {
+      if (!hasFiles(event)) return;
+      event.preventDefault();
+      dragDepthRef.current = 0;
+      setIsDragging(false);
+      handleFile(event.dataTransfer?.files[0]);
+    };
+
+    window.addEventListener('dragenter', handleDragEnter);
+    window.addEventListener('dragover', handleDragOver);
+    window.addEventListener('dragleave', handleDragLeave);
+    window.addEventListener('drop', handleDrop);
+
+    return () => {
+      window.removeEventListener('dragenter', handleDragEnter);
+      window.removeEventListener('dragover', handleDragOver);
+      window.removeEventListener('dragleave', handleDragLeave);
+      window.removeEventListener('drop', handleDrop);
+    };
+  }, [disabled, handleFile]);
+
+  const handleInputChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    handleFile(event.target.files?.[0]);
+    // Reset so selecting the same file again still triggers a change
+    event.target.value = '';
+  };
+
+  return (
+    <>
+      <input
+        ref={inputRef}
+        type="file"
+        accept=".csv,text/csv"
+        className="hidden"
+        onChange={handleInputChange}
+      />
+      <button
+        type="button"
+        onClick={() => inputRef.current?.click()}
+        disabled={disabled}
+        title={rejectedName ? `"${rejectedName}" is not a CSV file` : 'Import a CSV file (or drop one anywhere)'}
+        className={`flex-1 sm:flex-none inline-flex items-center justify-center px-3 sm:px-4 py-2 text-xs sm:text-sm font-medium bg-white border rounded-md hover:bg-gray-50 disabled:opacity-50 ${
+          rejectedName ? 'text-red-600 border-red-300' : 'text-gray-700 border-gray-300'
+        }`}
+      >
+        <UploadIcon className="h-3 w-3 sm:h-4 sm:w-4 mr-1 sm:mr-2" />
+        <span>Import CSV</span>
+      </button>
+
+      {/* Drop overlay */}
+      {isDragging && (
+        <div className="fixed inset-0 z-50 bg-blue-600/10 backdrop-blur-sm flex items-center justify-center p-4 pointer-events-none">
+          <div className="bg-white border-2 border-dashed border-blue-500 rounded-lg p-8 max-w-md w-full text-center shadow-lg">
+            <UploadIcon className="h-10 w-10 text-blue-600 mx-auto mb-3" />
+            <h3 className="text-lg font-semibold text-gray-900 mb-1">Drop CSV to import</h3>
+            <p className="text-sm text-gray-500">The first row must contain column headers</p>
+          </div>
+        </div>
+      )}
+    </>
+  );
+};
@@ -0,0 +1,128 @@
+'use client';
+
+import React, { useEffect, useMemo } from 'react';
+import { ColumnConfig, DataRow } from '@/types';
+import { formatStat, profileColumn } from '@/utils/columnProfile';
+import { toDayKey } from '@/utils/dateColumns';
+import { COLUMN_TYPE_LABELS } from '@/utils/schemaOverrides';
+import { BarChart } from '@/components/Charts/BarChart';
+import { Histogram } from '@/components/Charts/Histogram';
+
+interface ColumnProfileDrawerProps {
+  data: DataRow[];
+  // Filtered rows of `data`; every row when null
+  indices: Uint32Array | null;
+  column: ColumnConfig;
+  columns: ColumnConfig[];
+  onColumnChange: (column: string) => void;
+  onClose: () => void;
+}
+
+// Side drawer with statistics of one column over the filtered rows
+export const ColumnProfileDrawer: React.FC<ColumnProfileDrawerProps> = ({
+  data,
+  indices,
+  column,
+  columns,
+  onColumnChange,
+  onClose,
+}) => {
+  const profile = useMemo(() => profileColumn(data, indices, column), [data, indices, column]);
+  const presentCount = profile.rowCount - profile.missingCount;
+  const invalidCount = presentCount - profile.validCount;
+  const share = (count: number) => (profile.rowCount > 0 ? ` (${Math.round((count / profile.rowCount) * 100)}%)` : '');
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  const stats: [string, string][] = [
+    ['Type', COLUMN_TYPE_LABELS[profile.type]],
+    ['Rows', profile.rowCount.toLocaleString()],
+    ['Null / empty', `${profile.missingCount.toLocaleString()}${share(profile.missingCount)}`],
+    ['Distinct', profile.distinctCount.toLocaleString()],
+  ];
+  if (invalidCount > 0) {
+    stats.push([profile.type === 'date' ? 'Not dates' : 'Not numeric', invalidCount.toLocaleString()]);
+  }
+  if (profile.numeric) {
+    stats.push(
+      ['Min', formatStat(profile.numeric.min)],
+      ['Max', formatStat(profile.numeric.max)],
+      ['Mean', formatStat(profile.numeric.mean)],
+      ['Median', formatStat(profile.numeric.median)],
+      ['Std dev', formatStat(profile.numeric.stdDev)],
+    );
+  }
+  if (profile.dateRange) {
+    stats.push(['Earliest', toDayKey(profile.dateRange.min)], ['Latest', toDayKey(profile.dateRange.max)]);
+  }
+
+  return (
+    <aside
+      className="fixed inset-y-0 right-0 z-40 w-full sm:w-96 bg-white border-l border-gray-200 shadow-xl overflow-y-auto"
+      aria-label={`Profile of ${column.label}`}
+    >
+      <div className="sticky top-0 flex items-center justify-between px-4 py-3 bg-white border-b border-gray-200">
+        <div className="min-w-0">
+          <h2 className="text-base font-medium text-gray-900">Column profile</h2>
+          <p className="text-xs text-gray-500">Over the {profile.rowCount.toLocaleString()} rows matching the filters</p>
+        </div>
+        <button
+          type="button"
+          onClick={onClose}
+          className="px-1 text-xl leading-none text-gray-400 hover:text-gray-600"
+          aria-label="Close column profile"
+        >
+          ×
+        </button>
+      </div>
+
+      <div className="p-4 space-y-5">
+        <select
+          value={column.key}
+          onChange={(event) => onColumnChange(event.target.value)}
+          className="w-full px-2 py-1 text-sm border border-gray-300 rounded-md"
+          aria-label="Profiled column"
+        >
+          {columns.map(item => (
+            <option key={item.key} value={item.key}>{item.label}</option>
+          ))}
+        </select>
+
+        <dl className="grid grid-cols-2 gap-x-4 gap-y-2 text-sm">
+          {stats.map(([label, value]) => (
+            <div key={label} className="min-w-0">
+              <dt className="text-xs text-gray-500">{label}</dt>
+              <dd className="font-mono text-gray-900 truncate" title={value}>{value}</dd>
+            </div>
+          ))}
+        </dl>
+
+        {profile.histogram.length > 0 && (
+          <section>
+            <h3 className="mb-1 text-xs font-medium text-gray-500 uppercase tracking-wider">Distribution</h3>
+            <Histogram title={`Distribution of ${column.label}`} bins={profile.histogram} />
+          </section>
+        )}
+
+        <section>
+          <h3 className="mb-1 text-xs font-medium text-gray-500 uppercase tracking-wider">Top values</h3>
+          <BarChart
+            title={`Most common values of ${column.label}`}
+            items={profile.topValues.map(option => ({ key: option.value, label: option.label, value: option.count ?? 0 }))}
+          />
+          {profile.distinctCount > profile.topValues.length && (
+            <p className="mt-1 text-[11px] text-gray-400">
+              Top {profile.topValues.length} of {profile.distinctCount.toLocaleString()} distinct values
+            </p>
+          )}
+        </section>
+      </div>
+    </aside>
+  );
+};
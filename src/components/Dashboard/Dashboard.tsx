@@ -1,12 +1,42 @@
 'use client';
 
-import React, { useEffect, useState } from 'react';
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import { UltraFastFilterDropdown } from '@/components/Filters/UltraFastFilterDropdown';
+import { RangeFilter } from '@/components/Filters/RangeFilter';
+import { DateRangeFilter } from '@/components/Filters/DateRangeFilter';
+import { QueryBuilder } from '@/components/Filters/QueryBuilder';
+import { FilterHistoryControls, FilterHistoryTimeline } from '@/components/Filters/FilterHistory';
 import { DataTable } from '@/components/DataTable/DataTable';
+import { TableSearch } from '@/components/DataTable/TableSearch';
+import { PivotFieldZones } from '@/components/Pivot/PivotFieldZones';
+import { PivotTable } from '@/components/Pivot/PivotTable';
+import { ChartPanel } from '@/components/Charts/ChartPanel';
 import { LoadingProgress } from '@/components/Dashboard/LoadingProgress';
+import { CSVImport } from '@/components/Dashboard/CSVImport';
+import { ImportReport, ImportSummary } from '@/components/Dashboard/ImportReport';
+import { ColumnProfileDrawer } from '@/components/Dashboard/ColumnProfileDrawer';
+import { SchemaEditor } from '@/components/Dashboard/SchemaEditor';
+import { DatasetSelector } from '@/components/Dashboard/DatasetSelector';
+import { SavedViewsPanel } from '@/components/Dashboard/SavedViewsPanel';
+import { PerformanceMonitor } from '@/components/Dashboard/PerformanceMonitor';
 import { useUltraFastFilter } from '@/context/UltraFastFilterContext';
+import { useUrlViewState } from '@/hooks/useUrlViewState';
+import { useColumnLayout } from '@/hooks/useColumnLayout';
+import { useSchemaOverrides } from '@/hooks/useSchemaOverrides';
 import { getColumnConfigs } from '@/utils/dataProcessing';
-import { generateMockData } from '@/utils/csvParser';
+import { inferSchema } from '@/utils/schemaInference';
+import { applySchemaOverrides } from '@/utils/schemaOverrides';
+import { getDatasetId } from '@/utils/cacheRegistry';
+import { measureHeapBytes } from '@/utils/columnStore';
+import { countActiveFilters } from '@/utils/filterModel';
+import { isExpressionActive } from '@/utils/filterExpression';
+import { normalizeSearch, parseSearchQuery } from '@/utils/textSearch';
+import { CSVParseProgress, generateMockData, parseCSVFile } from '@/utils/csvParser';
+import { fetchDatasetFile, fetchDatasets } from '@/utils/datasetClient';
+import { DatasetInfo } from '@/types';
+
+// Time for the parsed row objects to be collected before the heap is measured again
+const HEAP_SETTLE_DELAY = 5000;
 
 // Minimal SVG icons
 const DashboardIcon = ({ className }: { className?: string }) => (
@@ -41,129 +71,227 @@ const SettingsIcon = ({ className }: { className?: string }) => (
 );
 
 export const Dashboard: React.FC = () => {
-  const { state, dispatch } = useUltraFastFilter();
-  const { data, filteredData, isLoading, filters, error } = state;
+  const { state, dispatch, getFilterKind } = useUltraFastFilter();
+  const { data, filteredData, filteredIndices, filterStatus, sortStatus, isLoading, filters, expression, search, sort, grouping, pivot, page, pageSize, error } = state;
+  // The worker is still answering the latest filter change; keep showing the last result
+  const isFiltering = filterStatus === 'pending' || sortStatus === 'pending';
   const [enableVirtualScroll, setEnableVirtualScroll] = useState(false);
+  const [tableView, setTableView] = useState<'table' | 'pivot'>('table');
+  const [profiledColumn, setProfiledColumn] = useState<string | null>(null);
+  const closeProfile = useCallback(() => setProfiledColumn(null), []);
   const [showSettings, setShowSettings] = useState(false);
-  const [datasetSize, setDatasetSize] = useState<'small' | 'medium' | 'large'>('small');
+  const [showSchemaEditor, setShowSchemaEditor] = useState(false);
+  const closeSchemaEditor = useCallback(() => setShowSchemaEditor(false), []);
+  const [datasets, setDatasets] = useState<DatasetInfo[]>([]);
+  const [activeDatasetId, setActiveDatasetId] = useState<string | null>(null);
   const [useChunkedDisplay, setUseChunkedDisplay] = useState(false);
   const [loadingProgress, setLoadingProgress] = useState(0);
   const [loadingMessage, setLoadingMessage] = useState('');
   const [estimatedTime, setEstimatedTime] = useState<number | undefined>();
+  const [importSummary, setImportSummary] = useState<ImportSummary | null>(null);
+  const [parseProgress, setParseProgress] = useState<CSVParseProgress | null>(null);
+  const importAbortRef = useRef<AbortController | null>(null);
+  // Heap released by the last CSV load once its row objects were replaced by columns
+  const [releasedHeapBytes, setReleasedHeapBytes] = useState<number | null>(null);
+  const loadCountRef = useRef(0);
 
   // Calculate metrics
-  const hasActiveFilters = Object.values(filters).some((values: string[]) => values.length > 0);
-  const activeFilterCount = Object.values(filters).filter((f: string[]) => f.length > 0).length;
+  const activeFilterCount = countActiveFilters(filters)
+    + (isExpressionActive(expression) ? 1 : 0)
+    + (normalizeSearch(search) !== '' ? 1 : 0);
+  const hasActiveFilters = activeFilterCount > 0;
   const currentDataLength = data.length;
   const currentFilteredLength = filteredData.length;
   const filterEfficiency = currentDataLength > 0 ? Math.round((currentFilteredLength / currentDataLength) * 100) : 0;
 
-  // Load initial data
-  useEffect(() => {
-    const loadData = async () => {
-      dispatch({ type: 'SET_LOADING', payload: true });
-      try {
-        const mockData = await generateMockData(1000);
-        dispatch({ type: 'SET_DATA', payload: mockData });
-      } catch (err) {
-        console.error('Failed to load data:', err);
-      } finally {
-        dispatch({ type: 'SET_LOADING', payload: false });
-      }
-    };
-    loadData();
-  }, [dispatch]);
-
-  const columns = getColumnConfigs(data);
+  const { overrides: schemaOverrides, setOverrides: setSchemaOverrides } = useSchemaOverrides();
+  // Inferred columns with the user's schema changes on top
+  const columns = useMemo(() => applySchemaOverrides(getColumnConfigs(data), schemaOverrides), [data, schemaOverrides]);
   const filterableColumns = columns.filter(col => col.filterable);
+  // Null too once the dataset no longer has the profiled column
+  const profileColumnConfig = columns.find(col => col.key === profiledColumn) ?? null;
+  const searchTerms = useMemo(
+    () => parseSearchQuery(search, columns.map(col => col.key)),
+    [search, columns]
+  );
 
   const handleClearAllFilters = () => {
     dispatch({ type: 'CLEAR_ALL_FILTERS' });
   };
 
-  const handleLoadDataset = async (size: 'small' | 'medium' | 'large') => {
+  const resetImportProgress = () => {
+    importAbortRef.current = null;
+    setLoadingProgress(0);
+    setLoadingMessage('');
+    setEstimatedTime(undefined);
+    setParseProgress(null);
+  };
+
+  // Heap with the parsed rows alive minus the heap after they are gone. The
+  // previous dataset is released at the same time and counts towards it.
+  const measureReleasedHeap = (heapWithRows: number, loadCount: number) => {
+    setTimeout(() => {
+      const heapWithColumns = measureHeapBytes();
+      if (heapWithColumns === null || loadCountRef.current !== loadCount) return;
+      setReleasedHeapBytes(heapWithRows - heapWithColumns);
+    }, HEAP_SETTLE_DELAY);
+  };
+
+  // Shared CSV pipeline for uploads and registry datasets: worker parse -> SET_DATA
+  const loadCSV = async (
+    getFile: (signal: AbortSignal) => Promise<File>,
+    datasetId: string,
+    options: { alwaysReport: boolean }
+  ) => {
+    const previousDatasetId = activeDatasetId;
+    const abortController = new AbortController();
+    importAbortRef.current = abortController;
+    const loadCount = ++loadCountRef.current;
+
     dispatch({ type: 'SET_LOADING', payload: true });
-    setDatasetSize(size);
+    setActiveDatasetId(datasetId);
+    setImportSummary(null);
     setLoadingProgress(0);
-    setLoadingMessage('Initializing data generation...');
+    setLoadingMessage('Fetching dataset...');
     setEstimatedTime(undefined);
-    
-    const sizes = { small: 10000, medium: 10000, large: 50000 };
-    const targetSize = sizes[size];
-    
-    // Always use standard DataTable with horizontal scrolling for all dataset sizes
-    setUseChunkedDisplay(false);
-    
+
+    let fileName = datasetId;
+
     try {
-      // For large datasets, show progress
-      if (size === 'large') {
-        setEstimatedTime(8); // Estimate 8 seconds for large dataset
-        
-        // Simulate progress updates with more realistic progression
-        const startTime = Date.now();
-        const progressInterval = setInterval(() => {
-          const elapsed = (Date.now() - startTime) / 1000; // seconds
-          const estimatedTotal = 8; // 8 seconds total
-          const baseProgress = Math.min((elapsed / estimatedTotal) * 100, 95);
-          
-          // Add some realistic variation
-          const variation = Math.sin(elapsed * 2) * 5; // ±5% variation
-          const newProgress = Math.max(0, Math.min(baseProgress + variation, 95));
-          
-          setLoadingProgress(newProgress);
-          
-          // Update estimated time remaining
-          const remaining = Math.max(0, estimatedTotal - elapsed);
-          setEstimatedTime(Math.round(remaining));
-          
-          // Update messages based on progress
-          if (newProgress < 25) {
-            setLoadingMessage('Initializing data generation engine...');
-          } else if (newProgress < 45) {
-            setLoadingMessage('Generating 50,000 data records...');
-          } else if (newProgress < 65) {
-            setLoadingMessage('Processing data structures and indexes...');
-          } else if (newProgress < 85) {
-            setLoadingMessage('Optimizing for ultra-fast filtering...');
-          } else {
-            setLoadingMessage('Finalizing dataset and preparing display...');
+      const file = await getFile(abortController.signal);
+      fileName = file.name;
+      setLoadingMessage(`Reading ${file.name}...`);
+      setParseProgress({ rowsParsed: 0, bytesRead: 0, totalBytes: file.size });
+
+      const startTime = performance.now();
+      const result = await parseCSVFile(file, {
+        signal: abortController.signal,
+        onProgress: (progress) => {
+          const { rowsParsed, bytesRead, totalBytes } = progress;
+          const elapsed = (performance.now() - startTime) / 1000;
+
+          setParseProgress(progress);
+          setLoadingProgress(totalBytes > 0 ? (bytesRead / totalBytes) * 100 : 0);
+          setLoadingMessage(`Parsed ${rowsParsed.toLocaleString()} rows from ${file.name}...`);
+
+          // Extrapolate remaining time from observed throughput
+          if (bytesRead > 0 && elapsed > 1) {
+            setEstimatedTime(Math.round((elapsed * (totalBytes - bytesRead)) / bytesRead));
           }
-        }, 100);
-        
-        // Generate data
-        const newData = await generateMockData(targetSize);
-        
-        // Clear interval and set to 100%
-        clearInterval(progressInterval);
-        setLoadingProgress(100);
-        setLoadingMessage('Dataset loaded successfully!');
-        
-        // Small delay to show completion
-        setTimeout(() => {
-          dispatch({ type: 'SET_DATA', payload: newData });
-          dispatch({ type: 'SET_LOADING', payload: false });
-          setLoadingProgress(0);
-          setLoadingMessage('');
-          setEstimatedTime(undefined);
-        }, 500);
-      } else {
-        // For small and medium datasets, show simple loading
-        setLoadingMessage(`Loading ${size} dataset...`);
-        const newData = await generateMockData(targetSize);
-        dispatch({ type: 'SET_DATA', payload: newData });
-        dispatch({ type: 'SET_LOADING', payload: false });
-        setLoadingProgress(0);
-        setLoadingMessage('');
+        },
+      });
+
+      setLoadingMessage('Building filter indexes...');
+      const heapWithRows = measureHeapBytes();
+      dispatch({ type: 'SET_DATA', payload: result.data });
+      setReleasedHeapBytes(null);
+      if (heapWithRows !== null) measureReleasedHeap(heapWithRows, loadCount);
+
+      if (options.alwaysReport || result.errorCount > 0) {
+        setImportSummary({
+          fileName: file.name,
+          rowCount: result.data.length,
+          columnCount: result.fields.length,
+          skippedRows: result.skippedRows,
+          errors: result.errors,
+          errorCount: result.errorCount,
+        });
       }
     } catch (err) {
-      console.error('Failed to load dataset:', err);
+      // Keep the previously loaded dataset on cancel or failure
+      setActiveDatasetId(previousDatasetId);
+
+      if (err instanceof DOMException && err.name === 'AbortError') {
+        return;
+      }
+
+      console.error('Failed to load CSV:', err);
+      setImportSummary({
+        fileName,
+        rowCount: 0,
+        columnCount: 0,
+        skippedRows: 0,
+        errors: [],
+        errorCount: 0,
+        failed: err instanceof Error ? err.message : 'Unable to parse file',
+      });
+    } finally {
       dispatch({ type: 'SET_LOADING', payload: false });
-      setLoadingProgress(0);
-      setLoadingMessage('');
-      setEstimatedTime(undefined);
+      resetImportProgress();
     }
   };
 
+  const handleLoadDataset = (dataset: DatasetInfo) => {
+    // Always use standard DataTable with horizontal scrolling for all dataset sizes
+    setUseChunkedDisplay(false);
+    return loadCSV(signal => fetchDatasetFile(dataset, signal), dataset.id, { alwaysReport: false });
+  };
+
+  const handleImportFile = (file: File) => {
+    return loadCSV(async () => file, 'upload', { alwaysReport: true });
+  };
+
+  const handleCancelImport = () => {
+    importAbortRef.current?.abort();
+  };
+
+  // Back / forward can land on a view of another dataset
+  const handleDatasetRequest = (datasetId: string) => {
+    const dataset = datasets.find(candidate => candidate.id === datasetId);
+    if (dataset) {
+      handleLoadDataset(dataset);
+    }
+  };
+
+  // Before the URL sync, so a linked view's columns replace the remembered layout
+  const { layout: columnLayout, setLayout: setColumnLayout } = useColumnLayout();
+
+  const { initialDatasetId } = useUrlViewState({
+    datasetId: activeDatasetId,
+    onDatasetRequest: handleDatasetRequest,
+  });
+
+  // The initial load below runs once but must load with the current callback
+  const loadDatasetRef = useRef(handleLoadDataset);
+  useEffect(() => {
+    loadDatasetRef.current = handleLoadDataset;
+  });
+
+  // Load the dataset registry, then the linked (or smallest) dataset; fall back to generated data
+  const initialLoadRef = useRef(false);
+  useEffect(() => {
+    if (initialLoadRef.current) return;
+    initialLoadRef.current = true;
+
+    const loadInitialData = async () => {
+      let registry: DatasetInfo[] = [];
+      try {
+        registry = await fetchDatasets();
+        setDatasets(registry);
+      } catch (err) {
+        console.error('Failed to list datasets:', err);
+      }
+
+      if (registry.length > 0) {
+        const linked = registry.find(dataset => dataset.id === initialDatasetId);
+        await loadDatasetRef.current(linked ?? registry[0]);
+        return;
+      }
+
+      dispatch({ type: 'SET_LOADING', payload: true });
+      try {
+        const mockData = await generateMockData(1000);
+        dispatch({ type: 'SET_DATA', payload: mockData });
+        setActiveDatasetId('generated');
+      } catch (err) {
+        console.error('Failed to load data:', err);
+      } finally {
+        dispatch({ type: 'SET_LOADING', payload: false });
+      }
+    };
+    loadInitialData();
+  }, [initialDatasetId, dispatch]);
+
   const exportData = () => {
     const csvContent = [
       columns.map(col => col.label).join(','),
@@ -182,13 +310,18 @@ export const Dashboard: React.FC = () => {
   };
 
   if (isLoading) {
-    // Show progress bar for large datasets
-    if (datasetSize === 'large' && loadingProgress > 0) {
+    // Show real parse progress while a CSV file is streaming in
+    if (parseProgress) {
       return (
         <LoadingProgress
           progress={loadingProgress}
           message={loadingMessage}
           estimatedTime={estimatedTime}
+          stage="Importing CSV"
+          processedRecords={parseProgress.rowsParsed}
+          bytesRead={parseProgress.bytesRead}
+          totalBytes={parseProgress.totalBytes}
+          onCancel={handleCancelImport}
         />
       );
     }
@@ -249,24 +382,18 @@ export const Dashboard: React.FC = () => {
             {/* Controls */}
             <div className="flex flex-col sm:flex-row items-stretch sm:items-center space-y-3 sm:space-y-0 sm:space-x-4">
               {/* Dataset Selector */}
-              <div className="flex border border-gray-300 rounded-md">
-                {(['small', 'medium', 'large'] as const).map((size) => (
-                  <button
-                    key={size}
-                    onClick={() => handleLoadDataset(size)}
-                    className={`flex-1 sm:flex-none px-2 sm:px-3 py-2 text-xs sm:text-sm font-medium first:rounded-l-md last:rounded-r-md ${
-                      datasetSize === size
-                        ? 'bg-blue-600 text-white'
-                        : 'bg-white text-gray-700 hover:bg-gray-50'
-                    }`}
-                  >
-                    {size.charAt(0).toUpperCase() + size.slice(1)}
-                  </button>
-                ))}
-              </div>
+              <DatasetSelector
+                datasets={datasets}
+                activeDatasetId={activeDatasetId}
+                onSelect={handleLoadDataset}
+                disabled={isLoading}
+              />
 
               {/* Action Buttons */}
               <div className="flex space-x-2 sm:space-x-4">
+                {/* Import */}
+                <CSVImport onFileSelected={handleImportFile} disabled={isLoading} />
+
                 {/* Export */}
                 <button
                   onClick={exportData}
@@ -328,6 +455,18 @@ export const Dashboard: React.FC = () => {
 
       {/* Main Content */}
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-4 sm:py-6">
+        {importSummary && (
+          <div className="mb-4 sm:mb-6">
+            <ImportReport summary={importSummary} onDismiss={() => setImportSummary(null)} />
+          </div>
+        )}
+
+        {data.length > 0 && (
+          <div className="mb-4 sm:mb-6">
+            <ChartPanel key={getDatasetId(data)} columns={columns} />
+          </div>
+        )}
+
         <div className="grid grid-cols-1 lg:grid-cols-4 gap-4 sm:gap-6">
           {/* Filters Sidebar */}
           <div className="lg:col-span-1 order-2 lg:order-1">
@@ -340,18 +479,57 @@ export const Dashboard: React.FC = () => {
                     {activeFilterCount}
                   </span>
                 )}
+                <div className="ml-auto">
+                  <FilterHistoryControls />
+                </div>
               </div>
               
               <div className="space-y-3 sm:space-y-4">
                 {filterableColumns.map((column) => (
-                  <UltraFastFilterDropdown
-                    key={column.key}
-                    column={column.key}
-                    label={column.label}
-                  />
+                  column.type === 'date' && column.dateFormat ? (
+                    <DateRangeFilter
+                      key={column.key}
+                      column={column.key}
+                      label={column.label}
+                      format={column.dateFormat}
+                    />
+                  ) : column.type === 'number' && getFilterKind(column.key) === 'range' ? (
+                    <RangeFilter
+                      key={column.key}
+                      column={column.key}
+                      label={column.label}
+                    />
+                  ) : (
+                    <UltraFastFilterDropdown
+                      key={column.key}
+                      column={column.key}
+                      label={column.label}
+                    />
+                  )
                 ))}
               </div>
 
+              {/* Boolean query across columns */}
+              {filterableColumns.length > 0 && (
+                <div className="mt-4 sm:mt-6 pt-3 sm:pt-4 border-t border-gray-200">
+                  <QueryBuilder />
+                </div>
+              )}
+
+              {/* Named presets of filters, sort and columns */}
+              {filterableColumns.length > 0 && (
+                <div className="mt-4 sm:mt-6 pt-3 sm:pt-4 border-t border-gray-200">
+                  <SavedViewsPanel />
+                </div>
+              )}
+
+              {/* Recent filter changes */}
+              {state.history.entries.length > 1 && (
+                <div className="mt-4 sm:mt-6 pt-3 sm:pt-4 border-t border-gray-200">
+                  <FilterHistoryTimeline />
+                </div>
+              )}
+
               {/* Filter Summary */}
               <div className="mt-4 sm:mt-6 pt-3 sm:pt-4 border-t border-gray-200">
                 <h3 className="text-xs sm:text-sm font-medium text-gray-900 mb-2">Summary</h3>
@@ -362,7 +540,9 @@ export const Dashboard: React.FC = () => {
                   </div>
                   <div className="flex justify-between">
                     <span>Visible:</span>
-                    <span>{filteredData.length.toLocaleString()}</span>
+                    <span className={isFiltering ? 'text-gray-400 animate-pulse' : ''}>
+                      {filteredData.length.toLocaleString()}
+                    </span>
                   </div>
                   <div className="flex justify-between">
                     <span>Efficiency:</span>
@@ -375,12 +555,43 @@ export const Dashboard: React.FC = () => {
 
           {/* Data Table */}
           <div className="lg:col-span-3 order-1 lg:order-2">
-            <div className="bg-white border border-gray-200 rounded-lg">
-              {filteredData.length === 0 && hasActiveFilters ? (
+            <div className="relative bg-white border border-gray-200 rounded-lg" aria-busy={isFiltering}>
+              {isFiltering && (
+                <div className="absolute inset-x-0 top-0 z-10 h-0.5 bg-blue-500 animate-pulse" />
+              )}
+              {data.length > 0 && <TableSearch />}
+              {data.length > 0 && (
+                <div className="flex items-center space-x-1 px-4 py-2 border-b border-gray-200" role="tablist" aria-label="Table view">
+                  {(['table', 'pivot'] as const).map(view => (
+                    <button
+                      key={view}
+                      type="button"
+                      role="tab"
+                      aria-selected={tableView === view}
+                      onClick={() => setTableView(view)}
+                      className={`px-3 py-1 text-sm rounded-md ${
+                        tableView === view ? 'bg-blue-50 text-blue-700 font-medium' : 'text-gray-600 hover:bg-gray-100'
+                      }`}
+                    >
+                      {view === 'table' ? 'Table' : 'Pivot'}
+                    </button>
+                  ))}
+                  <button
+                    type="button"
+                    onClick={() => setShowSchemaEditor(true)}
+                    className={`ml-auto px-3 py-1 text-sm rounded-md ${
+                      Object.keys(schemaOverrides).length > 0 ? 'text-blue-700 hover:bg-blue-50' : 'text-gray-600 hover:bg-gray-100'
+                    }`}
+                  >
+                    Schema
+                  </button>
+                </div>
+              )}
+              {filteredData.length === 0 && hasActiveFilters && !isFiltering ? (
                 <div className="text-center py-8 sm:py-12 px-4">
                   <FilterIcon className="h-8 w-8 sm:h-12 sm:w-12 text-gray-400 mx-auto mb-3 sm:mb-4" />
                   <h3 className="text-base sm:text-lg font-medium text-gray-900 mb-2">No matching records</h3>
-                  <p className="text-sm sm:text-base text-gray-500 mb-4">Try adjusting your filters to see more data.</p>
+                  <p className="text-sm sm:text-base text-gray-500 mb-4">Try adjusting your search or filters to see more data.</p>
                   <button
                     onClick={handleClearAllFilters}
                     className="inline-flex items-center px-3 sm:px-4 py-2 text-sm font-medium text-white bg-blue-600 border border-transparent rounded-md hover:bg-blue-700"
@@ -389,19 +600,83 @@ export const Dashboard: React.FC = () => {
                     Clear All Filters
                   </button>
                 </div>
+              ) : tableView === 'pivot' ? (
+                <div className={isFiltering ? 'opacity-60 transition-opacity' : 'transition-opacity'}>
+                  <PivotFieldZones
+                    config={pivot}
+                    columns={columns}
+                    onChange={(next) => dispatch({ type: 'SET_PIVOT', payload: next })}
+                  />
+                  <PivotTable
+                    data={data}
+                    indices={filteredIndices}
+                    config={pivot}
+                    columns={columns}
+                    getFilterKind={getFilterKind}
+                    onDrillDown={(drillFilters) => {
+                      dispatch({ type: 'UPDATE_FILTERS', payload: drillFilters });
+                      setTableView('table');
+                    }}
+                  />
+                </div>
               ) : (
-                <DataTable
-                  data={filteredData}
-                  columns={columns}
-                  enableVirtualScroll={enableVirtualScroll}
-                  virtualScrollHeight={600}
-                />
+                <div className={isFiltering ? 'opacity-60 transition-opacity' : 'transition-opacity'}>
+                  <DataTable
+                    data={filteredData}
+                    columns={columns}
+                    enableVirtualScroll={enableVirtualScroll}
+                    virtualScrollHeight={600}
+                    sortState={sort}
+                    onSortChange={(next) => dispatch({ type: 'SET_SORT', payload: next })}
+                    isPresorted
+                    columnLayout={columnLayout}
+                    onColumnLayoutChange={setColumnLayout}
+                    grouping={grouping}
+                    onGroupingChange={(next) => dispatch({ type: 'SET_GROUPING', payload: next })}
+                    currentPage={page}
+                    pageSize={pageSize}
+                    onPageChange={(next) => dispatch({ type: 'SET_PAGE', payload: next })}
+                    onPageSizeChange={(next) => dispatch({ type: 'SET_PAGE_SIZE', payload: next })}
+                    highlightTerms={searchTerms}
+                    onProfileColumn={setProfiledColumn}
+                  />
+                </div>
               )}
             </div>
           </div>
         </div>
       </div>
 
+      {showSchemaEditor && data.length > 0 && (
+        <SchemaEditor
+          schema={inferSchema(data)}
+          columns={getColumnConfigs(data)}
+          overrides={schemaOverrides}
+          onChange={setSchemaOverrides}
+          onClose={closeSchemaEditor}
+        />
+      )}
+
+      {profileColumnConfig && (
+        <ColumnProfileDrawer
+          data={data}
+          indices={filteredIndices}
+          column={profileColumnConfig}
+          columns={columns}
+          onColumnChange={setProfiledColumn}
+          onClose={closeProfile}
+        />
+      )}
+
+      <PerformanceMonitor
+        dataSize={currentDataLength}
+        filteredSize={currentFilteredLength}
+        isVirtualScrollEnabled={enableVirtualScroll}
+        memoryStats={state.memoryStats}
+        releasedHeapBytes={releasedHeapBytes}
+        currentDatasetId={data.length > 0 ? getDatasetId(data) : null}
+      />
+
       {/* Settings Modal */}
       {showSettings && (
         <div className="fixed inset-0 bg-gray-500 bg-opacity-75 flex items-center justify-center p-4 z-50">
@@ -0,0 +1,52 @@
+'use client';
+
+import React from 'react';
+import { DatasetInfo } from '@/types';
+
+interface DatasetSelectorProps {
+  datasets: DatasetInfo[];
+  activeDatasetId: string | null;
+  onSelect: (dataset: DatasetInfo) => void;
+  disabled?: boolean;
+}
+
+export const DatasetSelector: React.FC<DatasetSelectorProps> = ({
+  datasets,
+  activeDatasetId,
+  onSelect,
+  disabled = false,
+}) => {
+  const isRegistered = datasets.some(dataset => dataset.id === activeDatasetId);
+
+  const handleChange = (event: React.ChangeEvent<HTMLSelectElement>) => {
+    const dataset = datasets.find(entry => entry.id === event.target.value);
+    if (dataset) {
+      onSelect(dataset);
+    }
+  };
+
+  return (
+    <select
+      value={isRegistered ? activeDatasetId! : ''}
+      onChange={handleChange}
+      disabled={disabled || datasets.length === 0}
+      aria-label="Dataset"
+      className="flex-1 sm:flex-none px-2 sm:px-3 py-2 text-xs sm:text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:border-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50"
+    >
+      {!isRegistered && (
+        <option value="" disabled>
+          {activeDatasetId === 'upload'
+            ? 'Imported file'
+            : activeDatasetId === 'generated'
+              ? 'Generated sample'
+              : 'Select dataset...'}
+        </option>
+      )}
+      {datasets.map(dataset => (
+        <option key={dataset.id} value={dataset.id}>
+          {dataset.name} ({dataset.rowCount.toLocaleString()} rows)
+        </option>
+      ))}
+    </select>
+  );
+};
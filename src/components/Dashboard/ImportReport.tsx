@@ -0,0 +1,86 @@
+'use client';
+
+import React, { useState } from 'react';
+import { CSVParseError } from '@/utils/csvParser';
+
+export interface ImportSummary {
+  fileName: string;
+  rowCount: number;
+  columnCount: number;
+  skippedRows: number;
+  errors: CSVParseError[];
+  errorCount: number;
+  failed?: string; // Fatal error message when nothing could be imported
+}
+
+interface ImportReportProps {
+  summary: ImportSummary;
+  onDismiss: () => void;
+}
+
+export const ImportReport: React.FC<ImportReportProps> = ({ summary, onDismiss }) => {
+  const [showErrors, setShowErrors] = useState(false);
+  const hasIssues = summary.errorCount > 0 || !!summary.failed;
+
+  const tone = summary.failed
+    ? 'bg-red-50 border-red-200 text-red-800'
+    : hasIssues
+      ? 'bg-yellow-50 border-yellow-200 text-yellow-800'
+      : 'bg-green-50 border-green-200 text-green-800';
+
+  return (
+    <div className={`border rounded-lg px-4 py-3 text-sm ${tone}`}>
+      <div className="flex items-start justify-between">
+        <div>
+          {summary.failed ? (
+            <span>
+              <span className="font-medium">Import failed:</span> {summary.fileName} — {summary.failed}
+            </span>
+          ) : (
+            <span>
+              <span className="font-medium">Imported {summary.fileName}:</span>{' '}
+              {summary.rowCount.toLocaleString()} rows, {summary.columnCount} columns
+              {summary.skippedRows > 0 && `, ${summary.skippedRows.toLocaleString()} rows skipped`}
+              {summary.errorCount > 0 && `, ${summary.errorCount.toLocaleString()} parse errors`}
+            </span>
+          )}
+        </div>
+        <div className="flex items-center space-x-3 ml-4 flex-shrink-0">
+          {summary.errors.length > 0 && (
+            <button
+              type="button"
+              onClick={() => setShowErrors(!showErrors)}
+              className="text-xs font-medium underline"
+            >
+              {showErrors ? 'Hide details' : 'Show details'}
+            </button>
+          )}
+          <button
+            type="button"
+            onClick={onDismiss}
+            className="opacity-60 hover:opacity-100"
+            aria-label="Dismiss import report"
+          >
+            ✕
+          </button>
+        </div>
+      </div>
+
+      {showErrors && (
+        <ul className="mt-2 max-h-40 overflow-y-auto space-y-1 text-xs font-mono">
+          {summary.errors.map((error, index) => (
+            <li key={index}>
+              {error.row !== undefined ? `Row ${error.row}: ` : ''}
+              {error.message} <span className="opacity-60">({error.code})</span>
+            </li>
+          ))}
+          {summary.errorCount > summary.errors.length && (
+            <li className="italic">
+              …and {(summary.errorCount - summary.errors.length).toLocaleString()} more
+            </li>
+          )}
+        </ul>
+      )}
+    </div>
+  );
+};
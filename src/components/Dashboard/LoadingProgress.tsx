@@ -9,6 +9,9 @@ interface LoadingProgressProps {
   stage?: string;
   totalRecords?: number;
   processedRecords?: number;
+  bytesRead?: number;
+  totalBytes?: number;
+  onCancel?: () => void;
 }
 
 export const LoadingProgress: React.FC<LoadingProgressProps> = ({
@@ -17,7 +20,10 @@ export const LoadingProgress: React.FC<LoadingProgressProps> = ({
   estimatedTime,
   stage = "Processing",
   totalRecords,
-  processedRecords
+  processedRecords,
+  bytesRead,
+  totalBytes,
+  onCancel
 }) => {
   const formatTime = (seconds: number): string => {
     if (seconds < 60) return `${seconds}s`;
@@ -30,6 +36,11 @@ export const LoadingProgress: React.FC<LoadingProgressProps> = ({
     return new Intl.NumberFormat().format(num);
   };
 
+  const formatBytes = (bytes: number): string => {
+    if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+    return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+  };
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-slate-50 via-blue-50 to-indigo-100 flex items-center justify-center p-4">
       <div className="bg-white/90 backdrop-blur-xl border border-white/30 shadow-2xl rounded-2xl p-8 max-w-lg w-full mx-auto">
@@ -77,17 +88,29 @@ export const LoadingProgress: React.FC<LoadingProgressProps> = ({
 
           {/* Statistics Grid */}
           <div className="grid grid-cols-2 gap-4 py-4 border-t border-gray-100">
-            {totalRecords && processedRecords && (
+            {processedRecords !== undefined && (
               <div className="text-center">
                 <div className="text-lg font-semibold text-gray-900">
                   {formatNumber(processedRecords)}
                 </div>
                 <div className="text-xs text-gray-500">
-                  of {formatNumber(totalRecords)} records
+                  {totalRecords ? `of ${formatNumber(totalRecords)} records` : 'records parsed'}
                 </div>
               </div>
             )}
-            
+
+            {bytesRead !== undefined && totalBytes !== undefined && totalBytes > 0 && (
+              <div className="text-center">
+                <div className="text-lg font-semibold text-gray-900">
+                  {formatBytes(bytesRead)}
+                </div>
+                <div className="text-xs text-gray-500">
+                  of {formatBytes(totalBytes)} read
+                </div>
+              </div>
+            )}
+
+
             {estimatedTime && (
               <div className="text-center">
                 <div className="text-lg font-semibold text-gray-900">
@@ -116,6 +139,18 @@ export const LoadingProgress: React.FC<LoadingProgressProps> = ({
               Please wait while we process your data
             </span>
           </div>
+
+          {onCancel && (
+            <div className="flex justify-center pt-2">
+              <button
+                type="button"
+                onClick={onCancel}
+                className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+              >
+                Cancel
+              </button>
+            </div>
+          )}
         </div>
 
         {/* Footer */}
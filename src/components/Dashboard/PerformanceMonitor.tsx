@@ -1,6 +1,8 @@
 'use client';
 
 import React, { useState, useEffect, useMemo } from 'react';
+import { TableMemoryStats, measureHeapBytes } from '@/utils/columnStore';
+import { CacheReport, evictDataset, getCacheReports } from '@/utils/cacheRegistry';
 
 interface PerformanceMetrics {
   dataLoadTime: number;
@@ -14,12 +16,25 @@ interface PerformanceMonitorProps {
   dataSize: number;
   filteredSize: number;
   isVirtualScrollEnabled: boolean;
+  memoryStats?: TableMemoryStats | null;
+  // Measured heap released by the last load, see Dashboard; null where it can't be measured
+  releasedHeapBytes?: number | null;
+  // Marks the loaded dataset in the cache list
+  currentDatasetId?: string | null;
 }
 
+const formatBytes = (bytes: number): string => {
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+};
+
 export const PerformanceMonitor: React.FC<PerformanceMonitorProps> = ({
   dataSize,
   filteredSize,
   isVirtualScrollEnabled,
+  memoryStats = null,
+  releasedHeapBytes = null,
+  currentDatasetId = null,
 }) => {
   const [metrics, setMetrics] = useState<PerformanceMetrics>({
     dataLoadTime: 0,
@@ -30,6 +45,7 @@ export const PerformanceMonitor: React.FC<PerformanceMonitorProps> = ({
   });
 
   const [isVisible, setIsVisible] = useState(false);
+  const [cacheReports, setCacheReports] = useState<CacheReport[]>([]);
 
   // Calculate performance score
   const performanceScore = useMemo(() => {
@@ -82,10 +98,9 @@ export const PerformanceMonitor: React.FC<PerformanceMonitorProps> = ({
   // Monitor memory usage
   useEffect(() => {
     const updateMemoryUsage = () => {
-      if ('memory' in performance) {
-        const memory = (performance as Performance & { memory?: { usedJSHeapSize: number } }).memory;
-        const memoryUsage = memory ? Math.round(memory.usedJSHeapSize / 1024 / 1024) : 0; // MB
-        setMetrics(prev => ({ ...prev, memoryUsage }));
+      const heapBytes = measureHeapBytes();
+      if (heapBytes !== null) {
+        setMetrics(prev => ({ ...prev, memoryUsage: Math.round(heapBytes / 1024 / 1024) })); // MB
       }
     };
 
@@ -95,6 +110,34 @@ export const PerformanceMonitor: React.FC<PerformanceMonitorProps> = ({
     return () => clearInterval(interval);
   }, []);
 
+  // Cache registry snapshot while the panel is open
+  useEffect(() => {
+    if (!isVisible) return;
+
+    const updateCacheReports = () => setCacheReports(getCacheReports());
+    const interval = setInterval(updateCacheReports, 2000);
+    updateCacheReports();
+
+    return () => clearInterval(interval);
+  }, [isVisible]);
+
+  // Regroup the per-cache reports by dataset, current dataset first
+  const cachedDatasets = useMemo(() => {
+    const datasets = new Map<string, { name: string; entries: number }[]>();
+    cacheReports.forEach(report => {
+      Object.entries(report.datasets).forEach(([datasetId, entries]) => {
+        datasets.set(datasetId, [...(datasets.get(datasetId) ?? []), { name: report.name, entries }]);
+      });
+    });
+    return Array.from(datasets, ([datasetId, caches]) => ({ datasetId, caches }))
+      .sort((a, b) => Number(b.datasetId === currentDatasetId) - Number(a.datasetId === currentDatasetId));
+  }, [cacheReports, currentDatasetId]);
+
+  const handleEvict = (datasetId: string) => {
+    evictDataset(datasetId);
+    setCacheReports(getCacheReports());
+  };
+
   const getPerformanceColor = (score: number) => {
     if (score >= 80) return 'text-green-600';
     if (score >= 60) return 'text-yellow-600';
@@ -177,6 +220,66 @@ export const PerformanceMonitor: React.FC<PerformanceMonitorProps> = ({
         </div>
       </div>
 
+      {/* Column store vs. the row objects it replaced: the heap change is measured,
+          the two sizes come from estimateTableMemory */}
+      {memoryStats && memoryStats.rowObjectBytes > 0 && (
+        <div className="mb-4 bg-gray-50 rounded-lg p-3">
+          <div className="text-xs text-gray-500 mb-2">Data Memory</div>
+          <div className="space-y-1 text-sm">
+            <div className="flex items-center justify-between">
+              <span className="text-gray-600">Heap change on load</span>
+              <span className="font-mono font-medium text-gray-900">
+                {releasedHeapBytes === null
+                  ? 'not measured'
+                  : `${releasedHeapBytes >= 0 ? '-' : '+'}${formatBytes(Math.abs(releasedHeapBytes))}`}
+              </span>
+            </div>
+            <div className="flex items-center justify-between">
+              <span className="text-gray-600">Row objects (model)</span>
+              <span className="font-mono text-gray-500 line-through">{formatBytes(memoryStats.rowObjectBytes)}</span>
+            </div>
+            <div className="flex items-center justify-between">
+              <span className="text-gray-600">Columnar (model)</span>
+              <span className="font-mono text-gray-900">{formatBytes(memoryStats.columnarBytes)}</span>
+            </div>
+          </div>
+          <p className="mt-2 text-[11px] text-gray-400">
+            Heap change: used JS heap before the rows became columns vs. a few seconds later, including
+            the previous dataset; Chromium only. The model sizes come from V8 object sizes over sampled rows and
+            are not measurements.
+          </p>
+        </div>
+      )}
+
+      {/* Cache registry entries per dataset */}
+      {cachedDatasets.length > 0 && (
+        <div className="mb-4 bg-gray-50 rounded-lg p-3">
+          <div className="text-xs text-gray-500 mb-2">Cached Datasets</div>
+          <div className="space-y-1 text-sm">
+            {cachedDatasets.map(({ datasetId, caches }) => (
+              <div key={datasetId} className="flex items-center justify-between">
+                <span
+                  className="text-gray-600 truncate"
+                  title={caches.map(cache => `${cache.name}: ${cache.entries}`).join('\n')}
+                >
+                  <span className="font-mono">{datasetId}</span>
+                  {datasetId === currentDatasetId && <span className="text-green-600"> (current)</span>}
+                  <span className="text-gray-400"> · {caches.reduce((sum, cache) => sum + cache.entries, 0)} entries</span>
+                </span>
+                <button
+                  type="button"
+                  onClick={() => handleEvict(datasetId)}
+                  className="text-xs text-red-600 hover:text-red-800 font-medium"
+                  aria-label={`Evict cached entries for ${datasetId}`}
+                >
+                  Evict
+                </button>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
       {/* Status Indicators */}
       <div className="space-y-2">
         <div className="flex items-center justify-between text-sm">
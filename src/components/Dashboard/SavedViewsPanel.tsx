@@ -0,0 +1,198 @@
+'use client';
+
+import React, { useRef, useState } from 'react';
+import { useSavedViews } from '@/hooks/useSavedViews';
+import { SavedView } from '@/types';
+
+const SavedViewRow: React.FC<{
+  view: SavedView;
+  onApply: () => void;
+  onRename: (name: string) => void;
+  onDuplicate: () => void;
+  onDelete: () => void;
+}> = ({ view, onApply, onRename, onDuplicate, onDelete }) => {
+  const [isEditing, setIsEditing] = useState(false);
+  const [draftName, setDraftName] = useState(view.name);
+
+  const commitRename = () => {
+    setIsEditing(false);
+    if (draftName.trim() !== '' && draftName.trim() !== view.name) {
+      onRename(draftName);
+    } else {
+      setDraftName(view.name);
+    }
+  };
+
+  if (isEditing) {
+    return (
+      <li className="flex items-center px-2 py-1">
+        <input
+          type="text"
+          value={draftName}
+          onChange={(event) => setDraftName(event.target.value)}
+          onBlur={commitRename}
+          onKeyDown={(event) => {
+            if (event.key === 'Enter') commitRename();
+            if (event.key === 'Escape') {
+              setDraftName(view.name);
+              setIsEditing(false);
+            }
+          }}
+          className="flex-1 min-w-0 px-2 py-1 text-xs border border-blue-300 rounded-md focus:outline-none focus:ring-1 focus:ring-blue-500"
+          aria-label="View name"
+          autoFocus
+        />
+      </li>
+    );
+  }
+
+  return (
+    <li className="group flex items-center justify-between px-2 py-1 rounded-md hover:bg-gray-50">
+      <button
+        type="button"
+        onClick={onApply}
+        className="flex-1 min-w-0 text-left text-sm text-gray-700 hover:text-blue-700 truncate"
+        title={`Apply "${view.name}"`}
+      >
+        {view.name}
+      </button>
+      <div className="flex items-center space-x-1 ml-2 opacity-0 group-hover:opacity-100 focus-within:opacity-100">
+        <button
+          type="button"
+          onClick={() => setIsEditing(true)}
+          className="text-xs text-gray-500 hover:text-blue-600"
+        >
+          Rename
+        </button>
+        <button
+          type="button"
+          onClick={onDuplicate}
+          className="text-xs text-gray-500 hover:text-blue-600"
+        >
+          Copy
+        </button>
+        <button
+          type="button"
+          onClick={onDelete}
+          className="text-xs text-gray-500 hover:text-red-600"
+          aria-label={`Delete "${view.name}"`}
+        >
+          ✕
+        </button>
+      </div>
+    </li>
+  );
+};
+
+// Save the current filters, sort and column layout under a name
+export const SavedViewsPanel: React.FC = () => {
+  const {
+    views,
+    error,
+    isAvailable,
+    saveCurrentView,
+    renameView,
+    duplicateView,
+    removeView,
+    applyView,
+    exportViews,
+    importViews,
+  } = useSavedViews();
+  const [name, setName] = useState('');
+  const [importSummary, setImportSummary] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  if (!isAvailable) {
+    return null;
+  }
+
+  const handleSave = (event: React.FormEvent) => {
+    event.preventDefault();
+    if (name.trim() === '') return;
+    saveCurrentView(name);
+    setName('');
+  };
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    setImportSummary(await importViews(file));
+  };
+
+  return (
+    <div className="flex flex-col space-y-2">
+      <div className="flex items-center justify-between">
+        <label className="text-sm font-medium text-gray-700 dark:text-gray-300">
+          Saved Views
+        </label>
+        <div className="flex items-center space-x-2">
+          <button
+            type="button"
+            onClick={() => fileInputRef.current?.click()}
+            className="text-xs text-blue-600 hover:text-blue-800 font-medium"
+          >
+            Import
+          </button>
+          <button
+            type="button"
+            onClick={exportViews}
+            disabled={views.length === 0}
+            className="text-xs text-blue-600 hover:text-blue-800 font-medium disabled:text-gray-400"
+          >
+            Export
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".json,application/json"
+            onChange={handleImport}
+            className="hidden"
+          />
+        </div>
+      </div>
+
+      <form onSubmit={handleSave} className="flex items-center space-x-1">
+        <input
+          type="text"
+          value={name}
+          onChange={(event) => setName(event.target.value)}
+          placeholder="Name this view..."
+          className="flex-1 min-w-0 px-2 py-1 text-xs border border-gray-300 rounded-md focus:outline-none focus:ring-1 focus:ring-blue-500"
+          aria-label="New view name"
+        />
+        <button
+          type="submit"
+          disabled={name.trim() === ''}
+          className="px-2 py-1 text-xs font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50"
+        >
+          Save
+        </button>
+      </form>
+
+      {views.length > 0 ? (
+        <ul className="max-h-48 overflow-y-auto">
+          {views.map(view => (
+            <SavedViewRow
+              key={view.id}
+              view={view}
+              onApply={() => applyView(view)}
+              onRename={(nextName) => renameView(view, nextName)}
+              onDuplicate={() => duplicateView(view)}
+              onDelete={() => removeView(view)}
+            />
+          ))}
+        </ul>
+      ) : (
+        <div className="text-xs text-gray-500">No saved views for this dataset layout yet.</div>
+      )}
+
+      {importSummary && (
+        <div className="text-xs text-gray-600">{importSummary}</div>
+      )}
+      {error && (
+        <div className="text-xs text-red-600">{error}</div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,159 @@
+'use client';
+
+import React, { useEffect } from 'react';
+import { ColumnConfig, ColumnSchema, SchemaOverride, SchemaOverrides } from '@/types';
+import { INFERRED_TYPE_LABELS } from '@/utils/schemaInference';
+import { COLUMN_TYPE_LABELS, applySchemaOverrides, getAllowedTypes, updateSchemaOverride } from '@/utils/schemaOverrides';
+
+// Confidence below this is flagged, so doubtful guesses stand out
+const LOW_CONFIDENCE = 0.9;
+
+interface SchemaEditorProps {
+  schema: ColumnSchema[];
+  // Inferred columns, before the overrides
+  columns: ColumnConfig[];
+  overrides: SchemaOverrides;
+  onChange: (overrides: SchemaOverrides) => void;
+  onClose: () => void;
+}
+
+// Inferred type of every column with its confidence, and the user's type,
+// label and filterability changes on top
+export const SchemaEditor: React.FC<SchemaEditorProps> = ({ schema, columns, overrides, onChange, onClose }) => {
+  const effective = applySchemaOverrides(columns, overrides);
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  return (
+    <div className="fixed inset-0 bg-gray-500 bg-opacity-75 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-lg max-w-3xl w-full max-h-[90vh] flex flex-col" role="dialog" aria-label="Schema">
+        <div className="flex items-center justify-between px-6 py-4 border-b border-gray-200">
+          <div>
+            <h3 className="text-lg font-medium text-gray-900">Schema</h3>
+            <p className="text-xs text-gray-500">
+              Changes are saved in this browser for every dataset with these columns
+            </p>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-500">
+            <span className="sr-only">Close</span>
+            <svg className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="overflow-y-auto">
+          <table className="min-w-full text-sm">
+            <thead className="sticky top-0 bg-gray-50 text-xs text-gray-500 uppercase tracking-wider">
+              <tr>
+                <th scope="col" className="px-4 py-2 text-left font-medium">Column</th>
+                <th scope="col" className="px-4 py-2 text-left font-medium">Detected</th>
+                <th scope="col" className="px-4 py-2 text-left font-medium">Type</th>
+                <th scope="col" className="px-4 py-2 text-left font-medium">Label</th>
+                <th scope="col" className="px-4 py-2 text-left font-medium">Filter</th>
+                <th scope="col" className="px-4 py-2" />
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {columns.map((column, index) => {
+                const inferred = schema.find(item => item.key === column.key);
+                const current = effective[index];
+                const update = (changes: SchemaOverride) => {
+                  onChange(updateSchemaOverride(overrides, column, changes));
+                };
+                return (
+                  <tr key={column.key} className={overrides[column.key] ? 'bg-blue-50' : undefined}>
+                    <td className="px-4 py-2 font-mono text-xs text-gray-700">{column.key}</td>
+                    <td className="px-4 py-2 whitespace-nowrap">
+                      {inferred && (
+                        <span
+                          title={`From ${inferred.sampleSize.toLocaleString()} sampled rows, ${inferred.presentCount.toLocaleString()} with a value`}
+                        >
+                          {INFERRED_TYPE_LABELS[inferred.inferredType]}{' '}
+                          <span className={inferred.confidence < LOW_CONFIDENCE ? 'text-amber-600' : 'text-gray-400'}>
+                            {Math.round(inferred.confidence * 100)}%
+                          </span>
+                        </span>
+                      )}
+                    </td>
+                    <td className="px-4 py-2">
+                      <select
+                        value={current.type}
+                        onChange={(event) => update({ type: event.target.value as ColumnConfig['type'] })}
+                        className="px-2 py-1 text-sm border border-gray-300 rounded-md"
+                        aria-label={`Type of ${column.key}`}
+                      >
+                        {getAllowedTypes(column).map(type => (
+                          <option key={type} value={type}>{COLUMN_TYPE_LABELS[type]}</option>
+                        ))}
+                      </select>
+                    </td>
+                    <td className="px-4 py-2">
+                      {/* Committed on blur; keyed so a reset shows the inferred label again */}
+                      <input
+                        key={current.label}
+                        type="text"
+                        defaultValue={current.label}
+                        onBlur={(event) => {
+                          if (event.target.value.trim() === '') event.target.value = column.label;
+                          update({ label: event.target.value });
+                        }}
+                        onKeyDown={(event) => {
+                          if (event.key === 'Enter') event.currentTarget.blur();
+                        }}
+                        className="w-full min-w-[8rem] px-2 py-1 text-sm border border-gray-300 rounded-md"
+                        aria-label={`Label of ${column.key}`}
+                      />
+                    </td>
+                    <td className="px-4 py-2 text-center">
+                      <input
+                        type="checkbox"
+                        checked={current.filterable}
+                        onChange={(event) => update({ filterable: event.target.checked })}
+                        aria-label={`Filter by ${column.key}`}
+                      />
+                    </td>
+                    <td className="px-4 py-2 text-right">
+                      {overrides[column.key] && (
+                        <button
+                          type="button"
+                          onClick={() => update({ type: column.type, label: column.label, filterable: column.filterable })}
+                          className="text-xs text-blue-600 hover:text-blue-800 font-medium"
+                        >
+                          Reset
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+
+        <div className="flex items-center justify-between px-6 py-3 border-t border-gray-200">
+          <button
+            type="button"
+            onClick={() => onChange({})}
+            disabled={Object.keys(overrides).length === 0}
+            className="text-sm text-red-600 hover:text-red-800 font-medium disabled:opacity-50"
+          >
+            Reset all
+          </button>
+          <button
+            onClick={onClose}
+            className="inline-flex justify-center items-center px-4 py-2 text-sm font-medium text-white bg-blue-600 border border-transparent rounded-md hover:bg-blue-700"
+          >
+            Done
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -4,6 +4,7 @@ import React, { useState, useMemo, useCallback } from 'react';
 import { ColumnConfig } from '@/types';
 
 import { DataRow } from '@/types';
+import { getDefaultColumnWidth } from '@/utils/columnLayout';
 
 interface ChunkedDataTableProps {
   data: DataRow[];
@@ -106,13 +107,12 @@ export const ChunkedDataTable: React.FC<ChunkedDataTableProps> = ({
     <div className="flex flex-col h-full">
       {/* Table Header */}
       <div className="bg-gray-50 dark:bg-gray-800 border-b border-gray-200 dark:border-gray-700">
-        <div className="grid grid-cols-12 gap-4 px-6 py-4">
+        <div className="flex px-6 py-4">
           {columns.map((column) => (
             <div
               key={column.key}
-              className={`font-semibold text-sm text-gray-900 dark:text-gray-100 ${
-                column.width ? `col-span-${column.width}` : 'col-span-1'
-              }`}
+              style={{ width: getDefaultColumnWidth(column), flex: 'none' }}
+              className="pr-4 truncate font-semibold text-sm text-gray-900 dark:text-gray-100"
             >
               {column.label}
             </div>
@@ -138,14 +138,13 @@ export const ChunkedDataTable: React.FC<ChunkedDataTableProps> = ({
             {currentChunkData.map((row, index) => (
               <div
                 key={row.id || index}
-                className="grid grid-cols-12 gap-4 px-6 py-3 hover:bg-gray-50 dark:hover:bg-gray-800 transition-colors"
+                className="flex px-6 py-3 hover:bg-gray-50 dark:hover:bg-gray-800 transition-colors"
               >
                 {columns.map((column) => (
                   <div
                     key={column.key}
-                    className={`text-sm text-gray-900 dark:text-gray-100 ${
-                      column.width ? `col-span-${column.width}` : 'col-span-1'
-                    }`}
+                    style={{ width: getDefaultColumnWidth(column), flex: 'none' }}
+                    className="pr-4 truncate text-sm text-gray-900 dark:text-gray-100"
                   >
                     {column.render ? column.render(row[column.key], row) : String(row[column.key] || '')}
                   </div>
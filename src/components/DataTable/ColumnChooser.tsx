@@ -0,0 +1,82 @@
+'use client';
+
+import React from 'react';
+import { ColumnConfig, ColumnLayout } from '@/types';
+import { arrangeColumns, setColumnVisible, toggleColumnPinned } from '@/utils/columnLayout';
+
+interface ColumnChooserProps {
+  columns: ColumnConfig[];
+  layout: ColumnLayout;
+  onChange: (changes: Partial<ColumnLayout>) => void;
+}
+
+// Show / hide and pin columns; shown ones are listed in display order. Headers
+// are dragged to reorder and their edges to resize.
+export const ColumnChooser: React.FC<ColumnChooserProps> = ({ columns, layout, onChange }) => {
+  const shown = arrangeColumns(columns, layout);
+  const hidden = columns.filter(column => !shown.includes(column));
+
+  return (
+    <div className="px-4 py-3 border-b border-gray-200 bg-white">
+      <div className="flex items-center justify-between mb-2">
+        <span className="text-xs text-gray-500">
+          {shown.length} of {columns.length} columns shown. Drag headers to reorder, drag their edges to resize.
+        </span>
+        <div className="flex items-center space-x-3">
+          {hidden.length > 0 && (
+            <button
+              type="button"
+              onClick={() => onChange({ visibleColumns: null })}
+              className="text-xs text-blue-600 hover:text-blue-800 font-medium"
+            >
+              Show all
+            </button>
+          )}
+          <button
+            type="button"
+            onClick={() => onChange({ visibleColumns: null, widths: {}, pinned: [] })}
+            className="text-xs text-red-600 hover:text-red-800 font-medium"
+          >
+            Reset layout
+          </button>
+        </div>
+      </div>
+
+      <ul className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-4 gap-x-4 gap-y-1">
+        {[...shown, ...hidden].map(column => {
+          const isShown = shown.includes(column);
+          const isPinned = isShown && layout.pinned.includes(column.key);
+          return (
+            <li key={column.key} className="flex items-center justify-between text-sm">
+              <label className="flex items-center space-x-2 min-w-0">
+                <input
+                  type="checkbox"
+                  checked={isShown}
+                  // The table always keeps one column
+                  disabled={isShown && shown.length === 1}
+                  onChange={(event) => onChange(setColumnVisible(columns, layout, column.key, event.target.checked))}
+                  className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                />
+                <span className={`truncate ${isShown ? 'text-gray-900' : 'text-gray-400'}`}>{column.label}</span>
+              </label>
+              {isShown && (
+                <button
+                  type="button"
+                  onClick={() => onChange({ pinned: toggleColumnPinned(layout, column.key) })}
+                  className={`ml-2 px-1.5 text-xs rounded border ${
+                    isPinned ? 'border-blue-500 bg-blue-50 text-blue-700' : 'border-gray-200 text-gray-500 hover:bg-gray-50'
+                  }`}
+                  aria-pressed={isPinned}
+                  aria-label={`${isPinned ? 'Unpin' : 'Pin'} ${column.label}`}
+                  title={isPinned ? 'Unpin column' : 'Pin column to the left edge'}
+                >
+                  {isPinned ? 'Pinned' : 'Pin'}
+                </button>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+};
@@ -0,0 +1,71 @@
+'use client';
+
+import React, { useEffect, useRef } from 'react';
+import { clampColumnWidth } from '@/utils/columnLayout';
+
+interface ColumnResizeHandleProps {
+  width: number;
+  label: string;
+  // Live width while dragging
+  onResize: (width: number) => void;
+  // Final width on release
+  onResizeEnd: (width: number) => void;
+}
+
+const KEYBOARD_STEP = 16;
+
+// Drag handle on a header's right edge. Mouse down is not allowed to bubble or
+// default, so it neither sorts the column nor starts a header drag.
+export const ColumnResizeHandle: React.FC<ColumnResizeHandleProps> = ({ width, label, onResize, onResizeEnd }) => {
+  const cleanupRef = useRef<(() => void) | null>(null);
+
+  useEffect(() => () => cleanupRef.current?.(), []);
+
+  const handleMouseDown = (event: React.MouseEvent) => {
+    event.preventDefault();
+    event.stopPropagation();
+
+    const startX = event.clientX;
+    let current = width;
+
+    const handleMove = (moveEvent: MouseEvent) => {
+      current = clampColumnWidth(width + moveEvent.clientX - startX);
+      onResize(current);
+    };
+    const handleUp = () => {
+      cleanup();
+      onResizeEnd(current);
+    };
+    const cleanup = () => {
+      window.removeEventListener('mousemove', handleMove);
+      window.removeEventListener('mouseup', handleUp);
+      document.body.style.cursor = '';
+      cleanupRef.current = null;
+    };
+
+    window.addEventListener('mousemove', handleMove);
+    window.addEventListener('mouseup', handleUp);
+    document.body.style.cursor = 'col-resize';
+    cleanupRef.current = cleanup;
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent) => {
+    if (event.key !== 'ArrowLeft' && event.key !== 'ArrowRight') return;
+    event.preventDefault();
+    onResizeEnd(clampColumnWidth(width + (event.key === 'ArrowRight' ? KEYBOARD_STEP : -KEYBOARD_STEP)));
+  };
+
+  return (
+    <div
+      role="separator"
+      aria-orientation="vertical"
+      aria-label={`Resize ${label}`}
+      aria-valuenow={width}
+      tabIndex={0}
+      onMouseDown={handleMouseDown}
+      onClick={(event) => event.stopPropagation()}
+      onKeyDown={handleKeyDown}
+      className="absolute top-0 right-0 h-full w-1.5 cursor-col-resize hover:bg-blue-300 focus:bg-blue-400 focus:outline-none"
+    />
+  );
+};
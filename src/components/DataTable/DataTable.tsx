@@ -1,24 +1,52 @@
 'use client';
 
 import React, { useState, useMemo } from 'react';
-import { DataRow, ColumnConfig } from '@/types';
+import { DataRow, ColumnConfig, ColumnLayout, GroupingState, SortState } from '@/types';
 import { Pagination } from './Pagination';
 import { VirtualScroll } from './VirtualScroll';
+import { SortPanel } from './SortPanel';
+import { ColumnChooser } from './ColumnChooser';
+import { ColumnResizeHandle } from './ColumnResizeHandle';
+import { GroupByPanel } from './GroupByPanel';
+import { GroupedTable } from './GroupedTable';
 import { usePagination } from '@/hooks/usePagination';
-import { sortDataOptimized } from '@/utils/dataProcessing';
+import { appendSortKey, sortRows, toggleSortKey } from '@/utils/multiSort';
+import { EMPTY_GROUPING } from '@/utils/grouping';
+import {
+  EMPTY_COLUMN_LAYOUT,
+  arrangeColumns,
+  getColumnWidth,
+  getPinnedOffsets,
+  moveColumn,
+} from '@/utils/columnLayout';
+import { SearchTerm } from '@/utils/textSearch';
+import { formatDateValue } from '@/utils/dateColumns';
+import { HighlightedText } from './HighlightedText';
 
 interface DataTableProps {
   data: DataRow[];
+  // Every column of the dataset; the layout decides which are shown and where
   columns: ColumnConfig[];
   enableVirtualScroll?: boolean;
   virtualScrollHeight?: number;
-}
-
-type SortDirection = 'asc' | 'desc' | null;
-
-interface SortState {
-  column: string | null;
-  direction: SortDirection;
+  // Optional controlled view state; the table manages its own when omitted
+  sortState?: SortState;
+  onSortChange?: (sort: SortState) => void;
+  // Rows already arrive in sortState order (the dashboard sorts in the filter worker)
+  isPresorted?: boolean;
+  currentPage?: number;
+  pageSize?: number | null;
+  onPageChange?: (page: number) => void;
+  onPageSizeChange?: (pageSize: number) => void;
+  columnLayout?: ColumnLayout;
+  onColumnLayoutChange?: (changes: Partial<ColumnLayout>) => void;
+  // Group-by over the given rows; non-empty group columns replace the flat rows
+  grouping?: GroupingState;
+  onGroupingChange?: (grouping: GroupingState) => void;
+  // Parsed global search; matching text is marked in the cells
+  highlightTerms?: SearchTerm[];
+  // Adds a profile button to each header
+  onProfileColumn?: (column: string) => void;
 }
 
 export const DataTable: React.FC<DataTableProps> = ({
@@ -26,20 +54,53 @@ export const DataTable: React.FC<DataTableProps> = ({
   columns,
   enableVirtualScroll = false,
   virtualScrollHeight = 600,
+  sortState: controlledSortState,
+  onSortChange,
+  isPresorted = false,
+  currentPage,
+  pageSize,
+  onPageChange,
+  onPageSizeChange,
+  columnLayout: controlledLayout,
+  onColumnLayoutChange,
+  grouping: controlledGrouping,
+  onGroupingChange,
+  highlightTerms,
+  onProfileColumn,
 }) => {
-  const [sortState, setSortState] = useState<SortState>({
-    column: null,
-    direction: null,
-  });
-
-  // Sort data based on current sort state with performance optimization
-  const sortedData = useMemo(() => {
-    if (!sortState.column || !sortState.direction) {
-      return data;
-    }
-    
-    return sortDataOptimized(data, sortState.column, sortState.direction);
-  }, [data, sortState]);
+  const [localSortState, setLocalSortState] = useState<SortState>([]);
+  const [isSortPanelOpen, setIsSortPanelOpen] = useState(false);
+  const sortState = controlledSortState ?? localSortState;
+
+  const [localLayout, setLocalLayout] = useState<ColumnLayout>(EMPTY_COLUMN_LAYOUT);
+  const [isColumnChooserOpen, setIsColumnChooserOpen] = useState(false);
+  // Width of the column being resized, ahead of the layout until release
+  const [draftWidths, setDraftWidths] = useState<Record<string, number>>({});
+  const [draggedColumn, setDraggedColumn] = useState<string | null>(null);
+  const layout = controlledLayout ?? localLayout;
+
+  const [localGrouping, setLocalGrouping] = useState<GroupingState>(EMPTY_GROUPING);
+  const [isGroupPanelOpen, setIsGroupPanelOpen] = useState(false);
+  const grouping = controlledGrouping ?? localGrouping;
+  const isGrouped = grouping.columns.length > 0;
+
+  const shownColumns = useMemo(() => arrangeColumns(columns, layout), [columns, layout]);
+  const columnWidths = useMemo(() => {
+    const widths = { ...layout.widths, ...draftWidths };
+    return Object.fromEntries(shownColumns.map(column => [column.key, getColumnWidth(column, widths)]));
+  }, [shownColumns, layout.widths, draftWidths]);
+  const pinnedOffsets = useMemo(
+    () => getPinnedOffsets(shownColumns, { ...layout, widths: columnWidths }),
+    [shownColumns, layout, columnWidths]
+  );
+  const lastPinnedColumn = Object.keys(pinnedOffsets).pop();
+  const tableWidth = shownColumns.reduce((sum, column) => sum + columnWidths[column.key], 0);
+
+  // Multi-key sort; ranks are computed once per key so ties stay cheap
+  const sortedData = useMemo(
+    () => (isPresorted ? data : sortRows(data, sortState, columns)),
+    [data, sortState, columns, isPresorted]
+  );
 
   // Adjust page size based on dataset size for better performance
   const getOptimalPageSize = (dataLength: number) => {
@@ -53,35 +114,44 @@ export const DataTable: React.FC<DataTableProps> = ({
     goToPage,
     changePageSize,
     getPaginatedData,
-  } = usePagination(sortedData.length, getOptimalPageSize(sortedData.length));
+  } = usePagination(
+    sortedData.length,
+    getOptimalPageSize(sortedData.length),
+    onPageChange && onPageSizeChange
+      ? {
+          currentPage: currentPage ?? 1,
+          pageSize: pageSize ?? getOptimalPageSize(sortedData.length),
+          onPageChange,
+          onPageSizeChange,
+        }
+      : undefined
+  );
 
   const paginatedData = useMemo(() => {
     return enableVirtualScroll ? sortedData : getPaginatedData(sortedData);
   }, [sortedData, getPaginatedData, enableVirtualScroll]);
 
-  const handleSort = (column: string) => {
-    setSortState(prev => {
-      if (prev.column === column) {
-        // Cycle through: asc -> desc -> null
-        const newDirection: SortDirection = 
-          prev.direction === 'asc' ? 'desc' : 
-          prev.direction === 'desc' ? null : 'asc';
-        
-        return {
-          column: newDirection ? column : null,
-          direction: newDirection,
-        };
-      } else {
-        return {
-          column,
-          direction: 'asc',
-        };
-      }
-    });
+  const changeSort = (next: SortState) => {
+    if (onSortChange) {
+      onSortChange(next);
+    } else {
+      setLocalSortState(next);
+    }
+  };
+
+  // Shift+click adds a secondary key instead of replacing the sort
+  const handleSort = (column: string, event: React.MouseEvent) => {
+    changeSort(event.shiftKey ? appendSortKey(sortState, column) : toggleSortKey(sortState, column));
   };
 
   const getSortIcon = (column: string) => {
-    if (sortState.column !== column) {
+    const position = sortState.findIndex(key => key.column === column);
+    const direction = position === -1 ? null : sortState[position].direction;
+    const priority = sortState.length > 1 && position !== -1 && (
+      <span className="mr-0.5 text-[10px] font-semibold text-blue-600">{position + 1}</span>
+    );
+
+    if (!direction) {
       return (
         <svg className="w-4 h-4 text-gray-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
           <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 9l4-4 4 4m0 6l-4 4-4-4" />
@@ -89,25 +159,254 @@ export const DataTable: React.FC<DataTableProps> = ({
       );
     }
 
-    if (sortState.direction === 'asc') {
+    if (direction === 'asc') {
       return (
-        <svg className="w-4 h-4 text-blue-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 15l7-7 7 7" />
-        </svg>
+        <span className="flex items-center">
+          {priority}
+          <svg className="w-4 h-4 text-blue-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 15l7-7 7 7" />
+          </svg>
+        </span>
       );
     }
 
-    if (sortState.direction === 'desc') {
-      return (
+    return (
+      <span className="flex items-center">
+        {priority}
         <svg className="w-4 h-4 text-blue-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
           <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
         </svg>
-      );
+      </span>
+    );
+  };
+
+  const changeLayout = (changes: Partial<ColumnLayout>) => {
+    if (onColumnLayoutChange) {
+      onColumnLayoutChange(changes);
+    } else {
+      setLocalLayout(prev => ({ ...prev, ...changes }));
     }
+  };
+
+  // Pinned cells stick to the left edge; the last one draws the divider
+  const getPinnedProps = (column: ColumnConfig, background: string) => {
+    if (!(column.key in pinnedOffsets)) return { className: '', style: undefined };
+    return {
+      className: `sticky ${background} ${column.key === lastPinnedColumn ? 'border-r border-gray-200' : ''}`,
+      style: { left: pinnedOffsets[column.key] },
+    };
+  };
+
+  // Header content shared by both table modes: click sorts, dragging the
+  // header reorders and dragging its right edge resizes
+  const renderHeader = (column: ColumnConfig) => (
+    <div
+      draggable
+      onDragStart={(event) => {
+        event.dataTransfer.effectAllowed = 'move';
+        event.dataTransfer.setData('text/plain', column.key);
+        setDraggedColumn(column.key);
+      }}
+      onDragOver={(event) => {
+        if (draggedColumn && draggedColumn !== column.key) event.preventDefault();
+      }}
+      onDrop={(event) => {
+        event.preventDefault();
+        if (draggedColumn) changeLayout(moveColumn(columns, layout, draggedColumn, column.key));
+        setDraggedColumn(null);
+      }}
+      onDragEnd={() => setDraggedColumn(null)}
+      onClick={(event) => handleSort(column.key, event)}
+      title="Click to sort, shift+click to add as a secondary sort, drag to move"
+      className={`relative flex items-center justify-between h-full px-6 py-3 cursor-pointer select-none hover:bg-gray-100 ${
+        draggedColumn === column.key ? 'opacity-50' : ''
+      }`}
+    >
+      <span className="truncate hover:text-gray-700">
+        {column.label}
+      </span>
+      <div className="ml-2 flex flex-shrink-0 items-center">
+        {onProfileColumn && (
+          <button
+            type="button"
+            onClick={(event) => {
+              event.stopPropagation();
+              onProfileColumn(column.key);
+            }}
+            className="mr-1 px-1 normal-case text-gray-400 hover:text-blue-600"
+            title={`Profile ${column.label}`}
+            aria-label={`Profile ${column.label}`}
+          >
+            ⓘ
+          </button>
+        )}
+        {getSortIcon(column.key)}
+      </div>
+      <ColumnResizeHandle
+        width={columnWidths[column.key]}
+        label={column.label}
+        onResize={(width) => setDraftWidths({ [column.key]: width })}
+        onResizeEnd={(width) => {
+          setDraftWidths({});
+          changeLayout({ widths: { ...layout.widths, [column.key]: width } });
+        }}
+      />
+    </div>
+  );
+
+  const columnsToggle = (
+    <button
+      type="button"
+      onClick={() => setIsColumnChooserOpen(open => !open)}
+      className={`px-2 py-1 text-sm rounded-md border ${
+        isColumnChooserOpen || layout.visibleColumns !== null
+          ? 'border-blue-500 text-blue-700 bg-blue-50'
+          : 'border-gray-300 text-gray-600 hover:bg-gray-100'
+      }`}
+      aria-expanded={isColumnChooserOpen}
+    >
+      Columns{layout.visibleColumns !== null ? ` (${shownColumns.length}/${columns.length})` : ''}
+    </button>
+  );
+
+  const columnChooser = isColumnChooserOpen && (
+    <ColumnChooser columns={columns} layout={layout} onChange={changeLayout} />
+  );
 
-    return null;
+  const sortToggle = (
+    <button
+      type="button"
+      onClick={() => setIsSortPanelOpen(open => !open)}
+      className={`px-2 py-1 text-sm rounded-md border ${
+        isSortPanelOpen || sortState.length > 0
+          ? 'border-blue-500 text-blue-700 bg-blue-50'
+          : 'border-gray-300 text-gray-600 hover:bg-gray-100'
+      }`}
+      aria-expanded={isSortPanelOpen}
+    >
+      Sort{sortState.length > 0 ? ` (${sortState.length})` : ''}
+    </button>
+  );
+
+  const sortPanel = isSortPanelOpen && (
+    <SortPanel sort={sortState} columns={columns} onChange={changeSort} />
+  );
+
+  const changeGrouping = (next: GroupingState) => {
+    if (onGroupingChange) {
+      onGroupingChange(next);
+    } else {
+      setLocalGrouping(next);
+    }
   };
 
+  const groupToggle = (
+    <button
+      type="button"
+      onClick={() => setIsGroupPanelOpen(open => !open)}
+      className={`px-2 py-1 text-sm rounded-md border ${
+        isGroupPanelOpen || isGrouped
+          ? 'border-blue-500 text-blue-700 bg-blue-50'
+          : 'border-gray-300 text-gray-600 hover:bg-gray-100'
+      }`}
+      aria-expanded={isGroupPanelOpen}
+    >
+      Group{isGrouped ? ` (${grouping.columns.length})` : ''}
+    </button>
+  );
+
+  const groupPanel = isGroupPanelOpen && (
+    <GroupByPanel grouping={grouping} columns={columns} onChange={changeGrouping} />
+  );
+
+  // Column widths and header row; fixed layout so widths and pinned offsets are exact
+  const tableHead = (
+    <>
+      <colgroup>
+        {shownColumns.map((column) => (
+          <col key={column.key} style={{ width: columnWidths[column.key] }} />
+        ))}
+      </colgroup>
+      <thead className="bg-gray-50">
+        <tr>
+          {shownColumns.map((column) => {
+            const pinned = getPinnedProps(column, 'z-20 bg-gray-50');
+            return (
+              <th
+                key={column.key}
+                scope="col"
+                className={`p-0 text-left text-xs font-medium text-gray-500 uppercase tracking-wider ${pinned.className}`}
+                style={pinned.style}
+              >
+                {renderHeader(column)}
+              </th>
+            );
+          })}
+        </tr>
+      </thead>
+    </>
+  );
+
+  const renderRow = (row: DataRow, key: string) => (
+    <tr
+      key={key}
+      className="group hover:bg-gray-50"
+    >
+      {shownColumns.map((column) => {
+        const pinned = getPinnedProps(column, 'z-10 bg-white group-hover:bg-gray-50');
+        return (
+          <td
+            key={column.key}
+            className={`px-6 py-4 whitespace-nowrap overflow-hidden text-ellipsis text-sm text-gray-900 ${pinned.className}`}
+            style={pinned.style}
+          >
+            {column.type === 'number' ? (
+              <span className="font-mono">
+                <HighlightedText
+                  text={typeof row[column.key] === 'number'
+                    ? row[column.key].toLocaleString()
+                    : String(row[column.key])
+                  }
+                  searchText={String(row[column.key])}
+                  column={column.key}
+                  terms={highlightTerms}
+                />
+              </span>
+            ) : column.type === 'date' ? (
+              <span className="tabular-nums">
+                <HighlightedText
+                  text={formatDateValue(row[column.key], column.dateFormat)}
+                  searchText={String(row[column.key])}
+                  column={column.key}
+                  terms={highlightTerms}
+                />
+              </span>
+            ) : (
+              <span>
+                <HighlightedText text={String(row[column.key])} column={column.key} terms={highlightTerms} />
+              </span>
+            )}
+          </td>
+        );
+      })}
+    </tr>
+  );
+
+  // Remounted when the group columns change so no stale groups stay open
+  const groupedTable = isGrouped && (
+    <GroupedTable
+      key={grouping.columns.join('\u0000')}
+      data={sortedData}
+      grouping={grouping}
+      columns={columns}
+      sort={sortState}
+      tableWidth={tableWidth}
+      columnCount={shownColumns.length}
+      head={tableHead}
+      renderRow={renderRow}
+    />
+  );
+
   if (data.length === 0) {
     return (
       <div className="bg-white border border-gray-200 rounded-lg p-8 text-center">
@@ -129,17 +428,31 @@ export const DataTable: React.FC<DataTableProps> = ({
         <div className="bg-gray-50 border-b border-gray-200 px-4 py-3">
           <div className="flex items-center justify-between">
             <h3 className="text-lg font-medium text-gray-900">Virtual Scroll Mode</h3>
-            <div className="text-sm text-gray-600">
-              Showing all {sortedData.length.toLocaleString()} rows
+            <div className="flex items-center space-x-4">
+              <div className="text-sm text-gray-600">
+                Showing all {sortedData.length.toLocaleString()} rows
+              </div>
+              {sortToggle}
+              {groupToggle}
+              {columnsToggle}
             </div>
           </div>
         </div>
+        {sortPanel}
+        {groupPanel}
+        {columnChooser}
         
-        <VirtualScroll
-          data={sortedData}
-          columns={columns}
-          containerHeight={virtualScrollHeight}
-        />
+        {isGrouped ? groupedTable : (
+          <VirtualScroll
+            data={sortedData}
+            columns={shownColumns}
+            columnWidths={columnWidths}
+            pinnedOffsets={pinnedOffsets}
+            renderHeader={renderHeader}
+            containerHeight={virtualScrollHeight}
+            highlightTerms={highlightTerms}
+          />
+        )}
       </div>
     );
   }
@@ -151,77 +464,51 @@ export const DataTable: React.FC<DataTableProps> = ({
         <div className="flex items-center justify-between">
           <h3 className="text-lg font-medium text-gray-900">Data Table</h3>
           <div className="flex items-center space-x-4">
-            <div className="text-sm text-gray-600">
-              Page {paginationState.currentPage} of {paginationState.totalPages}
-            </div>
-            <div className="text-sm font-medium text-blue-600">
-              {paginatedData.length} of {sortedData.length.toLocaleString()} rows
-            </div>
+            {isGrouped ? (
+              <div className="text-sm font-medium text-blue-600">
+                {sortedData.length.toLocaleString()} rows
+              </div>
+            ) : (
+              <>
+                <div className="text-sm text-gray-600">
+                  Page {paginationState.currentPage} of {paginationState.totalPages}
+                </div>
+                <div className="text-sm font-medium text-blue-600">
+                  {paginatedData.length} of {sortedData.length.toLocaleString()} rows
+                </div>
+              </>
+            )}
+            {sortToggle}
+            {groupToggle}
+            {columnsToggle}
           </div>
         </div>
       </div>
+      {sortPanel}
+      {groupPanel}
+      {columnChooser}
 
-      {/* Table */}
-      <div className="overflow-x-auto">
-        <table className="min-w-full divide-y divide-gray-200">
-          <thead className="bg-gray-50">
-            <tr>
-              {columns.map((column) => (
-                <th
-                  key={column.key}
-                  scope="col"
-                  className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider cursor-pointer hover:bg-gray-100"
-                  onClick={() => handleSort(column.key)}
-                >
-                  <div className="flex items-center justify-between">
-                    <span className="hover:text-gray-700">
-                      {column.label}
-                    </span>
-                    <div className="ml-2 flex-shrink-0">
-                      {getSortIcon(column.key)}
-                    </div>
-                  </div>
-                </th>
-              ))}
-            </tr>
-          </thead>
-          <tbody className="bg-white divide-y divide-gray-200">
-            {paginatedData.map((row, index) => (
-              <tr 
-                key={`${row.id || index}`} 
-                className="hover:bg-gray-50"
-              >
-                {columns.map((column) => (
-                  <td
-                    key={column.key}
-                    className="px-6 py-4 whitespace-nowrap text-sm text-gray-900"
-                  >
-                    {column.type === 'number' ? (
-                      <span className="font-mono">
-                        {typeof row[column.key] === 'number' 
-                          ? row[column.key].toLocaleString() 
-                          : String(row[column.key])
-                        }
-                      </span>
-                    ) : (
-                      <span>{String(row[column.key])}</span>
-                    )}
-                  </td>
-                ))}
-              </tr>
-            ))}
-          </tbody>
-        </table>
-      </div>
+      {isGrouped ? groupedTable : (
+        <>
+          <div className="overflow-x-auto">
+            <table className="table-fixed divide-y divide-gray-200" style={{ width: tableWidth }}>
+              {tableHead}
+              <tbody className="bg-white divide-y divide-gray-200">
+                {paginatedData.map((row, index) => renderRow(row, `${row.id || index}`))}
+              </tbody>
+            </table>
+          </div>
 
-      {/* Pagination */}
-      <div className="bg-gray-50 border-t border-gray-200">
-        <Pagination
-          paginationState={paginationState}
-          onPageChange={goToPage}
-          onPageSizeChange={changePageSize}
-        />
-      </div>
+          {/* Pagination */}
+          <div className="bg-gray-50 border-t border-gray-200">
+            <Pagination
+              paginationState={paginationState}
+              onPageChange={goToPage}
+              onPageSizeChange={changePageSize}
+            />
+          </div>
+        </>
+      )}
     </div>
   );
 };
@@ -0,0 +1,139 @@
+'use client';
+
+import React from 'react';
+import { AggregateFunction, ColumnConfig, GroupingState } from '@/types';
+import { AGGREGATE_FUNCTIONS, AGGREGATE_LABELS, EMPTY_GROUPING } from '@/utils/grouping';
+
+interface GroupByPanelProps {
+  grouping: GroupingState;
+  columns: ColumnConfig[];
+  onChange: (grouping: GroupingState) => void;
+}
+
+const move = (columns: string[], from: number, to: number): string[] => {
+  const next = [...columns];
+  const [column] = next.splice(from, 1);
+  next.splice(to, 0, column);
+  return next;
+};
+
+// Group columns, outermost first, and the aggregates shown on group rows.
+// Every group row also shows its row count.
+export const GroupByPanel: React.FC<GroupByPanelProps> = ({ grouping, columns, onChange }) => {
+  const labels = new Map(columns.map(column => [column.key, column.label]));
+  const available = columns.filter(column => !grouping.columns.includes(column.key));
+  const numericColumns = columns.filter(column => column.type === 'number');
+
+  const hasAggregate = (column: string, fn: AggregateFunction) => {
+    return grouping.aggregates.some(aggregate => aggregate.column === column && aggregate.fn === fn);
+  };
+
+  const toggleAggregate = (column: string, fn: AggregateFunction) => {
+    onChange({
+      ...grouping,
+      aggregates: hasAggregate(column, fn)
+        ? grouping.aggregates.filter(aggregate => !(aggregate.column === column && aggregate.fn === fn))
+        : [...grouping.aggregates, { column, fn }],
+    });
+  };
+
+  return (
+    <div className="px-4 py-3 border-b border-gray-200 bg-white">
+      {grouping.columns.length === 0 ? (
+        <p className="text-xs text-gray-500">
+          Not grouped. Pick a column to group the filtered rows by it.
+        </p>
+      ) : (
+        <ol className="flex flex-col space-y-1">
+          {grouping.columns.map((column, index) => (
+            <li key={column} className="flex items-center space-x-2 text-sm">
+              <span className="w-5 text-xs text-gray-400 text-right">{index + 1}.</span>
+              <span className="flex-1 truncate text-gray-900">{labels.get(column) ?? column}</span>
+              <button
+                type="button"
+                onClick={() => onChange({ ...grouping, columns: move(grouping.columns, index, index - 1) })}
+                disabled={index === 0}
+                className="px-1 text-gray-500 hover:text-gray-800 disabled:text-gray-200"
+                aria-label="Move up"
+              >
+                ↑
+              </button>
+              <button
+                type="button"
+                onClick={() => onChange({ ...grouping, columns: move(grouping.columns, index, index + 1) })}
+                disabled={index === grouping.columns.length - 1}
+                className="px-1 text-gray-500 hover:text-gray-800 disabled:text-gray-200"
+                aria-label="Move down"
+              >
+                ↓
+              </button>
+              <button
+                type="button"
+                onClick={() => onChange({ ...grouping, columns: grouping.columns.filter(item => item !== column) })}
+                className="px-1 text-gray-400 hover:text-red-600"
+                aria-label={`Stop grouping by ${labels.get(column) ?? column}`}
+              >
+                ×
+              </button>
+            </li>
+          ))}
+        </ol>
+      )}
+
+      <div className="mt-2 flex items-center space-x-2">
+        <select
+          value=""
+          onChange={(event) => {
+            if (event.target.value) onChange({ ...grouping, columns: [...grouping.columns, event.target.value] });
+          }}
+          disabled={available.length === 0}
+          className="px-2 py-1 text-xs border border-gray-300 rounded-md"
+          aria-label="Add group column"
+        >
+          <option value="">{grouping.columns.length === 0 ? 'Group by...' : 'Then by...'}</option>
+          {available.map(column => (
+            <option key={column.key} value={column.key}>{column.label}</option>
+          ))}
+        </select>
+        {(grouping.columns.length > 0 || grouping.aggregates.length > 0) && (
+          <button
+            type="button"
+            onClick={() => onChange(EMPTY_GROUPING)}
+            className="text-xs text-red-600 hover:text-red-800 font-medium"
+          >
+            Clear grouping
+          </button>
+        )}
+      </div>
+
+      {numericColumns.length > 0 && (
+        <div className="mt-3">
+          <div className="text-xs font-medium text-gray-700 mb-1">Aggregates</div>
+          <ul className="flex flex-col space-y-1">
+            {numericColumns.map(column => (
+              <li key={column.key} className="flex items-center space-x-2 text-sm">
+                <span className="w-32 truncate text-gray-900">{column.label}</span>
+                {AGGREGATE_FUNCTIONS.map(fn => {
+                  const isActive = hasAggregate(column.key, fn);
+                  return (
+                    <button
+                      key={fn}
+                      type="button"
+                      onClick={() => toggleAggregate(column.key, fn)}
+                      className={`px-1.5 text-xs rounded border ${
+                        isActive ? 'border-blue-500 bg-blue-50 text-blue-700' : 'border-gray-200 text-gray-500 hover:bg-gray-50'
+                      }`}
+                      aria-pressed={isActive}
+                    >
+                      {AGGREGATE_LABELS[fn]}
+                    </button>
+                  );
+                })}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
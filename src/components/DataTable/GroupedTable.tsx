@@ -0,0 +1,164 @@
+'use client';
+
+import React, { useMemo, useState } from 'react';
+import { ColumnConfig, DataRow, GroupingState, SortState } from '@/types';
+import { Pagination } from './Pagination';
+import { usePagination } from '@/hooks/usePagination';
+import {
+  AGGREGATE_LABELS,
+  GroupSummary,
+  flattenGroups,
+  formatAggregate,
+  getAggregateKey,
+  getGroupIds,
+  groupRows,
+  summarizeRows,
+} from '@/utils/grouping';
+
+interface GroupedTableProps {
+  // Filtered rows in table sort order
+  data: DataRow[];
+  grouping: GroupingState;
+  // Every column of the dataset, for labels and group ordering
+  columns: ColumnConfig[];
+  sort: SortState;
+  tableWidth: number;
+  columnCount: number;
+  // Column widths and header row, shared with the flat table
+  head: React.ReactNode;
+  renderRow: (row: DataRow, key: string) => React.ReactNode;
+}
+
+const GROUP_PAGE_SIZE = 100;
+
+// Group header rows with counts and aggregates; opening a group lists its
+// subgroups or rows. Pages run over the visible lines, so a large open group
+// simply adds pages.
+export const GroupedTable: React.FC<GroupedTableProps> = ({
+  data,
+  grouping,
+  columns,
+  sort,
+  tableWidth,
+  columnCount,
+  head,
+  renderRow,
+}) => {
+  const [expanded, setExpanded] = useState<Set<string>>(() => new Set());
+  const labels = useMemo(() => new Map(columns.map(column => [column.key, column.label])), [columns]);
+
+  const groups = useMemo(() => groupRows(data, grouping, columns, sort), [data, grouping, columns, sort]);
+  const total = useMemo(() => summarizeRows(data, grouping.aggregates), [data, grouping.aggregates]);
+  const items = useMemo(() => flattenGroups(groups, expanded), [groups, expanded]);
+
+  const { paginationState, goToPage, changePageSize, getPaginatedData } = usePagination(items.length, GROUP_PAGE_SIZE);
+  const pageItems = useMemo(() => getPaginatedData(items), [items, getPaginatedData]);
+
+  const toggleGroup = (id: string) => {
+    setExpanded(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  const renderAggregates = (summary: GroupSummary) => (
+    <span className="flex flex-wrap items-center gap-x-3 text-xs text-gray-600">
+      <span>{summary.count.toLocaleString()} rows</span>
+      {grouping.aggregates.map(aggregate => (
+        <span key={getAggregateKey(aggregate)}>
+          {AGGREGATE_LABELS[aggregate.fn]} {labels.get(aggregate.column) ?? aggregate.column}:{' '}
+          <span className="font-mono text-gray-900">
+            {formatAggregate(aggregate.fn, summary.aggregates[getAggregateKey(aggregate)])}
+          </span>
+        </span>
+      ))}
+    </span>
+  );
+
+  return (
+    <>
+      <div className="flex items-center justify-between px-4 py-2 border-b border-gray-200 text-xs text-gray-500">
+        <span>
+          {groups.length.toLocaleString()} groups by{' '}
+          {grouping.columns.map(column => labels.get(column) ?? column).join(' › ')}
+        </span>
+        <div className="flex items-center space-x-3">
+          <button
+            type="button"
+            onClick={() => setExpanded(new Set(getGroupIds(groups)))}
+            className="text-blue-600 hover:text-blue-800 font-medium"
+          >
+            Expand all
+          </button>
+          <button
+            type="button"
+            onClick={() => setExpanded(new Set())}
+            disabled={expanded.size === 0}
+            className="text-blue-600 hover:text-blue-800 font-medium disabled:text-gray-300"
+          >
+            Collapse all
+          </button>
+        </div>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="table-fixed divide-y divide-gray-200" style={{ width: tableWidth }}>
+          {head}
+          <tbody className="bg-white divide-y divide-gray-200">
+            {pageItems.map(item => {
+              if (item.type === 'row') return renderRow(data[item.row], `row-${item.row}`);
+
+              const { group, isExpanded } = item;
+              return (
+                <tr key={group.id} className="bg-gray-50 hover:bg-gray-100">
+                  <td colSpan={columnCount} className="p-0">
+                    {/* Sticky so the label stays in view when the table scrolls sideways */}
+                    <div
+                      className="sticky left-0 inline-flex items-center space-x-3 py-2 pr-4"
+                      style={{ paddingLeft: 16 + group.depth * 20 }}
+                    >
+                      <button
+                        type="button"
+                        onClick={() => toggleGroup(group.id)}
+                        className="flex items-center space-x-1 text-sm text-gray-900 min-w-0"
+                        aria-expanded={isExpanded}
+                      >
+                        <span className="w-4 text-gray-500">{isExpanded ? '▾' : '▸'}</span>
+                        <span className="text-gray-500">{labels.get(group.column) ?? group.column}:</span>
+                        <span className="font-medium truncate">{group.value === '' ? '(empty)' : group.value}</span>
+                      </button>
+                      {renderAggregates(group)}
+                    </div>
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+          <tfoot className="bg-gray-50 border-t-2 border-gray-200">
+            <tr>
+              <td colSpan={columnCount} className="p-0">
+                <div className="sticky left-0 inline-flex items-center space-x-3 px-4 py-2">
+                  <span className="text-sm font-medium text-gray-900">Total</span>
+                  {renderAggregates(total)}
+                </div>
+              </td>
+            </tr>
+          </tfoot>
+        </table>
+      </div>
+
+      <div className="bg-gray-50 border-t border-gray-200">
+        <Pagination
+          paginationState={paginationState}
+          onPageChange={goToPage}
+          onPageSizeChange={changePageSize}
+        />
+      </div>
+    </>
+  );
+};
@@ -0,0 +1,36 @@
+'use client';
+
+import React, { memo } from 'react';
+import { getHighlightSegments, SearchTerm } from '@/utils/textSearch';
+
+interface HighlightedTextProps {
+  text: string;
+  column: string;
+  terms?: SearchTerm[];
+  // Text the search actually ran against when it differs from what is shown
+  // (numbers are matched raw but displayed localized); a hit marks the whole cell
+  searchText?: string;
+}
+
+const MARK_CLASS = 'bg-yellow-200 text-inherit rounded-sm';
+
+export const HighlightedText = memo<HighlightedTextProps>(({ text, column, terms, searchText }) => {
+  if (!terms || terms.length === 0) return <>{text}</>;
+
+  if (searchText !== undefined && searchText !== text) {
+    const isMatch = getHighlightSegments(searchText, terms, column).some(segment => segment.isMatch);
+    return isMatch ? <mark className={MARK_CLASS}>{text}</mark> : <>{text}</>;
+  }
+
+  return (
+    <>
+      {getHighlightSegments(text, terms, column).map((segment, index) => (
+        segment.isMatch
+          ? <mark key={index} className={MARK_CLASS}>{segment.text}</mark>
+          : <React.Fragment key={index}>{segment.text}</React.Fragment>
+      ))}
+    </>
+  );
+});
+
+HighlightedText.displayName = 'HighlightedText';
@@ -0,0 +1,106 @@
+'use client';
+
+import React from 'react';
+import { ColumnConfig, SortState } from '@/types';
+
+interface SortPanelProps {
+  sort: SortState;
+  columns: ColumnConfig[];
+  onChange: (sort: SortState) => void;
+}
+
+const move = (sort: SortState, from: number, to: number): SortState => {
+  const next = [...sort];
+  const [key] = next.splice(from, 1);
+  next.splice(to, 0, key);
+  return next;
+};
+
+// Ordered list of sort keys; the first key decides, later ones break ties
+export const SortPanel: React.FC<SortPanelProps> = ({ sort, columns, onChange }) => {
+  const labels = new Map(columns.map(column => [column.key, column.label]));
+  const available = columns.filter(column => !sort.some(key => key.column === column.key));
+
+  return (
+    <div className="px-4 py-3 border-b border-gray-200 bg-white">
+      {sort.length === 0 ? (
+        <p className="text-xs text-gray-500">
+          Not sorted. Click a column header to sort, shift+click to add more keys.
+        </p>
+      ) : (
+        <ol className="flex flex-col space-y-1">
+          {sort.map((key, index) => (
+            <li key={key.column} className="flex items-center space-x-2 text-sm">
+              <span className="w-5 text-xs text-gray-400 text-right">{index + 1}.</span>
+              <span className="flex-1 truncate text-gray-900">{labels.get(key.column) ?? key.column}</span>
+              <button
+                type="button"
+                onClick={() => onChange(sort.map(item => (
+                  item.column === key.column
+                    ? { column: item.column, direction: item.direction === 'asc' ? 'desc' : 'asc' }
+                    : item
+                )))}
+                className="px-2 py-0.5 text-xs border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50"
+                aria-label={`Toggle ${labels.get(key.column) ?? key.column} direction`}
+              >
+                {key.direction === 'asc' ? 'Ascending' : 'Descending'}
+              </button>
+              <button
+                type="button"
+                onClick={() => onChange(move(sort, index, index - 1))}
+                disabled={index === 0}
+                className="px-1 text-gray-500 hover:text-gray-800 disabled:text-gray-200"
+                aria-label="Move up"
+              >
+                ↑
+              </button>
+              <button
+                type="button"
+                onClick={() => onChange(move(sort, index, index + 1))}
+                disabled={index === sort.length - 1}
+                className="px-1 text-gray-500 hover:text-gray-800 disabled:text-gray-200"
+                aria-label="Move down"
+              >
+                ↓
+              </button>
+              <button
+                type="button"
+                onClick={() => onChange(sort.filter(item => item.column !== key.column))}
+                className="px-1 text-gray-400 hover:text-red-600"
+                aria-label={`Remove ${labels.get(key.column) ?? key.column} from sort`}
+              >
+                ×
+              </button>
+            </li>
+          ))}
+        </ol>
+      )}
+
+      <div className="mt-2 flex items-center space-x-2">
+        <select
+          value=""
+          onChange={(event) => {
+            if (event.target.value) onChange([...sort, { column: event.target.value, direction: 'asc' }]);
+          }}
+          disabled={available.length === 0}
+          className="px-2 py-1 text-xs border border-gray-300 rounded-md"
+          aria-label="Add sort column"
+        >
+          <option value="">{sort.length === 0 ? 'Sort by...' : 'Then by...'}</option>
+          {available.map(column => (
+            <option key={column.key} value={column.key}>{column.label}</option>
+          ))}
+        </select>
+        {sort.length > 0 && (
+          <button
+            type="button"
+            onClick={() => onChange([])}
+            className="text-xs text-red-600 hover:text-red-800 font-medium"
+          >
+            Clear sort
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,90 @@
+'use client';
+
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { useUltraFastFilter } from '@/context/UltraFastFilterContext';
+
+const SEARCH_DEBOUNCE_MS = 200;
+
+const SearchIcon = ({ className }: { className?: string }) => (
+  <svg className={className} fill="none" stroke="currentColor" viewBox="0 0 24 24">
+    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 21l-4.35-4.35M17 10.5a6.5 6.5 0 11-13 0 6.5 6.5 0 0113 0z" />
+  </svg>
+);
+
+// Global free-text search above the table; combines with the active filters
+export const TableSearch: React.FC = () => {
+  const { state, dispatch } = useUltraFastFilter();
+  const { search, filterStatus } = state;
+
+  // Draft text so each keystroke doesn't start a new query
+  const [draft, setDraft] = useState(search);
+  const timerRef = useRef<ReturnType<typeof setTimeout> | undefined>(undefined);
+
+  // Follow external changes (Clear All, saved views, dataset switch)
+  useEffect(() => {
+    setDraft(search);
+  }, [search]);
+
+  useEffect(() => {
+    return () => {
+      if (timerRef.current) clearTimeout(timerRef.current);
+    };
+  }, []);
+
+  const commit = useCallback((text: string, delay: number) => {
+    if (timerRef.current) clearTimeout(timerRef.current);
+    timerRef.current = setTimeout(() => {
+      dispatch({ type: 'SET_SEARCH', payload: text });
+    }, delay);
+  }, [dispatch]);
+
+  const handleChange = (text: string) => {
+    setDraft(text);
+    commit(text, SEARCH_DEBOUNCE_MS);
+  };
+
+  const handleClear = () => {
+    setDraft('');
+    commit('', 0);
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
+    if (event.key === 'Enter') {
+      commit(draft, 0);
+    } else if (event.key === 'Escape') {
+      handleClear();
+    }
+  };
+
+  const isSearching = filterStatus === 'pending' && search.trim() !== '';
+
+  return (
+    <div className="px-4 py-3 border-b border-gray-200">
+      <div className="relative">
+        <SearchIcon className={`absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 ${isSearching ? 'text-blue-500 animate-pulse' : 'text-gray-400'}`} />
+        <input
+          type="search"
+          value={draft}
+          onChange={(event) => handleChange(event.target.value)}
+          onKeyDown={handleKeyDown}
+          placeholder='Search all columns...'
+          className="w-full pl-9 pr-8 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 [&::-webkit-search-cancel-button]:hidden"
+          aria-label="Search table"
+        />
+        {draft !== '' && (
+          <button
+            type="button"
+            onClick={handleClear}
+            className="absolute right-2 top-1/2 -translate-y-1/2 px-1 text-gray-400 hover:text-gray-600"
+            aria-label="Clear search"
+          >
+            ×
+          </button>
+        )}
+      </div>
+      <p className="mt-1 text-xs text-gray-500">
+        Use <code className="font-mono">&quot;exact phrase&quot;</code> for phrases and <code className="font-mono">column:value</code> to search one column.
+      </p>
+    </div>
+  );
+};
@@ -1,43 +1,86 @@
 'use client';
 
-import React, { useMemo, memo } from 'react';
+import React, { useMemo, useRef, memo } from 'react';
 import { DataRow, ColumnConfig } from '@/types';
 import { useVirtualScroll } from '@/hooks/useVirtualScroll';
+import { SearchTerm } from '@/utils/textSearch';
+import { formatDateValue } from '@/utils/dateColumns';
+import { HighlightedText } from './HighlightedText';
 
 interface VirtualScrollProps {
   data: DataRow[];
+  // Shown columns in display order
   columns: ColumnConfig[];
+  // Pixel width per column key
+  columnWidths: Record<string, number>;
+  // Left offsets of the pinned columns
+  pinnedOffsets?: Record<string, number>;
+  // Header cell content; the plain label when omitted
+  renderHeader?: (column: ColumnConfig) => React.ReactNode;
   itemHeight?: number;
   containerHeight?: number;
+  highlightTerms?: SearchTerm[];
 }
 
+const EMPTY_OFFSETS: Record<string, number> = {};
+
+const getCellStyle = (
+  column: ColumnConfig,
+  columnWidths: Record<string, number>,
+  pinnedOffsets: Record<string, number>
+): React.CSSProperties => ({
+  width: columnWidths[column.key],
+  flex: 'none',
+  ...(column.key in pinnedOffsets ? { position: 'sticky', left: pinnedOffsets[column.key] } : {}),
+});
+
 // Memoized row component for better performance
 const VirtualRow = memo<{
   row: DataRow;
   columns: ColumnConfig[];
+  columnWidths: Record<string, number>;
+  pinnedOffsets: Record<string, number>;
   style: React.CSSProperties;
-}>(({ row, columns, style }) => (
+  highlightTerms?: SearchTerm[];
+}>(({ row, columns, columnWidths, pinnedOffsets, style, highlightTerms }) => (
   <div
     style={style}
-    className="absolute left-0 right-0 border-b border-gray-100 hover:bg-blue-50/50 transition-colors duration-150"
+    className="group absolute left-0 right-0 border-b border-gray-100 hover:bg-blue-50 transition-colors duration-150"
   >
-    <div className="grid grid-cols-12 gap-4 px-6 py-4 items-center">
-      {columns.map((column, colIndex) => (
+    <div className="flex h-full">
+      {columns.map((column) => (
         <div
           key={column.key}
-          className={`text-sm text-gray-900 truncate ${
-            colIndex === 0 ? 'col-span-2' : 'col-span-2'
+          style={getCellStyle(column, columnWidths, pinnedOffsets)}
+          className={`px-6 py-4 text-sm text-gray-900 truncate ${
+            column.key in pinnedOffsets ? 'z-10 bg-white group-hover:bg-blue-50' : ''
           }`}
         >
           {column.type === 'number' ? (
             <span className="font-mono font-medium">
-              {typeof row[column.key] === 'number' 
-                ? row[column.key].toLocaleString() 
-                : String(row[column.key])
-              }
+              <HighlightedText
+                text={typeof row[column.key] === 'number'
+                  ? row[column.key].toLocaleString()
+                  : String(row[column.key])
+                }
+                searchText={String(row[column.key])}
+                column={column.key}
+                terms={highlightTerms}
+              />
+            </span>
+          ) : column.type === 'date' ? (
+            <span className="tabular-nums">
+              <HighlightedText
+                text={formatDateValue(row[column.key], column.dateFormat)}
+                searchText={String(row[column.key])}
+                column={column.key}
+                terms={highlightTerms}
+              />
             </span>
           ) : (
-            <span>{String(row[column.key])}</span>
+            <span>
+              <HighlightedText text={String(row[column.key])} column={column.key} terms={highlightTerms} />
+            </span>
           )}
         </div>
       ))}
@@ -50,8 +93,12 @@ VirtualRow.displayName = 'VirtualRow';
 export const VirtualScroll: React.FC<VirtualScrollProps> = ({
   data,
   columns,
+  columnWidths,
+  pinnedOffsets = EMPTY_OFFSETS,
+  renderHeader,
   itemHeight = 60,
   containerHeight = 600,
+  highlightTerms,
 }) => {
   const {
     virtualState,
@@ -64,29 +111,34 @@ export const VirtualScroll: React.FC<VirtualScrollProps> = ({
     isNearBottom,
   } = useVirtualScroll(data.length, itemHeight, containerHeight);
 
+  const headerRef = useRef<HTMLDivElement>(null);
+
   const visibleItems = useMemo(() => {
     return data.slice(virtualState.startIndex, virtualState.endIndex + 1);
   }, [data, virtualState.startIndex, virtualState.endIndex]);
 
-  // Optimize column layout for better performance
-  const columnLayout = useMemo(() => {
-    return columns.map((column, index) => ({
-      ...column,
-      className: index === 0 ? 'col-span-2' : 'col-span-2'
-    }));
-  }, [columns]);
+  const rowWidth = columns.reduce((sum, column) => sum + columnWidths[column.key], 0);
+
+  // The header sits outside the scroll container, so it follows sideways scrolling by hand
+  const handleContainerScroll = (event: React.UIEvent<HTMLDivElement>) => {
+    if (headerRef.current) headerRef.current.scrollLeft = event.currentTarget.scrollLeft;
+    handleScroll(event);
+  };
 
   return (
     <div className="relative">
       {/* Virtual Scroll Header */}
-      <div className="sticky top-0 z-10 bg-white border-b border-gray-200 shadow-sm">
-        <div className="grid grid-cols-12 gap-4 px-6 py-4">
-          {columnLayout.map((column) => (
+      <div ref={headerRef} className="sticky top-0 z-10 bg-gray-50 border-b border-gray-200 shadow-sm overflow-hidden">
+        <div className="flex" style={{ width: rowWidth, minWidth: '100%' }}>
+          {columns.map((column) => (
             <div
               key={column.key}
-              className={`text-left text-xs font-semibold text-gray-700 uppercase tracking-wider ${column.className}`}
+              style={getCellStyle(column, columnWidths, pinnedOffsets)}
+              className={`relative text-left text-xs font-semibold text-gray-700 uppercase tracking-wider ${
+                column.key in pinnedOffsets ? 'z-20 bg-gray-50' : ''
+              }`}
             >
-              {column.label}
+              {renderHeader ? renderHeader(column) : <div className="px-6 py-4 truncate">{column.label}</div>}
             </div>
           ))}
         </div>
@@ -96,10 +148,10 @@ export const VirtualScroll: React.FC<VirtualScrollProps> = ({
       <div 
         ref={scrollRef}
         style={containerStyle} 
-        onScroll={handleScroll} 
+        onScroll={handleContainerScroll} 
         className="overflow-auto border border-gray-200 bg-white"
       >
-        <div style={contentStyle} className="relative">
+        <div style={{ ...contentStyle, width: rowWidth, minWidth: '100%' }} className="relative">
           {visibleItems.map((row, index) => {
             const actualIndex = virtualState.startIndex + index;
             return (
@@ -107,7 +159,10 @@ export const VirtualScroll: React.FC<VirtualScrollProps> = ({
                 key={`${row.id || actualIndex}`}
                 row={row}
                 columns={columns}
+                columnWidths={columnWidths}
+                pinnedOffsets={pinnedOffsets}
                 style={getItemStyle(actualIndex)}
+                highlightTerms={highlightTerms}
               />
             );
           })}
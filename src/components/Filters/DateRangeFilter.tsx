@@ -0,0 +1,238 @@
+'use client';
+
+import React, { useCallback, useEffect, useMemo } from 'react';
+import { useUltraFastFilter } from '@/context/UltraFastFilterContext';
+import { DateBucket, DateFilter, DateFormat, DatePreset } from '@/types';
+import { isDateFilter, isFilterActive } from '@/utils/filterModel';
+import {
+  DATE_PRESET_LABELS,
+  createDateFilter,
+  formatDateFilter,
+  resolveDatePreset,
+  toDayKey,
+} from '@/utils/dateColumns';
+
+interface DateRangeFilterProps {
+  column: string;
+  label: string;
+  format: DateFormat;
+}
+
+const toggle = (values: number[], value: number) => {
+  return values.includes(value) ? values.filter(item => item !== value) : [...values, value];
+};
+
+// Compact counts so twelve month chips fit the sidebar
+const formatCount = (count: number) => {
+  return count >= 10_000 ? `${Math.round(count / 1000)}k` : count.toLocaleString();
+};
+
+const BucketChips: React.FC<{
+  title: string;
+  buckets: DateBucket[];
+  selected: number[];
+  onToggle: (value: number) => void;
+  columns: string;
+}> = ({ title, buckets, selected, onToggle, columns }) => (
+  <div className="flex flex-col space-y-1">
+    <span className="text-xs font-medium text-gray-500">{title}</span>
+    <div className={`grid ${columns} gap-1`}>
+      {buckets.map(bucket => {
+        const isSelected = selected.includes(bucket.value);
+        return (
+          <button
+            key={bucket.value}
+            type="button"
+            onClick={() => onToggle(bucket.value)}
+            className={`flex flex-col items-center px-1 py-0.5 rounded border text-xs ${
+              isSelected
+                ? 'border-blue-500 bg-blue-50 text-blue-700'
+                : bucket.count === 0
+                  ? 'border-gray-200 text-gray-300'
+                  : 'border-gray-200 text-gray-700 hover:bg-gray-50'
+            }`}
+            aria-pressed={isSelected}
+            title={`${bucket.label}: ${bucket.count.toLocaleString()} rows`}
+          >
+            <span>{bucket.label}</span>
+            <span className="text-[10px] text-gray-400">{formatCount(bucket.count)}</span>
+          </button>
+        );
+      })}
+    </div>
+  </div>
+);
+
+export const DateRangeFilter: React.FC<DateRangeFilterProps> = React.memo(({ column, label, format }) => {
+  const { state, dispatch, subscribeFacets, isFacetPending, getDateFacets } = useUltraFastFilter();
+  const columnFilter = state.filters[column];
+  const filter = useMemo(
+    () => (isDateFilter(columnFilter) ? columnFilter : createDateFilter(format)),
+    [columnFilter, format]
+  );
+
+  useEffect(() => subscribeFacets(column, 'dates'), [subscribeFacets, column]);
+  const facets = getDateFacets(column);
+  const isPending = isFacetPending(column, 'dates');
+
+  const commit = useCallback((next: DateFilter) => {
+    if (isFilterActive(next)) {
+      dispatch({ type: 'UPDATE_FILTER', payload: { column, filter: next } });
+    } else {
+      dispatch({ type: 'CLEAR_FILTER', payload: column });
+    }
+  }, [dispatch, column]);
+
+  // A preset shows the days it currently resolves to; editing them pins the range
+  const shownRange = useMemo(() => {
+    if (!filter.preset) return { start: filter.start ?? '', end: filter.end ?? '' };
+    const { start, end } = resolveDatePreset(filter.preset);
+    return { start: toDayKey(start), end: toDayKey(end) };
+  }, [filter]);
+
+  const handleBoundChange = (side: 'start' | 'end', value: string) => {
+    let start = side === 'start' ? value : shownRange.start;
+    let end = side === 'end' ? value : shownRange.end;
+    // Accept reversed bounds rather than producing an empty result
+    if (start && end && start > end) [start, end] = [end, start];
+    commit({ ...filter, preset: null, start: start || null, end: end || null });
+  };
+
+  const handlePreset = (preset: DatePreset) => {
+    commit({ ...filter, preset: filter.preset === preset ? null : preset, start: null, end: null });
+  };
+
+  const selectedYear = useMemo(() => {
+    if (filter.preset || !filter.start || !filter.end) return null;
+    const year = filter.start.slice(0, 4);
+    return filter.start === `${year}-01-01` && filter.end === `${year}-12-31` ? Number(year) : null;
+  }, [filter]);
+
+  const handleYear = (year: number) => {
+    if (selectedYear === year) {
+      commit({ ...filter, start: null, end: null });
+    } else {
+      commit({ ...filter, preset: null, start: `${year}-01-01`, end: `${year}-12-31` });
+    }
+  };
+
+  const hasActiveFilter = isFilterActive(columnFilter);
+  const maxYearCount = facets ? facets.years.reduce((max, bucket) => Math.max(max, bucket.count), 0) : 0;
+
+  return (
+    <div className="flex flex-col space-y-2">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <label className="text-sm font-medium text-gray-700 dark:text-gray-300">
+          {label}
+        </label>
+        {hasActiveFilter && (
+          <button
+            onClick={() => dispatch({ type: 'CLEAR_FILTER', payload: column })}
+            className="text-xs text-red-600 hover:text-red-800 dark:text-red-400 dark:hover:text-red-300 font-medium transition-colors duration-150 hover:scale-105 active:scale-95"
+            aria-label={`Clear ${label} filter`}
+            type="button"
+          >
+            Clear
+          </button>
+        )}
+      </div>
+
+      {/* Presets resolve against today each time the filter runs */}
+      <div className="flex flex-wrap gap-1">
+        {(Object.keys(DATE_PRESET_LABELS) as DatePreset[]).map(preset => (
+          <button
+            key={preset}
+            type="button"
+            onClick={() => handlePreset(preset)}
+            className={`px-2 py-0.5 text-xs rounded-full border ${
+              filter.preset === preset
+                ? 'border-blue-500 bg-blue-600 text-white'
+                : 'border-gray-300 text-gray-600 hover:bg-gray-50'
+            }`}
+            aria-pressed={filter.preset === preset}
+          >
+            {DATE_PRESET_LABELS[preset]}
+          </button>
+        ))}
+      </div>
+
+      {/* Inclusive day bounds */}
+      <div className="grid grid-cols-2 gap-2">
+        <input
+          type="date"
+          value={shownRange.start}
+          onChange={(event) => handleBoundChange('start', event.target.value)}
+          className="w-full px-2 py-1 text-xs border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+          aria-label={`${label} from`}
+        />
+        <input
+          type="date"
+          value={shownRange.end}
+          onChange={(event) => handleBoundChange('end', event.target.value)}
+          className="w-full px-2 py-1 text-xs border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+          aria-label={`${label} to`}
+        />
+      </div>
+
+      {/* Calendar buckets counted under every other filter */}
+      {isPending && !facets ? (
+        <div className="w-full h-24 rounded bg-gray-100 animate-pulse" aria-busy="true" aria-label={`Loading ${label} buckets`} />
+      ) : facets && (
+        <div className={`flex flex-col space-y-2 transition-opacity ${isPending ? 'opacity-60' : ''}`} aria-busy={isPending}>
+          {facets.years.length > 0 && (
+            <div className="flex flex-col space-y-1">
+              <span className="text-xs font-medium text-gray-500">Year</span>
+              <div className="flex flex-col space-y-0.5 max-h-32 overflow-y-auto">
+                {facets.years.map(bucket => (
+                  <button
+                    key={bucket.value}
+                    type="button"
+                    onClick={() => handleYear(bucket.value)}
+                    className={`relative flex items-center justify-between px-2 py-0.5 text-xs rounded ${
+                      selectedYear === bucket.value ? 'ring-1 ring-blue-500' : 'hover:bg-gray-50'
+                    }`}
+                    aria-pressed={selectedYear === bucket.value}
+                  >
+                    <span
+                      className="absolute inset-y-0 left-0 rounded bg-blue-100"
+                      style={{ width: `${maxYearCount > 0 ? (bucket.count / maxYearCount) * 100 : 0}%` }}
+                    />
+                    <span className="relative">{bucket.label}</span>
+                    <span className="relative text-gray-500">{bucket.count.toLocaleString()}</span>
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+          <BucketChips
+            title="Month"
+            buckets={facets.months}
+            selected={filter.months}
+            onToggle={(month) => commit({ ...filter, months: toggle(filter.months, month) })}
+            columns="grid-cols-6"
+          />
+          <BucketChips
+            title="Weekday"
+            buckets={facets.weekdays}
+            selected={filter.weekdays}
+            onToggle={(day) => commit({ ...filter, weekdays: toggle(filter.weekdays, day) })}
+            columns="grid-cols-7"
+          />
+        </div>
+      )}
+
+      {/* Filter status information */}
+      {hasActiveFilter && (
+        <div className="text-xs text-gray-500 dark:text-gray-400 flex items-center justify-between">
+          <span className="truncate">{formatDateFilter(filter)}</span>
+          <span className="text-green-600 dark:text-green-400 font-medium flex items-center">
+            ⚡ instant
+          </span>
+        </div>
+      )}
+    </div>
+  );
+});
+
+DateRangeFilter.displayName = 'DateRangeFilter';
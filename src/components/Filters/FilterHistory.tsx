@@ -0,0 +1,121 @@
+'use client';
+
+import React, { useEffect } from 'react';
+import { useUltraFastFilter } from '@/context/UltraFastFilterContext';
+import { canRedo, canUndo } from '@/utils/filterHistory';
+
+const TIMELINE_LENGTH = 8;
+
+const UndoIcon = ({ className }: { className?: string }) => (
+  <svg className={className} fill="none" stroke="currentColor" viewBox="0 0 24 24">
+    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 10h10a5 5 0 015 5v2M3 10l5-5M3 10l5 5" />
+  </svg>
+);
+
+const RedoIcon = ({ className }: { className?: string }) => (
+  <svg className={className} fill="none" stroke="currentColor" viewBox="0 0 24 24">
+    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 10H11a5 5 0 00-5 5v2m15-7l-5-5m5 5l-5 5" />
+  </svg>
+);
+
+// Text fields keep their own native undo
+const isTextInput = (target: EventTarget | null): boolean => {
+  if (!(target instanceof HTMLElement)) return false;
+  if (target.isContentEditable || target.tagName === 'TEXTAREA') return true;
+  if (target.tagName !== 'INPUT') return false;
+  return !['checkbox', 'radio', 'range', 'button', 'submit'].includes((target as HTMLInputElement).type);
+};
+
+// Undo / redo buttons for the filter sidebar header, plus Ctrl+Z / Ctrl+Shift+Z
+export const FilterHistoryControls: React.FC = () => {
+  const { state, dispatch } = useUltraFastFilter();
+  const { history } = state;
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey) || event.altKey || event.key.toLowerCase() !== 'z') return;
+      if (isTextInput(event.target)) return;
+
+      event.preventDefault();
+      dispatch({ type: event.shiftKey ? 'REDO' : 'UNDO' });
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [dispatch]);
+
+  return (
+    <div className="flex items-center space-x-1">
+      <button
+        type="button"
+        onClick={() => dispatch({ type: 'UNDO' })}
+        disabled={!canUndo(history)}
+        className="p-1 text-gray-500 rounded hover:text-gray-700 hover:bg-gray-100 disabled:opacity-30 disabled:hover:bg-transparent"
+        title="Undo filter change (Ctrl+Z)"
+        aria-label="Undo filter change"
+      >
+        <UndoIcon className="h-4 w-4" />
+      </button>
+      <button
+        type="button"
+        onClick={() => dispatch({ type: 'REDO' })}
+        disabled={!canRedo(history)}
+        className="p-1 text-gray-500 rounded hover:text-gray-700 hover:bg-gray-100 disabled:opacity-30 disabled:hover:bg-transparent"
+        title="Redo filter change (Ctrl+Shift+Z)"
+        aria-label="Redo filter change"
+      >
+        <RedoIcon className="h-4 w-4" />
+      </button>
+    </div>
+  );
+};
+
+// The most recent filter changes, newest first; click one to jump back to it
+export const FilterHistoryTimeline: React.FC = () => {
+  const { state, dispatch } = useUltraFastFilter();
+  const { entries, index } = state.history;
+
+  if (entries.length <= 1) {
+    return null;
+  }
+
+  const start = Math.max(0, entries.length - TIMELINE_LENGTH);
+  const visible = entries
+    .map((entry, entryIndex) => ({ entry, entryIndex }))
+    .slice(start)
+    .reverse();
+
+  return (
+    <div className="flex flex-col space-y-2">
+      <label className="text-sm font-medium text-gray-700 dark:text-gray-300">
+        History
+      </label>
+      <ol className="border-l border-gray-200 ml-1">
+        {visible.map(({ entry, entryIndex }) => {
+          const isCurrent = entryIndex === index;
+          const isUndone = entryIndex > index;
+
+          return (
+            <li key={`${entryIndex}-${entry.timestamp}`} className="relative pl-3">
+              <span
+                className={`absolute -left-1 top-2 h-2 w-2 rounded-full ${isCurrent ? 'bg-blue-600' : isUndone ? 'bg-gray-200' : 'bg-gray-400'}`}
+              />
+              <button
+                type="button"
+                onClick={() => dispatch({ type: 'JUMP_TO_HISTORY', payload: entryIndex })}
+                disabled={isCurrent}
+                className={`w-full text-left text-xs py-1 truncate ${isCurrent ? 'text-blue-700 font-medium' : isUndone ? 'text-gray-400 line-through' : 'text-gray-600 hover:text-blue-700'}`}
+                title={entry.label}
+              >
+                {entry.label}
+              </button>
+            </li>
+          );
+        })}
+      </ol>
+      {start > 0 && (
+        <div className="text-xs text-gray-400">{start} earlier change{start === 1 ? '' : 's'}</div>
+      )}
+    </div>
+  );
+};
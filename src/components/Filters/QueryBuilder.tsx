@@ -0,0 +1,381 @@
+'use client';
+
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { MultiSelectFilter } from './MultiSelectFilter';
+import { useUltraFastFilter } from '@/context/UltraFastFilterContext';
+import { ColumnConfig, FilterCondition, FilterExpression, FilterGroup } from '@/types';
+import { getColumnConfigs } from '@/utils/dataProcessing';
+import { applySchemaOverrides } from '@/utils/schemaOverrides';
+import {
+  createCondition,
+  createGroup,
+  describeExpression,
+  negate,
+  normalizeExpression,
+} from '@/utils/filterExpression';
+import { createRangeFilter, createTextFilter, isRangeFilter, isTextFilter } from '@/utils/filterModel';
+import { TextPredicateEditor } from './TextPredicateEditor';
+
+// Deeper nesting is expressible but unreadable in a 300px sidebar
+const MAX_DEPTH = 3;
+
+type ConditionOperator = 'in' | 'not_in' | 'between' | 'not_between' | 'matches' | 'not_matches';
+
+interface NodeEditorProps {
+  node: FilterExpression;
+  negated: boolean;
+  depth: number;
+  columns: ColumnConfig[];
+  onChange: (node: FilterExpression) => void;
+  onRemove?: () => void;
+}
+
+const parseBound = (text: string): number | null => {
+  if (text.trim() === '') return null;
+  const value = Number(text);
+  return Number.isFinite(value) ? value : null;
+};
+
+const RemoveButton: React.FC<{ onClick: () => void; label: string }> = ({ onClick, label }) => (
+  <button
+    type="button"
+    onClick={onClick}
+    className="text-gray-400 hover:text-red-600 text-xs px-1"
+    aria-label={label}
+  >
+    ✕
+  </button>
+);
+
+const ConditionEditor: React.FC<{
+  condition: FilterCondition;
+  negated: boolean;
+  columns: ColumnConfig[];
+  onChange: (node: FilterExpression) => void;
+  onRemove?: () => void;
+}> = ({ condition, negated, columns, onChange, onRemove }) => {
+  const { subscribeFacets, getFilterOptions, getNumericSummary } = useUltraFastFilter();
+  const isNumeric = getNumericSummary(condition.column) !== null;
+  const range = isRangeFilter(condition.filter) ? condition.filter : null;
+  const text = isTextFilter(condition.filter) ? condition.filter : null;
+  const operator: ConditionOperator = range
+    ? (negated ? 'not_between' : 'between')
+    : text
+      ? (negated ? 'not_matches' : 'matches')
+      : (negated ? 'not_in' : 'in');
+
+  useEffect(() => subscribeFacets(condition.column, 'all'), [subscribeFacets, condition.column]);
+  const options = useMemo(() => getFilterOptions(condition.column), [getFilterOptions, condition.column]);
+
+  // Wrap in NOT when the operator asks for exclusion
+  const emit = (next: FilterCondition, nextNegated: boolean) => {
+    onChange(nextNegated ? negate(next) : next);
+  };
+
+  const handleColumnChange = (column: string) => {
+    emit(createCondition(column), negated);
+  };
+
+  const handleOperatorChange = (next: ConditionOperator) => {
+    const wantsRange = next === 'between' || next === 'not_between';
+    const wantsText = next === 'matches' || next === 'not_matches';
+    const filter = wantsRange
+      ? (range ?? createRangeFilter(null, null))
+      : wantsText
+        ? (text ?? createTextFilter())
+        : (Array.isArray(condition.filter) ? condition.filter : []);
+    emit({ ...condition, filter }, next === 'not_in' || next === 'not_between' || next === 'not_matches');
+  };
+
+  return (
+    <div className="flex flex-col space-y-1 p-2 bg-white border border-gray-200 rounded-md">
+      <div className="flex items-center space-x-1">
+        <select
+          value={condition.column}
+          onChange={(event) => handleColumnChange(event.target.value)}
+          className="flex-1 min-w-0 px-1 py-1 text-xs border border-gray-300 rounded-md"
+          aria-label="Column"
+        >
+          {columns.map(column => (
+            <option key={column.key} value={column.key}>{column.label}</option>
+          ))}
+        </select>
+        <select
+          value={operator}
+          onChange={(event) => handleOperatorChange(event.target.value as ConditionOperator)}
+          className="px-1 py-1 text-xs border border-gray-300 rounded-md"
+          aria-label="Operator"
+        >
+          <option value="in">is any of</option>
+          <option value="not_in">is none of</option>
+          {isNumeric && <option value="between">between</option>}
+          {isNumeric && <option value="not_between">not between</option>}
+          <option value="matches">matches text</option>
+          <option value="not_matches">doesn&apos;t match text</option>
+        </select>
+        {onRemove && <RemoveButton onClick={onRemove} label="Remove condition" />}
+      </div>
+
+      {range ? (
+        <div className="grid grid-cols-2 gap-1">
+          <input
+            type="number"
+            value={range.min ?? ''}
+            placeholder="Min"
+            onChange={(event) => emit({ ...condition, filter: { ...range, min: parseBound(event.target.value) } }, negated)}
+            className="w-full px-2 py-1 text-xs border border-gray-300 rounded-md"
+            aria-label="Minimum"
+          />
+          <input
+            type="number"
+            value={range.max ?? ''}
+            placeholder="Max"
+            onChange={(event) => emit({ ...condition, filter: { ...range, max: parseBound(event.target.value) } }, negated)}
+            className="w-full px-2 py-1 text-xs border border-gray-300 rounded-md"
+            aria-label="Maximum"
+          />
+        </div>
+      ) : text ? (
+        <TextPredicateEditor
+          filter={text}
+          onChange={(filter) => emit({ ...condition, filter }, negated)}
+          label={condition.column}
+        />
+      ) : (
+        <MultiSelectFilter
+          options={options}
+          selectedValues={condition.filter as string[]}
+          onSelectionChange={(values) => emit({ ...condition, filter: values }, negated)}
+          placeholder="Select values..."
+          searchable={true}
+          maxHeight={240}
+        />
+      )}
+    </div>
+  );
+};
+
+const GroupEditor: React.FC<{
+  group: FilterGroup;
+  negated: boolean;
+  depth: number;
+  columns: ColumnConfig[];
+  onChange: (node: FilterExpression) => void;
+  onRemove?: () => void;
+}> = ({ group, negated, depth, columns, onChange, onRemove }) => {
+  const emit = (next: FilterGroup, nextNegated: boolean = negated) => {
+    onChange(nextNegated ? negate(next) : next);
+  };
+
+  const updateChild = (index: number, child: FilterExpression) => {
+    emit({ ...group, children: group.children.map((existing, i) => (i === index ? child : existing)) });
+  };
+
+  const removeChild = (index: number) => {
+    emit({ ...group, children: group.children.filter((_, i) => i !== index) });
+  };
+
+  const addCondition = () => {
+    if (columns.length === 0) return;
+    emit({ ...group, children: [...group.children, createCondition(columns[0].key)] });
+  };
+
+  const addGroup = () => {
+    if (columns.length === 0) return;
+    const nestedType = group.type === 'and' ? 'or' : 'and';
+    emit({ ...group, children: [...group.children, createGroup(nestedType, [createCondition(columns[0].key)])] });
+  };
+
+  return (
+    <div className={`flex flex-col space-y-2 p-2 rounded-md border ${negated ? 'border-red-200 bg-red-50' : 'border-gray-200 bg-gray-50'}`}>
+      <div className="flex items-center space-x-1">
+        <select
+          value={group.type}
+          onChange={(event) => emit({ ...group, type: event.target.value as FilterGroup['type'] })}
+          className="px-1 py-1 text-xs border border-gray-300 rounded-md"
+          aria-label="Group match"
+        >
+          <option value="and">Match all (AND)</option>
+          <option value="or">Match any (OR)</option>
+        </select>
+        <label className="flex items-center space-x-1 text-xs text-gray-600">
+          <input
+            type="checkbox"
+            checked={negated}
+            onChange={(event) => emit(group, event.target.checked)}
+            className="h-3 w-3 rounded border-gray-300 text-red-600"
+          />
+          <span>NOT</span>
+        </label>
+        <div className="flex-1" />
+        {onRemove && <RemoveButton onClick={onRemove} label="Remove group" />}
+      </div>
+
+      {group.children.map((child, index) => (
+        <NodeEditor
+          key={index}
+          node={child}
+          negated={false}
+          depth={depth + 1}
+          columns={columns}
+          onChange={(next) => updateChild(index, next)}
+          onRemove={() => removeChild(index)}
+        />
+      ))}
+
+      <div className="flex items-center space-x-2">
+        <button
+          type="button"
+          onClick={addCondition}
+          className="text-xs text-blue-600 hover:text-blue-800 font-medium"
+        >
+          + Condition
+        </button>
+        {depth < MAX_DEPTH && (
+          <button
+            type="button"
+            onClick={addGroup}
+            className="text-xs text-blue-600 hover:text-blue-800 font-medium"
+          >
+            + Group
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+// NOT nodes render as a flag on the node they wrap
+const NodeEditor: React.FC<NodeEditorProps> = ({ node, negated, depth, columns, onChange, onRemove }) => {
+  if (node.type === 'not') {
+    return (
+      <NodeEditor
+        node={node.child}
+        negated={!negated}
+        depth={depth}
+        columns={columns}
+        onChange={onChange}
+        onRemove={onRemove}
+      />
+    );
+  }
+
+  if (node.type === 'condition') {
+    return (
+      <ConditionEditor
+        condition={node}
+        negated={negated}
+        columns={columns}
+        onChange={onChange}
+        onRemove={onRemove}
+      />
+    );
+  }
+
+  return (
+    <GroupEditor
+      group={node}
+      negated={negated}
+      depth={depth}
+      columns={columns}
+      onChange={onChange}
+      onRemove={onRemove}
+    />
+  );
+};
+
+const EMPTY_ROOT: FilterExpression = createGroup('and');
+
+export const QueryBuilder: React.FC = () => {
+  const { state, dispatch } = useUltraFastFilter();
+  const { data, expression, schemaOverrides } = state;
+  const columns = useMemo(
+    () => applySchemaOverrides(getColumnConfigs(data), schemaOverrides).filter(column => column.filterable),
+    [data, schemaOverrides]
+  );
+
+  // Edits stay local and are dispatched on the next frame, like the column filters
+  const [draft, setDraft] = useState<FilterExpression>(expression ?? EMPTY_ROOT);
+  const dispatchedRef = useRef<FilterExpression | null>(expression);
+  const frameRef = useRef<number | undefined>(undefined);
+
+  // Follow external changes (Clear All, dataset switch)
+  useEffect(() => {
+    if (expression !== dispatchedRef.current) {
+      dispatchedRef.current = expression;
+      setDraft(expression ?? EMPTY_ROOT);
+    }
+  }, [expression]);
+
+  useEffect(() => {
+    return () => {
+      if (frameRef.current) cancelAnimationFrame(frameRef.current);
+    };
+  }, []);
+
+  const handleChange = useCallback((next: FilterExpression) => {
+    setDraft(next);
+
+    if (frameRef.current) {
+      cancelAnimationFrame(frameRef.current);
+    }
+
+    frameRef.current = requestAnimationFrame(() => {
+      dispatchedRef.current = next;
+      dispatch({ type: 'SET_EXPRESSION', payload: next });
+    });
+  }, [dispatch]);
+
+  const handleClear = () => {
+    if (frameRef.current) {
+      cancelAnimationFrame(frameRef.current);
+    }
+    dispatchedRef.current = null;
+    setDraft(EMPTY_ROOT);
+    dispatch({ type: 'SET_EXPRESSION', payload: null });
+  };
+
+  const activeExpression = normalizeExpression(draft);
+
+  if (columns.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="flex flex-col space-y-2">
+      <div className="flex items-center justify-between">
+        <label className="text-sm font-medium text-gray-700 dark:text-gray-300">
+          Query Builder
+        </label>
+        {activeExpression && (
+          <button
+            onClick={handleClear}
+            className="text-xs text-red-600 hover:text-red-800 dark:text-red-400 dark:hover:text-red-300 font-medium transition-colors duration-150 hover:scale-105 active:scale-95"
+            aria-label="Clear query"
+            type="button"
+          >
+            Clear
+          </button>
+        )}
+      </div>
+
+      <div className="text-xs text-gray-500 dark:text-gray-400">
+        Combine conditions with AND / OR groups. Applied on top of the filters above.
+      </div>
+
+      <NodeEditor
+        node={draft}
+        negated={false}
+        depth={0}
+        columns={columns}
+        onChange={handleChange}
+      />
+
+      {activeExpression && (
+        <div className="text-xs text-gray-600 bg-blue-50 border border-blue-200 rounded-md px-3 py-2 break-words">
+          {describeExpression(activeExpression)}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,293 @@
+'use client';
+
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { useUltraFastFilter } from '@/context/UltraFastFilterContext';
+import { RangeFilter as RangeFilterValue } from '@/types';
+import { createRangeFilter, formatRange, isFilterActive, isRangeFilter } from '@/utils/filterModel';
+
+interface RangeFilterProps {
+  column: string;
+  label: string;
+}
+
+const HISTOGRAM_HEIGHT = 48;
+const SLIDER_STEPS = 1000;
+
+const toInputText = (value: number | null) => (value === null ? '' : String(value));
+
+const parseBound = (text: string): number | null => {
+  if (text.trim() === '') return null;
+  const value = Number(text);
+  return Number.isFinite(value) ? value : null;
+};
+
+export const RangeFilter: React.FC<RangeFilterProps> = React.memo(({ column, label }) => {
+  const { state, dispatch, subscribeFacets, isFacetPending, getNumericSummary, getHistogram } = useUltraFastFilter();
+  const columnFilter = state.filters[column];
+  const activeRange = isRangeFilter(columnFilter) ? columnFilter : null;
+
+  const summary = useMemo(() => getNumericSummary(column), [getNumericSummary, column]);
+  const histogram = useMemo(() => getHistogram(column), [getHistogram, column]);
+  const isHistogramPending = isFacetPending(column, 'histogram');
+
+  useEffect(() => subscribeFacets(column, 'histogram'), [subscribeFacets, column]);
+
+  // Draft inputs so typing "-" or "1." doesn't dispatch half-typed numbers
+  const [minText, setMinText] = useState(toInputText(activeRange?.min ?? null));
+  const [maxText, setMaxText] = useState(toInputText(activeRange?.max ?? null));
+  const [includeMin, setIncludeMin] = useState(activeRange?.includeMin ?? true);
+  const [includeMax, setIncludeMax] = useState(activeRange?.includeMax ?? true);
+  const frameRef = useRef<number | undefined>(undefined);
+
+  // Follow external changes (Clear All, dataset switch)
+  useEffect(() => {
+    setMinText(toInputText(activeRange?.min ?? null));
+    setMaxText(toInputText(activeRange?.max ?? null));
+    setIncludeMin(activeRange?.includeMin ?? true);
+    setIncludeMax(activeRange?.includeMax ?? true);
+  }, [activeRange]);
+
+  useEffect(() => {
+    return () => {
+      if (frameRef.current) cancelAnimationFrame(frameRef.current);
+    };
+  }, []);
+
+  const commit = useCallback((range: RangeFilterValue) => {
+    if (frameRef.current) {
+      cancelAnimationFrame(frameRef.current);
+    }
+
+    frameRef.current = requestAnimationFrame(() => {
+      if (isFilterActive(range)) {
+        dispatch({ type: 'UPDATE_FILTER', payload: { column, filter: range } });
+      } else {
+        dispatch({ type: 'CLEAR_FILTER', payload: column });
+      }
+    });
+  }, [dispatch, column]);
+
+  const commitDraft = useCallback((
+    nextMinText: string,
+    nextMaxText: string,
+    nextIncludeMin: boolean,
+    nextIncludeMax: boolean
+  ) => {
+    let min = parseBound(nextMinText);
+    let max = parseBound(nextMaxText);
+
+    // Accept reversed bounds rather than producing an empty result
+    if (min !== null && max !== null && min > max) {
+      [min, max] = [max, min];
+      setMinText(toInputText(min));
+      setMaxText(toInputText(max));
+    }
+
+    commit(createRangeFilter(min, max, nextIncludeMin, nextIncludeMax));
+  }, [commit]);
+
+  const step = useMemo(() => {
+    if (!summary) return 1;
+    if (summary.isInteger) return 1;
+    return (summary.max - summary.min) / SLIDER_STEPS || 1;
+  }, [summary]);
+
+  if (!summary) {
+    return null;
+  }
+
+  const selectedMin = parseBound(minText);
+  const selectedMax = parseBound(maxText);
+  const sliderMin = selectedMin ?? summary.min;
+  const sliderMax = selectedMax ?? summary.max;
+
+  // Dragging a thumb back to the column's edge removes that bound
+  const handleSliderMin = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const value = Math.min(Number(event.target.value), sliderMax);
+    const nextMin = value <= summary.min ? '' : String(value);
+    setMinText(nextMin);
+    commitDraft(nextMin, maxText, includeMin, includeMax);
+  };
+
+  const handleSliderMax = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const value = Math.max(Number(event.target.value), sliderMin);
+    const nextMax = value >= summary.max ? '' : String(value);
+    setMaxText(nextMax);
+    commitDraft(minText, nextMax, includeMin, includeMax);
+  };
+
+  const handleClear = () => {
+    if (frameRef.current) {
+      cancelAnimationFrame(frameRef.current);
+    }
+    setMinText('');
+    setMaxText('');
+    setIncludeMin(true);
+    setIncludeMax(true);
+    dispatch({ type: 'CLEAR_FILTER', payload: column });
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
+    if (event.key === 'Enter') {
+      commitDraft(minText, maxText, includeMin, includeMax);
+    }
+  };
+
+  const span = summary.max - summary.min || 1;
+  const maxCount = histogram.reduce((max, bin) => Math.max(max, bin.count), 0);
+  const hasActiveFilter = activeRange !== null && isFilterActive(activeRange);
+  const isBinSelected = (start: number, end: number) => {
+    return (selectedMin === null || end >= selectedMin) && (selectedMax === null || start <= selectedMax);
+  };
+
+  return (
+    <div className="flex flex-col space-y-2">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <label className="text-sm font-medium text-gray-700 dark:text-gray-300">
+          {label}
+        </label>
+        {hasActiveFilter && (
+          <button
+            onClick={handleClear}
+            className="text-xs text-red-600 hover:text-red-800 dark:text-red-400 dark:hover:text-red-300 font-medium transition-colors duration-150 hover:scale-105 active:scale-95"
+            aria-label={`Clear ${label} filter`}
+            type="button"
+          >
+            Clear
+          </button>
+        )}
+      </div>
+
+      {/* Histogram of values matching the other filters */}
+      {isHistogramPending && histogram.length === 0 ? (
+        <div className="w-full h-12 rounded bg-gray-100 animate-pulse" aria-busy="true" aria-label={`Loading ${label} distribution`} />
+      ) : (
+        <svg
+          viewBox={`0 0 ${histogram.length} ${HISTOGRAM_HEIGHT}`}
+          preserveAspectRatio="none"
+          className={`w-full h-12 transition-opacity ${isHistogramPending ? 'opacity-50' : ''}`}
+          role="img"
+          aria-label={`${label} distribution`}
+          aria-busy={isHistogramPending}
+        >
+          {histogram.map((bin, index) => {
+            const height = maxCount > 0 ? (bin.count / maxCount) * HISTOGRAM_HEIGHT : 0;
+            return (
+              <rect
+                key={index}
+                x={index + 0.05}
+                y={HISTOGRAM_HEIGHT - height}
+                width={0.9}
+                height={height}
+                className={isBinSelected(bin.start, bin.end) ? 'fill-blue-500' : 'fill-gray-200'}
+              >
+                <title>{`${bin.start.toLocaleString()} – ${bin.end.toLocaleString()}: ${bin.count.toLocaleString()}`}</title>
+              </rect>
+            );
+          })}
+        </svg>
+      )}
+
+      {/* Dual-thumb slider */}
+      <div className="relative h-4">
+        <div className="absolute top-1/2 -translate-y-1/2 w-full h-1 bg-gray-200 rounded-full" />
+        <div
+          className="absolute top-1/2 -translate-y-1/2 h-1 bg-blue-500 rounded-full"
+          style={{
+            left: `${((sliderMin - summary.min) / span) * 100}%`,
+            right: `${100 - ((sliderMax - summary.min) / span) * 100}%`,
+          }}
+        />
+        <input
+          type="range"
+          min={summary.min}
+          max={summary.max}
+          step={step}
+          value={sliderMin}
+          onChange={handleSliderMin}
+          className="range-slider"
+          aria-label={`${label} minimum`}
+        />
+        <input
+          type="range"
+          min={summary.min}
+          max={summary.max}
+          step={step}
+          value={sliderMax}
+          onChange={handleSliderMax}
+          className="range-slider"
+          aria-label={`${label} maximum`}
+        />
+      </div>
+
+      {/* Exact bounds */}
+      <div className="grid grid-cols-2 gap-2">
+        <div className="flex flex-col space-y-1">
+          <input
+            type="number"
+            inputMode="decimal"
+            value={minText}
+            placeholder={summary.min.toLocaleString('en-US', { useGrouping: false })}
+            step={step}
+            onChange={(event) => setMinText(event.target.value)}
+            onBlur={() => commitDraft(minText, maxText, includeMin, includeMax)}
+            onKeyDown={handleKeyDown}
+            className="w-full px-2 py-1 text-xs border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            aria-label={`${label} minimum value`}
+          />
+          <label className="flex items-center space-x-1 text-xs text-gray-500">
+            <input
+              type="checkbox"
+              checked={includeMin}
+              onChange={(event) => {
+                setIncludeMin(event.target.checked);
+                commitDraft(minText, maxText, event.target.checked, includeMax);
+              }}
+              className="h-3 w-3 rounded border-gray-300 text-blue-600"
+            />
+            <span>Inclusive</span>
+          </label>
+        </div>
+        <div className="flex flex-col space-y-1">
+          <input
+            type="number"
+            inputMode="decimal"
+            value={maxText}
+            placeholder={summary.max.toLocaleString('en-US', { useGrouping: false })}
+            step={step}
+            onChange={(event) => setMaxText(event.target.value)}
+            onBlur={() => commitDraft(minText, maxText, includeMin, includeMax)}
+            onKeyDown={handleKeyDown}
+            className="w-full px-2 py-1 text-xs border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            aria-label={`${label} maximum value`}
+          />
+          <label className="flex items-center space-x-1 text-xs text-gray-500">
+            <input
+              type="checkbox"
+              checked={includeMax}
+              onChange={(event) => {
+                setIncludeMax(event.target.checked);
+                commitDraft(minText, maxText, includeMin, event.target.checked);
+              }}
+              className="h-3 w-3 rounded border-gray-300 text-blue-600"
+            />
+            <span>Inclusive</span>
+          </label>
+        </div>
+      </div>
+
+      {/* Filter status information */}
+      {hasActiveFilter && (
+        <div className="text-xs text-gray-500 dark:text-gray-400 flex items-center justify-between">
+          <span>{formatRange(activeRange!)}</span>
+          <span className="text-green-600 dark:text-green-400 font-medium flex items-center">
+            ⚡ instant
+          </span>
+        </div>
+      )}
+    </div>
+  );
+});
+
+RangeFilter.displayName = 'RangeFilter';
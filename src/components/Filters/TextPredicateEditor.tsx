@@ -0,0 +1,71 @@
+'use client';
+
+import React from 'react';
+import { TextFilter, TextOperator } from '@/types';
+import { TEXT_OPERATOR_LABELS, getTextFilterError } from '@/utils/filterModel';
+
+interface TextPredicateEditorProps {
+  filter: TextFilter;
+  onChange: (filter: TextFilter) => void;
+  onSubmit?: () => void;
+  label: string;
+}
+
+const PLACEHOLDERS: Record<TextOperator, string> = {
+  equals: 'Exact value',
+  contains: 'Text',
+  startsWith: 'Prefix',
+  endsWith: 'Suffix',
+  wildcard: 'e.g. North*',
+  regex: 'e.g. ^A\\d+$',
+};
+
+// Controlled operator / pattern / case inputs shared by the column dropdown
+// and the query builder
+export const TextPredicateEditor: React.FC<TextPredicateEditorProps> = ({ filter, onChange, onSubmit, label }) => {
+  const error = getTextFilterError(filter);
+
+  return (
+    <div className="flex flex-col space-y-1">
+      <div className="flex items-center space-x-1">
+        <select
+          value={filter.operator}
+          onChange={(event) => onChange({ ...filter, operator: event.target.value as TextOperator })}
+          className="px-1 py-1 text-xs border border-gray-300 rounded-md"
+          aria-label={`${label} text operator`}
+        >
+          {(Object.keys(TEXT_OPERATOR_LABELS) as TextOperator[]).map(operator => (
+            <option key={operator} value={operator}>{TEXT_OPERATOR_LABELS[operator]}</option>
+          ))}
+        </select>
+        <button
+          type="button"
+          onClick={() => onChange({ ...filter, caseSensitive: !filter.caseSensitive })}
+          className={`px-1.5 py-1 text-xs font-mono border rounded-md ${
+            filter.caseSensitive ? 'border-blue-500 bg-blue-50 text-blue-700' : 'border-gray-300 text-gray-500 hover:bg-gray-50'
+          }`}
+          aria-pressed={filter.caseSensitive}
+          aria-label="Match case"
+          title="Match case"
+        >
+          Aa
+        </button>
+      </div>
+      <input
+        type="text"
+        value={filter.value}
+        placeholder={PLACEHOLDERS[filter.operator]}
+        onChange={(event) => onChange({ ...filter, value: event.target.value })}
+        onKeyDown={(event) => {
+          if (event.key === 'Enter') onSubmit?.();
+        }}
+        className={`w-full px-2 py-1 text-xs border rounded-md focus:outline-none focus:ring-2 ${
+          error ? 'border-red-400 focus:ring-red-500' : 'border-gray-300 focus:ring-blue-500'
+        } ${filter.operator === 'regex' || filter.operator === 'wildcard' ? 'font-mono' : ''}`}
+        aria-label={`${label} text pattern`}
+        aria-invalid={error !== null}
+      />
+      {error && <div className="text-xs text-red-600">{error}</div>}
+    </div>
+  );
+};
@@ -1,9 +1,11 @@
 'use client';
 
-import React, { useMemo, useCallback, useRef } from 'react';
+import React, { useMemo, useCallback, useEffect, useRef, useState } from 'react';
 import { MultiSelectFilter } from './MultiSelectFilter';
+import { TextPredicateEditor } from './TextPredicateEditor';
 import { useUltraFastFilter } from '@/context/UltraFastFilterContext';
-import { FilterOption } from '@/types';
+import { ColumnFilter, FilterOption, TextFilter } from '@/types';
+import { createTextFilter, formatTextFilter, getTextMatcher, isFilterActive, isTextFilter } from '@/utils/filterModel';
 
 interface UltraFastFilterDropdownProps {
   column: string;
@@ -13,106 +15,91 @@ interface UltraFastFilterDropdownProps {
 // Pre-computed constants for better performance
 const EMPTY_ARRAY: FilterOption[] = [];
 const EMPTY_STRING_ARRAY: string[] = [];
+const TEXT_DEBOUNCE_MS = 200;
+
+type FilterMode = 'values' | 'text';
 
 export const UltraFastFilterDropdown: React.FC<UltraFastFilterDropdownProps> = React.memo(({ 
   column, 
   label
 }) => {
-  const { state, dispatch, getAvailableFilterOptions, getFilterOptions } = useUltraFastFilter();
-  const { filters, data } = state;
-  const selectedValues = filters[column] || EMPTY_STRING_ARRAY;
+  const {
+    state,
+    dispatch,
+    subscribeFacets,
+    isFacetPending,
+    getAvailableFilterOptions,
+    getFilterOptions,
+  } = useUltraFastFilter();
+  const { filters } = state;
+  const columnFilter = filters[column];
+  // A range filter on this column is edited by RangeFilter, not the checkbox list
+  const selectedValues = Array.isArray(columnFilter) ? columnFilter : EMPTY_STRING_ARRAY;
   
   // Optimized state management
   const frameRef = useRef<number | undefined>(undefined);
-  const optionsCacheRef = useRef<Map<string, FilterOption[]>>(new Map());
-  
-  // Ultra-fast column metadata with minimal recalculation
-  const columnMeta = useMemo(() => {
-    const isIdOrNumber = column === 'id' || column === 'number';
-    const dataLength = data.length;
-    
-    return {
-      isIdOrNumber,
-      dataLength,
-      cacheKey: `${column}-${dataLength}-${isIdOrNumber}`
+  const textTimerRef = useRef<ReturnType<typeof setTimeout> | undefined>(undefined);
+
+  // Picking values and matching text are two ways to filter the same column;
+  // the text draft only reaches the filter model once it is a usable pattern
+  const [mode, setMode] = useState<FilterMode>(isTextFilter(columnFilter) ? 'text' : 'values');
+  const [textDraft, setTextDraft] = useState<TextFilter>(
+    isTextFilter(columnFilter) ? columnFilter : createTextFilter()
+  );
+  const dispatchedRef = useRef<ColumnFilter | undefined>(columnFilter);
+
+  // Follow external changes (Clear All, undo, saved views)
+  useEffect(() => {
+    if (columnFilter === dispatchedRef.current) return;
+    dispatchedRef.current = columnFilter;
+
+    if (isTextFilter(columnFilter)) {
+      setMode('text');
+      setTextDraft(columnFilter);
+    } else {
+      if (isFilterActive(columnFilter)) setMode('values');
+      setTextDraft(draft => createTextFilter(draft.operator, '', draft.caseSensitive));
+    }
+  }, [columnFilter]);
+
+  useEffect(() => {
+    return () => {
+      if (frameRef.current) cancelAnimationFrame(frameRef.current);
+      if (textTimerRef.current) clearTimeout(textTimerRef.current);
     };
-  }, [column, data.length]);
+  }, []);
+
+  // Option counts come from the filter worker while this dropdown is mounted
+  useEffect(() => subscribeFacets(column, 'all'), [subscribeFacets, column]);
+  useEffect(() => subscribeFacets(column, 'available'), [subscribeFacets, column]);
 
-  // Hyper-optimized allOptions with aggressive caching
+  const isPending = isFacetPending(column, 'available');
+  
+  // Unfiltered options; the worker caches them per dataset
   const allOptions = useMemo(() => {
-    const { isIdOrNumber, dataLength, cacheKey } = columnMeta;
-    
-    // Check cache first
-    if (optionsCacheRef.current.has(cacheKey)) {
-      return optionsCacheRef.current.get(cacheKey)!;
-    }
-    
     try {
-      if (isIdOrNumber) {
-        // Generate ALL ID/Number options for complete dropdown
-        const options: FilterOption[] = [];
-        options.length = dataLength; // Pre-allocate for better performance
-        
-        for (let i = 0; i < dataLength; i++) {
-          const value = (i + 1).toString();
-          options[i] = { value, label: value, count: 1 };
-        }
-        
-        optionsCacheRef.current.set(cacheKey, options);
-        return options;
-      } else {
-        // For categorical columns, use existing logic
-        const options = getFilterOptions(column);
-        optionsCacheRef.current.set(cacheKey, options);
-        return options;
-      }
+      return getFilterOptions(column);
     } catch (error) {
       console.error(`Error getting all options for column "${column}":`, error);
       return EMPTY_ARRAY;
     }
-  }, [getFilterOptions, column, columnMeta]);
+  }, [getFilterOptions, column]);
 
   // Ultra-optimized available options
   const availableOptions = useMemo(() => {
-    const { isIdOrNumber } = columnMeta;
-    
     try {
-      if (isIdOrNumber) {
-        // Show ALL ID/Number values
-        const options = [...allOptions];
-        
-        // Always include selected values even if not in filtered results
-        if (selectedValues.length > 0) {
-          const optionValuesSet = new Set(options.map(opt => opt.value));
-          const missingSelected = selectedValues.filter(val => !optionValuesSet.has(val));
-          
-          missingSelected.forEach(val => {
-            options.push({ value: val, label: val, count: 1 });
-          });
-        }
-        
-        return options;
-      } else {
-        // Optimized categorical filtering
-        return getAvailableFilterOptions(column);
-      }
+      return getAvailableFilterOptions(column);
     } catch (error) {
       console.error(`Error processing available options for column "${column}":`, error);
       return EMPTY_ARRAY;
     }
-  }, [
-    getAvailableFilterOptions, 
-    column, 
-    columnMeta, 
-    selectedValues,
-    allOptions
-  ]);
+  }, [getAvailableFilterOptions, column]);
 
   // Memoized filter status with shallow comparison optimization
   const filterStatus = useMemo(() => {
-    const hasActiveFilter = selectedValues.length > 0;
+    const hasActiveFilter = isFilterActive(columnFilter);
     const hasOtherActiveFilters = Object.keys(filters).some(
-      col => col !== column && filters[col]?.length > 0
+      col => col !== column && isFilterActive(filters[col])
     );
     const availableCount = availableOptions.length;
     const totalCount = allOptions.length;
@@ -129,6 +116,7 @@ export const UltraFastFilterDropdown: React.FC<UltraFastFilterDropdownProps> = R
       totalCount
     };
   }, [
+    columnFilter,
     selectedValues.length, 
     filters, 
     column, 
@@ -145,9 +133,10 @@ export const UltraFastFilterDropdown: React.FC<UltraFastFilterDropdownProps> = R
     
     // Schedule update in next frame
     frameRef.current = requestAnimationFrame(() => {
+      dispatchedRef.current = values;
       dispatch({
         type: 'UPDATE_FILTER',
-        payload: { column, values },
+        payload: { column, filter: values },
       });
     });
   }, [dispatch, column]);
@@ -158,11 +147,71 @@ export const UltraFastFilterDropdown: React.FC<UltraFastFilterDropdownProps> = R
     if (frameRef.current) {
       cancelAnimationFrame(frameRef.current);
     }
+    if (textTimerRef.current) {
+      clearTimeout(textTimerRef.current);
+    }
     
     // Clear filter
+    dispatchedRef.current = undefined;
+    setTextDraft(draft => createTextFilter(draft.operator, '', draft.caseSensitive));
     dispatch({ type: 'CLEAR_FILTER', payload: column });
   }, [dispatch, column]);
 
+  // Debounced like the table search; half-typed patterns leave the last usable one in place
+  const commitText = useCallback((next: TextFilter, delay: number) => {
+    if (textTimerRef.current) {
+      clearTimeout(textTimerRef.current);
+    }
+
+    textTimerRef.current = setTimeout(() => {
+      if (isFilterActive(next)) {
+        dispatchedRef.current = next;
+        dispatch({ type: 'UPDATE_FILTER', payload: { column, filter: next } });
+      } else if (next.value === '' && isFilterActive(dispatchedRef.current)) {
+        dispatchedRef.current = undefined;
+        dispatch({ type: 'CLEAR_FILTER', payload: column });
+      }
+    }, delay);
+  }, [dispatch, column]);
+
+  const handleTextChange = useCallback((next: TextFilter) => {
+    setTextDraft(next);
+    commitText(next, TEXT_DEBOUNCE_MS);
+  }, [commitText]);
+
+  // Switching modes drops the other kind of filter on this column
+  const handleModeChange = useCallback((next: FilterMode) => {
+    if (next === mode) return;
+    setMode(next);
+    if (textTimerRef.current) {
+      clearTimeout(textTimerRef.current);
+    }
+
+    const keepsFilter = next === 'text' ? isTextFilter(columnFilter) : Array.isArray(columnFilter);
+    if (isFilterActive(columnFilter) && !keepsFilter) {
+      handleClearFilter();
+    } else if (next === 'text' && textDraft.value !== '') {
+      commitText(textDraft, 0);
+    }
+  }, [mode, columnFilter, textDraft, handleClearFilter, commitText]);
+
+  // Preview against the full value dictionary, so it covers every distinct value
+  const textMatchSummary = useMemo(() => {
+    if (mode !== 'text') return null;
+    const matcher = textDraft.value !== '' ? getTextMatcher(textDraft) : null;
+    if (!matcher) return null;
+
+    let values = 0;
+    let rows = 0;
+    allOptions.forEach(option => {
+      if (matcher(option.value)) {
+        values++;
+        rows += option.count ?? 0;
+      }
+    });
+    return { values, rows };
+  }, [mode, textDraft, allOptions]);
+
   // Pre-computed strings for better performance
   const placeholderText = useMemo(() => `Select ${label.toLowerCase()}...`, [label]);
   const clearAriaLabel = useMemo(() => `Clear ${label} filter`, [label]);
@@ -199,27 +248,70 @@ export const UltraFastFilterDropdown: React.FC<UltraFastFilterDropdownProps> = R
         </div>
       </div>
       
-      {/* Helper text */}
-      <div className="text-xs text-gray-500 dark:text-gray-400 mb-1">
-        Click to open dropdown and search within options.
+      {/* Values / text mode */}
+      <div className="inline-flex self-start rounded-md border border-gray-300 overflow-hidden text-xs" role="group" aria-label={`${label} filter mode`}>
+        {(['values', 'text'] as FilterMode[]).map(option => (
+          <button
+            key={option}
+            type="button"
+            onClick={() => handleModeChange(option)}
+            className={`px-2 py-0.5 ${mode === option ? 'bg-blue-600 text-white' : 'bg-white text-gray-600 hover:bg-gray-50'}`}
+            aria-pressed={mode === option}
+          >
+            {option === 'values' ? 'Values' : 'Text'}
+          </button>
+        ))}
       </div>
+
+      {mode === 'text' ? (
+        <>
+          <TextPredicateEditor
+            filter={textDraft}
+            onChange={handleTextChange}
+            onSubmit={() => commitText(textDraft, 0)}
+            label={label}
+          />
+          {textMatchSummary && (
+            <div className="text-xs text-gray-500 dark:text-gray-400">
+              {textMatchSummary.values.toLocaleString()} of {allOptions.length.toLocaleString()} values match
+              ({textMatchSummary.rows.toLocaleString()} rows)
+            </div>
+          )}
+        </>
+      ) : (
+        <>
+          {/* Helper text */}
+          <div className="text-xs text-gray-500 dark:text-gray-400 mb-1">
+            Click to open dropdown and search within options.
+          </div>
       
-      {/* Multi-select filter component with search inside dropdown */}
-      <MultiSelectFilter
-        options={availableOptions}
-        selectedValues={selectedValues}
-        onSelectionChange={handleSelectionChange}
-        placeholder={placeholderText}
-        searchable={true}
-        disabled={availableOptions.length === 0}
-        maxHeight={400} // Increased height for better scrolling
-      />
+          {/* Multi-select filter component with search inside dropdown */}
+          {isPending && availableOptions.length === 0 ? (
+            // Nothing settled yet: shimmer in place of the select
+            <div className="h-10 rounded-md bg-gray-100 animate-pulse" aria-busy="true" aria-label={`Loading ${label} options`} />
+          ) : (
+            <div className={isPending ? 'opacity-60 transition-opacity' : 'transition-opacity'} aria-busy={isPending}>
+              <MultiSelectFilter
+                options={availableOptions}
+                selectedValues={selectedValues}
+                onSelectionChange={handleSelectionChange}
+                placeholder={placeholderText}
+                searchable={true}
+                disabled={availableOptions.length === 0}
+                maxHeight={400} // Increased height for better scrolling
+              />
+            </div>
+          )}
+        </>
+      )}
       
       {/* Filter status information */}
       {filterStatus.hasActiveFilter && (
         <div className="text-xs text-gray-500 dark:text-gray-400 flex items-center justify-between">
-          <span>
-            {filterStatus.selectedCount} of {filterStatus.availableCount} selected
+          <span className="truncate">
+            {isTextFilter(columnFilter)
+              ? formatTextFilter(columnFilter)
+              : `${filterStatus.selectedCount} of ${filterStatus.availableCount} selected`}
           </span>
           <span className="text-green-600 dark:text-green-400 font-medium flex items-center">
             ⚡ instant
@@ -241,7 +333,7 @@ export const UltraFastFilterDropdown: React.FC<UltraFastFilterDropdownProps> = R
       )}
       
       {/* No options available state */}
-      {availableOptions.length === 0 && !filterStatus.hasOtherActiveFilters && (
+      {mode === 'values' && availableOptions.length === 0 && !filterStatus.hasOtherActiveFilters && !isPending && (
         <div className="text-xs text-gray-400 dark:text-gray-500 italic text-center py-2">
           No options available
         </div>
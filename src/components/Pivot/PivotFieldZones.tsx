@@ -0,0 +1,182 @@
+'use client';
+
+import React, { useState } from 'react';
+import { AggregateFunction, ColumnConfig, PivotConfig } from '@/types';
+import { AGGREGATE_LABELS } from '@/utils/grouping';
+import {
+  EMPTY_PIVOT,
+  PivotZone,
+  addPivotField,
+  getDefaultPivotFunction,
+  getPivotFunctions,
+  removePivotField,
+  setPivotFunction,
+} from '@/utils/pivot';
+
+interface PivotFieldZonesProps {
+  config: PivotConfig;
+  columns: ColumnConfig[];
+  onChange: (config: PivotConfig) => void;
+}
+
+// Field being dragged; zone is null for the field list
+interface DraggedField {
+  column: string;
+  zone: PivotZone | null;
+  index: number;
+}
+
+const ZONES: { zone: PivotZone; label: string; hint: string }[] = [
+  { zone: 'rows', label: 'Rows', hint: 'One row per value' },
+  { zone: 'columns', label: 'Columns', hint: 'One column per value' },
+  { zone: 'values', label: 'Values', hint: 'Row count when empty' },
+];
+
+// Field list and the rows / columns / values zones. Fields are dragged into,
+// between and within zones; the selects do the same from the keyboard.
+export const PivotFieldZones: React.FC<PivotFieldZonesProps> = ({ config, columns, onChange }) => {
+  const [dragged, setDragged] = useState<DraggedField | null>(null);
+  const configs = new Map(columns.map(column => [column.key, column]));
+  const getLabel = (column: string) => configs.get(column)?.label ?? column;
+
+  const getZoneFields = (zone: PivotZone): string[] => {
+    return zone === 'values' ? config.values.map(value => value.column) : config[zone];
+  };
+
+  const drop = (zone: PivotZone, index?: number) => {
+    if (!dragged) return;
+    const base = dragged.zone ? removePivotField(config, dragged.zone, dragged.index) : config;
+    // Removing the field first shifts later positions in the same zone
+    const position = index !== undefined && dragged.zone === zone && dragged.index < index ? index - 1 : index;
+    const fn = dragged.zone === 'values'
+      ? config.values[dragged.index].fn
+      : getDefaultPivotFunction(configs.get(dragged.column));
+    onChange(addPivotField(base, zone, dragged.column, fn, position));
+    setDragged(null);
+  };
+
+  const getDragProps = (column: string, zone: PivotZone | null, index: number) => ({
+    draggable: true,
+    onDragStart: (event: React.DragEvent) => {
+      event.dataTransfer.effectAllowed = 'move';
+      event.dataTransfer.setData('text/plain', column);
+      setDragged({ column, zone, index });
+    },
+    onDragEnd: () => setDragged(null),
+  });
+
+  const dropTargetProps = (zone: PivotZone, index?: number) => ({
+    onDragOver: (event: React.DragEvent) => {
+      if (dragged) event.preventDefault();
+    },
+    onDrop: (event: React.DragEvent) => {
+      event.preventDefault();
+      event.stopPropagation();
+      drop(zone, index);
+    },
+  });
+
+  const isEmpty = config.rows.length === 0 && config.columns.length === 0 && config.values.length === 0;
+
+  return (
+    <div className="px-4 py-3 border-b border-gray-200 bg-white">
+      <div className="flex items-center justify-between mb-2">
+        <span className="text-xs text-gray-500">Drag fields into rows, columns and values.</span>
+        {!isEmpty && (
+          <button
+            type="button"
+            onClick={() => onChange(EMPTY_PIVOT)}
+            className="text-xs text-red-600 hover:text-red-800 font-medium"
+          >
+            Clear pivot
+          </button>
+        )}
+      </div>
+
+      <ul className="flex flex-wrap gap-1 mb-3" aria-label="Fields">
+        {columns.map((column, index) => (
+          <li
+            key={column.key}
+            {...getDragProps(column.key, null, index)}
+            className={`px-2 py-0.5 text-xs rounded border border-gray-300 bg-gray-50 text-gray-700 cursor-move ${
+              dragged?.column === column.key && dragged.zone === null ? 'opacity-50' : ''
+            }`}
+          >
+            {column.label}
+          </li>
+        ))}
+      </ul>
+
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+        {ZONES.map(({ zone, label, hint }) => {
+          const fields = getZoneFields(zone);
+          const available = zone === 'values'
+            ? columns
+            : columns.filter(column => !fields.includes(column.key));
+          return (
+            <div
+              key={zone}
+              {...dropTargetProps(zone)}
+              className={`min-h-[5rem] p-2 rounded-md border-2 border-dashed ${
+                dragged ? 'border-blue-300 bg-blue-50' : 'border-gray-200'
+              }`}
+            >
+              <div className="flex items-center justify-between mb-1">
+                <span className="text-xs font-medium text-gray-700">{label}</span>
+                <span className="text-[10px] text-gray-400">{hint}</span>
+              </div>
+              <ol className="flex flex-col space-y-1">
+                {fields.map((column, index) => (
+                  <li
+                    key={zone === 'values' ? `${column}:${config.values[index].fn}` : column}
+                    {...getDragProps(column, zone, index)}
+                    {...dropTargetProps(zone, index)}
+                    className={`flex items-center space-x-1 px-2 py-0.5 text-xs rounded border border-blue-200 bg-white cursor-move ${
+                      dragged?.zone === zone && dragged.index === index ? 'opacity-50' : ''
+                    }`}
+                  >
+                    {zone === 'values' && (
+                      <select
+                        value={config.values[index].fn}
+                        onChange={(event) => onChange(setPivotFunction(config, index, event.target.value as AggregateFunction))}
+                        className="px-1 py-0 text-xs border border-gray-200 rounded"
+                        aria-label={`Aggregation for ${getLabel(column)}`}
+                      >
+                        {getPivotFunctions(configs.get(column)).map(fn => (
+                          <option key={fn} value={fn}>{AGGREGATE_LABELS[fn]}</option>
+                        ))}
+                      </select>
+                    )}
+                    <span className="flex-1 truncate text-gray-900">{getLabel(column)}</span>
+                    <button
+                      type="button"
+                      onClick={() => onChange(removePivotField(config, zone, index))}
+                      className="px-1 text-gray-400 hover:text-red-600"
+                      aria-label={`Remove ${getLabel(column)} from ${label.toLowerCase()}`}
+                    >
+                      ×
+                    </button>
+                  </li>
+                ))}
+              </ol>
+              <select
+                value=""
+                onChange={(event) => {
+                  const column = event.target.value;
+                  if (column) onChange(addPivotField(config, zone, column, getDefaultPivotFunction(configs.get(column))));
+                }}
+                className="mt-1 w-full px-1 py-0.5 text-xs border border-gray-200 rounded text-gray-500"
+                aria-label={`Add field to ${label.toLowerCase()}`}
+              >
+                <option value="">Add...</option>
+                {available.map(column => (
+                  <option key={column.key} value={column.key}>{column.label}</option>
+                ))}
+              </select>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
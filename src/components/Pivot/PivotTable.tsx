@@ -0,0 +1,187 @@
+'use client';
+
+import React, { useMemo } from 'react';
+import { ColumnConfig, ColumnFilter, DataRow, PivotConfig } from '@/types';
+import { Pagination } from '@/components/DataTable/Pagination';
+import { usePagination } from '@/hooks/usePagination';
+import { formatAggregate } from '@/utils/grouping';
+import {
+  MAX_PIVOT_COLUMNS,
+  MAX_PIVOT_ROWS,
+  PivotEntry,
+  computePivot,
+  formatPivotValue,
+  getCellFilters,
+  getCellKey,
+  getEntryLabel,
+  getMeasureValue,
+  getPivotMeasures,
+  pivotToCsv,
+} from '@/utils/pivot';
+
+interface PivotTableProps {
+  data: DataRow[];
+  // Rows matching the active filters; null means every row
+  indices: Uint32Array | null;
+  config: PivotConfig;
+  columns: ColumnConfig[];
+  // Decides between a range and a value list for number fields' drill-down filters
+  getFilterKind: (column: string) => 'range' | 'values';
+  // Narrow the filters to a cell's rows
+  onDrillDown: (filters: Record<string, ColumnFilter>) => void;
+}
+
+const PIVOT_PAGE_SIZE = 100;
+
+const getRowHeaderLabel = (entry: PivotEntry): string => {
+  if (entry.kind === 'total') return 'Total';
+  const value = formatPivotValue(entry.path[entry.path.length - 1]);
+  return entry.kind === 'subtotal' ? `${value} total` : value;
+};
+
+// Cross-tab of the filtered rows with subtotals and totals. Clicking a cell
+// filters the dashboard down to the rows behind it.
+export const PivotTable: React.FC<PivotTableProps> = ({ data, indices, config, columns, getFilterKind, onDrillDown }) => {
+  const labels = useMemo(() => new Map(columns.map(column => [column.key, column.label])), [columns]);
+  const result = useMemo(() => computePivot(data, indices, config, columns), [data, indices, config, columns]);
+  const measures = useMemo(() => getPivotMeasures(config, labels), [config, labels]);
+
+  const { paginationState, goToPage, changePageSize, getPaginatedData } = usePagination(result.rows.length, PIVOT_PAGE_SIZE);
+  const pageRows = useMemo(() => getPaginatedData(result.rows), [result.rows, getPaginatedData]);
+
+  const exportCsv = () => {
+    const blob = new Blob([pivotToCsv(result, config, labels)], { type: 'text/csv' });
+    const url = window.URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `pivot-${new Date().toISOString().split('T')[0]}.csv`;
+    a.click();
+    window.URL.revokeObjectURL(url);
+  };
+
+  if (result.overflow) {
+    const limit = result.overflow.zone === 'rows' ? MAX_PIVOT_ROWS : MAX_PIVOT_COLUMNS;
+    return (
+      <div className="px-4 py-8 text-center text-sm text-gray-500">
+        More than {limit.toLocaleString()} {result.overflow.zone} in the pivot. Filter the data or choose fewer
+        or coarser {result.overflow.zone} fields.
+      </div>
+    );
+  }
+
+  const hasMeasureRow = measures.length > 1 || config.columns.length === 0;
+  const rowFieldLabel = config.rows.map(field => labels.get(field) ?? field).join(' › ');
+  // Without fields an axis is just its total
+  const countValues = (entries: PivotEntry[]) => Math.max(1, entries.filter(entry => entry.kind === 'value').length);
+
+  return (
+    <>
+      <div className="flex items-center justify-between px-4 py-2 border-b border-gray-200 text-xs text-gray-500">
+        <span>
+          {measures.map(measure => measure.label).join(', ')} by{' '}
+          {countValues(result.rows).toLocaleString()} rows × {countValues(result.columns).toLocaleString()} columns
+        </span>
+        <button
+          type="button"
+          onClick={exportCsv}
+          className="text-blue-600 hover:text-blue-800 font-medium"
+        >
+          Export CSV
+        </button>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="min-w-full text-sm border-collapse">
+          <thead className="bg-gray-50 text-xs font-medium text-gray-500">
+            <tr>
+              <th
+                scope="col"
+                rowSpan={hasMeasureRow ? 2 : 1}
+                className="sticky left-0 z-10 bg-gray-50 px-4 py-2 text-left border-b border-r border-gray-200"
+              >
+                {rowFieldLabel}
+              </th>
+              {config.columns.length > 0 && result.columns.map(column => (
+                <th
+                  key={column.id}
+                  scope="col"
+                  colSpan={measures.length}
+                  className={`px-4 py-2 text-right whitespace-nowrap border-b border-gray-200 ${
+                    column.kind === 'value' ? '' : 'font-semibold text-gray-700'
+                  }`}
+                >
+                  {getEntryLabel(column)}
+                </th>
+              ))}
+            </tr>
+            {hasMeasureRow && (
+              <tr>
+                {result.columns.flatMap(column => measures.map(measure => (
+                  <th
+                    key={`${column.id}:${measure.key}`}
+                    scope="col"
+                    className="px-4 py-1 text-right whitespace-nowrap border-b border-gray-200 font-normal"
+                  >
+                    {measure.label}
+                  </th>
+                )))}
+              </tr>
+            )}
+          </thead>
+          <tbody className="divide-y divide-gray-200">
+            {pageRows.map(row => {
+              const isSummary = row.kind !== 'value';
+              const background = isSummary ? 'bg-gray-50' : 'bg-white';
+              return (
+                <tr key={row.id} className={isSummary ? 'font-semibold' : ''}>
+                  <th
+                    scope="row"
+                    className={`sticky left-0 ${background} px-4 py-2 text-left whitespace-nowrap border-r border-gray-200 text-gray-900`}
+                    style={{ paddingLeft: 16 + Math.max(0, row.path.length - 1) * 16 }}
+                  >
+                    {getRowHeaderLabel(row)}
+                  </th>
+                  {result.columns.flatMap(column => {
+                    const summary = result.cells.get(getCellKey(row, column));
+                    const filters = getCellFilters(config, row, column, columns, getFilterKind);
+                    const canDrillDown = summary !== undefined && Object.keys(filters).length > 0;
+                    return measures.map(measure => {
+                      const value = getMeasureValue(summary, measure);
+                      return (
+                        <td
+                          key={`${column.id}:${measure.key}`}
+                          className={`${column.kind === 'value' ? background : 'bg-gray-50'} px-4 py-2 text-right font-mono whitespace-nowrap`}
+                        >
+                          {summary && (canDrillDown ? (
+                            <button
+                              type="button"
+                              onClick={() => onDrillDown(filters)}
+                              className="hover:text-blue-700 hover:underline"
+                              title={`Show these ${summary.count.toLocaleString()} rows`}
+                            >
+                              {formatAggregate(measure.fn, value)}
+                            </button>
+                          ) : formatAggregate(measure.fn, value))}
+                        </td>
+                      );
+                    });
+                  })}
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+
+      {paginationState.totalPages > 1 && (
+        <div className="bg-gray-50 border-t border-gray-200">
+          <Pagination
+            paginationState={paginationState}
+            onPageChange={goToPage}
+            onPageSizeChange={changePageSize}
+          />
+        </div>
+      )}
+    </>
+  );
+};
@@ -4,11 +4,12 @@ import React, { createContext, useContext, useReducer, ReactNode, useCallback, u
 import { DataRow, ColumnConfig, FilterState } from '@/types';
 import { ChunkedDataGenerator } from '@/utils/csvParser';
 import { getColumnConfigs } from '@/utils/dataProcessing';
+import { ChunkedFilterEngine } from '@/utils/filterEngine';
 import { OptimizedFilterManager } from '@/utils/optimizedFilterLogic';
 
 interface ChunkedDataState {
   dataGenerator: ChunkedDataGenerator | null;
-  filterManager: OptimizedFilterManager | null;
+  filterManager: ChunkedFilterEngine | null;
   totalCount: number;
   loadedData: DataRow[];
   visibleRange: { start: number; end: number };
@@ -59,43 +60,15 @@ const chunkedDataReducer = (state: ChunkedDataState, action: ChunkedDataAction):
       const firstChunk = generator.generateChunk(0);
       const columns = getColumnConfigs(firstChunk);
       
-      // Build initial index for the first chunk with correct column names
-      filterManager.buildIndex('id', firstChunk, 0);
-      filterManager.buildIndex('number', firstChunk, 0);
-      filterManager.buildIndex('mod3', firstChunk, 0);
-      filterManager.buildIndex('mod4', firstChunk, 0);
-      filterManager.buildIndex('mod5', firstChunk, 0);
-      filterManager.buildIndex('mod6', firstChunk, 0);
-      filterManager.buildIndex('mod7', firstChunk, 0);
-      filterManager.buildIndex('mod8', firstChunk, 0);
-      filterManager.buildIndex('mod10', firstChunk, 0);
-      filterManager.buildIndex('mod12', firstChunk, 0);
-      filterManager.buildIndex('mod15', firstChunk, 0);
-      filterManager.buildIndex('mod20', firstChunk, 0);
-      filterManager.buildIndex('category', firstChunk, 0);
-      filterManager.buildIndex('status', firstChunk, 0);
-      filterManager.cacheData(firstChunk, 0);
+      // Index every column of the first chunk
+      filterManager.indexChunk(firstChunk, 0);
       
       // Preload a few more chunks to populate filter options
       const chunksToPreload = Math.min(2, generator.getTotalChunks() - 1);
       for (let i = 1; i <= chunksToPreload; i++) {
         const chunkData = generator.generateChunk(i);
         const startIndex = i * generator.getChunkSize();
-        filterManager.buildIndex('id', chunkData, startIndex);
-        filterManager.buildIndex('number', chunkData, startIndex);
-        filterManager.buildIndex('mod3', chunkData, startIndex);
-        filterManager.buildIndex('mod4', chunkData, startIndex);
-        filterManager.buildIndex('mod5', chunkData, startIndex);
-        filterManager.buildIndex('mod6', chunkData, startIndex);
-        filterManager.buildIndex('mod7', chunkData, startIndex);
-        filterManager.buildIndex('mod8', chunkData, startIndex);
-        filterManager.buildIndex('mod10', chunkData, startIndex);
-        filterManager.buildIndex('mod12', chunkData, startIndex);
-        filterManager.buildIndex('mod15', chunkData, startIndex);
-        filterManager.buildIndex('mod20', chunkData, startIndex);
-        filterManager.buildIndex('category', chunkData, startIndex);
-        filterManager.buildIndex('status', chunkData, startIndex);
-        filterManager.cacheData(chunkData, startIndex);
+        filterManager.indexChunk(chunkData, startIndex);
       }
       
       return {
@@ -172,7 +145,7 @@ const chunkedDataReducer = (state: ChunkedDataState, action: ChunkedDataAction):
 
     case 'UPDATE_FILTERS': {
       const newFilters = action.payload;
-      const filteredCount = state.filterManager?.getFilteredCount(newFilters) || state.totalCount;
+      const filteredCount = state.filterManager?.count({ filters: newFilters }) ?? state.totalCount;
       
       return {
         ...state,
@@ -228,24 +201,10 @@ export const ChunkedDataProvider: React.FC<{ children: ReactNode }> = ({ childre
       // Generate chunk data immediately
       const chunkData = state.dataGenerator.generateChunk(chunkIndex);
       
-      // Build indexes for the new chunk with correct column names
+      // Index the new chunk's columns
       if (state.filterManager) {
         const startIndex = chunkIndex * (state.dataGenerator.getChunkSize());
-        state.filterManager.buildIndex('id', chunkData, startIndex);
-        state.filterManager.buildIndex('number', chunkData, startIndex);
-        state.filterManager.buildIndex('mod3', chunkData, startIndex);
-        state.filterManager.buildIndex('mod4', chunkData, startIndex);
-        state.filterManager.buildIndex('mod5', chunkData, startIndex);
-        state.filterManager.buildIndex('mod6', chunkData, startIndex);
-        state.filterManager.buildIndex('mod7', chunkData, startIndex);
-        state.filterManager.buildIndex('mod8', chunkData, startIndex);
-        state.filterManager.buildIndex('mod10', chunkData, startIndex);
-        state.filterManager.buildIndex('mod12', chunkData, startIndex);
-        state.filterManager.buildIndex('mod15', chunkData, startIndex);
-        state.filterManager.buildIndex('mod20', chunkData, startIndex);
-        state.filterManager.buildIndex('category', chunkData, startIndex);
-        state.filterManager.buildIndex('status', chunkData, startIndex);
-        state.filterManager.cacheData(chunkData, startIndex);
+        state.filterManager.indexChunk(chunkData, startIndex);
       }
       
       dispatch({ type: 'LOAD_CHUNK', payload: { chunkIndex, data: chunkData } });
@@ -297,7 +256,10 @@ export const ChunkedDataProvider: React.FC<{ children: ReactNode }> = ({ childre
 
     // Return filtered data if filters are applied
     if (Object.keys(state.filters).length > 0 && state.filterManager) {
-      return state.filterManager.getFilteredDataRange(startIndex, endIndex, state.filters);
+      const filterManager = state.filterManager;
+      return Array.from(filterManager.filter({ filters: state.filters }).subarray(startIndex, endIndex + 1))
+        .map(index => filterManager.getRow(index))
+        .filter((row): row is DataRow => row !== undefined);
     }
 
     // Return data from the generator (it will generate on-demand if not cached)
@@ -306,7 +268,7 @@ export const ChunkedDataProvider: React.FC<{ children: ReactNode }> = ({ childre
 
   const getFilterOptions = useCallback((column: string): string[] => {
     if (!state.filterManager) return [];
-    return state.filterManager.getFilterOptions(column, state.filters);
+    return state.filterManager.facets(column, { filters: state.filters }).map(option => option.value);
   }, [state.filterManager, state.filters]);
 
   const updateFilters = useCallback((filters: FilterState) => {
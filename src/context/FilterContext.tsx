@@ -1,11 +1,16 @@
 'use client';
 
 import React, { createContext, useContext, useReducer, ReactNode } from 'react';
-import { DataRow, DashboardState } from '@/types';
-import { applyFilters } from '@/utils/filterLogic';
+import { DataRow, DashboardState, FilterState } from '@/types';
+import { FilterEngine, materializeRows } from '@/utils/filterEngine';
+import { FilterLogicEngine } from '@/utils/filterLogic';
+
+interface FilterContextState extends DashboardState {
+  filterEngine: FilterEngine;
+}
 
 interface FilterContextType {
-  state: DashboardState;
+  state: FilterContextState;
   dispatch: React.Dispatch<FilterAction>;
 }
 
@@ -18,7 +23,7 @@ type FilterAction =
   | { type: 'CLEAR_ALL_FILTERS' }
   | { type: 'SET_PAGE'; payload: number };
 
-const initialState: DashboardState = {
+const initialState: FilterContextState = {
   data: [],
   filteredData: [],
   filters: {},
@@ -30,15 +35,23 @@ const initialState: DashboardState = {
   },
   loading: false,
   error: null,
+  filterEngine: new FilterLogicEngine(),
+};
+
+const applyEngine = (engine: FilterEngine, data: DataRow[], filters: FilterState): DataRow[] => {
+  return materializeRows(data, engine.filter({ filters }));
 };
 
-const filterReducer = (state: DashboardState, action: FilterAction): DashboardState => {
+const filterReducer = (state: FilterContextState, action: FilterAction): FilterContextState => {
   switch (action.type) {
     case 'SET_DATA': {
-      const filteredData = applyFilters(action.payload, state.filters);
+      const filterEngine = new FilterLogicEngine();
+      filterEngine.index(action.payload);
+      const filteredData = applyEngine(filterEngine, action.payload, state.filters);
       return {
         ...state,
         data: action.payload,
+        filterEngine,
         filteredData,
         pagination: {
           ...state.pagination,
@@ -66,7 +79,7 @@ const filterReducer = (state: DashboardState, action: FilterAction): DashboardSt
         ...state.filters,
         [action.payload.column]: action.payload.values,
       };
-      const filteredData = applyFilters(state.data, newFilters);
+      const filteredData = applyEngine(state.filterEngine, state.data, newFilters);
       
       return {
         ...state,
@@ -84,7 +97,7 @@ const filterReducer = (state: DashboardState, action: FilterAction): DashboardSt
     case 'CLEAR_FILTER': {
       const newFilters = { ...state.filters };
       delete newFilters[action.payload];
-      const filteredData = applyFilters(state.data, newFilters);
+      const filteredData = applyEngine(state.filterEngine, state.data, newFilters);
       
       return {
         ...state,
@@ -1,55 +1,272 @@
 'use client';
 
-import React, { createContext, useContext, useReducer, useMemo } from 'react';
-import { UltraFastFilterManager } from '@/utils/UltraFastFilterManager';
-import { DataRow, FilterOption } from '@/types';
+import React, { createContext, useCallback, useContext, useEffect, useReducer, useMemo, useRef, useState } from 'react';
+import { TableMemoryStats, createColumnTable, createRowViews, getColumnTable, estimateTableMemory } from '@/utils/columnStore';
+import { EMPTY_QUERY, FilterQuery, getQueryKey, isQueryActive, materializeRows } from '@/utils/filterEngine';
+import { FacetResult, FilterWorkerClient } from '@/utils/filterWorkerClient';
+import { FacetKind } from '@/utils/filterEngineHost';
+import { getFilterKind as getColumnFilterKind } from '@/utils/filterModel';
+import { DEFAULT_SORT } from '@/utils/viewState';
+import { EMPTY_GROUPING } from '@/utils/grouping';
+import { EMPTY_PIVOT } from '@/utils/pivot';
+import { getColumnConfigs } from '@/utils/dataProcessing';
+import { getSortKey, getSortPermutation, selectInOrder } from '@/utils/multiSort';
+import { applySchemaOverrides, getTypeOverrides, getTypeOverridesKey } from '@/utils/schemaOverrides';
+import { evictDataset, getDatasetId } from '@/utils/cacheRegistry';
+import { describeExpression, normalizeExpression, removeColumnConditions } from '@/utils/filterExpression';
+import { FilterHistory, createHistory, describeFilterChange, moveTo, recordChange } from '@/utils/filterHistory';
+import {
+  ColumnFilter,
+  ColumnLayout,
+  DataRow,
+  DateFacets,
+  FilterExpression,
+  FilterOption,
+  GroupingState,
+  HistogramBin,
+  NumericSummary,
+  PivotConfig,
+  SchemaOverrides,
+  SortState,
+  ViewState,
+} from '@/types';
+
+// 'all' is a column's unfiltered options; 'available', 'histogram' and
+// 'dates' follow every filter except the column's own
+export type FacetRequestKind = 'all' | 'available' | 'histogram' | 'dates';
+
+interface FacetEntry {
+  queryKey: string;
+  options: FilterOption[];
+  histogram: HistogramBin[];
+  dates: DateFacets | null;
+}
+
+interface SortOrder {
+  key: string;
+  order: Uint32Array;
+}
+
+const toFacetKind = (kind: FacetRequestKind): FacetKind => {
+  if (kind === 'histogram' || kind === 'dates') return kind;
+  return 'options';
+};
 
 interface FilterState {
+  // Row views over the column store (see createRowViews)
   data: DataRow[];
-  filters: Record<string, string[]>;
+  filters: Record<string, ColumnFilter>;
+  // Query builder expression, AND-ed with the per-column filters
+  expression: FilterExpression | null;
+  // Global search box text; parsed by textSearch.ts
+  search: string;
+  // Last settled result in sort order; lags behind the filters while
+  // filterStatus is 'pending' and behind the sort while sortStatus is
   filteredData: DataRow[];
-  filterManager: UltraFastFilterManager | null;
+  filterStatus: 'pending' | 'settled';
+  // Rows matching the last settled query, ascending; null means every row
+  filteredIndices: Uint32Array | null;
+  // Permutation of all rows for the last settled sort, built by the worker;
+  // filter changes take a subset of it instead of sorting again
+  sortOrder: SortOrder | null;
+  sortStatus: 'pending' | 'settled';
+  // Indices live in the filter worker; 'idle' means there is no engine to ask
+  engineStatus: 'idle' | 'indexing' | 'ready';
+  numericSummaries: Record<string, NumericSummary>;
+  // Worker answers keyed by `${kind}:${column}`, kept until replaced
+  facets: Record<string, FacetEntry>;
+  // Table view; kept here so it can be shared through the URL with the filters
+  sort: SortState;
+  page: number;
+  pageSize: number | null;
+  visibleColumns: string[] | null;
+  // Rest of the column layout; not part of shared links (see useColumnLayout)
+  columnWidths: Record<string, number>;
+  pinnedColumns: string[];
+  // Table group-by; applies to the filtered rows and is not part of shared links
+  grouping: GroupingState;
+  // Pivot view fields; computed from filteredIndices, not part of shared links
+  pivot: PivotConfig;
+  // Column type, label and filterability changes; saved per schema (see useSchemaOverrides)
+  schemaOverrides: SchemaOverrides;
+  // Undo / redo stack of filter snapshots
+  history: FilterHistory;
+  memoryStats: TableMemoryStats | null;
   isLoading: boolean;
   error: string | null;
 }
 
+// visibleColumns is left out when the view doesn't name any, keeping the current layout
+type RestoredView = Omit<ViewState, 'datasetId' | 'visibleColumns'> & Partial<Pick<ViewState, 'visibleColumns'>>;
+
 type FilterAction =
   | { type: 'SET_DATA'; payload: DataRow[] }
-  | { type: 'UPDATE_FILTER'; payload: { column: string; values: string[] } }
+  | { type: 'ENGINE_READY'; payload: { data: DataRow[]; typesKey: string; summaries: Record<string, NumericSummary> } }
+  | { type: 'ENGINE_FAILED'; payload: { data: DataRow[]; message: string } }
+  // The worker died; the dataset is indexed again by an in-process engine
+  | { type: 'WORKER_LOST'; payload: { data: DataRow[] } }
+  | { type: 'FILTER_SETTLED'; payload: { queryKey: string; indices: Uint32Array } }
+  | { type: 'SORT_SETTLED'; payload: { data: DataRow[]; key: string; order: Uint32Array } }
+  | { type: 'FACETS_SETTLED'; payload: { kind: FacetRequestKind; column: string; queryKey: string } & FacetResult }
+  | { type: 'UPDATE_FILTER'; payload: { column: string; filter: ColumnFilter } }
+  // Several column filters as one change, e.g. a pivot drill-down
+  | { type: 'UPDATE_FILTERS'; payload: Record<string, ColumnFilter> }
   | { type: 'CLEAR_FILTER'; payload: string }
+  | { type: 'SET_EXPRESSION'; payload: FilterExpression | null }
+  | { type: 'SET_SEARCH'; payload: string }
   | { type: 'CLEAR_ALL_FILTERS' }
+  | { type: 'SET_SORT'; payload: SortState }
+  | { type: 'SET_PAGE'; payload: number }
+  | { type: 'SET_PAGE_SIZE'; payload: number | null }
+  | { type: 'SET_VISIBLE_COLUMNS'; payload: string[] | null }
+  | { type: 'SET_COLUMN_LAYOUT'; payload: Partial<ColumnLayout> }
+  | { type: 'SET_GROUPING'; payload: GroupingState }
+  | { type: 'SET_PIVOT'; payload: PivotConfig }
+  | { type: 'SET_SCHEMA_OVERRIDES'; payload: SchemaOverrides }
+  | { type: 'RESTORE_VIEW'; payload: RestoredView }
+  | { type: 'UNDO' }
+  | { type: 'REDO' }
+  | { type: 'JUMP_TO_HISTORY'; payload: number }
   | { type: 'SET_LOADING'; payload: boolean }
   | { type: 'SET_ERROR'; payload: string | null };
 
 const initialState: FilterState = {
   data: [],
   filters: {},
+  expression: null,
+  search: '',
   filteredData: [],
-  filterManager: null,
+  filterStatus: 'settled',
+  filteredIndices: null,
+  sortOrder: null,
+  sortStatus: 'settled',
+  engineStatus: 'idle',
+  numericSummaries: {},
+  facets: {},
+  sort: DEFAULT_SORT,
+  page: 1,
+  pageSize: null,
+  visibleColumns: null,
+  columnWidths: {},
+  pinnedColumns: [],
+  grouping: EMPTY_GROUPING,
+  pivot: EMPTY_PIVOT,
+  schemaOverrides: {},
+  history: createHistory(),
+  memoryStats: null,
   isLoading: false,
   error: null,
 };
 
+// Everything that describes the view rather than the data
+const RESET_VIEW = {
+  filters: {},
+  expression: null,
+  search: '',
+  sort: DEFAULT_SORT,
+  page: 1,
+  pageSize: null,
+  visibleColumns: null,
+  columnWidths: {},
+  pinnedColumns: [],
+  grouping: EMPTY_GROUPING,
+  pivot: EMPTY_PIVOT,
+  schemaOverrides: {},
+};
+
+const getFacetKey = (kind: FacetRequestKind, column: string) => `${kind}:${column}`;
+
+type QueryFields = Pick<FilterState, 'filters' | 'expression' | 'search'>;
+
+const toQuery = ({ filters, expression, search }: QueryFields): FilterQuery => ({ filters, expression, search });
+
+// The query a facet answer has to match to be current
+const getFacetQueryKey = (kind: FacetRequestKind, column: string, fields: QueryFields): string => {
+  return kind === 'all' ? getQueryKey(EMPTY_QUERY) : getQueryKey(toQuery(fields), column);
+};
+
+// The table rows: filter matches, in sort order once a permutation is in
+const arrangeRows = (data: DataRow[], indices: Uint32Array | null, sortOrder: SortOrder | null): DataRow[] => {
+  if (!sortOrder) return indices ? materializeRows(data, indices) : data;
+  return materializeRows(data, indices ? selectInOrder(sortOrder.order, indices, data.length) : sortOrder.order);
+};
+
+// Filter changes only record the new query; the worker answers with
+// FILTER_SETTLED. Unfiltered views (and a missing engine) settle immediately.
+const applyQuery = (
+  state: FilterState,
+  changes: Partial<QueryFields>
+): QueryFields & Pick<FilterState, 'filteredData' | 'filterStatus' | 'filteredIndices'> => {
+  const fields: QueryFields = {
+    filters: changes.filters ?? state.filters,
+    expression: changes.expression !== undefined ? changes.expression : state.expression,
+    search: changes.search ?? state.search,
+  };
+
+  if (!isQueryActive(toQuery(fields)) || state.engineStatus === 'idle') {
+    return {
+      ...fields,
+      filteredData: arrangeRows(state.data, null, state.sortOrder),
+      filterStatus: 'settled',
+      filteredIndices: null,
+    };
+  }
+  return { ...fields, filteredData: state.filteredData, filterStatus: 'pending', filteredIndices: state.filteredIndices };
+};
+
+// Sort changes work like filter changes: the worker answers with SORT_SETTLED
+// and the old order stays on screen until then. Without an engine the
+// permutation is built here.
+const applySort = (
+  state: FilterState,
+  sort: SortState
+): Pick<FilterState, 'sort' | 'sortOrder' | 'sortStatus' | 'filteredData'> => {
+  const key = getSortKey(sort, getTypeOverrides(state.schemaOverrides));
+  if (sort.length === 0) {
+    return { sort, sortOrder: null, sortStatus: 'settled', filteredData: arrangeRows(state.data, state.filteredIndices, null) };
+  }
+  if (state.sortOrder?.key === key) {
+    return { sort, sortOrder: state.sortOrder, sortStatus: 'settled', filteredData: state.filteredData };
+  }
+  if (state.engineStatus === 'idle') {
+    const columns = applySchemaOverrides(getColumnConfigs(state.data), state.schemaOverrides);
+    const sortOrder = { key, order: getSortPermutation(state.data, sort, columns) };
+    return { sort, sortOrder, sortStatus: 'settled', filteredData: arrangeRows(state.data, state.filteredIndices, sortOrder) };
+  }
+  return { sort, sortOrder: state.sortOrder, sortStatus: 'pending', filteredData: state.filteredData };
+};
+
 function filterReducer(state: FilterState, action: FilterAction): FilterState {
   try {
     switch (action.type) {
       case 'SET_DATA': {
         try {
-          const filterManager = new UltraFastFilterManager(action.payload);
-          
           // Safety check for data size
           if (action.payload.length > 1000000) {
             console.warn('Data size too large, limiting to 1M records');
             action.payload = action.payload.slice(0, 1000000);
           }
           
-          filterManager.initialize();
+          // Columnar storage; the parsed row objects are dropped after this
+          const table = createColumnTable(action.payload);
+          const rows = createRowViews(table);
+          const memoryStats = estimateTableMemory(action.payload, table);
           
+          // Filters from a previous dataset may reference columns that no longer exist.
+          // Indexing happens in the filter worker; see the provider.
           return {
             ...state,
-            data: action.payload,
-            filteredData: action.payload,
-            filterManager,
+            ...RESET_VIEW,
+            data: rows,
+            filteredData: rows,
+            filterStatus: 'settled',
+            filteredIndices: null,
+            sortOrder: null,
+            sortStatus: 'settled',
+            engineStatus: 'indexing',
+            numericSummaries: {},
+            facets: {},
+            memoryStats,
             isLoading: false,
             error: null,
           };
@@ -57,75 +274,232 @@ function filterReducer(state: FilterState, action: FilterAction): FilterState {
           console.error('Error setting data:', error);
           return {
             ...state,
+            ...RESET_VIEW,
             data: action.payload,
             filteredData: action.payload,
-            filterManager: null,
+            filterStatus: 'settled',
+            filteredIndices: null,
+            sortOrder: null,
+            sortStatus: 'settled',
+            engineStatus: 'idle',
+            numericSummaries: {},
+            facets: {},
+            memoryStats: null,
             isLoading: false,
             error: error instanceof Error ? error.message : 'Failed to initialize filters',
           };
         }
       }
 
+      // Answers from the filter worker; anything for older data or an older query is dropped
+      case 'ENGINE_READY':
+        if (action.payload.data !== state.data) return state;
+        // Indices built for type overrides that have changed since
+        if (action.payload.typesKey !== getTypeOverridesKey(state.schemaOverrides)) return state;
+        return {
+          ...state,
+          engineStatus: 'ready',
+          numericSummaries: action.payload.summaries,
+        };
+
+      case 'ENGINE_FAILED': {
+        if (action.payload.data !== state.data) return state;
+        const unfiltered: FilterState = {
+          ...state,
+          engineStatus: 'idle',
+          filteredData: arrangeRows(state.data, null, state.sortOrder),
+          filterStatus: 'settled',
+          filteredIndices: null,
+          error: action.payload.message,
+        };
+        return { ...unfiltered, ...applySort(unfiltered, state.sort) };
+      }
+
+      // Pending filters, sorts and facets are asked again once the
+      // replacement engine is ready; settled results stay valid meanwhile
+      case 'WORKER_LOST':
+        if (action.payload.data !== state.data || state.data.length === 0) return state;
+        return { ...state, engineStatus: 'indexing' };
+
+      case 'FILTER_SETTLED':
+        if (action.payload.queryKey !== getQueryKey(toQuery(state))) {
+          return state;
+        }
+        return {
+          ...state,
+          filteredData: arrangeRows(state.data, action.payload.indices, state.sortOrder),
+          filterStatus: 'settled',
+          filteredIndices: action.payload.indices,
+        };
+
+      case 'SORT_SETTLED': {
+        const { data, key, order } = action.payload;
+        if (data !== state.data || key !== getSortKey(state.sort, getTypeOverrides(state.schemaOverrides))) return state;
+        const sortOrder = { key, order };
+        return {
+          ...state,
+          filteredData: arrangeRows(state.data, state.filteredIndices, sortOrder),
+          sortOrder,
+          sortStatus: 'settled',
+        };
+      }
+
+      case 'FACETS_SETTLED': {
+        const { kind, column, queryKey, options, histogram, dates } = action.payload;
+        const key = getFacetKey(kind, column);
+        if (queryKey !== getFacetQueryKey(kind, column, state)) return state;
+        if (state.facets[key]?.queryKey === queryKey) return state;
+        return {
+          ...state,
+          facets: { ...state.facets, [key]: { queryKey, options, histogram, dates } },
+        };
+      }
+
       case 'UPDATE_FILTER': {
-        const { column, values } = action.payload;
+        const { column, filter } = action.payload;
         const newFilters = {
           ...state.filters,
-          [column]: values,
+          [column]: filter,
         };
 
-        // Apply all filters to get filtered data using the filter manager
-        let filteredData = state.data;
-        try {
-          filteredData = state.filterManager 
-            ? state.filterManager.getFilteredData(newFilters)
-            : state.data;
-        } catch (error) {
-          console.error('Filter error:', error);
-          // Fallback to original data if filtering fails
-          filteredData = state.data;
-        }
-
         return {
           ...state,
-          filters: newFilters,
-          filteredData,
+          ...applyQuery(state, { filters: newFilters }),
+          page: 1, // Reset to first page when filtering
           error: null,
         };
       }
 
+      case 'UPDATE_FILTERS':
+        return {
+          ...state,
+          ...applyQuery(state, { filters: { ...state.filters, ...action.payload } }),
+          page: 1,
+          error: null,
+        };
+
       case 'CLEAR_FILTER': {
         const remainingFilters = Object.fromEntries(
           Object.entries(state.filters).filter(([col]) => col !== action.payload)
         );
-        
-        // Apply remaining filters to get filtered data
-        let filteredData = state.data;
-        try {
-          filteredData = state.filterManager 
-            ? state.filterManager.getFilteredData(remainingFilters)
-            : state.data;
-        } catch (error) {
-          console.error('Filter error:', error);
-          // Fallback to original data if filtering fails
-          filteredData = state.data;
-        }
 
         return {
           ...state,
-          filters: remainingFilters,
-          filteredData,
+          ...applyQuery(state, { filters: remainingFilters }),
+          page: 1,
           error: null,
         };
       }
 
+      case 'SET_EXPRESSION':
+        return {
+          ...state,
+          ...applyQuery(state, { expression: action.payload }),
+          page: 1,
+          error: null,
+        };
+
+      case 'SET_SEARCH':
+        return {
+          ...state,
+          ...applyQuery(state, { search: action.payload }),
+          page: 1,
+          error: null,
+        };
+
       case 'CLEAR_ALL_FILTERS':
         return {
           ...state,
-          filters: {},
-          filteredData: state.data,
+          ...applyQuery(state, { filters: {}, expression: null, search: '' }),
+          page: 1,
           error: null,
         };
 
+      case 'SET_SORT':
+        return {
+          ...state,
+          ...applySort(state, action.payload),
+        };
+
+      case 'SET_PAGE':
+        return {
+          ...state,
+          page: action.payload,
+        };
+
+      case 'SET_PAGE_SIZE':
+        return {
+          ...state,
+          pageSize: action.payload,
+          page: 1,
+        };
+
+      case 'SET_VISIBLE_COLUMNS':
+        return {
+          ...state,
+          visibleColumns: action.payload,
+        };
+
+      case 'SET_COLUMN_LAYOUT': {
+        const { visibleColumns, widths, pinned } = action.payload;
+        return {
+          ...state,
+          visibleColumns: visibleColumns !== undefined ? visibleColumns : state.visibleColumns,
+          columnWidths: widths ?? state.columnWidths,
+          pinnedColumns: pinned ?? state.pinnedColumns,
+        };
+      }
+
+      case 'SET_GROUPING':
+        return {
+          ...state,
+          grouping: action.payload,
+        };
+
+      case 'SET_PIVOT':
+        return {
+          ...state,
+          pivot: action.payload,
+        };
+
+      // Type overrides change how columns are indexed and compared, so the
+      // worker re-indexes and the query and sort are applied again. Filters on
+      // columns made non-filterable are dropped: nothing would show or clear them.
+      case 'SET_SCHEMA_OVERRIDES': {
+        const hidden = new Set(
+          applySchemaOverrides(getColumnConfigs(state.data), action.payload)
+            .filter(column => !column.filterable)
+            .map(column => column.key)
+        );
+        const filters = Object.fromEntries(Object.entries(state.filters).filter(([column]) => !hidden.has(column)));
+        const expression = removeColumnConditions(state.expression, hidden);
+        const queryChanged = Object.keys(filters).length !== Object.keys(state.filters).length
+          || expression !== state.expression;
+        const typesChanged = getTypeOverridesKey(action.payload) !== getTypeOverridesKey(state.schemaOverrides);
+        const reindex = typesChanged && state.engineStatus !== 'idle';
+
+        const next: FilterState = {
+          ...state,
+          schemaOverrides: action.payload,
+          ...(typesChanged ? { facets: {} } : {}),
+          ...(reindex ? { engineStatus: 'indexing' } : {}),
+        };
+        const queried = reindex || queryChanged ? { ...next, ...applyQuery(next, { filters, expression }) } : next;
+        return { ...queried, ...applySort(queried, state.sort) };
+      }
+
+      // Shared links and back / forward navigation replace the whole view at once
+      case 'RESTORE_VIEW': {
+        const { filters, expression, sort } = action.payload;
+        const restored: FilterState = {
+          ...state,
+          ...action.payload,
+          ...applyQuery(state, { filters, expression }),
+          error: null,
+        };
+        return { ...restored, ...applySort(restored, sort) };
+      }
+
       case 'SET_LOADING':
         return {
           ...state,
@@ -152,62 +526,341 @@ function filterReducer(state: FilterState, action: FilterAction): FilterState {
   }
 }
 
+// How a filter change reads in the history timeline; target groups rapid
+// changes to the same control into one entry
+const getHistoryLabel = (action: FilterAction): { label: string; target: string | null } | null => {
+  switch (action.type) {
+    case 'UPDATE_FILTER':
+      return {
+        label: describeFilterChange(action.payload.column, action.payload.filter),
+        target: `filter:${action.payload.column}`,
+      };
+    case 'UPDATE_FILTERS':
+      return {
+        label: Object.entries(action.payload).map(([column, filter]) => describeFilterChange(column, filter)).join(', '),
+        target: null,
+      };
+    case 'CLEAR_FILTER':
+      return { label: `Cleared ${action.payload}`, target: null };
+    case 'SET_EXPRESSION': {
+      const expression = normalizeExpression(action.payload);
+      return {
+        label: expression ? `Query: ${describeExpression(expression)}` : 'Cleared query',
+        target: 'expression',
+      };
+    }
+    case 'CLEAR_ALL_FILTERS':
+      return { label: 'Cleared all filters', target: null };
+    case 'RESTORE_VIEW':
+      return { label: 'Restored view', target: null };
+    default:
+      return null;
+  }
+};
+
+const jumpToHistory = (state: FilterState, index: number): FilterState => {
+  if (index < 0 || index >= state.history.entries.length || index === state.history.index) {
+    return state;
+  }
+
+  const history = moveTo(state.history, index);
+  const { filters, expression } = history.entries[history.index];
+  return {
+    ...state,
+    ...applyQuery(state, { filters, expression }),
+    page: 1,
+    history,
+    error: null,
+  };
+};
+
+// Records every filter change so it can be undone; a new dataset starts a fresh history
+function historyReducer(state: FilterState, action: FilterAction): FilterState {
+  switch (action.type) {
+    case 'UNDO':
+      return jumpToHistory(state, state.history.index - 1);
+    case 'REDO':
+      return jumpToHistory(state, state.history.index + 1);
+    case 'JUMP_TO_HISTORY':
+      return jumpToHistory(state, action.payload);
+  }
+
+  const nextState = filterReducer(state, action);
+
+  if (action.type === 'SET_DATA') {
+    return { ...nextState, history: createHistory() };
+  }
+
+  const change = getHistoryLabel(action);
+  if (!change || nextState === state) {
+    return nextState;
+  }
+
+  return {
+    ...nextState,
+    history: recordChange(
+      state.history,
+      { filters: nextState.filters, expression: nextState.expression },
+      change.label,
+      change.target
+    ),
+  };
+}
+
 interface UltraFastFilterContextType {
   state: FilterState;
   dispatch: React.Dispatch<FilterAction>;
+  // Facet answers are fetched from the worker for subscribed columns only;
+  // returns the unsubscribe function, so it can be an effect's cleanup
+  subscribeFacets: (column: string, kind: FacetRequestKind) => () => void;
+  isFacetPending: (column: string, kind: FacetRequestKind) => boolean;
   getFilterOptions: (column: string) => FilterOption[];
   getAvailableFilterOptions: (column: string) => FilterOption[];
   getFilteredCount: () => number;
+  getFilterKind: (column: string) => 'range' | 'values';
+  getNumericSummary: (column: string) => NumericSummary | null;
+  getHistogram: (column: string) => HistogramBin[];
+  getDateFacets: (column: string) => DateFacets | null;
 }
 
 const UltraFastFilterContext = createContext<UltraFastFilterContextType | undefined>(undefined);
 
+const EMPTY_OPTIONS: FilterOption[] = [];
+const EMPTY_HISTOGRAM: HistogramBin[] = [];
+
 export function UltraFastFilterProvider({ children }: { children: React.ReactNode }) {
-  const [state, dispatch] = useReducer(filterReducer, initialState);
+  const [state, dispatch] = useReducer(historyReducer, initialState);
+  const { data, filters, expression, search, sort, schemaOverrides, engineStatus, filterStatus, sortStatus, facets, numericSummaries } = state;
+  const clientRef = useRef<FilterWorkerClient | null>(null);
+  // Dataset shipped to the worker; re-indexing doesn't ship it again
+  const loadedRef = useRef<{ data: DataRow[]; loaded: Promise<void> } | null>(null);
+  // Bumped when a dead worker is replaced, so indexing starts over on the new client
+  const [clientVersion, setClientVersion] = useState(0);
+  // Subscriber counts per facet key
+  const [subscriptions, setSubscriptions] = useState<Record<string, { column: string; kind: FacetRequestKind; count: number }>>({});
 
-  const getFilterOptions = useMemo(() => {
-    return (column: string) => {
-      try {
-        if (!state.filterManager) return [];
-        return state.filterManager.getFilterOptions(column);
-      } catch (error) {
-        console.error('Error getting filter options:', error);
-        return [];
-      }
+  // After a worker has died once, later clients filter in-process: the same
+  // engine and features, on the main thread between tasks
+  const getClient = useCallback(() => {
+    if (!clientRef.current) {
+      clientRef.current = new FilterWorkerClient(clientVersion > 0);
+    }
+    return clientRef.current;
+  }, [clientVersion]);
+
+  // A dead worker lost the loaded dataset: drop the client so the next load
+  // builds an in-process one. True when the error came from a dead worker.
+  const replaceFailedClient = useCallback((client: FilterWorkerClient, failedData: DataRow[]) => {
+    if (!client.failed) return false;
+    if (clientRef.current === client) {
+      client.dispose();
+      clientRef.current = null;
+      loadedRef.current = null;
+      setClientVersion(version => version + 1);
+    }
+    dispatch({ type: 'WORKER_LOST', payload: { data: failedData } });
+    return true;
+  }, []);
+
+  useEffect(() => {
+    return () => {
+      clientRef.current?.dispose();
+      clientRef.current = null;
+      loadedRef.current = null;
     };
-  }, [state.filterManager]);
+  }, []);
 
-  const getAvailableFilterOptions = useMemo(() => {
-    return (column: string) => {
-      try {
-        if (!state.filterManager) return [];
-        return state.filterManager.getAvailableFilterOptions(column, state.filters);
-      } catch (error) {
-        console.error('Error getting available filter options:', error);
-        return [];
-      }
+  // Nothing reads a replaced dataset's cache entries again
+  useEffect(() => {
+    return () => evictDataset(getDatasetId(data));
+  }, [data]);
+
+  // Ship every new dataset to the worker and index it with the current type
+  // overrides; a type change re-indexes the loaded dataset
+  useEffect(() => {
+    if (data.length === 0 || engineStatus !== 'indexing') return;
+
+    const client = getClient();
+    if (loadedRef.current?.data !== data) {
+      loadedRef.current = { data, loaded: client.load(getColumnTable(data)) };
+    }
+    // Overrides restored or edited while the dataset is still loading replace
+    // this request before it is sent
+    let isCurrent = true;
+    const typesKey = getTypeOverridesKey(schemaOverrides);
+    loadedRef.current.loaded
+      .then(() => (isCurrent ? client.index(schemaOverrides) : null))
+      .then(summaries => {
+        if (summaries) dispatch({ type: 'ENGINE_READY', payload: { data, typesKey, summaries } });
+      })
+      .catch(error => {
+        if (replaceFailedClient(client, data)) {
+          console.warn('Filter worker failed, filtering on the main thread:', error);
+          return;
+        }
+        console.error('Error indexing data:', error);
+        dispatch({
+          type: 'ENGINE_FAILED',
+          payload: { data, message: error instanceof Error ? error.message : 'Failed to initialize filters' },
+        });
+      });
+
+    return () => {
+      isCurrent = false;
     };
-  }, [state.filterManager, state.filters]);
+  }, [data, engineStatus, schemaOverrides, getClient, replaceFailedClient]);
+
+  // Ask the worker for the rows behind the current query; a newer query
+  // supersedes the request in flight
+  useEffect(() => {
+    if (engineStatus !== 'ready' || filterStatus !== 'pending') return;
+
+    const query: FilterQuery = { filters, expression, search };
+    const queryKey = getQueryKey(query);
+    const client = getClient();
+    client
+      .filter(query)
+      .then(indices => {
+        if (indices) dispatch({ type: 'FILTER_SETTLED', payload: { queryKey, indices } });
+      })
+      .catch(error => {
+        if (replaceFailedClient(client, data)) return;
+        console.error('Filter error:', error);
+        dispatch({ type: 'SET_ERROR', payload: error instanceof Error ? error.message : 'Filtering failed' });
+      });
+  }, [engineStatus, filterStatus, filters, expression, search, data, getClient, replaceFailedClient]);
+
+  // Sorting runs in the worker as well; the permutation it returns is reused
+  // for every later filter change until the sort changes
+  useEffect(() => {
+    if (engineStatus !== 'ready' || sortStatus !== 'pending') return;
+
+    const key = getSortKey(sort, getTypeOverrides(schemaOverrides));
+    const client = getClient();
+    client
+      .sort(sort, schemaOverrides)
+      .then(order => {
+        if (order) dispatch({ type: 'SORT_SETTLED', payload: { data, key, order } });
+      })
+      .catch(error => {
+        if (replaceFailedClient(client, data)) return;
+        console.error('Sort error:', error);
+        dispatch({ type: 'SET_ERROR', payload: error instanceof Error ? error.message : 'Sorting failed' });
+      });
+  }, [engineStatus, sortStatus, sort, schemaOverrides, data, getClient, replaceFailedClient]);
+
+  // Refresh every subscribed facet whose answer is missing or out of date
+  useEffect(() => {
+    if (engineStatus !== 'ready') return;
+
+    const client = getClient();
+    Object.values(subscriptions).forEach(({ column, kind }) => {
+      const queryKey = getFacetQueryKey(kind, column, { filters, expression, search });
+      if (facets[getFacetKey(kind, column)]?.queryKey === queryKey) return;
+
+      const query = kind === 'all' ? EMPTY_QUERY : { filters, expression, search };
+      client
+        .facets(column, toFacetKind(kind), query)
+        .then(result => {
+          if (result) dispatch({ type: 'FACETS_SETTLED', payload: { kind, column, queryKey, ...result } });
+        })
+        .catch(error => {
+          if (replaceFailedClient(client, data)) return;
+          console.error(`Error computing ${kind} facets for "${column}":`, error);
+        });
+    });
+  }, [engineStatus, subscriptions, facets, filters, expression, search, data, getClient, replaceFailedClient]);
+
+  const subscribeFacets = useCallback((column: string, kind: FacetRequestKind) => {
+    const key = getFacetKey(kind, column);
+    setSubscriptions(current => ({
+      ...current,
+      [key]: { column, kind, count: (current[key]?.count ?? 0) + 1 },
+    }));
 
-  const getFilteredCount = useMemo(() => {
     return () => {
-      try {
-        if (!state.filterManager) return state.data.length;
-        return state.filterManager.getFilteredCount(state.filters);
-      } catch (error) {
-        console.error('Error getting filtered count:', error);
-        return state.data.length;
-      }
+      setSubscriptions(current => {
+        const next = { ...current };
+        const count = (current[key]?.count ?? 0) - 1;
+        if (count > 0) {
+          next[key] = { column, kind, count };
+        } else {
+          delete next[key];
+        }
+        return next;
+      });
+    };
+  }, []);
+
+  const isFacetPending = useMemo(() => {
+    return (column: string, kind: FacetRequestKind) => {
+      if (engineStatus === 'idle') return false;
+      const queryKey = getFacetQueryKey(kind, column, { filters, expression, search });
+      return facets[getFacetKey(kind, column)]?.queryKey !== queryKey;
+    };
+  }, [engineStatus, facets, filters, expression, search]);
+
+  // The getters below answer from the last settled worker results, so they
+  // may lag behind the filters for a moment; see isFacetPending
+  const getFilterOptions = useMemo(() => {
+    return (column: string) => facets[getFacetKey('all', column)]?.options ?? EMPTY_OPTIONS;
+  }, [facets]);
+
+  const getAvailableFilterOptions = useMemo(() => {
+    return (column: string) => facets[getFacetKey('available', column)]?.options ?? EMPTY_OPTIONS;
+  }, [facets]);
+
+  const getFilteredCount = useMemo(() => {
+    return () => state.filteredData.length;
+  }, [state.filteredData.length]);
+
+  // A column overridden to a non-numeric type is filtered by value, even
+  // before the worker has re-indexed it
+  const getFilterKind = useMemo(() => {
+    return (column: string) => {
+      const type = schemaOverrides[column]?.type;
+      if (type && type !== 'number') return 'values';
+      return getColumnFilterKind(numericSummaries[column] ?? null);
     };
-  }, [state.filterManager, state.filters, state.data.length]);
+  }, [numericSummaries, schemaOverrides]);
+
+  const getNumericSummary = useMemo(() => {
+    return (column: string) => numericSummaries[column] ?? null;
+  }, [numericSummaries]);
+
+  const getHistogram = useMemo(() => {
+    return (column: string) => facets[getFacetKey('histogram', column)]?.histogram ?? EMPTY_HISTOGRAM;
+  }, [facets]);
+
+  const getDateFacets = useMemo(() => {
+    return (column: string) => facets[getFacetKey('dates', column)]?.dates ?? null;
+  }, [facets]);
 
   const contextValue = useMemo(() => ({
     state,
     dispatch,
+    subscribeFacets,
+    isFacetPending,
+    getFilterOptions,
+    getAvailableFilterOptions,
+    getFilteredCount,
+    getFilterKind,
+    getNumericSummary,
+    getHistogram,
+    getDateFacets,
+  }), [
+    state,
+    dispatch,
+    subscribeFacets,
+    isFacetPending,
     getFilterOptions,
     getAvailableFilterOptions,
     getFilteredCount,
-  }), [state, dispatch, getFilterOptions, getAvailableFilterOptions, getFilteredCount]);
+    getFilterKind,
+    getNumericSummary,
+    getHistogram,
+    getDateFacets,
+  ]);
 
   return (
     <UltraFastFilterContext.Provider value={contextValue}>
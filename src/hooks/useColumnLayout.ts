@@ -0,0 +1,40 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { useUltraFastFilter } from '@/context/UltraFastFilterContext';
+import { ColumnLayout, DataRow } from '@/types';
+import { getSchemaKey } from '@/utils/savedViews';
+import { EMPTY_COLUMN_LAYOUT, loadColumnLayout, saveColumnLayout } from '@/utils/columnLayout';
+
+// Column visibility, order, widths and pins for the loaded dataset, restored
+// from and saved to the browser per schema. Call before useUrlViewState so a
+// shared link's columns win over the remembered ones.
+export const useColumnLayout = () => {
+  const { state, dispatch } = useUltraFastFilter();
+  const { data, visibleColumns, columnWidths, pinnedColumns } = state;
+
+  const schemaKey = useMemo(() => (data.length > 0 ? getSchemaKey(Object.keys(data[0])) : null), [data]);
+  // Dataset whose stored layout has been applied; saving waits for it so the
+  // reset layout of a fresh load never overwrites the stored one
+  const [restoredData, setRestoredData] = useState<DataRow[] | null>(null);
+
+  const layout = useMemo<ColumnLayout>(
+    () => ({ visibleColumns, widths: columnWidths, pinned: pinnedColumns }),
+    [visibleColumns, columnWidths, pinnedColumns]
+  );
+
+  useEffect(() => {
+    if (!schemaKey) return;
+    dispatch({ type: 'SET_COLUMN_LAYOUT', payload: loadColumnLayout(schemaKey) ?? EMPTY_COLUMN_LAYOUT });
+    setRestoredData(data);
+  }, [schemaKey, data, dispatch]);
+
+  useEffect(() => {
+    if (!schemaKey || restoredData !== data) return;
+    saveColumnLayout(schemaKey, layout);
+  }, [schemaKey, restoredData, data, layout]);
+
+  const setLayout = useCallback((changes: Partial<ColumnLayout>) => {
+    dispatch({ type: 'SET_COLUMN_LAYOUT', payload: changes });
+  }, [dispatch]);
+
+  return { layout, setLayout };
+};
@@ -1,6 +1,7 @@
 import { useState, useCallback, useMemo } from 'react';
-import { DataRow, FilterState } from '@/types';
+import { ColumnFilter, DataRow, FilterState } from '@/types';
 import { applyFilters, getAvailableFilterOptions } from '@/utils/filterLogic';
+import { countActiveFilters } from '@/utils/filterModel';
 
 export const useFilters = (data: DataRow[]) => {
   const [filters, setFilters] = useState<FilterState>({});
@@ -9,10 +10,10 @@ export const useFilters = (data: DataRow[]) => {
     return applyFilters(data, filters);
   }, [data, filters]);
 
-  const updateFilter = useCallback((column: string, selectedValues: string[]) => {
+  const updateFilter = useCallback((column: string, filter: ColumnFilter) => {
     setFilters(prev => ({
       ...prev,
-      [column]: selectedValues,
+      [column]: filter,
     }));
   }, []);
 
@@ -33,7 +34,7 @@ export const useFilters = (data: DataRow[]) => {
   }, [data, filters]);
 
   const hasActiveFilters = useMemo(() => {
-    return Object.values(filters).some(values => values.length > 0);
+    return countActiveFilters(filters) > 0;
   }, [filters]);
 
   return {
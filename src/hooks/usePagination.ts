@@ -1,9 +1,26 @@
 import { useState, useCallback, useMemo } from 'react';
 import { PaginationState } from '@/types';
 
-export const usePagination = (totalItems: number, initialPageSize: number = 100) => {
-  const [currentPage, setCurrentPage] = useState(1);
-  const [pageSize, setPageSize] = useState(initialPageSize);
+// Lets a parent own page and page size (e.g. to keep them in the URL)
+export interface PaginationControl {
+  currentPage: number;
+  pageSize: number;
+  onPageChange: (page: number) => void;
+  onPageSizeChange: (pageSize: number) => void;
+}
+
+export const usePagination = (totalItems: number, initialPageSize: number = 100, controlled?: PaginationControl) => {
+  const [localPage, setLocalPage] = useState(1);
+  const [localPageSize, setLocalPageSize] = useState(initialPageSize);
+
+  const pageSize = controlled ? controlled.pageSize : localPageSize;
+  // Restored pages can point past the end once the data changes
+  const currentPage = Math.max(1, Math.min(
+    controlled ? controlled.currentPage : localPage,
+    Math.max(1, Math.ceil(totalItems / pageSize))
+  ));
+  const setCurrentPage = controlled ? controlled.onPageChange : setLocalPage;
+  const onPageSizeChange = controlled?.onPageSizeChange;
 
   const paginationState: PaginationState = useMemo(() => ({
     currentPage,
@@ -15,7 +32,7 @@ export const usePagination = (totalItems: number, initialPageSize: number = 100)
   const goToPage = useCallback((page: number) => {
     const maxPage = Math.ceil(totalItems / pageSize);
     setCurrentPage(Math.max(1, Math.min(page, maxPage)));
-  }, [totalItems, pageSize]);
+  }, [totalItems, pageSize, setCurrentPage]);
 
   const nextPage = useCallback(() => {
     goToPage(currentPage + 1);
@@ -26,9 +43,13 @@ export const usePagination = (totalItems: number, initialPageSize: number = 100)
   }, [currentPage, goToPage]);
 
   const changePageSize = useCallback((newPageSize: number) => {
-    setPageSize(newPageSize);
-    setCurrentPage(1); // Reset to first page when changing page size
-  }, []);
+    if (onPageSizeChange) {
+      onPageSizeChange(newPageSize);
+      return;
+    }
+    setLocalPageSize(newPageSize);
+    setLocalPage(1); // Reset to first page when changing page size
+  }, [onPageSizeChange]);
 
   const getPaginatedData = useCallback(<T>(data: T[]): T[] => {
     const startIndex = (currentPage - 1) * pageSize;
@@ -0,0 +1,137 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { useUltraFastFilter } from '@/context/UltraFastFilterContext';
+import { SavedView } from '@/types';
+import {
+  createSavedView,
+  deleteSavedView,
+  getSchemaKey,
+  listSavedViews,
+  parseSavedViewsFile,
+  putSavedViews,
+  resolveViewSettings,
+  serializeSavedViews,
+} from '@/utils/savedViews';
+
+const getErrorMessage = (error: unknown, fallback: string) =>
+  error instanceof Error ? error.message : fallback;
+
+// Named view presets for the loaded dataset's schema, persisted in IndexedDB
+export const useSavedViews = () => {
+  const { state, dispatch } = useUltraFastFilter();
+  const { data, filters, expression, sort, pageSize, visibleColumns, columnWidths, pinnedColumns } = state;
+
+  const columns = useMemo(() => Object.keys(data[0] || {}), [data]);
+  const schemaKey = useMemo(() => (columns.length > 0 ? getSchemaKey(columns) : null), [columns]);
+
+  const [views, setViews] = useState<SavedView[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    if (!schemaKey) {
+      setViews([]);
+      return;
+    }
+    setViews(await listSavedViews(schemaKey));
+  }, [schemaKey]);
+
+  useEffect(() => {
+    let cancelled = false;
+    setError(null);
+
+    if (!schemaKey) {
+      setViews([]);
+      return;
+    }
+
+    listSavedViews(schemaKey)
+      .then(result => {
+        if (!cancelled) setViews(result);
+      })
+      .catch(err => {
+        if (!cancelled) setError(getErrorMessage(err, 'Unable to load saved views'));
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [schemaKey]);
+
+  // Every mutation reloads the list so it always mirrors storage
+  const run = useCallback(async (action: () => Promise<void>, fallback: string) => {
+    setError(null);
+    try {
+      await action();
+      await refresh();
+    } catch (err) {
+      setError(getErrorMessage(err, fallback));
+    }
+  }, [refresh]);
+
+  const saveCurrentView = useCallback((name: string) => run(async () => {
+    if (!schemaKey) return;
+    await putSavedViews([createSavedView(name, schemaKey, {
+      filters,
+      expression,
+      sort,
+      visibleColumns,
+      widths: columnWidths,
+      pinned: pinnedColumns,
+    })]);
+  }, 'Unable to save view'), [run, schemaKey, filters, expression, sort, visibleColumns, columnWidths, pinnedColumns]);
+
+  const renameView = useCallback((view: SavedView, name: string) => run(async () => {
+    await putSavedViews([{ ...view, name: name.trim(), updatedAt: new Date().toISOString() }]);
+  }, 'Unable to rename view'), [run]);
+
+  const duplicateView = useCallback((view: SavedView) => run(async () => {
+    await putSavedViews([createSavedView(`${view.name} (copy)`, view.schemaKey, view.settings)]);
+  }, 'Unable to duplicate view'), [run]);
+
+  const removeView = useCallback((view: SavedView) => run(async () => {
+    await deleteSavedView(view.id);
+  }, 'Unable to delete view'), [run]);
+
+  // Widths and pins are not part of ViewState, so they go through the layout action
+  const applyView = useCallback((view: SavedView) => {
+    const { widths, pinned, ...settings } = resolveViewSettings(view.settings, columns);
+    dispatch({ type: 'RESTORE_VIEW', payload: { ...settings, page: 1, pageSize } });
+    dispatch({ type: 'SET_COLUMN_LAYOUT', payload: { widths, pinned } });
+  }, [dispatch, columns, pageSize]);
+
+  const exportViews = useCallback(() => {
+    const blob = new Blob([serializeSavedViews(views, columns)], { type: 'application/json' });
+    const url = window.URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `saved-views-${new Date().toISOString().split('T')[0]}.json`;
+    a.click();
+    window.URL.revokeObjectURL(url);
+  }, [views, columns]);
+
+  // Resolves to a short summary for the panel
+  const importViews = useCallback(async (file: File): Promise<string | null> => {
+    if (!schemaKey) return null;
+
+    let summary: string | null = null;
+    await run(async () => {
+      const result = parseSavedViewsFile(await file.text(), schemaKey, columns);
+      await putSavedViews(result.views);
+      summary = `Imported ${result.views.length} view${result.views.length === 1 ? '' : 's'}`
+        + (result.skipped > 0 ? `, skipped ${result.skipped} invalid` : '');
+    }, 'Unable to import views');
+    return summary;
+  }, [run, schemaKey, columns]);
+
+  return {
+    views,
+    error,
+    isAvailable: schemaKey !== null,
+    saveCurrentView,
+    renameView,
+    duplicateView,
+    removeView,
+    applyView,
+    exportViews,
+    importViews,
+  };
+};
@@ -0,0 +1,33 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { useUltraFastFilter } from '@/context/UltraFastFilterContext';
+import { DataRow, SchemaOverrides } from '@/types';
+import { getSchemaKey } from '@/utils/savedViews';
+import { loadSchemaOverrides, saveSchemaOverrides } from '@/utils/schemaOverrides';
+
+// The user's schema corrections for the loaded dataset, restored from and
+// saved to the browser per schema, like useColumnLayout
+export const useSchemaOverrides = () => {
+  const { state, dispatch } = useUltraFastFilter();
+  const { data, schemaOverrides } = state;
+
+  const schemaKey = useMemo(() => (data.length > 0 ? getSchemaKey(Object.keys(data[0])) : null), [data]);
+  // Dataset whose stored overrides have been applied; saving waits for it
+  const [restoredData, setRestoredData] = useState<DataRow[] | null>(null);
+
+  useEffect(() => {
+    if (!schemaKey) return;
+    dispatch({ type: 'SET_SCHEMA_OVERRIDES', payload: loadSchemaOverrides(schemaKey) });
+    setRestoredData(data);
+  }, [schemaKey, data, dispatch]);
+
+  useEffect(() => {
+    if (!schemaKey || restoredData !== data) return;
+    saveSchemaOverrides(schemaKey, schemaOverrides);
+  }, [schemaKey, restoredData, data, schemaOverrides]);
+
+  const setOverrides = useCallback((overrides: SchemaOverrides) => {
+    dispatch({ type: 'SET_SCHEMA_OVERRIDES', payload: overrides });
+  }, [dispatch]);
+
+  return { overrides: schemaOverrides, setOverrides };
+};
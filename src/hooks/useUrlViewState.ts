@@ -0,0 +1,105 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { usePathname, useRouter, useSearchParams } from 'next/navigation';
+import { useUltraFastFilter } from '@/context/UltraFastFilterContext';
+import { ViewState } from '@/types';
+import { parseViewState, sanitizeViewState, serializeViewState } from '@/utils/viewState';
+
+// Range sliders and typing dispatch every frame; only settled views become history entries
+const URL_WRITE_DELAY = 400;
+
+interface UrlViewStateOptions {
+  datasetId: string | null;
+  // Load a dataset named by the URL (back / forward across dataset switches)
+  onDatasetRequest: (datasetId: string) => void;
+}
+
+// Two-way sync between the dashboard view and the query string. Changes push
+// history entries, so back / forward step through filter changes.
+export const useUrlViewState = ({ datasetId, onDatasetRequest }: UrlViewStateOptions) => {
+  const router = useRouter();
+  const pathname = usePathname();
+  const searchParams = useSearchParams();
+  const { state, dispatch } = useUltraFastFilter();
+  const { data, filters, expression, sort, page, pageSize, visibleColumns, isLoading } = state;
+
+  // The view parsed at mount; the dashboard uses it to pick the initial dataset
+  const [initialView] = useState<ViewState | null>(() => (
+    searchParams.toString() ? parseViewState(new URLSearchParams(searchParams.toString())) : null
+  ));
+  // A URL view waiting for its dataset to finish loading
+  const [pendingView, setPendingView] = useState<ViewState | null>(initialView);
+  const lastQueryRef = useRef(searchParams.toString());
+  // Writes that only canonicalize the current URL must not add history entries
+  const replaceNextRef = useRef(true);
+
+  // URL -> state (back / forward, edited links). Runs for new callbacks too;
+  // lastQueryRef makes those runs no-ops.
+  useEffect(() => {
+    const query = searchParams.toString();
+    if (query === lastQueryRef.current) return;
+    lastQueryRef.current = query;
+
+    // Requesting a dataset sets isLoading synchronously, so the view waits for it
+    const view = parseViewState(new URLSearchParams(query));
+    if (view.datasetId && view.datasetId !== datasetId) {
+      onDatasetRequest(view.datasetId);
+    }
+    setPendingView(view);
+  }, [searchParams, datasetId, onDatasetRequest]);
+
+  // Apply a pending view once data is loaded; columns the dataset lacks are dropped.
+  // A URL without col params keeps the layout useColumnLayout restored.
+  useEffect(() => {
+    if (!pendingView || isLoading || data.length === 0) return;
+
+    const view = sanitizeViewState(pendingView, Object.keys(data[0]));
+    dispatch({
+      type: 'RESTORE_VIEW',
+      payload: {
+        filters: view.filters,
+        expression: view.expression,
+        sort: view.sort,
+        page: view.page,
+        pageSize: view.pageSize,
+        ...(view.visibleColumns ? { visibleColumns: view.visibleColumns } : {}),
+      },
+    });
+    replaceNextRef.current = true;
+    setPendingView(null);
+  }, [pendingView, isLoading, data, dispatch]);
+
+  const query = useMemo(() => serializeViewState({
+    datasetId,
+    filters,
+    expression,
+    sort,
+    page,
+    pageSize,
+    visibleColumns,
+  }).toString(), [datasetId, filters, expression, sort, page, pageSize, visibleColumns]);
+
+  // State -> URL
+  useEffect(() => {
+    if (pendingView || isLoading || datasetId === null) return;
+    if (query === lastQueryRef.current) {
+      replaceNextRef.current = false;
+      return;
+    }
+
+    const timer = setTimeout(() => {
+      lastQueryRef.current = query;
+      const href = query ? `${pathname}?${query}` : pathname;
+
+      if (replaceNextRef.current) {
+        router.replace(href, { scroll: false });
+      } else {
+        router.push(href, { scroll: false });
+      }
+      replaceNextRef.current = false;
+    }, URL_WRITE_DELAY);
+
+    return () => clearTimeout(timer);
+  }, [query, pendingView, isLoading, datasetId, pathname, router]);
+
+  return { initialDatasetId: initialView?.datasetId ?? null };
+};
@@ -2,15 +2,110 @@ export interface DataRow {
     [key: string]: string | number;
   }
   
+  // Numeric range with optional open ends; null means unbounded on that side
+  export interface RangeFilter {
+    type: 'range';
+    min: number | null;
+    max: number | null;
+    includeMin: boolean;
+    includeMax: boolean;
+  }
+  
+  export type TextOperator = 'equals' | 'contains' | 'startsWith' | 'endsWith' | 'wildcard' | 'regex';
+  
+  // Predicate on the cell text; wildcard patterns use * and ?
+  export interface TextFilter {
+    type: 'text';
+    operator: TextOperator;
+    value: string;
+    caseSensitive: boolean;
+  }
+  
+  // How a date column's cells are written; epoch columns hold numbers
+  export type DateFormat = 'iso' | 'mdy' | 'dmy' | 'text' | 'epoch-s' | 'epoch-ms';
+  
+  export type DatePreset = 'last7Days' | 'last30Days' | 'thisMonth' | 'thisQuarter' | 'yearToDate' | 'lastYear';
+  
+  // Calendar filter on a date column. Bounds are inclusive YYYY-MM-DD days; a
+  // preset replaces them and is resolved against today when evaluated. Months
+  // (0-11) and weekdays (0 = Sunday) narrow the range further.
+  export interface DateFilter {
+    type: 'date';
+    format: DateFormat;
+    preset: DatePreset | null;
+    start: string | null;
+    end: string | null;
+    months: number[];
+    weekdays: number[];
+  }
+  
+  // Selected values (OR within the column), a numeric range, a text predicate
+  // or a calendar range
+  export type ColumnFilter = string[] | RangeFilter | TextFilter | DateFilter;
+  
   export interface FilterState {
-    [columnName: string]: string[];
+    [columnName: string]: ColumnFilter;
+  }
+  
+  // Boolean filter tree: conditions combined with AND / OR groups and NOT
+  export interface FilterCondition {
+    type: 'condition';
+    column: string;
+    filter: ColumnFilter;
+  }
+  
+  export interface FilterGroup {
+    type: 'and' | 'or';
+    children: FilterExpression[];
+  }
+  
+  export interface FilterNot {
+    type: 'not';
+    child: FilterExpression;
+  }
+  
+  export type FilterExpression = FilterCondition | FilterGroup | FilterNot;
+  
+  export interface HistogramBin {
+    start: number;
+    end: number;
+    count: number;
+  }
+  
+  export interface NumericSummary {
+    min: number;
+    max: number;
+    distinctCount: number;
+    isInteger: boolean;
+  }
+  
+  // Row counts per calendar bucket of a date column
+  export interface DateBucket {
+    value: number;
+    label: string;
+    count: number;
+  }
+  
+  export type TimelineUnit = 'day' | 'week' | 'month' | 'year';
+  
+  export interface DateFacets {
+    years: DateBucket[];
+    months: DateBucket[];
+    weekdays: DateBucket[];
+    // Counts over time, one bucket per unit from the first to the last date;
+    // bucket values are the UTC start of each period
+    timeline: DateBucket[];
+    timelineUnit: TimelineUnit;
   }
   
   export interface ColumnConfig {
     key: string;
     label: string;
-    type: 'number' | 'string' | 'boolean';
+    type: 'number' | 'string' | 'boolean' | 'date';
+    // Set for date columns
+    dateFormat?: DateFormat;
     filterable: boolean;
+    // Default width in pixels; see getDefaultColumnWidth
     width?: number;
     render?: (value: string | number, row: DataRow) => React.ReactNode;
   }
@@ -22,6 +117,96 @@ export interface DataRow {
     totalPages: number;
   }
   
+  export type SortDirection = 'asc' | 'desc' | null;
+  
+  export interface SortKey {
+    column: string;
+    direction: 'asc' | 'desc';
+  }
+  
+  // Sort keys in priority order; empty keeps the data's own order
+  export type SortState = SortKey[];
+  
+  // 'count' counts non-empty values of the column
+  export type AggregateFunction = 'count' | 'sum' | 'avg' | 'min' | 'max' | 'distinct';
+  
+  export interface Aggregate {
+    column: string;
+    fn: AggregateFunction;
+  }
+  
+  // Table group-by; every group also reports its row count
+  export interface GroupingState {
+    // Group columns, outermost first; empty shows flat rows
+    columns: string[];
+    aggregates: Aggregate[];
+  }
+  
+  // Cross-tab of the filtered rows; no values means cells show row counts
+  export interface PivotConfig {
+    rows: string[];
+    columns: string[];
+    values: Aggregate[];
+  }
+  
+  // Table column arrangement, remembered per dataset schema
+  export interface ColumnLayout {
+    // Shown columns in display order; null shows every column in data order
+    visibleColumns: string[] | null;
+    // Pixel widths from dragging a header edge
+    widths: Record<string, number>;
+    // Columns frozen at the left edge while scrolling sideways, in order
+    pinned: string[];
+  }
+  
+  // Finer than ColumnConfig['type']; see schemaInference.ts
+  export type InferredType = 'integer' | 'float' | 'boolean' | 'date' | 'categorical' | 'text';
+  
+  export interface ColumnSchema {
+    key: string;
+    inferredType: InferredType;
+    // Share of the sampled values that support the inferred type, 0 to 1
+    confidence: number;
+    dateFormat: DateFormat | null;
+    // Sampled rows, and how many of them had a value in this column
+    sampleSize: number;
+    presentCount: number;
+  }
+  
+  // User corrections to the inferred schema, remembered per dataset schema
+  export interface SchemaOverride {
+    type?: ColumnConfig['type'];
+    label?: string;
+    filterable?: boolean;
+  }
+  
+  export type SchemaOverrides = Record<string, SchemaOverride>;
+  
+  // Everything a shareable link restores; null page size means "pick by row count"
+  export interface ViewState {
+    datasetId: string | null;
+    filters: FilterState;
+    expression: FilterExpression | null;
+    sort: SortState;
+    page: number;
+    pageSize: number | null;
+    visibleColumns: string[] | null;
+  }
+  
+  // What a saved view restores: the query, the sort and the whole column
+  // layout; the page position is deliberately left out
+  export type SavedViewSettings = Pick<ViewState, 'filters' | 'expression' | 'sort'> & ColumnLayout;
+  
+  export interface SavedView {
+    id: string;
+    name: string;
+    // Views belong to a dataset schema (its column names), not to a single file
+    schemaKey: string;
+    settings: SavedViewSettings;
+    createdAt: string;
+    updatedAt: string;
+  }
+  
   export interface FilterOption {
     value: string;
     label: string;
@@ -42,4 +227,13 @@ export interface DataRow {
     loading: boolean;
     error: string | null;
   }
-  
\ No newline at end of file
+  
+  export interface DatasetInfo {
+    id: string;
+    name: string;
+    fileName: string;
+    rowCount: number;
+    columns: string[];
+    sizeBytes: number;
+    modifiedAt: string;
+  }
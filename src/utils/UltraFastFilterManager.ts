@@ -1,20 +1,86 @@
-import { FilterOption, DataRow } from '@/types';
-
-export class UltraFastFilterManager {
+import {
+  ColumnConfig,
+  FilterOption,
+  DataRow,
+  ColumnFilter,
+  DateFacets,
+  DateFormat,
+  FilterExpression,
+  HistogramBin,
+  NumericSummary,
+  RangeFilter,
+  SchemaOverrides,
+} from '@/types';
+import { getColumnConfigs } from './dataProcessing';
+import { applySchemaOverrides } from './schemaOverrides';
+import { ColumnTable, TableColumn, getColumnTable } from './columnStore';
+import { Bitmap } from './bitmap';
+import { evaluateExpressionBitmap } from './filterExpression';
+import { TextIndex, parseSearchQuery } from './textSearch';
+import { bucketDates } from './dateColumns';
+import {
+  BitmapIndex,
+  FilterQuery,
+  NumericFilterEngine,
+  countBitmapFacets,
+  rangeIndices,
+  resolveQuery,
+  sortFacets,
+} from './filterEngine';
+import {
+  HISTOGRAM_BIN_COUNT,
+  createEmptyHistogram,
+  getHistogramBinIndex,
+  isRangeFilter,
+  matchingIndexKeys,
+  matchesRange,
+  toNumber,
+} from './filterModel';
+
+// Rows of a numeric column ordered by value, so a range is two binary searches
+interface NumericColumnIndex {
+  sortedValues: Float64Array;
+  sortedRows: Uint32Array;
+  rowValues: Float64Array; // NaN for missing / non-numeric cells
+  summary: NumericSummary;
+}
+
+// Bitmap value index plus sorted numeric indexes, built straight from the
+// column store; the default engine behind UltraFastFilterContext
+export class UltraFastFilterManager implements NumericFilterEngine {
   private filterCache: Map<string, FilterOption[]> = new Map();
-  private dataIndex: Map<string, Map<string, Set<number>>> = new Map();
+  private dataIndex: BitmapIndex = new Map();
+  private numericIndex: Map<string, NumericColumnIndex> = new Map();
+  // Trigrams over the distinct values in dataIndex; built on the first search
+  private textIndex: TextIndex | null = null;
+  private allRows: Bitmap | null = null;
   private data: DataRow[] = [];
+  private table: ColumnTable | null = null;
   private isInitialized = false;
-  private numericColumns: Set<string> = new Set(['id', 'number']);
+  private numericColumns: Set<string> = new Set();
+  // Orders the facets; see sortFacets
+  private columnTypes: Map<string, ColumnConfig['type']> = new Map();
+  private dateFormats: Map<string, DateFormat> = new Map();
+  // The user's type corrections; a column made numeric gets a sorted index
+  private schemaOverrides: SchemaOverrides = {};
+
+  constructor(data: DataRow[] = []) {
+    this.data = data;
+  }
 
-  constructor(data: DataRow[]) {
+  // FilterEngine: replace the indexed rows and rebuild every index. Row views
+  // from createRowViews are indexed from their columns without touching rows.
+  index(data: DataRow[], overrides: SchemaOverrides = {}): void {
     this.data = data;
+    this.schemaOverrides = overrides;
+    this.dispose();
+    this.initialize();
   }
 
   // Initialize the filter manager with ultra-optimized indexing
   initialize(): void {
     if (this.isInitialized) return;
-    
+
     // Safety check to prevent recursive calls
     if (this.data.length === 0) {
       console.warn('No data to initialize filter manager');
@@ -23,9 +89,25 @@ export class UltraFastFilterManager {
     }
 
     try {
+      this.table = getColumnTable(this.data);
+
+      // Numeric and date columns come from the column types (detected, then
+      // overridden), not from names
+      const configs = applySchemaOverrides(getColumnConfigs(this.data), this.schemaOverrides);
+      this.columnTypes = new Map(configs.map(config => [config.key, config.type]));
+      this.numericColumns = new Set(
+        configs
+          .filter(config => config.type === 'number')
+          .map(config => config.key)
+      );
+      this.dateFormats = new Map(
+        configs.flatMap(config => (config.dateFormat ? [[config.key, config.dateFormat] as const] : []))
+      );
+
       // Create ultra-fast indexes for instant lookups
       this.createUltraFastIndexes();
-      
+      this.createNumericIndexes();
+
       // Pre-compute all filter options
       this.precomputeFilterOptions();
 
@@ -37,412 +119,335 @@ export class UltraFastFilterManager {
   }
 
   private createUltraFastIndexes(): void {
-    // Create indexes for each column using Map and Set for O(1) lookups
-    this.data.forEach((row, index) => {
-      Object.keys(row).forEach(column => {
-        const value = String(row[column]);
-        
-        if (!this.dataIndex.has(column)) {
-          this.dataIndex.set(column, new Map());
-        }
-        
-        const columnIndex = this.dataIndex.get(column)!;
-        if (!columnIndex.has(value)) {
-          columnIndex.set(value, new Set());
+    // One bitmap per distinct value of each column
+    this.table!.columns.forEach((column, name) => {
+      this.dataIndex.set(name, this.createColumnIndex(column));
+    });
+  }
+
+  // Group rows by dictionary code (or by number) first, then key by display value
+  private createColumnIndex(column: TableColumn): Map<string, Bitmap> {
+    const rowCount = this.table!.rowCount;
+    const columnIndex = new Map<string, Bitmap>();
+    // Rows are visited in order, so every row list is already sorted
+    const addRows = (value: string, rows: Uint32Array) => {
+      const bitmap = Bitmap.fromSortedRows(rows, rowCount);
+      const existing = columnIndex.get(value);
+      columnIndex.set(value, existing ? existing.or(bitmap) : bitmap);
+    };
+
+    if (column.type === 'category') {
+      const counts = new Uint32Array(column.dictionary.length);
+      column.codes.forEach(code => counts[code]++);
+      const rowsByCode = Array.from(counts, count => new Uint32Array(count));
+      const filled = new Uint32Array(counts.length);
+      column.codes.forEach((code, row) => {
+        rowsByCode[code][filled[code]++] = row;
+      });
+      // "5" and 5 share a key, as String(row[column]) always did
+      rowsByCode.forEach((rows, code) => addRows(String(column.dictionary[code]), rows));
+    } else {
+      const rowsByValue = new Map<number, number[]>();
+      column.values.forEach((value, row) => {
+        let rows = rowsByValue.get(value);
+        if (!rows) {
+          rows = [];
+          rowsByValue.set(value, rows);
         }
-        
-        columnIndex.get(value)!.add(index);
+        rows.push(row);
       });
+      rowsByValue.forEach((rows, value) => addRows(Number.isNaN(value) ? '' : String(value), Uint32Array.from(rows)));
+    }
+
+    return columnIndex;
+  }
+
+  // Per-row numbers for a column; NaN for missing / non-numeric cells
+  private getNumericValues(column: TableColumn): Float64Array {
+    if (column.type === 'number') return column.values;
+
+    const dictionaryValues = column.dictionary.map(toNumber);
+    const values = new Float64Array(column.codes.length);
+    column.codes.forEach((code, row) => {
+      values[row] = dictionaryValues[code];
     });
+    return values;
   }
 
-  private precomputeFilterOptions(): void {
-    // Pre-compute filter options for all columns
-    this.dataIndex.forEach((columnIndex, column) => {
-      let options: FilterOption[];
+  private createNumericIndexes(): void {
+    this.numericColumns.forEach(column => {
+      const tableColumn = this.table!.columns.get(column);
+      if (!tableColumn) {
+        this.numericColumns.delete(column);
+        return;
+      }
 
-      if (this.numericColumns.has(column)) {
-        // For numeric columns, create range-based options instead of individual values
-        options = this.createNumericFilterOptions(column);
-      } else {
-        // For regular columns, use all unique values
-        const entries = Array.from(columnIndex.entries());
-        // Limit to prevent too many options that could crash the app
-        const limitedEntries = entries.slice(0, 100);
-        options = limitedEntries.map(([value, indices]) => ({
-          value,
-          label: value,
-          count: indices.size
-        }));
+      const rowValues = this.getNumericValues(tableColumn);
+      const rows: number[] = [];
+
+      for (let i = 0; i < rowValues.length; i++) {
+        if (!Number.isNaN(rowValues[i])) rows.push(i);
+      }
+
+      if (rows.length === 0) {
+        this.numericColumns.delete(column);
+        return;
+      }
+
+      rows.sort((a, b) => rowValues[a] - rowValues[b]);
+
+      const sortedRows = Uint32Array.from(rows);
+      const sortedValues = new Float64Array(sortedRows.length);
+      let distinctCount = 0;
+      let isInteger = true;
+
+      for (let i = 0; i < sortedRows.length; i++) {
+        const value = rowValues[sortedRows[i]];
+        sortedValues[i] = value;
+        if (i === 0 || value !== sortedValues[i - 1]) distinctCount++;
+        if (isInteger && !Number.isInteger(value)) isInteger = false;
       }
 
-      // Sort by count (descending) for better UX
-      options.sort((a, b) => (b.count || 0) - (a.count || 0));
-      
-      this.filterCache.set(column, options);
+      this.numericIndex.set(column, {
+        sortedValues,
+        sortedRows,
+        rowValues,
+        summary: {
+          min: sortedValues[0],
+          max: sortedValues[sortedValues.length - 1],
+          distinctCount,
+          isInteger,
+        },
+      });
     });
   }
 
-  private createNumericFilterOptions(column: string): FilterOption[] {
-    try {
-      const values = this.data.map(row => Number(row[column])).filter(v => !isNaN(v));
-      if (values.length === 0) return [];
-
-      // Use efficient min/max calculation to avoid stack overflow
-      let min = values[0];
-      let max = values[0];
-      for (let i = 1; i < values.length; i++) {
-        if (values[i] < min) min = values[i];
-        if (values[i] > max) max = values[i];
-      }
-      
-      const range = max - min;
-      const dataSize = this.data.length;
-
-      // Create range-based options for better performance
-      const options: FilterOption[] = [];
-      
-      // Check if values are mostly sequential (like IDs)
-      const uniqueValues = new Set(values);
-      const isSequential = uniqueValues.size > dataSize * 0.9; // If 90%+ values are unique
-      
-      if (isSequential && dataSize > 1000) {
-        // For sequential data (like IDs), create fixed-size buckets
-        const bucketSize = Math.max(1000, Math.ceil(dataSize / 20)); // At least 1000 per bucket, max 20 buckets
-        const maxBuckets = Math.ceil(dataSize / bucketSize);
-        
-        // Safety check to prevent infinite loops
-        if (maxBuckets > 100) {
-          console.warn('Too many buckets, limiting to 100');
-          return [];
-        }
-        
-        for (let i = 0; i < maxBuckets; i++) {
-          const bucketStart = i * bucketSize + 1; // IDs start from 1
-          const bucketEnd = Math.min((i + 1) * bucketSize, dataSize);
-          
-          const count = bucketEnd - bucketStart + 1;
-          
-          const label = `${bucketStart}-${bucketEnd}`;
-          
-          options.push({
-            value: `${bucketStart}-${bucketEnd}`,
-            label,
-            count
-          });
-        }
-      } else if (range <= 100) {
-        // For small ranges, show individual values
-        const uniqueValuesArray = Array.from(uniqueValues).sort((a, b) => a - b);
-        // Limit to prevent too many options
-        const limitedValues = uniqueValuesArray.slice(0, 50);
-        limitedValues.forEach(value => {
-          const count = this.data.filter(row => Number(row[column]) === value).length;
-          options.push({
-            value: value.toString(),
-            label: value.toString(),
-            count
-          });
-        });
-      } else {
-        // For large ranges, create range buckets
-        // Adjust bucket count based on data size
-        let bucketCount = 20; // Default
-        
-        if (dataSize > 100000) {
-          bucketCount = 30; // More buckets for very large datasets
-        } else if (dataSize > 50000) {
-          bucketCount = 25; // Medium buckets for large datasets
-        }
-        
-        const bucketSize = range / bucketCount;
-
-        for (let i = 0; i < bucketCount; i++) {
-          const bucketStart = min + (i * bucketSize);
-          const bucketEnd = min + ((i + 1) * bucketSize);
-          
-          const count = this.data.filter(row => {
-            const value = Number(row[column]);
-            return value >= bucketStart && value < bucketEnd;
-          }).length;
-
-          if (count > 0) {
-            const label = i === bucketCount - 1 
-              ? `${Math.floor(bucketStart)}-${Math.floor(bucketEnd)}`
-              : `${Math.floor(bucketStart)}-${Math.floor(bucketEnd - 1)}`;
-            
-            options.push({
-              value: `${bucketStart}-${bucketEnd}`,
-              label,
-              count
-            });
-          }
-        }
-      }
+  private precomputeFilterOptions(): void {
+    // Pre-compute unfiltered facets for all columns
+    this.dataIndex.forEach((columnIndex, column) => {
+      const options: FilterOption[] = Array.from(columnIndex, ([value, indices]) => ({
+        value,
+        label: value,
+        count: indices.count
+      }));
 
-      return options;
-    } catch (error) {
-      console.error('Error creating numeric filter options:', error);
-      return [];
-    }
+      this.filterCache.set(column, sortFacets(options, this.columnTypes.get(column)));
+    });
   }
 
-  // Get filter options instantly (no computation needed)
-  getFilterOptions(column: string): FilterOption[] {
+  // Dependent facet counts - ULTRA-OPTIMIZED: unfiltered facets are precomputed
+  facets(column: string, query: FilterQuery): FilterOption[] {
     if (!this.isInitialized) {
       this.initialize();
     }
-    return this.filterCache.get(column) || [];
+
+    const matchingIndices = this.match(query, column);
+
+    // If no other filters are active, return all options
+    if (matchingIndices === null) {
+      return this.filterCache.get(column) || [];
+    }
+
+    return countBitmapFacets(this.dataIndex.get(column), matchingIndices, this.columnTypes.get(column));
   }
 
-  // Get available options based on current filters - ULTRA-OPTIMIZED DEPENDENT FILTERING
-  getAvailableFilterOptions(column: string, currentFilters: Record<string, string[]>): FilterOption[] {
+  // Min/max and cardinality of a numeric column, or null for text columns
+  numericSummary(column: string): NumericSummary | null {
     if (!this.isInitialized) {
       this.initialize();
     }
+    return this.numericIndex.get(column)?.summary || null;
+  }
 
-    // Get all possible values for this column
-    const allOptions = this.filterCache.get(column) || [];
-    
-    // If no other filters are active, return all options
-    const otherFilters = Object.entries(currentFilters).filter(([col]) => col !== column);
-    if (otherFilters.length === 0) {
-      return allOptions;
+  // Value distribution of a numeric column under every filter except its own,
+  // so the histogram shows what the range slider can still select
+  histogram(column: string, query: FilterQuery, binCount: number = HISTOGRAM_BIN_COUNT): HistogramBin[] {
+    if (!this.isInitialized) {
+      this.initialize();
     }
 
-    // Apply other filters using ultra-fast index lookups
-    const matchingIndices = this.getMatchingIndices(otherFilters);
-    
-    if (this.numericColumns.has(column)) {
-      // For numeric columns, use range-based filtering
-      return this.getNumericFilterOptions(column, matchingIndices, allOptions);
+    const index = this.numericIndex.get(column);
+    if (!index) return [];
+
+    const { min, max } = index.summary;
+    const bins = createEmptyHistogram(min, max, binCount);
+    const matchingIndices = this.match(query, column);
+
+    const addValue = (value: number) => {
+      if (Number.isNaN(value)) return;
+      bins[getHistogramBinIndex(value, min, max, bins.length)].count++;
+    };
+
+    if (matchingIndices === null) {
+      index.sortedValues.forEach(addValue);
     } else {
-      // For regular columns, use value-based filtering
-      return this.getValueBasedFilterOptions(column, matchingIndices, allOptions);
+      matchingIndices.forEach(row => addValue(index.rowValues[row]));
     }
+
+    return bins;
   }
 
-  private getNumericFilterOptions(column: string, matchingIndices: Set<number>, allOptions: FilterOption[]): FilterOption[] {
-    // For numeric columns, we need to check if the ranges overlap with the filtered data
-    const availableOptions: FilterOption[] = [];
-    
-    allOptions.forEach(option => {
-      let count = 0;
-      
-      if (option.value.includes('-')) {
-        // Handle range values (e.g., "100-200")
-        const [start, end] = option.value.split('-').map(v => Number(v));
-        
-        matchingIndices.forEach(index => {
-          const rowValue = Number(this.data[index][column]);
-          if (rowValue >= start && rowValue <= end) {
-            count++;
-          }
-        });
-      } else {
-        // Handle single values
-        const targetValue = Number(option.value);
-        matchingIndices.forEach(index => {
-          if (Number(this.data[index][column]) === targetValue) {
-            count++;
-          }
-        });
-      }
-      
-      // Only include options that have matching data
-      if (count > 0) {
-        availableOptions.push({
-          ...option,
-          count
-        });
-      }
-    });
+  // Year / month / weekday counts of a date column under every filter except its
+  // own; null for columns that weren't detected as dates
+  dateFacets(column: string, query: FilterQuery): DateFacets | null {
+    if (!this.isInitialized) {
+      this.initialize();
+    }
 
-    // Sort by updated count (descending)
-    availableOptions.sort((a, b) => (b.count || 0) - (a.count || 0));
-    
-    return availableOptions;
-  }
+    const format = this.dateFormats.get(column);
+    const columnIndex = this.dataIndex.get(column);
+    if (!format || !columnIndex) return null;
 
-  private getValueBasedFilterOptions(column: string, matchingIndices: Set<number>, allOptions: FilterOption[]): FilterOption[] {
-    // Get unique values from the filtered data for this column
-    const availableValues = new Set<string>();
-    matchingIndices.forEach(index => {
-      const value = String(this.data[index][column]);
-      availableValues.add(value);
-    });
-    
-    // Return only the options that exist in the filtered data
-    const availableOptions = allOptions.filter(option => availableValues.has(option.value));
-    
-    // Update counts based on the filtered data
-    const updatedOptions = availableOptions.map(option => ({
-      ...option,
-      count: this.getCountForValueInFilteredData(column, option.value, matchingIndices)
-    }));
-
-    // Sort by updated count (descending)
-    updatedOptions.sort((a, b) => (b.count || 0) - (a.count || 0));
-    
-    return updatedOptions;
+    const matchingIndices = this.match(query, column);
+    const counts = Array.from(columnIndex, ([value, indices]): [string, number] => [
+      value,
+      matchingIndices === null ? indices.count : indices.andCount(matchingIndices),
+    ]);
+    return bucketDates(counts, format);
   }
 
-  // Ultra-fast index-based filtering with numeric support
-  private getMatchingIndices(filters: [string, string[]][]): Set<number> {
-    if (filters.length === 0) {
-      return new Set(this.data.map((_, index) => index));
+  // Rows whose value falls inside the range, via binary search on the sorted index
+  private getRangeMatchingIndices(column: string, range: RangeFilter): Bitmap {
+    const rowCount = this.data.length;
+    const index = this.numericIndex.get(column);
+
+    if (!index) {
+      // Column wasn't detected as numeric; check its distinct values instead
+      const matches: Bitmap[] = [];
+      this.dataIndex.get(column)?.forEach((indices, value) => {
+        if (matchesRange(value, range)) matches.push(indices);
+      });
+      return Bitmap.union(matches, rowCount);
     }
 
-    // Get the first filter to start with
-    const [firstColumn, firstValues] = filters[0];
-    let matchingIndices = new Set<number>();
-    
-    // Add all matching indices from the first filter
-    firstValues.forEach(value => {
-      if (this.numericColumns.has(firstColumn)) {
-        // Handle numeric range filtering
-        const indices = this.getNumericMatchingIndices(firstColumn, value);
-        indices.forEach(index => matchingIndices.add(index));
+    const { sortedValues, sortedRows } = index;
+    const start = range.min === null
+      ? 0
+      : this.searchSorted(sortedValues, range.min, !range.includeMin);
+    const end = range.max === null
+      ? sortedValues.length
+      : this.searchSorted(sortedValues, range.max, range.includeMax);
+
+    return Bitmap.fromRows(sortedRows.subarray(start, end), rowCount);
+  }
+
+  // First position whose value is >= target (or > target when `after` is set)
+  private searchSorted(values: Float64Array, target: number, after: boolean): number {
+    let low = 0;
+    let high = values.length;
+    while (low < high) {
+      const mid = (low + high) >>> 1;
+      if (after ? values[mid] <= target : values[mid] < target) {
+        low = mid + 1;
       } else {
-        // Handle regular value filtering
-        const indices = this.dataIndex.get(firstColumn)?.get(value);
-        if (indices) {
-          indices.forEach(index => matchingIndices.add(index));
-        }
+        high = mid;
       }
-    });
+    }
+    return low;
+  }
 
-    // Apply remaining filters
-    for (let i = 1; i < filters.length; i++) {
-      const [column, values] = filters[i];
-      const newMatchingIndices = new Set<number>();
-      
-      values.forEach(value => {
-        let indices: Set<number>;
-        
-        if (this.numericColumns.has(column)) {
-          // Handle numeric range filtering
-          indices = this.getNumericMatchingIndices(column, value);
-        } else {
-          // Handle regular value filtering
-          indices = this.dataIndex.get(column)?.get(value) || new Set();
-        }
-        
-        indices.forEach(index => {
-          if (matchingIndices.has(index)) {
-            newMatchingIndices.add(index);
-          }
-        });
-      });
-      
-      matchingIndices = newMatchingIndices;
-      
-      // Early exit if no matches
-      if (matchingIndices.size === 0) {
-        break;
-      }
+  private getColumnMatchingIndices(column: string, filter: ColumnFilter): Bitmap {
+    if (isRangeFilter(filter)) {
+      return this.getRangeMatchingIndices(column, filter);
     }
 
-    return matchingIndices;
+    const columnIndex = this.dataIndex.get(column);
+    const matches: Bitmap[] = [];
+    // Text predicates are checked once per distinct value, not per row
+    matchingIndexKeys(columnIndex?.keys() ?? [], filter).forEach(value => {
+      const indices = columnIndex?.get(value);
+      if (indices) matches.push(indices);
+    });
+    return Bitmap.union(matches, this.data.length);
   }
 
-  private getNumericMatchingIndices(column: string, value: string): Set<number> {
-    const indices = new Set<number>();
-    
-    if (value.includes('-')) {
-      // Handle range values (e.g., "100-200")
-      const [start, end] = value.split('-').map(v => Number(v));
-      
-      this.data.forEach((row, index) => {
-        const rowValue = Number(row[column]);
-        if (rowValue >= start && rowValue <= end) {
-          indices.add(index);
-        }
-      });
-    } else {
-      // Handle single values
-      const targetValue = Number(value);
-      this.data.forEach((row, index) => {
-        if (Number(row[column]) === targetValue) {
-          indices.add(index);
-        }
-      });
+  // Ultra-fast index-based filtering: leaves are bitmap lookups, AND / OR / NOT
+  // are word operations. Returns null when nothing is being filtered.
+  private getMatchingIndices(expression: FilterExpression | null): Bitmap | null {
+    if (expression === null) {
+      return null;
     }
-    
-    return indices;
+
+    return evaluateExpressionBitmap(expression, {
+      allRows: () => this.getAllRows(),
+      matchCondition: (column, filter) => this.getColumnMatchingIndices(column, filter),
+    });
   }
 
-  // Get count for a specific value in filtered data using indices
-  private getCountForValueInFilteredData(column: string, value: string, matchingIndices: Set<number>): number {
-    let count = 0;
-    
-    if (this.numericColumns.has(column)) {
-      // Handle numeric range counting
-      if (value.includes('-')) {
-        const [start, end] = value.split('-').map(v => Number(v));
-        matchingIndices.forEach(index => {
-          const rowValue = Number(this.data[index][column]);
-          if (rowValue >= start && rowValue <= end) {
-            count++;
-          }
-        });
-      } else {
-        const targetValue = Number(value);
-        matchingIndices.forEach(index => {
-          if (Number(this.data[index][column]) === targetValue) {
-            count++;
-          }
-        });
-      }
-    } else {
-      // Handle regular value counting
-      matchingIndices.forEach(index => {
-        if (String(this.data[index][column]) === value) {
-          count++;
-        }
-      });
+  // Every search term has to match somewhere in the row (or in its column,
+  // when scoped); a term matches a row through the values that contain it
+  private getSearchMatchingIndices(search: string | null | undefined): Bitmap | null {
+    const terms = parseSearchQuery(search, this.table?.columnNames ?? []);
+    if (terms.length === 0) {
+      return null;
+    }
+
+    if (!this.textIndex) {
+      this.textIndex = new TextIndex(new Map(
+        Array.from(this.dataIndex, ([column, values]) => [column, values.keys()])
+      ));
     }
-    
-    return count;
+
+    let matches: Bitmap | null = null;
+    for (const term of terms) {
+      const termMatches = Bitmap.union(
+        this.textIndex.match(term).map(({ column, value }) => this.dataIndex.get(column)!.get(value)!),
+        this.data.length
+      );
+      matches = matches === null ? termMatches : matches.and(termMatches);
+      if (matches.count === 0) break;
+    }
+    return matches;
   }
 
-  // Apply filters instantly using optimized lookup
-  applyFilters(data: DataRow[], filters: [string, string[]][]): DataRow[] {
-    if (filters.length === 0) return data;
+  // Filters and expression (minus excludeColumn's filter) AND the search;
+  // null when the query keeps every row
+  private match(query: FilterQuery, excludeColumn?: string): Bitmap | null {
+    const filtered = this.getMatchingIndices(resolveQuery(query, excludeColumn));
+    const searched = this.getSearchMatchingIndices(query.search);
+    if (filtered === null || searched === null) {
+      return filtered ?? searched;
+    }
+    return filtered.and(searched);
+  }
 
-    const matchingIndices = this.getMatchingIndices(filters);
-    return Array.from(matchingIndices).map(index => this.data[index]);
+  private getAllRows(): Bitmap {
+    if (!this.allRows) {
+      this.allRows = Bitmap.full(this.data.length);
+    }
+    return this.allRows;
   }
 
-  // Get filtered data count instantly
-  getFilteredCount(filters: Record<string, string[]>): number {
-    const filterEntries = Object.entries(filters).filter(([, values]) => values.length > 0);
-    if (filterEntries.length === 0) return this.data.length;
+  // Matching row indices in their original order
+  filter(query: FilterQuery): Uint32Array {
+    if (!this.isInitialized) {
+      this.initialize();
+    }
 
-    const matchingIndices = this.getMatchingIndices(filterEntries);
-    return matchingIndices.size;
+    const matchingIndices = this.match(query);
+    return matchingIndices === null ? rangeIndices(this.data.length) : matchingIndices.toArray();
   }
 
-  // Get the final filtered data based on all active filters
-  getFilteredData(filters: Record<string, string[]>): DataRow[] {
-    const filterEntries = Object.entries(filters).filter(([, values]) => values.length > 0);
-    if (filterEntries.length === 0) return this.data;
+  // Get filtered data count instantly
+  count(query: FilterQuery): number {
+    if (!this.isInitialized) {
+      this.initialize();
+    }
 
-    const matchingIndices = this.getMatchingIndices(filterEntries);
-    return Array.from(matchingIndices).map(index => this.data[index]);
+    const matchingIndices = this.match(query);
+    return matchingIndices === null ? this.data.length : matchingIndices.count;
   }
 
-  // Clear cache (useful for data updates)
-  clearCache(): void {
+  // Drop every index (useful for data updates)
+  dispose(): void {
     this.filterCache.clear();
     this.dataIndex.clear();
+    this.numericIndex.clear();
+    this.dateFormats.clear();
+    this.columnTypes.clear();
+    this.allRows = null;
+    this.textIndex = null;
+    this.table = null;
     this.isInitialized = false;
   }
-
-  // Update data and reinitialize
-  updateData(newData: DataRow[]): void {
-    this.data = newData;
-    this.clearCache();
-    this.initialize();
-  }
-} 
\ No newline at end of file
+}
\ No newline at end of file
@@ -1,13 +1,38 @@
+import { ColumnConfig, DataRow, FilterExpression, FilterOption, FilterState } from '@/types';
 import { CSVData } from './csvParser';
-
-export class UltraOptimizedDataGenerator {
+import { getColumnConfigs } from './dataProcessing';
+import { evaluateExpressionIndices } from './filterExpression';
+import { CacheReport, RegisteredCache, getDatasetId, registerCache } from './cacheRegistry';
+import {
+  FilterEngine,
+  FilterQuery,
+  InvertedIndex,
+  addToInvertedIndex,
+  countIndexedFacets,
+  createInvertedIndexEvaluator,
+  materializeRows,
+  rangeIndices,
+  resolveQuery,
+  searchInvertedIndex,
+  toSortedIndices,
+} from './filterEngine';
+import { parseSearchQuery } from './textSearch';
+
+export class UltraOptimizedDataGenerator implements FilterEngine, RegisteredCache {
   private static instance: UltraOptimizedDataGenerator;
+  readonly name = 'generatedDatasets';
+  // Generated rows per requested count; each array is its own dataset
   private dataCache: Map<number, CSVData[]> = new Map();
-  private columnIndexes: Map<string, Map<string, Set<number>>> = new Map();
+  private columnIndexes: InvertedIndex = new Map();
+  // Types of the indexed columns; order the facets
+  private columnTypes: Map<string, ColumnConfig['type']> = new Map();
   private currentData: CSVData[] = [];
-  private isInitialized = false;
+  // Dataset the inverted index was built from
+  private indexedDatasetId: string | null = null;
 
-  private constructor() {}
+  private constructor() {
+    registerCache(this);
+  }
 
   static getInstance(): UltraOptimizedDataGenerator {
     if (!UltraOptimizedDataGenerator.instance) {
@@ -24,6 +49,7 @@ export class UltraOptimizedDataGenerator {
       console.log(`⚡ Using cached dataset (${(performance.now() - startTime).toFixed(2)}ms)`);
       const cachedData = this.dataCache.get(count)!;
       this.currentData = cachedData;
+      this.buildIndexes(cachedData);
       return cachedData;
     }
 
@@ -76,128 +102,119 @@ export class UltraOptimizedDataGenerator {
   }
 
   private buildIndexes(data: CSVData[]): void {
-    if (this.isInitialized) return;
+    const datasetId = getDatasetId(data);
+    if (this.indexedDatasetId === datasetId) return;
 
     console.log('🔍 Building ultra-fast indexes...');
     const startTime = performance.now();
 
-    const columns = Object.keys(data[0] || {});
-    
-    columns.forEach(column => {
-      const columnIndex = new Map<string, Set<number>>();
-      
-      data.forEach((row, idx) => {
-        const value = String(row[column]);
-        if (!columnIndex.has(value)) {
-          columnIndex.set(value, new Set());
-        }
-        columnIndex.get(value)!.add(idx);
-      });
-      
-      this.columnIndexes.set(column, columnIndex);
-    });
+    this.columnIndexes.clear();
+    addToInvertedIndex(this.columnIndexes, data);
+    this.columnTypes = new Map(getColumnConfigs(data).map(config => [config.key, config.type]));
 
-    this.isInitialized = true;
+    this.indexedDatasetId = datasetId;
     const endTime = performance.now();
     console.log(`⚡ Indexes built in ${(endTime - startTime).toFixed(2)}ms`);
   }
 
-  filterData(filters: Record<string, string[]>): { data: CSVData[], count: number } {
-    const startTime = performance.now();
-    
-    const activeFilters = Object.entries(filters).filter(([, values]) => values.length > 0);
-    
-    if (activeFilters.length === 0) {
-      return { data: this.currentData, count: this.currentData.length };
-    }
+  // FilterEngine: index arbitrary rows instead of a generated dataset
+  index(data: DataRow[]): void {
+    this.currentData = data as CSVData[];
+    this.buildIndexes(this.currentData);
+  }
 
-    const [firstColumn, firstValues] = activeFilters[0];
-    let matchingIndices = new Set<number>();
-    
-    firstValues.forEach(value => {
-      const indices = this.columnIndexes.get(firstColumn)?.get(value);
-      if (indices) {
-        indices.forEach(index => matchingIndices.add(index));
-      }
-    });
+  filter(query: FilterQuery): Uint32Array {
+    const matchingIndices = this.getMatchingIndices(query);
+    return matchingIndices === null ? rangeIndices(this.currentData.length) : toSortedIndices(matchingIndices);
+  }
 
-    for (let i = 1; i < activeFilters.length; i++) {
-      const [column, values] = activeFilters[i];
-      const newMatchingIndices = new Set<number>();
-      
-      values.forEach(value => {
-        const indices = this.columnIndexes.get(column)?.get(value);
-        if (indices) {
-          indices.forEach(index => {
-            if (matchingIndices.has(index)) {
-              newMatchingIndices.add(index);
-            }
-          });
-        }
-      });
-      
-      matchingIndices = newMatchingIndices;
-      
-      if (matchingIndices.size === 0) {
-        break;
-      }
+  facets(column: string, query: FilterQuery): FilterOption[] {
+    return countIndexedFacets(
+      this.columnIndexes.get(column),
+      this.getMatchingIndices(query, column),
+      this.columnTypes.get(column)
+    );
+  }
+
+  count(query: FilterQuery): number {
+    const matchingIndices = this.getMatchingIndices(query);
+    return matchingIndices === null ? this.currentData.length : matchingIndices.size;
+  }
+
+  dispose(): void {
+    this.clearCache();
+  }
+
+  // null when nothing is being filtered or searched
+  private getMatchingIndices(query: FilterQuery, excludeColumn?: string): Set<number> | null {
+    const expression = resolveQuery(query, excludeColumn);
+    const terms = parseSearchQuery(query.search, Array.from(this.columnIndexes.keys()));
+    if (expression === null && terms.length === 0) {
+      return null;
     }
 
-    const data = Array.from(matchingIndices).map(index => this.getDataAtIndex(index));
-    
-    const endTime = performance.now();
-    console.log(`⚡ Filtered ${data.length} records in ${(endTime - startTime).toFixed(2)}ms`);
-    
-    return { data, count: data.length };
+    const matches = expression === null ? null : evaluateExpressionIndices(
+      expression,
+      createInvertedIndexEvaluator(this.columnIndexes, () => this.currentData.keys())
+    );
+    return terms.length > 0 ? searchInvertedIndex(this.columnIndexes, terms, matches) : matches;
   }
 
-  getAvailableFilterOptions(column: string, filters: Record<string, string[]>): Array<{ value: string; count: number }> {
+  filterData(filters: FilterState, expression: FilterExpression | null = null): { data: CSVData[], count: number } {
     const startTime = performance.now();
-    
-    const otherFilters = Object.entries(filters).filter(([col]) => col !== column);
-    
-    if (otherFilters.length === 0) {
-      const columnIndex = this.columnIndexes.get(column);
-      if (!columnIndex) return [];
-      
-      const options = Array.from(columnIndex.entries()).map(([value, indices]) => ({
-        value,
-        count: indices.size
-      }));
-      
-      options.sort((a, b) => b.count - a.count);
-      return options;
-    }
 
-    const filteredResult = this.filterData(Object.fromEntries(otherFilters));
-    
-    const valueCounts = new Map<string, number>();
-    filteredResult.data.forEach(row => {
-      const value = String(row[column]);
-      valueCounts.set(value, (valueCounts.get(value) || 0) + 1);
-    });
-    
-    const options = Array.from(valueCounts.entries()).map(([value, count]) => ({
-      value,
-      count
-    }));
-    
-    options.sort((a, b) => b.count - a.count);
-    
+    const indices = this.filter({ filters, expression });
+    const data = indices.length === this.currentData.length
+      ? this.currentData
+      : materializeRows(this.currentData, indices);
+
     const endTime = performance.now();
-    console.log(`⚡ Generated filter options in ${(endTime - startTime).toFixed(2)}ms`);
-    
-    return options;
+    console.log(`⚡ Filtered ${data.length} records in ${(endTime - startTime).toFixed(2)}ms`);
+
+    return { data, count: data.length };
   }
 
-  private getDataAtIndex(index: number): CSVData {
-    return this.currentData[index] || {} as CSVData;
+  getAvailableFilterOptions(
+    column: string,
+    filters: FilterState,
+    expression: FilterExpression | null = null
+  ): Array<{ value: string; count: number }> {
+    return this.facets(column, { filters, expression }).map(({ value, count }) => ({ value, count: count || 0 }));
   }
 
   clearCache(): void {
     this.dataCache.clear();
     this.columnIndexes.clear();
+    this.columnTypes.clear();
     this.currentData = [];
-    this.isInitialized = false;
+    this.indexedDatasetId = null;
+  }
+
+  // RegisteredCache: generated datasets plus the index of the current one
+  report(): CacheReport {
+    const datasets: Record<string, number> = {};
+    this.dataCache.forEach(data => {
+      datasets[getDatasetId(data)] = 1;
+    });
+    if (this.indexedDatasetId) {
+      datasets[this.indexedDatasetId] = (datasets[this.indexedDatasetId] ?? 0) + 1;
+    }
+    return { name: this.name, datasets };
+  }
+
+  evict(datasetId: string): void {
+    this.dataCache.forEach((data, count) => {
+      if (getDatasetId(data) === datasetId) this.dataCache.delete(count);
+    });
+    if (this.indexedDatasetId === datasetId) {
+      this.columnIndexes.clear();
+      this.columnTypes.clear();
+      this.currentData = [];
+      this.indexedDatasetId = null;
+    }
+  }
+
+  clear(): void {
+    this.clearCache();
   }
 }
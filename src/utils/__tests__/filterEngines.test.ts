@@ -0,0 +1,230 @@
+import { beforeAll, describe, expect, it } from '@jest/globals';
+import { DataRow, FilterOption } from '@/types';
+import { FilterEngine, FilterQuery } from '../filterEngine';
+import { UltraFastFilterManager } from '../UltraFastFilterManager';
+import { FilterLogicEngine } from '../filterLogic';
+import { OptimizedFilterManager } from '../optimizedFilterLogic';
+import { UltraOptimizedDataGenerator } from '../UltraOptimizedDataGenerator';
+import { createCondition, createGroup, negate } from '../filterExpression';
+import { createRangeFilter, createTextFilter } from '../filterModel';
+import { createDateFilter } from '../dateColumns';
+
+// Every engine implements the same FilterEngine contract, so one table of
+// queries and expected rows runs against all of them
+
+const BASE_ROWS: DataRow[] = [
+  { region: 'North', product: 'A', price: 10, name: 'alpha', date: '2024-01-05' },
+  { region: 'South', product: 'B', price: 25, name: 'beta', date: '2024-02-10' },
+  { region: 'East', product: 'A', price: 40, name: 'gamma', date: '2024-03-15' },
+  { region: 'West', product: 'C', price: 55, name: 'delta', date: '2024-04-20' },
+  { region: 'North', product: 'B', price: 70, name: 'alphabet', date: '2024-05-25' },
+  { region: 'South', product: 'C', price: 85, name: 'epsilon', date: '2024-06-30' },
+  { region: 'East', product: 'A', price: 100, name: 'zeta', date: '2024-07-04' },
+  { region: 'West', product: 'B', price: 115, name: 'eta', date: '2024-08-09' },
+  { region: 'North', product: 'C', price: 130, name: 'theta', date: '2024-09-14' },
+  { region: 'South', product: 'A', price: 145, name: 'iota', date: '2024-10-19' },
+  { region: 'East', product: 'B', price: 160, name: 'kappa', date: '2024-11-24' },
+  { region: 'West', product: 'C', price: 175, name: 'lambda', date: '2024-12-29' },
+];
+
+const north = createCondition('region', ['North']);
+const south = createCondition('region', ['South']);
+const productA = createCondition('product', ['A']);
+const cheap = createCondition('price', createRangeFilter(null, 25));
+const containsAlpha = createCondition('name', createTextFilter('contains', 'alpha'));
+
+interface FilterScenario {
+  name: string;
+  query: FilterQuery;
+  // Matching rows of BASE_ROWS
+  rows: number[];
+}
+
+const FILTER_SCENARIOS: FilterScenario[] = [
+  { name: 'no filters', query: { filters: {} }, rows: [0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11] },
+  { name: 'list filter', query: { filters: { region: ['North', 'East'] } }, rows: [0, 2, 4, 6, 8, 10] },
+  { name: 'list filters on two columns', query: { filters: { region: ['North'], product: ['B', 'C'] } }, rows: [4, 8] },
+  { name: 'empty list filter', query: { filters: { region: [] } }, rows: [0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11] },
+  { name: 'inclusive range', query: { filters: { price: createRangeFilter(40, 100) } }, rows: [2, 3, 4, 5, 6] },
+  { name: 'exclusive range', query: { filters: { price: createRangeFilter(40, 100, false, false) } }, rows: [3, 4, 5] },
+  { name: 'open-ended range', query: { filters: { price: createRangeFilter(150, null) } }, rows: [10, 11] },
+  { name: 'text contains', query: { filters: { name: createTextFilter('contains', 'alpha') } }, rows: [0, 4] },
+  { name: 'text starts with', query: { filters: { name: createTextFilter('startsWith', 'e') } }, rows: [5, 7] },
+  { name: 'text equals ignoring case', query: { filters: { name: createTextFilter('equals', 'BETA') } }, rows: [1] },
+  { name: 'case-sensitive text', query: { filters: { name: createTextFilter('equals', 'BETA', true) } }, rows: [] },
+  { name: 'regex', query: { filters: { name: createTextFilter('regex', '^(alpha|beta)') } }, rows: [0, 1, 4] },
+  { name: 'regex anchored at the end', query: { filters: { name: createTextFilter('regex', 'ta$') } }, rows: [1, 3, 6, 7, 8, 9] },
+  { name: 'regex ignoring case', query: { filters: { name: createTextFilter('regex', '^ALPHA') } }, rows: [0, 4] },
+  { name: 'case-sensitive regex', query: { filters: { name: createTextFilter('regex', '^ALPHA', true) } }, rows: [] },
+  { name: 'wildcard any run', query: { filters: { name: createTextFilter('wildcard', '*eta') } }, rows: [1, 6, 7, 8] },
+  { name: 'wildcard one character', query: { filters: { name: createTextFilter('wildcard', '?eta') } }, rows: [1, 6] },
+  { name: 'wildcard matching the whole value', query: { filters: { name: createTextFilter('wildcard', 'a*a') } }, rows: [0] },
+  { name: 'wildcard with regex characters', query: { filters: { name: createTextFilter('wildcard', 'alph.') } }, rows: [] },
+  // getTextMatcher returns null, so the filter is inactive
+  {
+    name: 'invalid regex',
+    query: { filters: { name: createTextFilter('regex', '(alpha') } },
+    rows: [0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11],
+  },
+  {
+    name: 'invalid regex in an expression',
+    query: { filters: {}, expression: createGroup('or', [createCondition('name', createTextFilter('regex', '(alpha')), south]) },
+    rows: [1, 5, 9],
+  },
+  {
+    name: 'date range',
+    query: { filters: { date: createDateFilter('iso', { start: '2024-03-01', end: '2024-05-25' }) } },
+    rows: [2, 3, 4],
+  },
+  { name: 'date months', query: { filters: { date: createDateFilter('iso', { months: [0, 11] }) } }, rows: [0, 11] },
+  {
+    name: 'OR expression',
+    query: { filters: {}, expression: createGroup('or', [createCondition('region', ['West']), cheap]) },
+    rows: [0, 1, 3, 7, 11],
+  },
+  { name: 'NOT expression', query: { filters: {}, expression: negate(productA) }, rows: [1, 3, 4, 5, 7, 8, 10, 11] },
+  {
+    name: 'AND of OR and NOT',
+    query: { filters: {}, expression: createGroup('and', [createGroup('or', [north, south]), negate(containsAlpha)]) },
+    rows: [1, 5, 8, 9],
+  },
+  {
+    name: 'expression AND-ed with filters',
+    query: {
+      filters: { region: ['South'] },
+      expression: negate(createCondition('price', createRangeFilter(100, null))),
+    },
+    rows: [1, 5],
+  },
+  { name: 'search word', query: { filters: {}, search: 'alpha' }, rows: [0, 4] },
+  { name: 'search words in any column', query: { filters: {}, search: 'north ALPHA' }, rows: [0, 4] },
+  { name: 'search number as text', query: { filters: {}, search: '10' }, rows: [0, 1, 6, 9] },
+  { name: 'search quoted phrase', query: { filters: {}, search: '"2024-1"' }, rows: [9, 10, 11] },
+  { name: 'search words, not a phrase', query: { filters: {}, search: 'alpha bet' }, rows: [4] },
+  { name: 'search phrase, not words', query: { filters: {}, search: '"alpha bet"' }, rows: [] },
+  { name: 'search column:term', query: { filters: {}, search: 'product:a' }, rows: [0, 2, 6, 9] },
+  { name: 'search unknown column prefix', query: { filters: {}, search: 'color:a' }, rows: [] },
+  { name: 'search with filters', query: { filters: { region: ['South'] }, search: 'eta' }, rows: [1] },
+  {
+    name: 'search with an expression',
+    query: { filters: {}, expression: negate(north), search: 'name:eta' },
+    rows: [1, 6, 7],
+  },
+];
+
+interface FacetScenario {
+  name: string;
+  column: string;
+  query: FilterQuery;
+  // value -> count over BASE_ROWS
+  counts: Record<string, number>;
+}
+
+const FACET_SCENARIOS: FacetScenario[] = [
+  { name: 'unfiltered', column: 'product', query: { filters: {} }, counts: { A: 4, B: 4, C: 4 } },
+  {
+    name: 'ignoring the column\'s own filter',
+    column: 'region',
+    query: { filters: { region: ['North'], product: ['A'] } },
+    counts: { North: 1, East: 2, South: 1 },
+  },
+  {
+    name: 'under a range filter',
+    column: 'product',
+    query: { filters: { price: createRangeFilter(40, 100) } },
+    counts: { A: 2, B: 1, C: 2 },
+  },
+  {
+    name: 'under an expression',
+    column: 'product',
+    query: { filters: {}, expression: createGroup('or', [north, south]) },
+    counts: { A: 2, B: 2, C: 2 },
+  },
+  {
+    name: 'under a search',
+    column: 'region',
+    query: { filters: { region: ['South'] }, search: 'eta' },
+    counts: { South: 1, West: 1, North: 1, East: 1 },
+  },
+];
+
+// Feeds the rows through indexChunk a few at a time, like ChunkedDataContext
+class ChunkLoadedEngine implements FilterEngine {
+  private engine = new OptimizedFilterManager();
+
+  index(data: DataRow[]): void {
+    const chunkSize = 5;
+    this.engine = new OptimizedFilterManager(data.length, chunkSize);
+    for (let start = 0; start < data.length; start += chunkSize) {
+      this.engine.indexChunk(data.slice(start, start + chunkSize), start);
+    }
+  }
+
+  filter(query: FilterQuery): Uint32Array {
+    return this.engine.filter(query);
+  }
+
+  facets(column: string, query: FilterQuery): FilterOption[] {
+    return this.engine.facets(column, query);
+  }
+
+  count(query: FilterQuery): number {
+    return this.engine.count(query);
+  }
+
+  dispose(): void {
+    this.engine.dispose();
+  }
+}
+
+const ENGINES: [string, () => FilterEngine][] = [
+  ['UltraFastFilterManager', () => new UltraFastFilterManager()],
+  ['FilterLogicEngine', () => new FilterLogicEngine()],
+  ['OptimizedFilterManager', () => new OptimizedFilterManager()],
+  ['OptimizedFilterManager loaded in chunks', () => new ChunkLoadedEngine()],
+  ['UltraOptimizedDataGenerator', () => UltraOptimizedDataGenerator.getInstance()],
+];
+
+// Copies of BASE_ROWS; 100 copies pass SMALL_DATASET_THRESHOLD, so the
+// index-backed paths run too
+const DATASET_SIZES: [string, number][] = [['small dataset', 1], ['large dataset', 100]];
+
+const repeatRows = (copies: number): DataRow[] => {
+  return Array.from({ length: copies }, () => BASE_ROWS.map(row => ({ ...row }))).flat();
+};
+
+const repeatIndices = (rows: number[], copies: number): number[] => {
+  return Array.from({ length: copies }, (_, copy) => rows.map(row => copy * BASE_ROWS.length + row)).flat();
+};
+
+const toCounts = (options: FilterOption[]): Record<string, number> => {
+  return Object.fromEntries(options.map(option => [option.value, option.count ?? 0]));
+};
+
+describe.each(ENGINES)('%s', (_, createEngine) => {
+  describe.each(DATASET_SIZES)('on a %s', (__, copies) => {
+    // Indexed per block: UltraOptimizedDataGenerator is a shared instance
+    const engine = createEngine();
+    beforeAll(() => engine.index(repeatRows(copies)));
+
+    it.each(FILTER_SCENARIOS)('filters: $name', ({ query, rows }) => {
+      expect(Array.from(engine.filter(query))).toEqual(repeatIndices(rows, copies));
+    });
+
+    it.each(FILTER_SCENARIOS)('counts: $name', ({ query, rows }) => {
+      expect(engine.count(query)).toBe(rows.length * copies);
+    });
+
+    it.each(FACET_SCENARIOS)('facets: $name', ({ column, query, counts }) => {
+      const expected = Object.fromEntries(Object.entries(counts).map(([value, count]) => [value, count * copies]));
+      expect(toCounts(engine.facets(column, query))).toEqual(expected);
+    });
+
+    it('orders number facets by value and the rest by count', () => {
+      expect(engine.facets('price', { filters: {} }).map(option => option.value))
+        .toEqual(BASE_ROWS.map(row => String(row.price)));
+      expect(engine.facets('region', { filters: { product: ['A'] } }).map(option => option.value))
+        .toEqual(['East', 'North', 'South']);
+    });
+  });
+});
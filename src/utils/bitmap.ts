@@ -0,0 +1,240 @@
+// Immutable row sets over rows [0, size). Sparse sets are kept as a sorted
+// Uint32Array, dense ones as a bitset of 32-bit words; every operation picks
+// whichever form is smaller for its result, like a roaring container does.
+// A sorted array costs 32 bits per row and a bitset 1 bit per row of `size`,
+// so arrays win below size / 32 rows.
+const SPARSE_RATIO = 32;
+
+const popcount = (word: number): number => {
+  word -= (word >>> 1) & 0x55555555;
+  word = (word & 0x33333333) + ((word >>> 2) & 0x33333333);
+  word = (word + (word >>> 4)) & 0x0f0f0f0f;
+  return Math.imul(word, 0x01010101) >>> 24;
+};
+
+const countWords = (words: Uint32Array): number => {
+  let count = 0;
+  for (let i = 0; i < words.length; i++) count += popcount(words[i]);
+  return count;
+};
+
+const wordCount = (size: number) => (size + 31) >>> 5;
+
+const isSparse = (count: number, size: number) => count * SPARSE_RATIO < size;
+
+// First position whose value is >= target
+const lowerBound = (rows: Uint32Array, target: number): number => {
+  let low = 0;
+  let high = rows.length;
+  while (low < high) {
+    const mid = (low + high) >>> 1;
+    if (rows[mid] < target) low = mid + 1;
+    else high = mid;
+  }
+  return low;
+};
+
+const wordsToRows = (words: Uint32Array, count: number): Uint32Array => {
+  const rows = new Uint32Array(count);
+  let position = 0;
+  for (let i = 0; i < words.length; i++) {
+    let word = words[i];
+    while (word !== 0) {
+      const lowest = word & -word;
+      rows[position++] = (i << 5) + 31 - Math.clz32(lowest);
+      word ^= lowest;
+    }
+  }
+  return rows;
+};
+
+const rowsToWords = (rows: ArrayLike<number>, size: number, words: Uint32Array = new Uint32Array(wordCount(size))): Uint32Array => {
+  for (let i = 0; i < rows.length; i++) {
+    const row = rows[i];
+    words[row >>> 5] |= 1 << (row & 31);
+  }
+  return words;
+};
+
+export class Bitmap {
+  private constructor(
+    readonly size: number,
+    private readonly rows: Uint32Array | null,
+    private readonly words: Uint32Array | null,
+    readonly count: number
+  ) {}
+
+  static empty(size: number): Bitmap {
+    return new Bitmap(size, new Uint32Array(0), null, 0);
+  }
+
+  static full(size: number): Bitmap {
+    if (isSparse(size, size)) {
+      const rows = new Uint32Array(size);
+      for (let i = 0; i < size; i++) rows[i] = i;
+      return new Bitmap(size, rows, null, size);
+    }
+
+    const words = new Uint32Array(wordCount(size)).fill(0xffffffff);
+    const tail = size & 31;
+    if (tail !== 0) words[words.length - 1] = (1 << tail) - 1;
+    return new Bitmap(size, null, words, size);
+  }
+
+  // Takes ownership of `rows`, which must be ascending and unique
+  static fromSortedRows(rows: Uint32Array, size: number): Bitmap {
+    if (isSparse(rows.length, size)) {
+      return new Bitmap(size, rows, null, rows.length);
+    }
+    return new Bitmap(size, null, rowsToWords(rows, size), rows.length);
+  }
+
+  // Unique rows in any order
+  static fromRows(rows: ArrayLike<number>, size: number): Bitmap {
+    if (isSparse(rows.length, size)) {
+      return new Bitmap(size, Uint32Array.from(rows).sort(), null, rows.length);
+    }
+    return new Bitmap(size, null, rowsToWords(rows, size), rows.length);
+  }
+
+  // OR of many bitmaps in one pass, without the intermediate results
+  static union(bitmaps: Bitmap[], size: number): Bitmap {
+    if (bitmaps.length === 0) return Bitmap.empty(size);
+    if (bitmaps.length === 1) return bitmaps[0];
+
+    const words = new Uint32Array(wordCount(size));
+    bitmaps.forEach(bitmap => {
+      if (bitmap.words) {
+        for (let i = 0; i < words.length; i++) words[i] |= bitmap.words[i];
+      } else {
+        rowsToWords(bitmap.rows!, size, words);
+      }
+    });
+    return Bitmap.fromWords(words, size);
+  }
+
+  private static fromWords(words: Uint32Array, size: number): Bitmap {
+    const count = countWords(words);
+    if (isSparse(count, size)) {
+      return new Bitmap(size, wordsToRows(words, count), null, count);
+    }
+    return new Bitmap(size, null, words, count);
+  }
+
+  has(row: number): boolean {
+    if (this.words) return (this.words[row >>> 5] & (1 << (row & 31))) !== 0;
+    const rows = this.rows!;
+    const position = lowerBound(rows, row);
+    return position < rows.length && rows[position] === row;
+  }
+
+  and(other: Bitmap): Bitmap {
+    if (this.rows && other.rows) {
+      const [a, b] = this.rows.length < other.rows.length ? [this.rows, other.rows] : [other.rows, this.rows];
+      const result = new Uint32Array(a.length);
+      let count = 0;
+      let j = 0;
+      for (let i = 0; i < a.length && j < b.length; i++) {
+        while (j < b.length && b[j] < a[i]) j++;
+        if (j < b.length && b[j] === a[i]) result[count++] = a[i];
+      }
+      return new Bitmap(this.size, result.slice(0, count), null, count);
+    }
+
+    if (this.rows || other.rows) {
+      const [sparse, dense] = this.rows ? [this, other] : [other, this];
+      return sparse.filterRows(row => dense.has(row));
+    }
+
+    const words = new Uint32Array(this.words!.length);
+    for (let i = 0; i < words.length; i++) words[i] = this.words![i] & other.words![i];
+    return Bitmap.fromWords(words, this.size);
+  }
+
+  or(other: Bitmap): Bitmap {
+    if (this.rows && other.rows && isSparse(this.count + other.count, this.size)) {
+      const a = this.rows;
+      const b = other.rows;
+      const result = new Uint32Array(a.length + b.length);
+      let count = 0;
+      let i = 0;
+      let j = 0;
+      while (i < a.length || j < b.length) {
+        if (j >= b.length || (i < a.length && a[i] < b[j])) result[count++] = a[i++];
+        else if (i >= a.length || b[j] < a[i]) result[count++] = b[j++];
+        else {
+          result[count++] = a[i++];
+          j++;
+        }
+      }
+      return new Bitmap(this.size, result.slice(0, count), null, count);
+    }
+
+    return Bitmap.union([this, other], this.size);
+  }
+
+  // Rows in this bitmap but not in `other`
+  andNot(other: Bitmap): Bitmap {
+    if (this.rows) {
+      return this.filterRows(row => !other.has(row));
+    }
+
+    const words = this.words!.slice();
+    if (other.words) {
+      for (let i = 0; i < words.length; i++) words[i] &= ~other.words[i];
+    } else {
+      const rows = other.rows!;
+      for (let i = 0; i < rows.length; i++) words[rows[i] >>> 5] &= ~(1 << (rows[i] & 31));
+    }
+    return Bitmap.fromWords(words, this.size);
+  }
+
+  // Popcount of the intersection, without building it
+  andCount(other: Bitmap): number {
+    if (this.rows || other.rows) {
+      const [sparse, dense] = this.rows && (!other.rows || this.count <= other.count) ? [this, other] : [other, this];
+      const rows = sparse.rows!;
+      let count = 0;
+      for (let i = 0; i < rows.length; i++) {
+        if (dense.has(rows[i])) count++;
+      }
+      return count;
+    }
+
+    let count = 0;
+    for (let i = 0; i < this.words!.length; i++) count += popcount(this.words![i] & other.words![i]);
+    return count;
+  }
+
+  forEach(callback: (row: number) => void): void {
+    if (this.rows) {
+      this.rows.forEach(row => callback(row));
+      return;
+    }
+
+    const words = this.words!;
+    for (let i = 0; i < words.length; i++) {
+      let word = words[i];
+      while (word !== 0) {
+        const lowest = word & -word;
+        callback((i << 5) + 31 - Math.clz32(lowest));
+        word ^= lowest;
+      }
+    }
+  }
+
+  // Ascending row indices; a fresh array the caller may keep
+  toArray(): Uint32Array {
+    return this.rows ? this.rows.slice() : wordsToRows(this.words!, this.count);
+  }
+
+  private filterRows(keep: (row: number) => boolean): Bitmap {
+    const rows = this.rows!;
+    const result = new Uint32Array(rows.length);
+    let count = 0;
+    for (let i = 0; i < rows.length; i++) {
+      if (keep(rows[i])) result[count++] = rows[i];
+    }
+    return new Bitmap(this.size, result.slice(0, count), null, count);
+  }
+}
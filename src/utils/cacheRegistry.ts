@@ -0,0 +1,98 @@
+// Dataset identity and the caches keyed on it.
+//
+// A dataset is identified by its rows array: the first time a cache sees an
+// array it is given the next load generation id, so a different dataset never
+// hits another one's entries even when the row count or columns match.
+
+const datasetIds = new WeakMap<readonly unknown[], string>();
+let loadGeneration = 0;
+
+export const getDatasetId = (data: readonly unknown[]): string => {
+  let id = datasetIds.get(data);
+  if (!id) {
+    id = `ds-${++loadGeneration}`;
+    datasetIds.set(data, id);
+  }
+  return id;
+};
+
+export interface CacheReport {
+  name: string;
+  // Entry counts per dataset id
+  datasets: Record<string, number>;
+}
+
+// Anything holding per-dataset state can take part in reporting and eviction
+export interface RegisteredCache {
+  readonly name: string;
+  report(): CacheReport;
+  evict(datasetId: string): void;
+  clear(): void;
+}
+
+const registry = new Map<string, RegisteredCache>();
+
+export const registerCache = <T extends RegisteredCache>(cache: T): T => {
+  registry.set(cache.name, cache);
+  return cache;
+};
+
+export const getCacheReports = (): CacheReport[] => {
+  return Array.from(registry.values(), cache => cache.report());
+};
+
+export const evictDataset = (datasetId: string): void => {
+  registry.forEach(cache => cache.evict(datasetId));
+};
+
+export const clearAllCaches = (): void => {
+  registry.forEach(cache => cache.clear());
+};
+
+// Key/value entries grouped by dataset. Only the most recently used datasets
+// are kept, so switching back and forth stays cheap without growing forever.
+export class DatasetCache<T> implements RegisteredCache {
+  private datasets = new Map<string, Map<string, T>>();
+
+  constructor(readonly name: string, private readonly maxDatasets = 3) {
+    registerCache(this);
+  }
+
+  get(data: readonly unknown[], key: string): T | undefined {
+    const datasetId = getDatasetId(data);
+    const entries = this.datasets.get(datasetId);
+    if (!entries) return undefined;
+
+    this.datasets.delete(datasetId);
+    this.datasets.set(datasetId, entries);
+    return entries.get(key);
+  }
+
+  set(data: readonly unknown[], key: string, value: T): void {
+    const datasetId = getDatasetId(data);
+    const entries = this.datasets.get(datasetId) ?? new Map<string, T>();
+    entries.set(key, value);
+
+    this.datasets.delete(datasetId);
+    this.datasets.set(datasetId, entries);
+    while (this.datasets.size > this.maxDatasets) {
+      this.datasets.delete(this.datasets.keys().next().value!);
+    }
+  }
+
+  report(): CacheReport {
+    const datasets: Record<string, number> = {};
+    this.datasets.forEach((entries, datasetId) => {
+      datasets[datasetId] = entries.size;
+    });
+    return { name: this.name, datasets };
+  }
+
+  evict(datasetId: string): void {
+    this.datasets.delete(datasetId);
+  }
+
+  clear(): void {
+    this.datasets.clear();
+  }
+}
@@ -0,0 +1,24 @@
+// Axis helpers for the SVG charts in components/Charts
+
+// Smallest 1, 2 or 5 times a power of ten that is at least `value`
+export const getNiceMax = (value: number): number => {
+  if (value <= 0) return 1;
+  const magnitude = 10 ** Math.floor(Math.log10(value));
+  const step = [1, 2, 5, 10].find(factor => factor * magnitude >= value) ?? 10;
+  return step * magnitude;
+};
+
+// Evenly spaced ticks from 0 to max, both included
+export const getTicks = (max: number, count: number = 4): number[] => {
+  return Array.from({ length: count + 1 }, (_, index) => (max * index) / count);
+};
+
+const compactFormat = new Intl.NumberFormat(undefined, { notation: 'compact', maximumFractionDigits: 1 });
+
+// Axis and bar labels: 950, 1.2K, 3.4M
+export const formatCompact = (value: number): string => compactFormat.format(value);
+
+// Keeps axis labels inside their slot
+export const truncateLabel = (label: string, maxLength: number): string => {
+  return label.length > maxLength ? `${label.slice(0, maxLength - 1)}…` : label;
+};
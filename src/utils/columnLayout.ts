@@ -0,0 +1,145 @@
+import { ColumnConfig, ColumnLayout } from '@/types';
+
+export const MIN_COLUMN_WIDTH = 60;
+export const MAX_COLUMN_WIDTH = 800;
+
+const STORAGE_PREFIX = 'bi-dashboard:column-layout:';
+
+export const EMPTY_COLUMN_LAYOUT: ColumnLayout = { visibleColumns: null, widths: {}, pinned: [] };
+
+export const getDefaultColumnWidth = (column: ColumnConfig): number => {
+  if (column.width) return column.width;
+  if (column.type === 'number') return 120;
+  if (column.type === 'date') return 140;
+  return 180;
+};
+
+export const getColumnWidth = (column: ColumnConfig, widths: Record<string, number>): number => {
+  return widths[column.key] ?? getDefaultColumnWidth(column);
+};
+
+export const clampColumnWidth = (width: number): number => {
+  return Math.round(Math.min(MAX_COLUMN_WIDTH, Math.max(MIN_COLUMN_WIDTH, width)));
+};
+
+// Shown columns in display order, pinned ones first
+export const arrangeColumns = (columns: ColumnConfig[], layout: ColumnLayout): ColumnConfig[] => {
+  const byKey = new Map(columns.map(column => [column.key, column]));
+  const shown = layout.visibleColumns
+    ? layout.visibleColumns.map(key => byKey.get(key)).filter((column): column is ColumnConfig => column !== undefined)
+    : columns;
+
+  const pinned = layout.pinned
+    .map(key => shown.find(column => column.key === key))
+    .filter((column): column is ColumnConfig => column !== undefined);
+  return [...pinned, ...shown.filter(column => !layout.pinned.includes(column.key))];
+};
+
+// Left offsets for the sticky pinned columns
+export const getPinnedOffsets = (arranged: ColumnConfig[], layout: ColumnLayout): Record<string, number> => {
+  const offsets: Record<string, number> = {};
+  let left = 0;
+  for (const column of arranged) {
+    if (!layout.pinned.includes(column.key)) break;
+    offsets[column.key] = left;
+    left += getColumnWidth(column, layout.widths);
+  }
+  return offsets;
+};
+
+// Drop `column` where `target` is; it joins the pinned group when dropped on a
+// pinned column and leaves it otherwise
+export const moveColumn = (
+  columns: ColumnConfig[],
+  layout: ColumnLayout,
+  column: string,
+  target: string
+): Pick<ColumnLayout, 'visibleColumns' | 'pinned'> => {
+  const order = arrangeColumns(columns, layout).map(item => item.key);
+  const from = order.indexOf(column);
+  const to = order.indexOf(target);
+  if (from === -1 || to === -1 || from === to) {
+    return { visibleColumns: layout.visibleColumns, pinned: layout.pinned };
+  }
+
+  order.splice(from, 1);
+  order.splice(to, 0, column);
+
+  const isPinnedDrop = layout.pinned.includes(target);
+  const pinned = order.filter(key => (key === column ? isPinnedDrop : layout.pinned.includes(key)));
+  return { visibleColumns: order, pinned };
+};
+
+export const setColumnVisible = (
+  columns: ColumnConfig[],
+  layout: ColumnLayout,
+  column: string,
+  isVisible: boolean
+): Pick<ColumnLayout, 'visibleColumns' | 'pinned'> => {
+  const order = arrangeColumns(columns, layout).map(item => item.key);
+  if (isVisible) {
+    return { visibleColumns: order.includes(column) ? order : [...order, column], pinned: layout.pinned };
+  }
+  return {
+    visibleColumns: order.filter(key => key !== column),
+    pinned: layout.pinned.filter(key => key !== column),
+  };
+};
+
+export const toggleColumnPinned = (layout: ColumnLayout, column: string): string[] => {
+  return layout.pinned.includes(column)
+    ? layout.pinned.filter(key => key !== column)
+    : [...layout.pinned, column];
+};
+
+const isStringArray = (value: unknown): value is string[] => {
+  return Array.isArray(value) && value.every(item => typeof item === 'string');
+};
+
+// Stored widths, clamped; entries that are not numbers are dropped
+export const parseColumnWidths = (value: unknown): Record<string, number> | null => {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return null;
+
+  const widths: Record<string, number> = {};
+  Object.entries(value as Record<string, unknown>).forEach(([column, width]) => {
+    if (typeof width === 'number' && Number.isFinite(width)) widths[column] = clampColumnWidth(width);
+  });
+  return widths;
+};
+
+const parseColumnLayout = (value: unknown): ColumnLayout | null => {
+  if (!value || typeof value !== 'object') return null;
+  const layout = value as Record<string, unknown>;
+  if (layout.visibleColumns !== null && !isStringArray(layout.visibleColumns)) return null;
+  if (!isStringArray(layout.pinned)) return null;
+  const widths = parseColumnWidths(layout.widths);
+  if (!widths) return null;
+
+  return { visibleColumns: layout.visibleColumns as string[] | null, widths, pinned: layout.pinned };
+};
+
+// Layouts live in localStorage under the dataset's schema key (see getSchemaKey),
+// so every file with the same columns opens the same way
+export const loadColumnLayout = (schemaKey: string): ColumnLayout | null => {
+  try {
+    const stored = localStorage.getItem(`${STORAGE_PREFIX}${schemaKey}`);
+    return stored ? parseColumnLayout(JSON.parse(stored)) : null;
+  } catch {
+    return null;
+  }
+};
+
+export const saveColumnLayout = (schemaKey: string, layout: ColumnLayout): void => {
+  try {
+    const isDefault = layout.visibleColumns === null
+      && layout.pinned.length === 0
+      && Object.keys(layout.widths).length === 0;
+    if (isDefault) {
+      localStorage.removeItem(`${STORAGE_PREFIX}${schemaKey}`);
+    } else {
+      localStorage.setItem(`${STORAGE_PREFIX}${schemaKey}`, JSON.stringify(layout));
+    }
+  } catch (error) {
+    console.warn('Unable to save column layout:', error);
+  }
+};
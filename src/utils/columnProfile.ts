@@ -0,0 +1,156 @@
+import { ColumnConfig, DataRow, FilterOption, HistogramBin } from '@/types';
+import { getColumnReader } from './columnStore';
+import { formatDateValue, parseDateValue } from './dateColumns';
+import { createEmptyHistogram, getHistogramBinIndex } from './filterModel';
+
+export const TOP_VALUE_COUNT = 10;
+
+export interface NumericStats {
+  min: number;
+  max: number;
+  mean: number;
+  median: number;
+  // Sample standard deviation; 0 for a single value
+  stdDev: number;
+}
+
+export interface ColumnProfile {
+  column: string;
+  type: ColumnConfig['type'];
+  rowCount: number;
+  // Null, undefined or empty cells
+  missingCount: number;
+  distinctCount: number;
+  // Present cells that parse as the column's type; every present cell for strings
+  validCount: number;
+  // Number columns only
+  numeric: NumericStats | null;
+  histogram: HistogramBin[];
+  // Date columns only, as timestamps
+  dateRange: { min: number; max: number } | null;
+  // Most frequent present values, ties in value order
+  topValues: FilterOption[];
+}
+
+const collator = new Intl.Collator(undefined, { numeric: true, sensitivity: 'base' });
+
+const isMissing = (value: unknown) => value === null || value === undefined || value === '';
+
+const ranksBefore = (a: FilterOption, b: FilterOption) => {
+  return a.count! > b.count! || (a.count === b.count && collator.compare(a.value, b.value) < 0);
+};
+
+// Inserts into the k most frequent values so far, without sorting every distinct value
+const addTopValue = (top: FilterOption[], value: string, count: number) => {
+  const option = { value, label: value, count };
+  if (top.length === TOP_VALUE_COUNT && !ranksBefore(option, top[TOP_VALUE_COUNT - 1])) return;
+  let index = top.length;
+  while (index > 0 && ranksBefore(option, top[index - 1])) index--;
+  top.splice(index, 0, option);
+  if (top.length > TOP_VALUE_COUNT) top.pop();
+};
+
+const getNumericStats = (values: Float64Array): NumericStats => {
+  const sorted = values.sort();
+  const count = sorted.length;
+  let sum = 0;
+  for (let i = 0; i < count; i++) sum += sorted[i];
+  const mean = sum / count;
+
+  let squares = 0;
+  for (let i = 0; i < count; i++) squares += (sorted[i] - mean) ** 2;
+  const middle = Math.floor(count / 2);
+
+  return {
+    min: sorted[0],
+    max: sorted[count - 1],
+    mean,
+    median: count % 2 === 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2,
+    stdDev: count > 1 ? Math.sqrt(squares / (count - 1)) : 0,
+  };
+};
+
+// Profile of one column over the rows at `indices` (every row when null).
+// Numbers are counted from their sorted runs rather than a map of strings,
+// which is much faster on columns of mostly distinct values.
+export const profileColumn = (data: DataRow[], indices: Uint32Array | null, column: ColumnConfig): ColumnProfile => {
+  const rowCount = indices ? indices.length : data.length;
+  const counts = new Map<string, number>();
+  const numbers = new Float64Array(column.type === 'number' ? rowCount : 0);
+  let numericCount = 0;
+  let missingCount = 0;
+  let dateCount = 0;
+  let dateMin = Infinity;
+  let dateMax = -Infinity;
+
+  const read = getColumnReader(data, column.key);
+
+  for (let position = 0; position < rowCount; position++) {
+    const value = read(indices ? indices[position] : position);
+    if (isMissing(value)) {
+      missingCount++;
+      continue;
+    }
+    if (column.type === 'number') {
+      const number = typeof value === 'number' ? value : Number(value);
+      if (Number.isFinite(number)) {
+        numbers[numericCount++] = number;
+        continue;
+      }
+    }
+    const key = String(value);
+    counts.set(key, (counts.get(key) ?? 0) + 1);
+
+    if (column.type === 'date' && column.dateFormat) {
+      const time = parseDateValue(value, column.dateFormat);
+      if (Number.isNaN(time)) continue;
+      dateCount++;
+      if (time < dateMin) dateMin = time;
+      if (time > dateMax) dateMax = time;
+    }
+  }
+
+  const presentCount = rowCount - missingCount;
+  // Sorts the numbers in place
+  const numeric = numericCount > 0 ? getNumericStats(numbers.subarray(0, numericCount)) : null;
+  const topValues: FilterOption[] = [];
+  let distinctCount = counts.size;
+  let histogram: HistogramBin[] = [];
+  if (numeric) {
+    histogram = createEmptyHistogram(numeric.min, numeric.max);
+    let runStart = 0;
+    for (let i = 0; i < numericCount; i++) {
+      histogram[getHistogramBinIndex(numbers[i], numeric.min, numeric.max, histogram.length)].count++;
+      if (i === numericCount - 1 || numbers[i + 1] !== numbers[i]) {
+        distinctCount++;
+        // Runs arrive in ascending order, so a tie with the last kept value ranks after it
+        const count = i + 1 - runStart;
+        if (topValues.length < TOP_VALUE_COUNT || count > topValues[TOP_VALUE_COUNT - 1].count!) {
+          addTopValue(topValues, String(numbers[i]), count);
+        }
+        runStart = i + 1;
+      }
+    }
+  }
+  counts.forEach((count, value) => addTopValue(topValues, value, count));
+
+  return {
+    column: column.key,
+    type: column.type,
+    rowCount,
+    missingCount,
+    distinctCount,
+    validCount: column.type === 'number' ? numericCount : column.type === 'date' ? dateCount : presentCount,
+    numeric,
+    histogram,
+    dateRange: dateCount > 0 ? { min: dateMin, max: dateMax } : null,
+    topValues: column.type === 'date'
+      ? topValues.map(option => ({ ...option, label: formatDateValue(option.value, column.dateFormat) }))
+      : topValues,
+  };
+};
+
+// Stat values in the profile drawer
+export const formatStat = (value: number): string => {
+  return value.toLocaleString(undefined, { maximumFractionDigits: Number.isInteger(value) ? 0 : 2 });
+};
@@ -0,0 +1,278 @@
+import { DataRow } from '@/types';
+
+type CellValue = DataRow[string];
+
+// Numbers in a Float64Array; NaN marks a missing ('') cell
+export interface NumericColumn {
+  type: 'number';
+  name: string;
+  values: Float64Array;
+}
+
+// Dictionary-encoded values: codes index into dictionary. The dictionary keeps
+// the original JS values, so mixed columns round-trip exactly ("5" vs 5).
+export interface CategoricalColumn {
+  type: 'category';
+  name: string;
+  codes: Uint32Array;
+  dictionary: CellValue[];
+}
+
+export type TableColumn = NumericColumn | CategoricalColumn;
+
+export interface ColumnTable {
+  rowCount: number;
+  columnNames: string[];
+  columns: Map<string, TableColumn>;
+}
+
+export interface TableMemoryStats {
+  rowObjectBytes: number;
+  columnarBytes: number;
+}
+
+// Rough V8 object model for plain row objects (64-bit, pointer compression)
+const OBJECT_HEADER_BYTES = 24;
+const PROPERTY_SLOT_BYTES = 8;
+const HEAP_NUMBER_BYTES = 16;
+const STRING_HEADER_BYTES = 16;
+const MEMORY_SAMPLE_SIZE = 1000;
+
+// Row-view arrays and the table rows they show (every row when indices is
+// null), so engines and scans can reach the columns behind them
+const viewSources = new WeakMap<DataRow[], { table: ColumnTable; indices: Uint32Array | null }>();
+
+const isMissing = (value: unknown) => value === '' || value === null || value === undefined;
+
+const encodeColumn = (name: string, rows: DataRow[]): TableColumn => {
+  let isNumeric = true;
+  for (let i = 0; i < rows.length; i++) {
+    const value = rows[i][name];
+    if (typeof value !== 'number' && !isMissing(value)) {
+      isNumeric = false;
+      break;
+    }
+  }
+
+  if (isNumeric) {
+    const values = new Float64Array(rows.length);
+    for (let i = 0; i < rows.length; i++) {
+      const value = rows[i][name];
+      values[i] = typeof value === 'number' ? value : NaN;
+    }
+    return { type: 'number', name, values };
+  }
+
+  const codes = new Uint32Array(rows.length);
+  const dictionary: CellValue[] = [];
+  const lookup = new Map<CellValue, number>();
+
+  for (let i = 0; i < rows.length; i++) {
+    const raw = rows[i][name];
+    const value = isMissing(raw) ? '' : raw;
+    let code = lookup.get(value);
+    if (code === undefined) {
+      code = dictionary.length;
+      dictionary.push(value);
+      lookup.set(value, code);
+    }
+    codes[i] = code;
+  }
+
+  return { type: 'category', name, codes, dictionary };
+};
+
+export const createColumnTable = (rows: DataRow[]): ColumnTable => {
+  const columnNames = Object.keys(rows[0] || {});
+  const columns = new Map<string, TableColumn>();
+  columnNames.forEach(name => columns.set(name, encodeColumn(name, rows)));
+  return { rowCount: rows.length, columnNames, columns };
+};
+
+export const getCellValue = (column: TableColumn, rowIndex: number): CellValue => {
+  if (column.type === 'number') {
+    const value = column.values[rowIndex];
+    return Number.isNaN(value) ? '' : value;
+  }
+  return column.dictionary[column.codes[rowIndex]];
+};
+
+// Array index keys are canonical decimal strings: a digit first, no sign or point
+const toPosition = (key: string | symbol, length: number): number | null => {
+  if (typeof key !== 'string') return null;
+  const first = key.charCodeAt(0);
+  if (first < 48 || first > 57) return null;
+  const position = +key;
+  return position < length && (position | 0) === position ? position : null;
+};
+
+const createRowHandler = ({ columns, columnNames }: ColumnTable): ProxyHandler<{ index: number }> => ({
+  get: (target, key) => {
+    const column = typeof key === 'string' ? columns.get(key) : undefined;
+    return column ? getCellValue(column, target.index) : undefined;
+  },
+  has: (_target, key) => typeof key === 'string' && columns.has(key),
+  ownKeys: () => columnNames,
+  getOwnPropertyDescriptor: (target, key) => {
+    const column = typeof key === 'string' ? columns.get(key) : undefined;
+    if (!column) return undefined;
+    return { value: getCellValue(column, target.index), writable: false, enumerable: true, configurable: true };
+  },
+  set: () => false,
+  deleteProperty: () => false,
+});
+
+const createViewArray = (table: ColumnTable, indices: Uint32Array | null): DataRow[] => {
+  const length = indices ? indices.length : table.rowCount;
+  const rowHandler = createRowHandler(table);
+
+  // An empty array stretched to length, so array methods and Array.isArray
+  // work; its elements are answered by the traps
+  const target: DataRow[] = [];
+  target.length = length;
+
+  const rows = new Proxy(target, {
+    get: (array, key, receiver) => {
+      const position = toPosition(key, length);
+      if (position === null) return Reflect.get(array, key, receiver);
+      const index = indices ? indices[position] : position;
+      return new Proxy({ index }, rowHandler) as unknown as DataRow;
+    },
+    // Array methods skip elements that aren't "present"
+    has: (array, key) => toPosition(key, length) !== null || Reflect.has(array, key),
+    set: () => false,
+    deleteProperty: () => false,
+  });
+  viewSources.set(rows, { table, indices });
+  return rows;
+};
+
+// Read-only DataRow adapters for components that still work row by row. The
+// array holds no rows: each access creates a short-lived view that only knows
+// its row index and reads cells from the columns, so memory doesn't grow with
+// the rows read.
+//
+// Views aren't cached, so `rows[i] !== rows[i]`: compare rows by index or by a
+// column value, never by identity. Every read allocates a view, so scans over
+// many rows use getColumnReader or createRowCursor instead.
+export const createRowViews = (table: ColumnTable): DataRow[] => createViewArray(table, null);
+
+// The given rows of a row-view array, as lazy views again; null for plain rows
+export const selectRowViews = (rows: DataRow[], indices: Uint32Array): DataRow[] | null => {
+  const source = viewSources.get(rows);
+  if (!source) return null;
+  const { table, indices: shown } = source;
+  return createViewArray(table, shown ? indices.map(position => shown[position]) : indices);
+};
+
+// Reads one column by row position straight from the columns of a row-view
+// array, skipping the views; plain rows are read as they are
+export const getColumnReader = (rows: DataRow[], column: string): ((position: number) => CellValue | undefined) => {
+  const source = viewSources.get(rows);
+  if (!source) return position => rows[position][column];
+
+  const tableColumn = source.table.columns.get(column);
+  if (!tableColumn) return () => undefined;
+  const { indices } = source;
+  return indices
+    ? position => getCellValue(tableColumn, indices[position])
+    : position => getCellValue(tableColumn, position);
+};
+
+export interface RowCursor {
+  // Only valid until the next moveTo
+  row: DataRow;
+  moveTo: (position: number) => void;
+}
+
+// One reusable row for scans that read several columns of every row; moveTo
+// points it at another position instead of creating a view per row
+export const createRowCursor = (rows: DataRow[]): RowCursor => {
+  const source = viewSources.get(rows);
+  if (!source) {
+    const cursor: RowCursor = {
+      row: {},
+      moveTo: position => {
+        cursor.row = rows[position];
+      },
+    };
+    return cursor;
+  }
+
+  const { table, indices } = source;
+  const target = { index: 0 };
+  return {
+    row: new Proxy(target, createRowHandler(table)) as unknown as DataRow,
+    moveTo: position => {
+      target.index = indices ? indices[position] : position;
+    },
+  };
+};
+
+// The columns behind a row-view array of every row, or a fresh table otherwise
+export const getColumnTable = (rows: DataRow[]): ColumnTable => {
+  const source = viewSources.get(rows);
+  return source && !source.indices ? source.table : createColumnTable(rows);
+};
+
+const estimateValueBytes = (value: CellValue): number => {
+  if (typeof value === 'number') {
+    // Small integers are stored inline (Smi); everything else is boxed
+    return Number.isInteger(value) && Math.abs(value) < 2 ** 30 ? 0 : HEAP_NUMBER_BYTES;
+  }
+  return STRING_HEADER_BYTES + Math.ceil(value.length / 8) * 8;
+};
+
+// Extrapolated from a sample of the plain row objects
+export const estimateRowObjectBytes = (rows: DataRow[]): number => {
+  if (rows.length === 0) return 0;
+
+  const step = Math.max(1, Math.floor(rows.length / MEMORY_SAMPLE_SIZE));
+  let sampledBytes = 0;
+  let sampled = 0;
+
+  for (let i = 0; i < rows.length; i += step) {
+    const values = Object.values(rows[i]);
+    sampledBytes += OBJECT_HEADER_BYTES + values.length * PROPERTY_SLOT_BYTES;
+    values.forEach(value => {
+      sampledBytes += estimateValueBytes(value);
+    });
+    sampled++;
+  }
+
+  // Plus the array of row pointers
+  return Math.round((sampledBytes / sampled) * rows.length) + rows.length * PROPERTY_SLOT_BYTES;
+};
+
+// Row views are created on access and collected young, so only the columns count
+export const estimateColumnarBytes = (table: ColumnTable): number => {
+  let bytes = 0;
+
+  table.columns.forEach(column => {
+    if (column.type === 'number') {
+      bytes += column.values.byteLength;
+    } else {
+      bytes += column.codes.byteLength;
+      column.dictionary.forEach(value => {
+        bytes += PROPERTY_SLOT_BYTES + estimateValueBytes(value);
+      });
+    }
+  });
+
+  return bytes;
+};
+
+// Modelled sizes, not measured heap: browsers don't report per-object memory
+export const estimateTableMemory = (rows: DataRow[], table: ColumnTable): TableMemoryStats => ({
+  rowObjectBytes: estimateRowObjectBytes(rows),
+  columnarBytes: estimateColumnarBytes(table),
+});
+
+// Used JS heap where the browser reports it (Chromium's performance.memory),
+// else null. Read synchronously, so it can bracket a load without delaying
+// it; garbage counts until it is collected.
+export const measureHeapBytes = (): number | null => {
+  if (typeof performance === 'undefined') return null;
+  const memory = (performance as Performance & { memory?: { usedJSHeapSize: number } }).memory;
+  return memory ? memory.usedJSHeapSize : null;
+};
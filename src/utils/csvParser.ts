@@ -1,6 +1,9 @@
-import Papa from 'papaparse';
+import type { CSVWorkerRequest, CSVWorkerResponse } from '@/workers/csvParser.worker';
+import { CSVParseProgress, CSVStreamSummary, streamCSV } from './csvStream';
 // import { DataRow } from '@/types';
 
+export type { CSVParseError, CSVParseProgress, CSVStreamSummary } from './csvStream';
+
 export interface CSVData {
   [key: string]: string | number;
 }
@@ -509,33 +512,128 @@ export function exportToCSV(data: CSVData[], filename: string = 'export.csv'): v
   }
 }
 
-// CSV parsing utility
-export function parseCSV(csvContent: string): Promise<CSVData[]> {
+// CSV parsing utility for in-memory content
+export async function parseCSV(csvContent: string): Promise<CSVData[]> {
+  const result = await parseCSVFile(new File([csvContent], 'data.csv', { type: 'text/csv' }));
+  return result.data;
+}
+
+export interface CSVImportResult extends Omit<CSVStreamSummary, 'aborted'> {
+  data: CSVData[];
+  parseTime: number;
+}
+
+export interface CSVImportOptions {
+  onProgress?: (progress: CSVParseProgress) => void;
+  signal?: AbortSignal;
+}
+
+const createAbortError = () => new DOMException('CSV import cancelled', 'AbortError');
+
+// File import utility: streams in a dedicated worker when available so that
+// multi-hundred-megabyte files don't block the main thread
+export function parseCSVFile(file: File, options: CSVImportOptions = {}): Promise<CSVImportResult> {
+  const startTime = performance.now();
+
+  if (options.signal?.aborted) {
+    return Promise.reject(createAbortError());
+  }
+
+  const parse = typeof Worker !== 'undefined' ? parseCSVFileWithWorker : parseCSVFileOnMainThread;
+
+  return parse(file, options).then(({ data, summary }) => {
+    if (summary.fields.length === 0 || data.length === 0) {
+      throw new Error(`"${file.name}" does not contain any data rows`);
+    }
+
+    const parseTime = performance.now() - startTime;
+    console.log(`CSV import of ${data.length} rows completed in ${parseTime}ms`);
+
+    const { fields, errors, errorCount, skippedRows, rowsParsed } = summary;
+    return { data, fields, errors, errorCount, skippedRows, rowsParsed, parseTime };
+  });
+}
+
+// Append in a loop; spreading 10k+ rows into push() can overflow the call stack
+const appendRows = (target: CSVData[], rows: CSVData[]) => {
+  for (let i = 0; i < rows.length; i++) {
+    target.push(rows[i]);
+  }
+};
+
+function parseCSVFileOnMainThread(
+  file: File,
+  options: CSVImportOptions
+): Promise<{ data: CSVData[]; summary: CSVStreamSummary }> {
+  const data: CSVData[] = [];
+  const stream = streamCSV(file, {
+    onRows: rows => appendRows(data, rows),
+    onProgress: options.onProgress,
+  });
+
+  const handleAbort = () => stream.abort();
+  options.signal?.addEventListener('abort', handleAbort, { once: true });
+
+  return stream.done
+    .then(summary => {
+      if (summary.aborted) throw createAbortError();
+      return { data, summary };
+    })
+    .finally(() => options.signal?.removeEventListener('abort', handleAbort));
+}
+
+function parseCSVFileWithWorker(
+  file: File,
+  options: CSVImportOptions
+): Promise<{ data: CSVData[]; summary: CSVStreamSummary }> {
   return new Promise((resolve, reject) => {
-    const startTime = performance.now();
-    
-    // Use streaming for large files
-    const isLargeFile = csvContent.length > 10 * 1024 * 1024; // 10MB threshold
-    
-    Papa.parse(csvContent, {
-      header: true,
-      skipEmptyLines: true,
-      dynamicTyping: true, // Auto-convert numbers
-      fastMode: true, // Enable fast mode for better performance
-      chunk: isLargeFile ? (results: Papa.ParseResult<CSVData>) => {
-        // Process chunks for large files to prevent blocking
-        console.log(`Processed ${results.data.length} rows...`);
-      } : undefined,
-      complete: (results) => {
-        const endTime = performance.now();
-        console.log(`CSV parsing completed in ${endTime - startTime}ms`);
-        resolve(results.data as CSVData[]);
-      },
-      error: (error: unknown) => {
-        console.error('CSV parsing error:', error);
-        reject(error);
-      },
-    });
+    const data: CSVData[] = [];
+    const worker = new Worker(new URL('../workers/csvParser.worker.ts', import.meta.url));
+
+    const cleanup = () => {
+      options.signal?.removeEventListener('abort', handleAbort);
+      worker.terminate();
+    };
+
+    const handleAbort = () => {
+      // Terminating drops any in-flight chunk; the worker holds no other state
+      cleanup();
+      reject(createAbortError());
+    };
+    options.signal?.addEventListener('abort', handleAbort, { once: true });
+
+    worker.onmessage = (event: MessageEvent<CSVWorkerResponse>) => {
+      const message = event.data;
+
+      switch (message.type) {
+        case 'rows':
+          appendRows(data, message.rows);
+          break;
+        case 'progress':
+          options.onProgress?.(message.progress);
+          break;
+        case 'complete':
+          cleanup();
+          if (message.summary.aborted) {
+            reject(createAbortError());
+          } else {
+            resolve({ data, summary: message.summary });
+          }
+          break;
+        case 'error':
+          cleanup();
+          reject(new Error(message.message));
+          break;
+      }
+    };
+
+    worker.onerror = (event) => {
+      cleanup();
+      reject(new Error(event.message || 'CSV parser worker failed'));
+    };
+
+    const request: CSVWorkerRequest = { type: 'parse', file };
+    worker.postMessage(request);
   });
 }
 
@@ -0,0 +1,136 @@
+import Papa from 'papaparse';
+import type { CSVData } from './csvParser';
+
+// Streaming CSV core, kept free of worker references so the parser worker
+// can import it without pulling csvParser.ts into its own chunk
+
+// Reporting types for user-supplied CSV files
+export interface CSVParseError {
+  row?: number; // 1-based data row (header excluded), when known
+  code: string;
+  message: string;
+}
+
+export interface CSVParseProgress {
+  rowsParsed: number;
+  bytesRead: number;
+  totalBytes: number;
+}
+
+export interface CSVStreamSummary {
+  fields: string[];
+  errors: CSVParseError[];
+  errorCount: number; // Total errors, including those beyond MAX_REPORTED_ERRORS
+  skippedRows: number;
+  rowsParsed: number;
+  aborted: boolean;
+}
+
+const IMPORT_CHUNK_SIZE = 1024 * 1024; // 1MB read chunks for progress reporting
+const MAX_REPORTED_ERRORS = 100;
+
+// Normalize Papa Parse dynamic typing output to DataRow-compatible values
+export const normalizeCSVValue = (value: unknown): string | number => {
+  if (value === null || value === undefined) return '';
+  if (typeof value === 'number') return Number.isFinite(value) ? value : String(value);
+  if (typeof value === 'boolean') return value ? 'true' : 'false';
+  if (value instanceof Date) return value.toISOString();
+  return String(value);
+};
+
+// Streaming core shared by the parser worker and the main-thread fallback.
+// Rows are handed out one Papa Parse chunk at a time so nothing is buffered here.
+export function streamCSV(
+  file: Blob,
+  handlers: {
+    onRows: (rows: CSVData[]) => void;
+    onProgress?: (progress: CSVParseProgress) => void;
+  }
+): { abort: () => void; done: Promise<CSVStreamSummary> } {
+  let abortRequested = false;
+  let parserHandle: Papa.Parser | null = null;
+
+  const done = new Promise<CSVStreamSummary>((resolve, reject) => {
+    const errors: CSVParseError[] = [];
+    let errorCount = 0;
+    let skippedRows = 0;
+    let rowsParsed = 0;
+    let fields: string[] = [];
+
+    const reportError = (error: CSVParseError) => {
+      errorCount++;
+      if (errors.length < MAX_REPORTED_ERRORS) {
+        errors.push(error);
+      }
+    };
+
+    Papa.parse<Record<string, unknown>>(file as File, {
+      header: true,
+      skipEmptyLines: 'greedy',
+      dynamicTyping: true,
+      chunkSize: IMPORT_CHUNK_SIZE,
+      transformHeader: (header, index) => header.trim() || `column_${index + 1}`,
+      chunk: (results, parser) => {
+        parserHandle = parser;
+        if (abortRequested) {
+          parser.abort();
+          return;
+        }
+
+        if (fields.length === 0 && results.meta.fields) {
+          fields = results.meta.fields;
+        }
+
+        const rowOffset = rowsParsed + skippedRows;
+
+        // Papa Parse reports row indices relative to the current chunk
+        const rowsWithErrors = new Set<number>();
+        results.errors.forEach(error => {
+          if (error.row !== undefined) rowsWithErrors.add(error.row);
+          reportError({
+            row: error.row !== undefined ? rowOffset + error.row + 1 : undefined,
+            code: error.code,
+            message: error.message,
+          });
+        });
+
+        const rows: CSVData[] = [];
+        results.data.forEach((rawRow, index) => {
+          // Rows with too many fields cannot be mapped onto the header reliably
+          if (rowsWithErrors.has(index) && '__parsed_extra' in rawRow) {
+            skippedRows++;
+            return;
+          }
+
+          const row: CSVData = {};
+          for (let i = 0; i < fields.length; i++) {
+            row[fields[i]] = normalizeCSVValue(rawRow[fields[i]]);
+          }
+          rows.push(row);
+        });
+
+        rowsParsed += rows.length;
+        handlers.onRows(rows);
+        handlers.onProgress?.({
+          rowsParsed,
+          bytesRead: Math.min(results.meta.cursor, file.size),
+          totalBytes: file.size,
+        });
+      },
+      complete: () => {
+        resolve({ fields, errors, errorCount, skippedRows, rowsParsed, aborted: abortRequested });
+      },
+      error: (error: Error) => {
+        reject(error);
+      },
+    });
+  });
+
+  return {
+    abort: () => {
+      abortRequested = true;
+      parserHandle?.abort();
+    },
+    done,
+  };
+}
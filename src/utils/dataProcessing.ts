@@ -1,80 +1,35 @@
 import { DataRow, ColumnConfig } from '@/types';
+import { inferSchema, toColumnType } from './schemaInference';
+import { DatasetCache } from './cacheRegistry';
 
 // Performance constants
 const SMALL_DATASET_THRESHOLD = 1000;
-const CHUNK_SIZE = 50000;
 const BATCH_SIZE = 10000;
-// const MERGE_THRESHOLD = 100000;
-const WORKER_THRESHOLD = 500000;
 
-// Global caches for better performance
-const columnConfigCache = new Map<string, ColumnConfig[]>();
-const uniqueValuesCache = new Map<string, string[]>();
-const sortCache = new Map<string, DataRow[]>();
+// Per-dataset caches; see cacheRegistry.ts
+const columnConfigCache = new DatasetCache<ColumnConfig[]>('columnConfigs');
+const uniqueValuesCache = new DatasetCache<string[]>('uniqueValues');
 
-// Ultra-optimized column configuration with caching
+// Column configuration from the inferred schema (see schemaInference.ts), with caching
 export const getColumnConfigs = (data: DataRow[]): ColumnConfig[] => {
   if (data.length === 0) return [];
 
-  // Create cache key based on data structure
-  const sampleRow = data[0];
-  const cacheKey = Object.keys(sampleRow).sort().join('|');
-  
   // Check cache first
-  if (columnConfigCache.has(cacheKey)) {
-    return columnConfigCache.get(cacheKey)!;
+  const cached = columnConfigCache.get(data, 'columns');
+  if (cached) {
+    return cached;
   }
 
-  // Analyze data types from multiple samples for accuracy
-  const sampleSize = Math.min(100, data.length);
-  const columnTypes = new Map<string, 'number' | 'string' | 'mixed'>();
-  
-  Object.keys(sampleRow).forEach(key => {
-    let numericCount = 0;
-    let stringCount = 0;
-    
-    for (let i = 0; i < sampleSize; i++) {
-      const value = data[i][key];
-      if (typeof value === 'number' || (!isNaN(Number(value)) && value !== '')) {
-        numericCount++;
-      } else {
-        stringCount++;
-      }
-    }
-    
-    // Determine type based on majority
-    if (numericCount > stringCount * 2) {
-      columnTypes.set(key, 'number');
-    } else if (stringCount > numericCount * 2) {
-      columnTypes.set(key, 'string');
-    } else {
-      columnTypes.set(key, 'mixed');
-    }
-  });
-
-  const configs: ColumnConfig[] = Object.keys(sampleRow).map(key => {
-    const detectedType = columnTypes.get(key);
-    let type: 'number' | 'string' | 'boolean';
-    
-    if (detectedType === 'number') {
-      type = 'number';
-    } else if (detectedType === 'mixed') {
-      // For mixed types, default to string
-      type = 'string';
-    } else {
-      type = 'string';
-    }
-    
-    return {
-      key,
-      label: formatColumnLabel(key),
-      type,
-      filterable: true,
-    };
-  });
+  const configs: ColumnConfig[] = inferSchema(data).map(schema => ({
+    key: schema.key,
+    label: formatColumnLabel(schema.key),
+    type: toColumnType(schema.inferredType),
+    ...(schema.dateFormat ? { dateFormat: schema.dateFormat } : {}),
+    filterable: true,
+  }));
 
   // Cache the result
-  columnConfigCache.set(cacheKey, configs);
+  columnConfigCache.set(data, 'columns', configs);
   return configs;
 };
 
@@ -90,11 +45,10 @@ const formatColumnLabel = (key: string): string => {
 
 // Hyper-optimized unique values extraction
 export const getUniqueValues = (data: DataRow[], column: string): string[] => {
-  const cacheKey = `${column}-${data.length}`;
-  
   // Check cache first
-  if (uniqueValuesCache.has(cacheKey)) {
-    return uniqueValuesCache.get(cacheKey)!;
+  const cached = uniqueValuesCache.get(data, column);
+  if (cached) {
+    return cached;
   }
 
   let uniqueValues: string[];
@@ -111,7 +65,7 @@ export const getUniqueValues = (data: DataRow[], column: string): string[] => {
   uniqueValues.sort(createOptimizedComparator());
 
   // Cache the result
-  uniqueValuesCache.set(cacheKey, uniqueValues);
+  uniqueValuesCache.set(data, column, uniqueValues);
   return uniqueValues;
 };
 
@@ -190,172 +144,6 @@ export const calculateFilterCounts = (
   return counts;
 };
 
-// Enhanced sorting with multiple optimization strategies
-export const sortData = (data: DataRow[], column: string, direction: 'asc' | 'desc'): DataRow[] => {
-  const cacheKey = `${column}-${direction}-${data.length}`;
-  
-  // Check cache first
-  if (sortCache.has(cacheKey)) {
-    return sortCache.get(cacheKey)!;
-  }
-
-  let sortedData: DataRow[];
-
-  if (data.length < SMALL_DATASET_THRESHOLD) {
-    // Direct sorting for small datasets
-    sortedData = [...data].sort(createSortComparator(column, direction));
-  } else {
-    // Optimized sorting for large datasets
-    sortedData = sortDataOptimized(data, column, direction);
-  }
-
-  // Cache the result (limit cache size)
-  if (sortCache.size > 10) {
-    const firstKey = sortCache.keys().next().value;
-    if (firstKey) {
-      sortCache.delete(firstKey);
-    }
-  }
-  sortCache.set(cacheKey, sortedData);
-
-  return sortedData;
-};
-
-// Advanced optimized sorting with multiple strategies
-export const sortDataOptimized = (data: DataRow[], column: string, direction: 'asc' | 'desc'): DataRow[] => {
-  // Strategy 1: Web Worker for massive datasets
-  if (data.length > WORKER_THRESHOLD) {
-    return sortDataWithWorker(data, column, direction);
-  }
-
-  // Strategy 2: Chunked sorting for large datasets
-  if (data.length > CHUNK_SIZE) {
-    return sortDataInChunks(data, column, direction);
-  }
-
-  // Strategy 3: Optimized in-place sorting
-  return sortDataInPlace(data, column, direction);
-};
-
-// In-place sorting with optimized comparator
-const sortDataInPlace = (data: DataRow[], column: string, direction: 'asc' | 'desc'): DataRow[] => {
-  const dataCopy = [...data];
-  const comparator = createSortComparator(column, direction);
-  
-  // Use native sort with optimized comparator
-  return dataCopy.sort(comparator);
-};
-
-// Optimized sort comparator factory
-const createSortComparator = (column: string, direction: 'asc' | 'desc') => {
-  const multiplier = direction === 'asc' ? 1 : -1;
-  
-  return (a: DataRow, b: DataRow): number => {
-    const aVal = a[column];
-    const bVal = b[column];
-    
-    // Handle null/undefined values
-    if (aVal == null && bVal == null) return 0;
-    if (aVal == null) return multiplier;
-    if (bVal == null) return -multiplier;
-    
-    // Numeric comparison
-    if (typeof aVal === 'number' && typeof bVal === 'number') {
-      return (aVal - bVal) * multiplier;
-    }
-    
-    // String comparison with numeric awareness
-    const aStr = String(aVal);
-    const bStr = String(bVal);
-    
-    return aStr.localeCompare(bStr, undefined, { 
-      numeric: true,
-      sensitivity: 'base'
-    }) * multiplier;
-  };
-};
-
-// Chunked sorting with merge
-const sortDataInChunks = (data: DataRow[], column: string, direction: 'asc' | 'desc'): DataRow[] => {
-  const chunkSize = CHUNK_SIZE;
-  const chunks: DataRow[][] = [];
-  
-  // Split into chunks
-  for (let i = 0; i < data.length; i += chunkSize) {
-    chunks.push(data.slice(i, i + chunkSize));
-  }
-  
-  // Sort each chunk in parallel (simulated)
-  const sortedChunks = chunks.map(chunk => 
-    sortDataInPlace(chunk, column, direction)
-  );
-  
-  // Merge sorted chunks
-  return mergeSortedChunks(sortedChunks, column, direction);
-};
-
-// Optimized merge with heap-based approach
-const mergeSortedChunks = (chunks: DataRow[][], column: string, direction: 'asc' | 'desc'): DataRow[] => {
-  if (chunks.length === 1) return chunks[0];
-  if (chunks.length === 0) return [];
-  
-  // Use a min-heap approach for efficient merging
-  const result: DataRow[] = [];
-  const heap: { chunk: number; index: number; value: string | number }[] = [];
-  const comparator = createSortComparator(column, direction);
-  
-  // Initialize heap with first element from each chunk
-  chunks.forEach((chunk, chunkIndex) => {
-    if (chunk.length > 0) {
-      heap.push({
-        chunk: chunkIndex,
-        index: 0,
-        value: chunk[0][column]
-      });
-    }
-  });
-  
-  // Sort heap initially
-  heap.sort((a, b) => comparator({ [column]: a.value } as DataRow, { [column]: b.value } as DataRow));
-  
-  while (heap.length > 0) {
-    const min = heap.shift()!;
-    const chunk = chunks[min.chunk];
-    
-    result.push(chunk[min.index]);
-    
-    // Add next element from the same chunk
-    if (min.index + 1 < chunk.length) {
-      const nextValue = chunk[min.index + 1][column];
-      
-      // Insert in sorted position
-      const newEntry = {
-        chunk: min.chunk,
-        index: min.index + 1,
-        value: nextValue
-      };
-      
-      let insertIndex = 0;
-      while (insertIndex < heap.length && 
-             comparator({ [column]: heap[insertIndex].value } as DataRow, { [column]: nextValue } as DataRow) <= 0) {
-        insertIndex++;
-      }
-      
-      heap.splice(insertIndex, 0, newEntry);
-    }
-  }
-  
-  return result;
-};
-
-// Web Worker sorting for massive datasets
-const sortDataWithWorker = (data: DataRow[], column: string, direction: 'asc' | 'desc'): DataRow[] => {
-  // For now, fallback to chunked sorting
-  // In production, implement actual Web Worker
-  console.log('Using Web Worker sorting for', data.length, 'rows');
-  return sortDataInChunks(data, column, direction);
-};
-
 // Enhanced batch processing with progress tracking
 export const processDataInBatches = <T>(
   data: T[],
@@ -464,12 +252,9 @@ export const debounce = <T extends (...args: unknown[]) => unknown>(
 export const clearDataProcessingCache = (): void => {
   columnConfigCache.clear();
   uniqueValuesCache.clear();
-  sortCache.clear();
 };
 
 export const getDataProcessingStats = () => ({
-  columnConfigCache: columnConfigCache.size,
-  uniqueValuesCache: uniqueValuesCache.size,
-  sortCache: sortCache.size,
+  caches: [columnConfigCache.report(), uniqueValuesCache.report()],
   clearCache: clearDataProcessingCache
 });
@@ -0,0 +1,24 @@
+import { DatasetInfo } from '@/types';
+
+// Browser-side access to the dataset registry route handlers
+export const fetchDatasets = async (signal?: AbortSignal): Promise<DatasetInfo[]> => {
+  const response = await fetch('/api/datasets', { signal });
+  if (!response.ok) {
+    throw new Error(`Failed to list datasets (${response.status})`);
+  }
+
+  const { datasets } = await response.json() as { datasets: DatasetInfo[] };
+  return datasets;
+};
+
+// Download a registered dataset as a File so it goes through the same
+// worker-backed parseCSVFile() pipeline as user uploads
+export const fetchDatasetFile = async (dataset: DatasetInfo, signal?: AbortSignal): Promise<File> => {
+  const response = await fetch(`/api/datasets/${encodeURIComponent(dataset.id)}`, { signal });
+  if (!response.ok) {
+    throw new Error(`Failed to download ${dataset.fileName} (${response.status})`);
+  }
+
+  const blob = await response.blob();
+  return new File([blob], dataset.fileName, { type: 'text/csv' });
+};
@@ -0,0 +1,131 @@
+import { createReadStream } from 'fs';
+import { readdir, stat } from 'fs/promises';
+import path from 'path';
+import { DatasetInfo } from '@/types';
+
+// Server-only: CSV files in this folder are exposed through /api/datasets.
+// Dropping another .csv file in here makes it selectable without a rebuild.
+const DATASETS_DIR = process.env.DATASETS_DIR || path.join(process.cwd(), 'src', 'data');
+
+// Row counts require a full scan, so cache them per file until it changes
+const scanCache = new Map<string, { sizeBytes: number; mtimeMs: number; rowCount: number; columns: string[] }>();
+
+const formatDatasetName = (id: string): string => {
+  return id
+    .replace(/[-_]+/g, ' ')
+    .trim()
+    .replace(/\b\w/g, char => char.toUpperCase());
+};
+
+const QUOTE = 0x22;
+const COMMA = 0x2c;
+const LINE_FEED = 0x0a;
+
+// Bytes that leave a record blank: the client parser skips records whose
+// fields are all empty or whitespace (Papa Parse's skipEmptyLines: 'greedy')
+const isBlankByte = (byte: number): boolean => byte === 0x20 || byte === 0x09 || byte === 0x0d;
+
+// Single streaming pass: header line for column names, records for rows.
+// Line breaks inside quoted fields do not end a record, and blank records
+// are not counted, so the count matches what the dashboard loads.
+const scanCSVFile = (filePath: string): Promise<{ rowCount: number; columns: string[] }> => {
+  return new Promise((resolve, reject) => {
+    let header = '';
+    let headerDone = false;
+    let records = 0;
+    let inQuotes = false;
+    let lastByte = LINE_FEED;
+    let hasContent = false;
+
+    const stream = createReadStream(filePath);
+
+    stream.on('data', (chunk: Buffer | string) => {
+      const buffer = typeof chunk === 'string' ? Buffer.from(chunk) : chunk;
+
+      if (!headerDone) {
+        const newlineIndex = buffer.indexOf(LINE_FEED);
+        header += buffer.subarray(0, newlineIndex === -1 ? buffer.length : newlineIndex).toString('utf8');
+        headerDone = newlineIndex !== -1;
+      }
+
+      for (let i = 0; i < buffer.length; i++) {
+        const byte = buffer[i];
+        if (byte === QUOTE) {
+          // A quote right after a closing quote is an escaped ("") quote
+          if (!inQuotes && lastByte === QUOTE) hasContent = true;
+          inQuotes = !inQuotes;
+        } else if (inQuotes) {
+          if (!isBlankByte(byte) && byte !== LINE_FEED) hasContent = true;
+        } else if (byte === LINE_FEED) {
+          if (hasContent) records++;
+          hasContent = false;
+        } else if (byte !== COMMA && !isBlankByte(byte)) {
+          hasContent = true;
+        }
+        lastByte = byte;
+      }
+    });
+
+    stream.on('error', reject);
+    stream.on('end', () => {
+      // A final record without a trailing newline still counts
+      if (hasContent) records++;
+      const columns = header
+        .replace(/^\uFEFF/, '')
+        .replace(/\r$/, '')
+        .split(',')
+        .map(column => column.trim().replace(/^"(.*)"$/, '$1'))
+        .filter(column => column.length > 0);
+
+      resolve({ rowCount: Math.max(0, records - 1), columns });
+    });
+  });
+};
+
+const describeDataset = async (fileName: string): Promise<DatasetInfo> => {
+  const filePath = path.join(DATASETS_DIR, fileName);
+  const fileStat = await stat(filePath);
+
+  let scan = scanCache.get(filePath);
+  if (!scan || scan.sizeBytes !== fileStat.size || scan.mtimeMs !== fileStat.mtimeMs) {
+    const { rowCount, columns } = await scanCSVFile(filePath);
+    scan = { sizeBytes: fileStat.size, mtimeMs: fileStat.mtimeMs, rowCount, columns };
+    scanCache.set(filePath, scan);
+  }
+
+  const id = fileName.replace(/\.csv$/i, '');
+  return {
+    id,
+    name: formatDatasetName(id),
+    fileName,
+    rowCount: scan.rowCount,
+    columns: scan.columns,
+    sizeBytes: fileStat.size,
+    modifiedAt: new Date(fileStat.mtimeMs).toISOString(),
+  };
+};
+
+export const listDatasets = async (): Promise<DatasetInfo[]> => {
+  let entries: string[];
+  try {
+    entries = await readdir(DATASETS_DIR);
+  } catch (error) {
+    console.error(`Unable to read datasets folder ${DATASETS_DIR}:`, error);
+    return [];
+  }
+
+  const csvFiles = entries.filter(entry => entry.toLowerCase().endsWith('.csv')).sort();
+  const datasets = await Promise.all(csvFiles.map(describeDataset));
+
+  // Smallest first so the default selection loads quickly
+  return datasets.sort((a, b) => a.rowCount - b.rowCount);
+};
+
+// Resolve only ids that the listing itself produced, which rules out path traversal
+export const getDataset = async (id: string): Promise<{ info: DatasetInfo; filePath: string } | null> => {
+  const datasets = await listDatasets();
+  const info = datasets.find(dataset => dataset.id === id);
+  if (!info) return null;
+
+  return { info, filePath: path.join(DATASETS_DIR, info.fileName) };
+};
@@ -0,0 +1,365 @@
+import { DateBucket, DateFacets, DateFilter, DateFormat, DatePreset, TimelineUnit } from '@/types';
+
+// Dates are handled as wall-clock times in UTC milliseconds: "2024-03-05" is
+// 2024-03-05T00:00Z wherever the page is opened, so day bounds and buckets
+// don't move with the viewer's timezone. Epoch values and ISO strings with an
+// offset are real instants and land on their UTC day.
+
+export const DAY_MS = 86_400_000;
+
+// Share of sampled cells that have to parse before a column counts as dates
+const MIN_DATE_RATIO = 0.9;
+
+// Epoch columns are plain numbers, so they also need a date-like name and
+// values between 2000 and 2100 (in seconds or milliseconds)
+const EPOCH_SECONDS_MIN = 946_684_800;
+const EPOCH_SECONDS_MAX = 4_102_444_800;
+
+export const MONTH_LABELS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+export const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+// Weeks are listed Monday first
+const WEEKDAY_ORDER = [1, 2, 3, 4, 5, 6, 0];
+
+export const DATE_PRESET_LABELS: Record<DatePreset, string> = {
+  last7Days: 'Last 7 days',
+  last30Days: 'Last 30 days',
+  thisMonth: 'This month',
+  thisQuarter: 'This quarter',
+  yearToDate: 'Year to date',
+  lastYear: 'Last year',
+};
+
+// 2024-03-05, 2024-03-05T14:30:00.000Z, 2024-03-05 14:30+02:00
+const ISO_PATTERN = /^(\d{4})-(\d{1,2})-(\d{1,2})(?:[T ](\d{1,2}):(\d{2})(?::(\d{2})(?:\.(\d{1,3})\d*)?)?\s*(Z|[+-]\d{2}:?\d{2})?)?$/i;
+// 03/05/2024, 05.03.2024 14:30, 3/5/2024 2:30 PM
+const NUMERIC_PATTERN = /^(\d{1,2})([/.-])(\d{1,2})\2(\d{4})(?:[ T,]+(\d{1,2}):(\d{2})(?::(\d{2}))?\s*([ap]m)?)?$/i;
+// Mar 5, 2024 / 5 March 2024 - left to Date.parse once a month name and a year are present
+const MONTH_NAME_PATTERN = /\b(jan|feb|mar|apr|may|jun|jul|aug|sep|oct|nov|dec)[a-z]*\.?(\s|,|$)/i;
+const YEAR_PATTERN = /\b\d{4}\b/;
+
+// Calendar-checked; rejects 2024-02-31 instead of rolling over into March
+const toTimestamp = (
+  year: number,
+  month: number,
+  day: number,
+  hours: number = 0,
+  minutes: number = 0,
+  seconds: number = 0,
+  milliseconds: number = 0
+): number => {
+  if (month < 1 || month > 12 || day < 1 || day > 31 || hours > 23 || minutes > 59 || seconds > 59) return NaN;
+  const time = Date.UTC(year, month - 1, day, hours, minutes, seconds, milliseconds);
+  return new Date(time).getUTCDate() === day ? time : NaN;
+};
+
+const parseIso = (text: string): number => {
+  const match = ISO_PATTERN.exec(text);
+  if (!match) return NaN;
+
+  const [, year, month, day, hours, minutes, seconds, milliseconds, offset] = match;
+  const time = toTimestamp(
+    Number(year),
+    Number(month),
+    Number(day),
+    Number(hours ?? 0),
+    Number(minutes ?? 0),
+    Number(seconds ?? 0),
+    Number((milliseconds ?? '0').padEnd(3, '0'))
+  );
+  if (!offset || offset.toUpperCase() === 'Z') return time;
+
+  const sign = offset[0] === '-' ? -1 : 1;
+  const digits = offset.slice(1).replace(':', '');
+  return time - sign * (Number(digits.slice(0, 2)) * 60 + Number(digits.slice(2))) * 60_000;
+};
+
+// US order only uses slashes; day-first also covers 05.03.2024 and 05-03-2024
+const parseNumeric = (text: string, order: 'mdy' | 'dmy'): number => {
+  const match = NUMERIC_PATTERN.exec(text);
+  if (!match) return NaN;
+
+  const [, first, separator, second, year, hours, minutes, seconds, meridiem] = match;
+  if (order === 'mdy' && separator !== '/') return NaN;
+
+  let hour = Number(hours ?? 0);
+  if (meridiem) {
+    if (hour < 1 || hour > 12) return NaN;
+    hour = (hour % 12) + (meridiem.toLowerCase() === 'pm' ? 12 : 0);
+  }
+
+  const [month, day] = order === 'mdy' ? [first, second] : [second, first];
+  return toTimestamp(Number(year), Number(month), Number(day), hour, Number(minutes ?? 0), Number(seconds ?? 0));
+};
+
+const parseText = (text: string): number => {
+  if (!MONTH_NAME_PATTERN.test(text) || !YEAR_PATTERN.test(text)) return NaN;
+  const parsed = new Date(text);
+  if (Number.isNaN(parsed.getTime())) return NaN;
+  return Date.UTC(
+    parsed.getFullYear(),
+    parsed.getMonth(),
+    parsed.getDate(),
+    parsed.getHours(),
+    parsed.getMinutes(),
+    parsed.getSeconds()
+  );
+};
+
+// Timestamp (see the note at the top) of a cell, or NaN when it isn't a date
+export const parseDateValue = (value: unknown, format: DateFormat): number => {
+  if (value === null || value === undefined || value === '') return NaN;
+
+  switch (format) {
+    case 'epoch-s':
+    case 'epoch-ms': {
+      const numeric = typeof value === 'number' ? value : Number(value);
+      if (!Number.isFinite(numeric)) return NaN;
+      return format === 'epoch-s' ? numeric * 1000 : numeric;
+    }
+    case 'iso':
+      return parseIso(String(value).trim());
+    case 'mdy':
+    case 'dmy':
+      return parseNumeric(String(value).trim(), format);
+    case 'text':
+      return parseText(String(value).trim());
+  }
+};
+
+const isTimeColumnName = (column: string): boolean => {
+  return /date|time|stamp|epoch|day|^ts$/i.test(column) || /(_at|At)$/.test(column);
+};
+
+// Format shared by (nearly) all sampled cells, or null when the column isn't dates
+export const detectDateFormat = (values: unknown[], column: string): DateFormat | null => {
+  const present = values.filter(value => value !== null && value !== undefined && value !== '');
+  if (present.length === 0) return null;
+
+  const isNumeric = present.every(value => typeof value === 'number' || /^-?\d+(\.\d+)?$/.test(String(value).trim()));
+  if (isNumeric) {
+    if (!isTimeColumnName(column)) return null;
+    const numbers = present.map(Number);
+    const inRange = (scale: number) => numbers.every(
+      value => value >= EPOCH_SECONDS_MIN * scale && value < EPOCH_SECONDS_MAX * scale
+    );
+    if (inRange(1)) return 'epoch-s';
+    if (inRange(1000)) return 'epoch-ms';
+    return null;
+  }
+
+  // Month-first wins ties (01/02/2024), day-first takes over once a day exceeds 12
+  const candidates: DateFormat[] = ['iso', 'mdy', 'dmy', 'text'];
+  return candidates.find(format => {
+    const parsed = present.filter(value => !Number.isNaN(parseDateValue(value, format))).length;
+    return parsed >= present.length * MIN_DATE_RATIO;
+  }) ?? null;
+};
+
+export const toDayKey = (time: number): string => new Date(time).toISOString().slice(0, 10);
+
+export const parseDayKey = (key: string | null): number | null => {
+  if (!key || !/^\d{4}-\d{2}-\d{2}$/.test(key)) return null;
+  const time = parseIso(key);
+  return Number.isNaN(time) ? null : time;
+};
+
+// The viewer's calendar date, in the UTC convention used for cells
+export const getToday = (now: Date = new Date()): number => {
+  return Date.UTC(now.getFullYear(), now.getMonth(), now.getDate());
+};
+
+// First and last day (inclusive) of a preset
+export const resolveDatePreset = (preset: DatePreset, today: number = getToday()): { start: number; end: number } => {
+  const date = new Date(today);
+  const year = date.getUTCFullYear();
+  const month = date.getUTCMonth();
+
+  switch (preset) {
+    case 'last7Days':
+      return { start: today - 6 * DAY_MS, end: today };
+    case 'last30Days':
+      return { start: today - 29 * DAY_MS, end: today };
+    case 'thisMonth':
+      return { start: Date.UTC(year, month, 1), end: Date.UTC(year, month + 1, 0) };
+    case 'thisQuarter': {
+      const quarterStart = month - (month % 3);
+      return { start: Date.UTC(year, quarterStart, 1), end: Date.UTC(year, quarterStart + 3, 0) };
+    }
+    case 'yearToDate':
+      return { start: Date.UTC(year, 0, 1), end: today };
+    case 'lastYear':
+      return { start: Date.UTC(year - 1, 0, 1), end: Date.UTC(year - 1, 11, 31) };
+  }
+};
+
+// Inclusive start and exclusive end timestamps; null leaves that side open
+export const getDateFilterBounds = (
+  filter: DateFilter,
+  today: number = getToday()
+): { start: number | null; end: number | null } => {
+  if (filter.preset) {
+    const { start, end } = resolveDatePreset(filter.preset, today);
+    return { start, end: end + DAY_MS };
+  }
+
+  const start = parseDayKey(filter.start);
+  const end = parseDayKey(filter.end);
+  return { start, end: end === null ? null : end + DAY_MS };
+};
+
+export const createDateFilter = (
+  format: DateFormat,
+  changes: Partial<Omit<DateFilter, 'type' | 'format'>> = {}
+): DateFilter => ({
+  type: 'date',
+  format,
+  preset: null,
+  start: null,
+  end: null,
+  months: [],
+  weekdays: [],
+  ...changes,
+});
+
+export const createDateMatcher = (filter: DateFilter, today: number = getToday()): ((value: unknown) => boolean) => {
+  const { start, end } = getDateFilterBounds(filter, today);
+  const months = filter.months.length > 0 ? new Set(filter.months) : null;
+  const weekdays = filter.weekdays.length > 0 ? new Set(filter.weekdays) : null;
+
+  return value => {
+    const time = parseDateValue(value, filter.format);
+    if (Number.isNaN(time)) return false;
+    if (start !== null && time < start) return false;
+    if (end !== null && time >= end) return false;
+    if (months || weekdays) {
+      const date = new Date(time);
+      if (months && !months.has(date.getUTCMonth())) return false;
+      if (weekdays && !weekdays.has(date.getUTCDay())) return false;
+    }
+    return true;
+  };
+};
+
+export const formatDateFilter = (filter: DateFilter): string => {
+  const parts: string[] = [];
+
+  if (filter.preset) {
+    parts.push(`in ${DATE_PRESET_LABELS[filter.preset].toLowerCase()}`);
+  } else if (filter.start && filter.end) {
+    parts.push(`${filter.start} – ${filter.end}`);
+  } else if (filter.start) {
+    parts.push(`on or after ${filter.start}`);
+  } else if (filter.end) {
+    parts.push(`on or before ${filter.end}`);
+  }
+
+  if (filter.months.length > 0) {
+    parts.push(`in ${[...filter.months].sort((a, b) => a - b).map(month => MONTH_LABELS[month]).join('/')}`);
+  }
+  if (filter.weekdays.length > 0) {
+    const weekdays = WEEKDAY_ORDER.filter(day => filter.weekdays.includes(day));
+    parts.push(`on ${weekdays.map(day => WEEKDAY_LABELS[day]).join('/')}`);
+  }
+
+  return parts.length > 0 ? parts.join(', ') : 'any date';
+};
+
+// Year / month / weekday counts from (value, row count) pairs; each distinct
+// value is parsed once
+export const bucketDates = (entries: Iterable<[string, number]>, format: DateFormat): DateFacets => {
+  const years = new Map<number, number>();
+  const months = new Array<number>(12).fill(0);
+  const weekdays = new Array<number>(7).fill(0);
+  const days = new Map<number, number>();
+
+  for (const [value, count] of entries) {
+    if (count === 0) continue;
+    const time = parseDateValue(value, format);
+    if (Number.isNaN(time)) continue;
+
+    const date = new Date(time);
+    const year = date.getUTCFullYear();
+    years.set(year, (years.get(year) ?? 0) + count);
+    months[date.getUTCMonth()] += count;
+    weekdays[date.getUTCDay()] += count;
+    const day = Math.floor(time / DAY_MS) * DAY_MS;
+    days.set(day, (days.get(day) ?? 0) + count);
+  }
+
+  const toBucket = (value: number, label: string, count: number): DateBucket => ({ value, label, count });
+  return {
+    years: Array.from(years)
+      .sort((a, b) => a[0] - b[0])
+      .map(([year, count]) => toBucket(year, String(year), count)),
+    months: MONTH_LABELS.map((label, month) => toBucket(month, label, months[month])),
+    weekdays: WEEKDAY_ORDER.map(day => toBucket(day, WEEKDAY_LABELS[day], weekdays[day])),
+    ...bucketTimeline(days),
+  };
+};
+
+// Coarsest unit that still gives the chart enough points for the span
+const getTimelineUnit = (spanDays: number): TimelineUnit => {
+  if (spanDays <= 92) return 'day';
+  if (spanDays <= 730) return 'week';
+  if (spanDays <= 366 * 20) return 'month';
+  return 'year';
+};
+
+// Start of the period holding `time`; weeks start on Monday
+const startOfPeriod = (time: number, unit: TimelineUnit): number => {
+  const date = new Date(time);
+  if (unit === 'day') return time;
+  if (unit === 'week') return time - ((date.getUTCDay() + 6) % 7) * DAY_MS;
+  if (unit === 'month') return Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1);
+  return Date.UTC(date.getUTCFullYear(), 0, 1);
+};
+
+const nextPeriod = (start: number, unit: TimelineUnit): number => {
+  const date = new Date(start);
+  if (unit === 'day') return start + DAY_MS;
+  if (unit === 'week') return start + 7 * DAY_MS;
+  if (unit === 'month') return Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 1);
+  return Date.UTC(date.getUTCFullYear() + 1, 0, 1);
+};
+
+const formatTimelineLabel = (start: number, unit: TimelineUnit): string => {
+  const date = new Date(start);
+  if (unit === 'year') return String(date.getUTCFullYear());
+  if (unit === 'month') return `${MONTH_LABELS[date.getUTCMonth()]} ${date.getUTCFullYear()}`;
+  return toDayKey(start);
+};
+
+// Day counts rolled up into consecutive periods, empty periods included
+const bucketTimeline = (days: Map<number, number>): Pick<DateFacets, 'timeline' | 'timelineUnit'> => {
+  if (days.size === 0) return { timeline: [], timelineUnit: 'day' };
+
+  let first = Infinity;
+  let last = -Infinity;
+  days.forEach((_, day) => {
+    first = Math.min(first, day);
+    last = Math.max(last, day);
+  });
+
+  const unit = getTimelineUnit((last - first) / DAY_MS);
+  const counts = new Map<number, number>();
+  days.forEach((count, day) => {
+    const start = startOfPeriod(day, unit);
+    counts.set(start, (counts.get(start) ?? 0) + count);
+  });
+
+  const timeline: DateBucket[] = [];
+  for (let start = startOfPeriod(first, unit); start <= last; start = nextPeriod(start, unit)) {
+    timeline.push({ value: start, label: formatTimelineLabel(start, unit), count: counts.get(start) ?? 0 });
+  }
+  return { timeline, timelineUnit: unit };
+};
+
+// Table text for a date cell; epoch numbers are shown as UTC dates
+export const formatDateValue = (value: unknown, format: DateFormat | undefined): string => {
+  if (format !== 'epoch-s' && format !== 'epoch-ms') return String(value);
+
+  const time = parseDateValue(value, format);
+  if (Number.isNaN(time)) return String(value);
+  const iso = new Date(time).toISOString();
+  return time % DAY_MS === 0 ? iso.slice(0, 10) : `${iso.slice(0, 10)} ${iso.slice(11, 16)}`;
+};
@@ -0,0 +1,248 @@
+import { ColumnConfig, DataRow, FilterExpression, FilterOption, FilterState, HistogramBin, NumericSummary } from '@/types';
+import { Bitmap } from './bitmap';
+import { getColumnReader, selectRowViews } from './columnStore';
+import { BitmapEvaluator, IndexEvaluator, combineExpressions, filtersToExpression } from './filterExpression';
+import { matchingIndexKeys, toNumber } from './filterModel';
+import { SearchTerm, normalizeSearch } from './textSearch';
+
+export interface FilterQuery {
+  filters: FilterState;
+  expression?: FilterExpression | null;
+  // Free text (see textSearch.ts); applied by engines that keep a text index
+  search?: string | null;
+}
+
+export const EMPTY_QUERY: FilterQuery = { filters: {} };
+
+// Common contract for every filtering strategy. Row indices refer to the array
+// passed to index() and are always returned in ascending order. Semantics are
+// shared: values OR within a column, columns AND together, and the optional
+// expression is AND-ed on top.
+export interface FilterEngine {
+  index(data: DataRow[]): void;
+  filter(query: FilterQuery): Uint32Array;
+  // Value counts for a column under every filter except the column's own
+  facets(column: string, query: FilterQuery): FilterOption[];
+  count(query: FilterQuery): number;
+  dispose(): void;
+}
+
+// Engines that index rows chunk by chunk as they load; queries only see the
+// chunks indexed so far
+export interface ChunkedFilterEngine extends FilterEngine {
+  indexChunk(data: DataRow[], startIndex: number): void;
+  getRow(index: number): DataRow | undefined;
+}
+
+// Engines that keep numeric indexes can also back the range slider
+export interface NumericFilterEngine extends FilterEngine {
+  numericSummary(column: string): NumericSummary | null;
+  histogram(column: string, query: FilterQuery, binCount?: number): HistogramBin[];
+}
+
+export type InvertedIndex = Map<string, Map<string, Set<number>>>;
+
+// value -> row bitmap per column, for engines that index a fixed row count
+export type BitmapIndex = Map<string, Map<string, Bitmap>>;
+
+// Column filters plus the query expression as one tree; null means "no filtering"
+export const resolveQuery = (query: FilterQuery, excludeColumn?: string): FilterExpression | null => {
+  return combineExpressions(filtersToExpression(query.filters, excludeColumn), query.expression ?? null);
+};
+
+// False when the query (minus excludeColumn's filter) keeps every row
+export const isQueryActive = (query: FilterQuery, excludeColumn?: string): boolean => {
+  return resolveQuery(query, excludeColumn) !== null || normalizeSearch(query.search) !== '';
+};
+
+// Identity of a query after normalization, for de-duplicating requests
+export const getQueryKey = (query: FilterQuery, excludeColumn?: string): string => {
+  return JSON.stringify([resolveQuery(query, excludeColumn), normalizeSearch(query.search)]);
+};
+
+// value -> row set per column; startIndex lets chunked loaders append
+export const addToInvertedIndex = (index: InvertedIndex, data: DataRow[], startIndex: number = 0): void => {
+  data.forEach((row, localIndex) => {
+    const rowIndex = startIndex + localIndex;
+    Object.keys(row).forEach(column => {
+      let columnIndex = index.get(column);
+      if (!columnIndex) {
+        columnIndex = new Map();
+        index.set(column, columnIndex);
+      }
+
+      const value = String(row[column]);
+      let rows = columnIndex.get(value);
+      if (!rows) {
+        rows = new Set();
+        columnIndex.set(value, rows);
+      }
+      rows.add(rowIndex);
+    });
+  });
+};
+
+// Leaf lookups for evaluateExpressionIndices over an inverted index
+export const createInvertedIndexEvaluator = (index: InvertedIndex, rowIndices: () => Iterable<number>): IndexEvaluator => {
+  let allRows: Set<number> | null = null;
+
+  return {
+    allRows: () => {
+      if (!allRows) allRows = new Set(rowIndices());
+      return allRows;
+    },
+    matchCondition: (column, filter) => {
+      const columnIndex = index.get(column);
+      const matches = new Set<number>();
+      if (!columnIndex) return matches;
+
+      matchingIndexKeys(columnIndex.keys(), filter).forEach(value => {
+        columnIndex.get(value)?.forEach(row => matches.add(row));
+      });
+      return matches;
+    },
+  };
+};
+
+// Rows of `candidates` (every row when null) containing every search term.
+// Terms are checked against each column's distinct values, not row by row.
+export const searchInvertedIndex = (
+  index: InvertedIndex,
+  terms: SearchTerm[],
+  candidates: Set<number> | null
+): Set<number> => {
+  let matches = candidates;
+
+  for (const term of terms) {
+    const termRows = new Set<number>();
+    const columns = term.column !== null ? [term.column] : Array.from(index.keys());
+    columns.forEach(column => {
+      index.get(column)?.forEach((rows, value) => {
+        if (!value.toLowerCase().includes(term.text)) return;
+        rows.forEach(row => {
+          if (!matches || matches.has(row)) termRows.add(row);
+        });
+      });
+    });
+    matches = termRows;
+    if (matches.size === 0) break;
+  }
+
+  return matches ?? new Set();
+};
+
+// Leaf lookups for evaluateExpressionBitmap over a bitmap index
+export const createBitmapIndexEvaluator = (index: BitmapIndex, rowCount: number): BitmapEvaluator => {
+  let allRows: Bitmap | null = null;
+
+  return {
+    allRows: () => {
+      if (!allRows) allRows = Bitmap.full(rowCount);
+      return allRows;
+    },
+    matchCondition: (column, filter) => {
+      const columnIndex = index.get(column);
+      if (!columnIndex) return Bitmap.empty(rowCount);
+
+      const bitmaps: Bitmap[] = [];
+      matchingIndexKeys(columnIndex.keys(), filter).forEach(value => {
+        const rows = columnIndex.get(value);
+        if (rows) bitmaps.push(rows);
+      });
+      return Bitmap.union(bitmaps, rowCount);
+    },
+  };
+};
+
+export const rangeIndices = (length: number): Uint32Array => {
+  const indices = new Uint32Array(length);
+  for (let i = 0; i < length; i++) indices[i] = i;
+  return indices;
+};
+
+export const toSortedIndices = (matches: Iterable<number>): Uint32Array => {
+  return Uint32Array.from(matches).sort();
+};
+
+// Row-view arrays stay lazy (see createRowViews); plain rows are copied out
+export const materializeRows = <T extends DataRow>(data: T[], indices: Uint32Array): T[] => {
+  return (selectRowViews(data, indices) as T[] | null) ?? Array.from(indices, index => data[index]);
+};
+
+const compareByCount = (a: FilterOption, b: FilterOption): number => {
+  return (b.count || 0) - (a.count || 0) || a.value.localeCompare(b.value);
+};
+
+// Values of number columns read best in ascending order, everything else by
+// count. The column type (inferred or overridden, see schemaInference) decides,
+// not the values; stray non-numeric values of a number column go last.
+export const sortFacets = (options: FilterOption[], columnType?: ColumnConfig['type']): FilterOption[] => {
+  if (columnType !== 'number') return options.sort(compareByCount);
+
+  const numbers = new Map(options.map(option => [option.value, toNumber(option.value)]));
+  return options.sort((a, b) => {
+    const x = numbers.get(a.value)!;
+    const y = numbers.get(b.value)!;
+    if (Number.isNaN(x) || Number.isNaN(y)) {
+      return Number.isNaN(x) === Number.isNaN(y) ? compareByCount(a, b) : Number.isNaN(x) ? 1 : -1;
+    }
+    return x - y;
+  });
+};
+
+// Facet counts from an inverted index column, restricted to matching rows
+export const countIndexedFacets = (
+  columnIndex: Map<string, Set<number>> | undefined,
+  matches: Set<number> | null,
+  columnType?: ColumnConfig['type']
+): FilterOption[] => {
+  if (!columnIndex) return [];
+
+  const options: FilterOption[] = [];
+  columnIndex.forEach((rows, value) => {
+    let count = rows.size;
+    if (matches) {
+      count = 0;
+      rows.forEach(row => {
+        if (matches.has(row)) count++;
+      });
+    }
+    if (count > 0) options.push({ value, label: value, count });
+  });
+
+  return sortFacets(options, columnType);
+};
+
+// Facet counts from a bitmap index column: one popcount per value
+export const countBitmapFacets = (
+  columnIndex: Map<string, Bitmap> | undefined,
+  matches: Bitmap | null,
+  columnType?: ColumnConfig['type']
+): FilterOption[] => {
+  if (!columnIndex) return [];
+
+  const options: FilterOption[] = [];
+  columnIndex.forEach((rows, value) => {
+    const count = matches ? rows.andCount(matches) : rows.count;
+    if (count > 0) options.push({ value, label: value, count });
+  });
+
+  return sortFacets(options, columnType);
+};
+
+// Facet counts by scanning the matching rows
+export const countRowFacets = (
+  data: DataRow[],
+  column: string,
+  indices: Iterable<number>,
+  columnType?: ColumnConfig['type']
+): FilterOption[] => {
+  const counts = new Map<string, number>();
+  const read = getColumnReader(data, column);
+  for (const index of indices) {
+    const value = String(read(index));
+    counts.set(value, (counts.get(value) || 0) + 1);
+  }
+
+  return sortFacets(Array.from(counts, ([value, count]) => ({ value, label: value, count })), columnType);
+};
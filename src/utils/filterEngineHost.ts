@@ -0,0 +1,179 @@
+import { DataRow, DateFacets, FilterOption, HistogramBin, NumericSummary, SchemaOverrides, SortState } from '@/types';
+import { UltraFastFilterManager } from './UltraFastFilterManager';
+import { ColumnTable, createRowViews } from './columnStore';
+import { FilterQuery, isQueryActive } from './filterEngine';
+import { getColumnConfigs } from './dataProcessing';
+import { getSortKey, getSortPermutation } from './multiSort';
+import { applySchemaOverrides, getTypeOverrides } from './schemaOverrides';
+
+// Engine host shared by the filter worker and the main-thread fallback; kept
+// free of worker references like csvStream.ts
+
+export type FacetKind = 'options' | 'histogram' | 'dates';
+
+// Permutations kept per loaded dataset, most recently used last
+const SORT_CACHE_SIZE = 8;
+
+// Message protocol between FilterWorkerClient and the filter worker. Every
+// request carries an id that its response echoes back; a cancelled request
+// is answered with 'cancelled' instead.
+export type FilterWorkerRequest =
+  | { type: 'load'; id: number; table: ColumnTable }
+  | { type: 'index'; id: number; overrides: SchemaOverrides }
+  | { type: 'filter'; id: number; query: FilterQuery }
+  | { type: 'facets'; id: number; column: string; kind: FacetKind; query: FilterQuery }
+  | { type: 'sort'; id: number; sort: SortState; overrides: SchemaOverrides }
+  | { type: 'cancel'; id: number; target: number };
+
+export type FilterWorkerResponse =
+  | { type: 'loaded'; id: number; rowCount: number }
+  | { type: 'indexed'; id: number; summaries: Record<string, NumericSummary> }
+  | { type: 'filtered'; id: number; indices: Uint32Array }
+  | { type: 'facets'; id: number; options: FilterOption[]; histogram: HistogramBin[]; dates: DateFacets | null }
+  | { type: 'sorted'; id: number; order: Uint32Array }
+  | { type: 'cancelled'; id: number }
+  | { type: 'error'; id: number; message: string };
+
+type QueuedRequest = Exclude<FilterWorkerRequest, { type: 'cancel' }>;
+
+// Facet requests that replace one another. Unfiltered options are their own
+// channel, so they never knock out the dependent counts for the same column.
+export const getFacetChannel = (column: string, kind: FacetKind, query: FilterQuery): string => {
+  const scope = isQueryActive(query, column) ? 'filtered' : 'all';
+  return `facets:${kind}:${scope}:${column}`;
+};
+
+// A later request in the same queue makes an earlier one pointless
+const isSupersededBy = (request: QueuedRequest, later: QueuedRequest): boolean => {
+  if (request.type === 'filter') return later.type === 'filter';
+  if (request.type === 'sort') return later.type === 'sort';
+  if (request.type === 'index') return later.type === 'index';
+  if (request.type === 'facets' && later.type === 'facets') {
+    return getFacetChannel(later.column, later.kind, later.query)
+      === getFacetChannel(request.column, request.kind, request.query);
+  }
+  return false;
+};
+
+export class FilterEngineHost {
+  private engine = new UltraFastFilterManager();
+  private rows: DataRow[] = [];
+  private columnNames: string[] = [];
+  // Keyed by getSortKey; belongs to the loaded table and is dropped with it
+  private sortCache = new Map<string, Uint32Array>();
+  private queue: QueuedRequest[] = [];
+  private cancelled = new Set<number>();
+  private isScheduled = false;
+
+  constructor(private readonly post: (response: FilterWorkerResponse, transfer?: Transferable[]) => void) {}
+
+  // Requests are queued and handled on the next task, so a burst of messages
+  // (slider drags, typing) collapses to the newest request per channel and
+  // cancels that arrive in the meantime are honoured
+  receive(request: FilterWorkerRequest): void {
+    if (request.type === 'cancel') {
+      this.cancelled.add(request.target);
+      return;
+    }
+
+    this.queue.push(request);
+    if (!this.isScheduled) {
+      this.isScheduled = true;
+      setTimeout(() => this.drain(), 0);
+    }
+  }
+
+  private drain(): void {
+    const queue = this.queue;
+    this.queue = [];
+    this.isScheduled = false;
+
+    queue.forEach((request, position) => {
+      const isStale = this.cancelled.has(request.id)
+        || queue.slice(position + 1).some(later => isSupersededBy(request, later));
+
+      if (isStale) {
+        this.post({ type: 'cancelled', id: request.id });
+        return;
+      }
+
+      try {
+        this.handle(request);
+      } catch (error) {
+        this.post({
+          type: 'error',
+          id: request.id,
+          message: error instanceof Error ? error.message : 'Filter engine failed',
+        });
+      }
+    });
+
+    // Cancels for requests that had already been answered
+    this.cancelled.clear();
+  }
+
+  private handle(request: QueuedRequest): void {
+    switch (request.type) {
+      case 'load':
+        this.engine.dispose();
+        this.sortCache.clear();
+        this.rows = createRowViews(request.table);
+        this.columnNames = request.table.columnNames;
+        this.post({ type: 'loaded', id: request.id, rowCount: this.rows.length });
+        break;
+
+      case 'index': {
+        this.engine.index(this.rows, request.overrides);
+        const summaries: Record<string, NumericSummary> = {};
+        this.columnNames.forEach(column => {
+          const summary = this.engine.numericSummary(column);
+          if (summary) summaries[column] = summary;
+        });
+        this.post({ type: 'indexed', id: request.id, summaries });
+        break;
+      }
+
+      case 'filter': {
+        const indices = this.engine.filter(request.query);
+        this.post({ type: 'filtered', id: request.id, indices }, [indices.buffer]);
+        break;
+      }
+
+      case 'facets': {
+        const { column, kind, query } = request;
+        this.post({
+          type: 'facets',
+          id: request.id,
+          options: kind === 'options' ? this.engine.facets(column, query) : [],
+          histogram: kind === 'histogram' ? this.engine.histogram(column, query) : [],
+          dates: kind === 'dates' ? this.engine.dateFacets(column, query) : null,
+        });
+        break;
+      }
+
+      case 'sort': {
+        // The cached permutation stays here; the copy is transferred
+        const order = this.getSortOrder(request.sort, request.overrides).slice();
+        this.post({ type: 'sorted', id: request.id, order }, [order.buffer]);
+        break;
+      }
+    }
+  }
+
+  private getSortOrder(sort: SortState, overrides: SchemaOverrides): Uint32Array {
+    const key = getSortKey(sort, getTypeOverrides(overrides));
+    const cached = this.sortCache.get(key);
+    if (cached) {
+      this.sortCache.delete(key);
+      this.sortCache.set(key, cached);
+      return cached;
+    }
+
+    const order = getSortPermutation(this.rows, sort, applySchemaOverrides(getColumnConfigs(this.rows), overrides));
+    this.sortCache.set(key, order);
+    if (this.sortCache.size > SORT_CACHE_SIZE) {
+      this.sortCache.delete(this.sortCache.keys().next().value!);
+    }
+    return order;
+  }
+}
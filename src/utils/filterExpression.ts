@@ -0,0 +1,223 @@
+import { ColumnFilter, DataRow, FilterCondition, FilterExpression, FilterGroup, FilterState } from '@/types';
+import { Bitmap } from './bitmap';
+import {
+  formatRange,
+  formatTextFilter,
+  getActiveFilters,
+  isDateFilter,
+  isFilterActive,
+  isRangeFilter,
+  isTextFilter,
+  matchesFilter,
+} from './filterModel';
+import { formatDateFilter } from './dateColumns';
+
+export const createCondition = (column: string, filter: ColumnFilter = []): FilterCondition => ({
+  type: 'condition',
+  column,
+  filter,
+});
+
+export const createGroup = (type: FilterGroup['type'], children: FilterExpression[] = []): FilterGroup => ({
+  type,
+  children,
+});
+
+export const negate = (expression: FilterExpression): FilterExpression => {
+  return expression.type === 'not' ? expression.child : { type: 'not', child: expression };
+};
+
+// Drop incomplete conditions and empty groups so that half-built queries in
+// the builder don't filter anything; returns null when nothing is left
+export const normalizeExpression = (expression: FilterExpression | null): FilterExpression | null => {
+  if (!expression) return null;
+
+  switch (expression.type) {
+    case 'condition':
+      return isFilterActive(expression.filter) ? expression : null;
+    case 'not': {
+      const child = normalizeExpression(expression.child);
+      return child ? { type: 'not', child } : null;
+    }
+    default: {
+      const children = expression.children
+        .map(normalizeExpression)
+        .filter((child): child is FilterExpression => child !== null);
+      if (children.length === 0) return null;
+      if (children.length === 1) return children[0];
+      return { type: expression.type, children };
+    }
+  }
+};
+
+// The expression without its conditions on `columns`, e.g. columns that can
+// no longer be filtered. Groups and NOTs left empty go too; the rest of the
+// tree keeps its shape, and is returned as is when nothing was removed.
+export const removeColumnConditions = (
+  expression: FilterExpression | null,
+  columns: Set<string>
+): FilterExpression | null => {
+  if (!expression || columns.size === 0) return expression;
+
+  switch (expression.type) {
+    case 'condition':
+      return columns.has(expression.column) ? null : expression;
+    case 'not': {
+      const child = removeColumnConditions(expression.child, columns);
+      if (child === expression.child) return expression;
+      return child ? { type: 'not', child } : null;
+    }
+    default: {
+      const children = expression.children.map(child => removeColumnConditions(child, columns));
+      if (children.every((child, index) => child === expression.children[index])) return expression;
+      const remaining = children.filter((child): child is FilterExpression => child !== null);
+      return remaining.length > 0 ? { type: expression.type, children: remaining } : null;
+    }
+  }
+};
+
+// Per-column filters are an AND of single-column conditions
+export const filtersToExpression = (filters: FilterState, excludeColumn?: string): FilterExpression | null => {
+  const conditions = getActiveFilters(filters, excludeColumn).map(([column, filter]) => createCondition(column, filter));
+  return normalizeExpression(createGroup('and', conditions));
+};
+
+// Sidebar filters and the query builder expression both have to hold
+export const combineExpressions = (...expressions: (FilterExpression | null)[]): FilterExpression | null => {
+  const present = expressions.filter((expression): expression is FilterExpression => expression !== null);
+  return normalizeExpression(createGroup('and', present));
+};
+
+export const isExpressionActive = (expression: FilterExpression | null): boolean => {
+  return normalizeExpression(expression) !== null;
+};
+
+// Row-level evaluation for the scan-based paths
+export const matchesExpression = (row: DataRow, expression: FilterExpression): boolean => {
+  switch (expression.type) {
+    case 'condition':
+      return matchesFilter(row[expression.column], expression.filter);
+    case 'not':
+      return !matchesExpression(row, expression.child);
+    case 'and':
+      return expression.children.every(child => matchesExpression(row, child));
+    case 'or':
+      return expression.children.some(child => matchesExpression(row, child));
+  }
+};
+
+export const intersectSets = (a: Set<number>, b: Set<number>): Set<number> => {
+  const [smaller, larger] = a.size < b.size ? [a, b] : [b, a];
+  const result = new Set<number>();
+  smaller.forEach(index => {
+    if (larger.has(index)) result.add(index);
+  });
+  return result;
+};
+
+// How an engine turns leaves into row sets; everything else is set algebra
+export interface IndexEvaluator {
+  allRows: () => Set<number>;
+  matchCondition: (column: string, filter: ColumnFilter) => Set<number>;
+}
+
+// Evaluate against an inverted index. Results are always fresh sets, so
+// callers never mutate the engine's own index entries.
+export const evaluateExpressionIndices = (expression: FilterExpression, evaluator: IndexEvaluator): Set<number> => {
+  switch (expression.type) {
+    case 'condition':
+      return new Set(evaluator.matchCondition(expression.column, expression.filter));
+
+    case 'not': {
+      const excluded = evaluateExpressionIndices(expression.child, evaluator);
+      const result = new Set<number>();
+      evaluator.allRows().forEach(index => {
+        if (!excluded.has(index)) result.add(index);
+      });
+      return result;
+    }
+
+    case 'and': {
+      if (expression.children.length === 0) return new Set(evaluator.allRows());
+
+      let result: Set<number> | null = null;
+      for (const child of expression.children) {
+        const matches = evaluateExpressionIndices(child, evaluator);
+        result = result === null ? matches : intersectSets(result, matches);
+        // Early exit if no matches
+        if (result.size === 0) break;
+      }
+      return result!;
+    }
+
+    case 'or': {
+      const result = new Set<number>();
+      for (const child of expression.children) {
+        evaluateExpressionIndices(child, evaluator).forEach(index => result.add(index));
+      }
+      return result;
+    }
+  }
+};
+
+// Same algebra over bitmap indexes: AND / OR / NOT become word operations
+export interface BitmapEvaluator {
+  allRows: () => Bitmap;
+  matchCondition: (column: string, filter: ColumnFilter) => Bitmap;
+}
+
+// Bitmaps are immutable, so leaves can hand out the engine's own entries
+export const evaluateExpressionBitmap = (expression: FilterExpression, evaluator: BitmapEvaluator): Bitmap => {
+  switch (expression.type) {
+    case 'condition':
+      return evaluator.matchCondition(expression.column, expression.filter);
+
+    case 'not':
+      return evaluator.allRows().andNot(evaluateExpressionBitmap(expression.child, evaluator));
+
+    case 'and': {
+      if (expression.children.length === 0) return evaluator.allRows();
+
+      let result: Bitmap | null = null;
+      for (const child of expression.children) {
+        const matches = evaluateExpressionBitmap(child, evaluator);
+        result = result === null ? matches : result.and(matches);
+        // Early exit if no matches
+        if (result.count === 0) break;
+      }
+      return result!;
+    }
+
+    case 'or':
+      return Bitmap.union(
+        expression.children.map(child => evaluateExpressionBitmap(child, evaluator)),
+        evaluator.allRows().size
+      );
+  }
+};
+
+// Human-readable form for the builder summary
+export const describeExpression = (expression: FilterExpression | null, depth: number = 0): string => {
+  if (!expression) return 'All rows';
+
+  switch (expression.type) {
+    case 'condition': {
+      const { column, filter } = expression;
+      if (isRangeFilter(filter)) {
+        const range = formatRange(filter);
+        return range.includes(' x ') ? range.replace(' x ', ` ${column} `) : `${column} ${range}`;
+      }
+      if (isTextFilter(filter)) return `${column} ${formatTextFilter(filter)}`;
+      if (isDateFilter(filter)) return `${column} ${formatDateFilter(filter)}`;
+      return filter.length === 1 ? `${column} = ${filter[0]}` : `${column} in (${filter.join(', ')})`;
+    }
+    case 'not':
+      return `NOT ${describeExpression(expression.child, depth + 1)}`;
+    default: {
+      const text = expression.children
+        .map(child => describeExpression(child, depth + 1))
+        .join(` ${expression.type.toUpperCase()} `);
+      return depth > 0 && expression.children.length > 1 ? `(${text})` : text;
+    }
+  }
+};
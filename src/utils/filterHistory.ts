@@ -0,0 +1,85 @@
+import { FilterExpression, FilterState } from '@/types';
+import { createCondition, describeExpression, normalizeExpression } from './filterExpression';
+import { isFilterActive } from './filterModel';
+
+export const HISTORY_LIMIT = 50;
+// Slider drags and typing dispatch every frame; changes to the same target
+// inside this window collapse into one history entry
+const COALESCE_WINDOW_MS = 1000;
+
+export interface FilterSnapshot {
+  filters: FilterState;
+  expression: FilterExpression | null;
+}
+
+export interface FilterHistoryEntry extends FilterSnapshot {
+  label: string;
+  // What was changed, for coalescing; null for entries that never merge
+  target: string | null;
+  timestamp: number;
+}
+
+// entries[index] always mirrors the current filters; anything after it is redo
+export interface FilterHistory {
+  entries: FilterHistoryEntry[];
+  index: number;
+}
+
+export const createHistory = (label: string = 'Loaded data'): FilterHistory => ({
+  entries: [{ filters: {}, expression: null, label, target: null, timestamp: Date.now() }],
+  index: 0,
+});
+
+const isSameSnapshot = (a: FilterSnapshot, b: FilterSnapshot): boolean => {
+  return JSON.stringify(a.filters) === JSON.stringify(b.filters)
+    && JSON.stringify(normalizeExpression(a.expression)) === JSON.stringify(normalizeExpression(b.expression));
+};
+
+export const recordChange = (
+  history: FilterHistory,
+  snapshot: FilterSnapshot,
+  label: string,
+  target: string | null
+): FilterHistory => {
+  const current = history.entries[history.index];
+  if (isSameSnapshot(current, snapshot)) {
+    return history;
+  }
+
+  const now = Date.now();
+  const entry: FilterHistoryEntry = { ...snapshot, label, target, timestamp: now };
+
+  // Keep extending the latest entry while the same control is being dragged
+  const canCoalesce = target !== null
+    && current.target === target
+    && history.index === history.entries.length - 1
+    && history.index > 0
+    && now - current.timestamp < COALESCE_WINDOW_MS;
+
+  if (canCoalesce) {
+    const entries = history.entries.slice(0, history.index);
+    entries.push(entry);
+    return { entries, index: history.index };
+  }
+
+  const entries = history.entries.slice(0, history.index + 1);
+  entries.push(entry);
+  const overflow = Math.max(0, entries.length - HISTORY_LIMIT);
+  return { entries: entries.slice(overflow), index: entries.length - 1 - overflow };
+};
+
+export const canUndo = (history: FilterHistory): boolean => history.index > 0;
+
+export const canRedo = (history: FilterHistory): boolean => history.index < history.entries.length - 1;
+
+export const moveTo = (history: FilterHistory, index: number): FilterHistory => {
+  const clamped = Math.max(0, Math.min(index, history.entries.length - 1));
+  // A moved-to entry must not absorb the next change
+  const entries = history.entries.map((entry, i) => (i === clamped ? { ...entry, target: null } : entry));
+  return { entries, index: clamped };
+};
+
+export const describeFilterChange = (column: string, filter: FilterState[string]): string => {
+  if (!isFilterActive(filter)) return `Cleared ${column}`;
+  return describeExpression(createCondition(column, filter));
+};
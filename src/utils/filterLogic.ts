@@ -1,8 +1,25 @@
-import { DataRow, FilterState } from '@/types';
+import { ColumnConfig, ColumnFilter, DataRow, FilterExpression, FilterOption, FilterState, SchemaOverrides } from '@/types';
+import { Bitmap } from './bitmap';
+import { evaluateExpressionBitmap, matchesExpression, normalizeExpression } from './filterExpression';
+import {
+  BitmapIndex,
+  FilterEngine,
+  FilterQuery,
+  countBitmapFacets,
+  countRowFacets,
+  createBitmapIndexEvaluator,
+  materializeRows,
+  rangeIndices,
+} from './filterEngine';
+import { getActiveFilters, isFilterActive, matchesFilter, matchingIndexKeys } from './filterModel';
+import { DatasetCache } from './cacheRegistry';
+import { getColumnConfigs } from './dataProcessing';
+import { applySchemaOverrides } from './schemaOverrides';
+import { matchesSearchTerms, normalizeSearch, parseSearchQuery } from './textSearch';
 
 // Enhanced filter index with metadata
 interface OptimizedFilterIndex {
-  columnIndices: Map<string, Map<string, Set<number>>>;
+  columnIndices: BitmapIndex;
   rowCount: number;
   columnStats: Map<string, {
     uniqueCount: number;
@@ -11,48 +28,34 @@ interface OptimizedFilterIndex {
   }>;
 }
 
-// Global cache for indices to avoid rebuilding
-const indexCache = new Map<string, OptimizedFilterIndex>();
+// Shared indices per dataset to avoid rebuilding; see cacheRegistry.ts
 const CACHE_SIZE_LIMIT = 5;
+const indexCache = new DatasetCache<OptimizedFilterIndex>('filterIndex', CACHE_SIZE_LIMIT);
 const SMALL_DATASET_THRESHOLD = 1000;
 const BATCH_SIZE = 10000;
 // const INDEX_REBUILD_THRESHOLD = 0.1; // Rebuild if 10% of data changed
 
 // Ultra-fast index building with caching and optimization
-const buildOptimizedFilterIndex = (data: DataRow[], cacheKey?: string): OptimizedFilterIndex => {
+const buildOptimizedFilterIndex = (data: DataRow[], shared = false): OptimizedFilterIndex => {
   const startTime = performance.now();
   
   // Check cache first
-  if (cacheKey && indexCache.has(cacheKey)) {
-    const cached = indexCache.get(cacheKey)!;
-    if (cached.rowCount === data.length) {
-      return cached;
-    }
+  const cached = shared ? indexCache.get(data, 'index') : undefined;
+  if (cached) {
+    return cached;
   }
   
-  const columnIndices = new Map<string, Map<string, Set<number>>>();
+  // Row lists per value while scanning; turned into bitmaps once complete
+  const columnRows = new Map<string, Map<string, number[]>>();
   const columnStats = new Map<string, { uniqueCount: number; mostCommon: string; dataType: 'number' | 'string' }>();
   
-  // Pre-analyze columns from first few rows for optimization
-  const sampleSize = Math.min(100, data.length);
+  // Column types come from the shared schema inference
   const columnTypes = new Map<string, 'number' | 'string'>();
   
-  if (data.length > 0) {
-    const firstRow = data[0];
-    Object.keys(firstRow).forEach(column => {
-      // Determine data type from sample
-      let isNumeric = true;
-      for (let i = 0; i < sampleSize && i < data.length; i++) {
-        const value = data[i][column as keyof DataRow];
-        if (isNaN(Number(value))) {
-          isNumeric = false;
-          break;
-        }
-      }
-      columnTypes.set(column, isNumeric ? 'number' : 'string');
-      columnIndices.set(column, new Map<string, Set<number>>());
-    });
-  }
+  getColumnConfigs(data).forEach(config => {
+    columnTypes.set(config.key, config.type === 'number' ? 'number' : 'string');
+    columnRows.set(config.key, new Map<string, number[]>());
+  });
   
   // Build index with batch processing for large datasets
   const processInBatches = data.length > BATCH_SIZE;
@@ -67,12 +70,12 @@ const buildOptimizedFilterIndex = (data: DataRow[], cacheKey?: string): Optimize
         
         Object.entries(row).forEach(([column, value]) => {
           const stringValue = String(value);
-          const columnMap = columnIndices.get(column)!;
+          const columnMap = columnRows.get(column)!;
           
           if (!columnMap.has(stringValue)) {
-            columnMap.set(stringValue, new Set<number>());
+            columnMap.set(stringValue, []);
           }
-          columnMap.get(stringValue)!.add(rowIndex);
+          columnMap.get(stringValue)!.push(rowIndex);
         });
       }
       
@@ -86,16 +89,26 @@ const buildOptimizedFilterIndex = (data: DataRow[], cacheKey?: string): Optimize
     data.forEach((row, rowIndex) => {
       Object.entries(row).forEach(([column, value]) => {
         const stringValue = String(value);
-        const columnMap = columnIndices.get(column)!;
+        const columnMap = columnRows.get(column)!;
         
         if (!columnMap.has(stringValue)) {
-          columnMap.set(stringValue, new Set<number>());
+          columnMap.set(stringValue, []);
         }
-        columnMap.get(stringValue)!.add(rowIndex);
+        columnMap.get(stringValue)!.push(rowIndex);
       });
     });
   }
   
+  // Rows were pushed in order, so each list is already sorted
+  const columnIndices: BitmapIndex = new Map();
+  columnRows.forEach((valueMap, column) => {
+    const bitmaps = new Map<string, Bitmap>();
+    valueMap.forEach((rows, value) => {
+      bitmaps.set(value, Bitmap.fromSortedRows(Uint32Array.from(rows), data.length));
+    });
+    columnIndices.set(column, bitmaps);
+  });
+  
   // Calculate column statistics for optimization
   columnIndices.forEach((valueMap, column) => {
     const uniqueCount = valueMap.size;
@@ -103,8 +116,8 @@ const buildOptimizedFilterIndex = (data: DataRow[], cacheKey?: string): Optimize
     let maxCount = 0;
     
     valueMap.forEach((indices, value) => {
-      if (indices.size > maxCount) {
-        maxCount = indices.size;
+      if (indices.count > maxCount) {
+        maxCount = indices.count;
         mostCommon = value;
       }
     });
@@ -122,15 +135,9 @@ const buildOptimizedFilterIndex = (data: DataRow[], cacheKey?: string): Optimize
     columnStats
   };
   
-  // Cache the index with LRU eviction
-  if (cacheKey) {
-    if (indexCache.size >= CACHE_SIZE_LIMIT) {
-      const firstKey = indexCache.keys().next().value;
-      if (firstKey) {
-        indexCache.delete(firstKey);
-      }
-    }
-    indexCache.set(cacheKey, index);
+  // Cache the index; the least recently used dataset is evicted
+  if (shared) {
+    indexCache.set(data, 'index', index);
   }
   
   const endTime = performance.now();
@@ -139,33 +146,23 @@ const buildOptimizedFilterIndex = (data: DataRow[], cacheKey?: string): Optimize
   return index;
 };
 
-// Ultra-optimized filtering with multiple strategies
-export const applyFilters = (data: DataRow[], filters: FilterState): DataRow[] => {
-  const activeFilters = Object.entries(filters).filter(([, values]) => values.length > 0);
-  
-  // Early return for no filters
-  if (activeFilters.length === 0) {
-    return data;
-  }
-  
-  // Strategy 1: Direct filtering for small datasets
-  if (data.length < SMALL_DATASET_THRESHOLD) {
-    return data.filter(row => {
-      return activeFilters.every(([column, selectedValues]) => {
-        return selectedValues.includes(String(row[column as keyof DataRow]));
-      });
-    });
-  }
+// Matching rows as a bitmap: column filters are intersected most selective
+// first, then the expression is evaluated on the same index
+const matchIndex = (
+  index: OptimizedFilterIndex,
+  activeFilters: [string, ColumnFilter][],
+  activeExpression: FilterExpression | null
+): Bitmap => {
+  let validIndices: Bitmap | null = null;
   
-  // Strategy 2: Indexed filtering for large datasets
-  const cacheKey = `${data.length}-${Object.keys(data[0] || {}).join(',')}`;
-  const index = buildOptimizedFilterIndex(data, cacheKey);
-  
-  // Find intersection using optimized set operations
-  let validIndices: Set<number> | null = null;
+  // Resolve ranges to the indexed values they cover
+  const resolvedFilters = activeFilters.map(([column, filter]): [string, string[]] => [
+    column,
+    matchingIndexKeys(index.columnIndices.get(column)?.keys() || [], filter),
+  ]);
   
   // Sort filters by selectivity (most selective first)
-  const sortedFilters = activeFilters.sort(([columnA, valuesA], [columnB, valuesB]) => {
+  const sortedFilters = resolvedFilters.sort(([columnA, valuesA], [columnB, valuesB]) => {
     const statsA = index.columnStats.get(columnA);
     const statsB = index.columnStats.get(columnB);
     
@@ -179,43 +176,108 @@ export const applyFilters = (data: DataRow[], filters: FilterState): DataRow[] =
   });
   
   for (const [column, selectedValues] of sortedFilters) {
+    // A filter on a column the data doesn't have matches nothing
     const columnMap = index.columnIndices.get(column);
-    if (!columnMap) continue;
+    if (!columnMap) return Bitmap.empty(index.rowCount);
     
-    const columnIndices = new Set<number>();
-    
-    // Batch process selected values
+    const valueBitmaps: Bitmap[] = [];
     selectedValues.forEach(value => {
       const valueIndices = columnMap.get(value);
-      if (valueIndices) {
-        valueIndices.forEach(idx => columnIndices.add(idx));
-      }
+      if (valueIndices) valueBitmaps.push(valueIndices);
     });
     
-    if (validIndices === null) {
-      validIndices = columnIndices;
-    } else {
-      // Optimized intersection using the smaller set
-      const [smaller, larger]: [Set<number>, Set<number>] = validIndices.size < columnIndices.size 
-        ? [validIndices, columnIndices] 
-        : [columnIndices, validIndices];
-      
-      validIndices = new Set([...smaller].filter(x => larger.has(x)));
-      
-      // Early exit if no matches
-      if (validIndices.size === 0) {
-        return [];
-      }
+    const columnIndices = Bitmap.union(valueBitmaps, index.rowCount);
+    validIndices = validIndices === null ? columnIndices : validIndices.and(columnIndices);
+    
+    // Early exit if no matches
+    if (validIndices.count === 0) {
+      return validIndices;
     }
   }
   
-  if (!validIndices || validIndices.size === 0) {
-    return [];
+  // Boolean expression from the query builder, evaluated on the same index
+  if (activeExpression) {
+    const expressionIndices = evaluateExpressionBitmap(
+      activeExpression,
+      createBitmapIndexEvaluator(index.columnIndices, index.rowCount)
+    );
+    validIndices = validIndices === null ? expressionIndices : validIndices.and(expressionIndices);
+  }
+  
+  return validIndices ?? Bitmap.full(index.rowCount);
+};
+
+const getSharedIndex = (data: DataRow[]): OptimizedFilterIndex => {
+  return buildOptimizedFilterIndex(data, true);
+};
+
+// Row indices matching the filters and expression, or null when nothing is
+// filtered. Pass a prebuilt index to skip the shared cache lookup.
+const findMatchingRows = (
+  data: DataRow[],
+  filters: FilterState,
+  expression: FilterExpression | null,
+  prebuiltIndex?: OptimizedFilterIndex
+): Uint32Array | null => {
+  const activeFilters = getActiveFilters(filters);
+  const activeExpression = normalizeExpression(expression);
+  
+  // Early return for no filters
+  if (activeFilters.length === 0 && !activeExpression) {
+    return null;
   }
   
-  // Convert indices to rows efficiently
-  const indices = validIndices as Set<number>;
-  return Array.from(indices).map((rowIndex: number) => data[rowIndex]);
+  // Strategy 1: Direct filtering for small datasets
+  if (data.length < SMALL_DATASET_THRESHOLD) {
+    const matches: number[] = [];
+    data.forEach((row, rowIndex) => {
+      const isMatch = activeFilters.every(([column, filter]) => {
+        return matchesFilter(row[column as keyof DataRow], filter);
+      }) && (!activeExpression || matchesExpression(row, activeExpression));
+      if (isMatch) matches.push(rowIndex);
+    });
+    return Uint32Array.from(matches);
+  }
+  
+  // Strategy 2: Indexed filtering for large datasets
+  const index = prebuiltIndex ?? getSharedIndex(data);
+  return matchIndex(index, activeFilters, activeExpression).toArray();
+};
+
+// Facet counts for a column under the given filters. Large datasets count
+// each value as a popcount of its bitmap AND the matches, without
+// materializing any row list.
+const countMatchingFacets = (
+  data: DataRow[],
+  filters: FilterState,
+  expression: FilterExpression | null,
+  column: string,
+  prebuiltIndex?: OptimizedFilterIndex,
+  columnType: ColumnConfig['type'] | undefined = getColumnConfigs(data).find(config => config.key === column)?.type
+): FilterOption[] => {
+  if (data.length < SMALL_DATASET_THRESHOLD) {
+    const matches = findMatchingRows(data, filters, expression);
+    return countRowFacets(data, column, matches ?? rangeIndices(data.length), columnType);
+  }
+  
+  const index = prebuiltIndex ?? getSharedIndex(data);
+  const activeFilters = getActiveFilters(filters);
+  const activeExpression = normalizeExpression(expression);
+  const matches = activeFilters.length === 0 && !activeExpression
+    ? null
+    : matchIndex(index, activeFilters, activeExpression);
+  
+  return countBitmapFacets(index.columnIndices.get(column), matches, columnType);
+};
+
+// Ultra-optimized filtering with multiple strategies
+export const applyFilters = (
+  data: DataRow[],
+  filters: FilterState,
+  expression: FilterExpression | null = null
+): DataRow[] => {
+  const matches = findMatchingRows(data, filters, expression);
+  return matches === null ? data : materializeRows(data, matches);
 };
 
 // Memory-efficient batch processing for massive datasets
@@ -259,115 +321,99 @@ export const applyFiltersBatch = (
 export const applyFiltersExcept = (
   data: DataRow[],
   filters: FilterState,
-  excludeColumn: string
+  excludeColumn: string,
+  expression: FilterExpression | null = null
 ): DataRow[] => {
   const filtersWithoutExcluded = Object.fromEntries(
     Object.entries(filters).filter(([column]) => column !== excludeColumn)
   );
   
-  return applyFilters(data, filtersWithoutExcluded);
+  return applyFilters(data, filtersWithoutExcluded, expression);
 };
 
-// Ultra-fast available options with intelligent caching
+// Available options for a column under every other filter
 export const getAvailableFilterOptions = (
   allData: DataRow[],
   currentFilters: FilterState,
-  targetColumn: string
-): { value: string; label: string; count: number }[] => {
-  // Strategy 1: Direct approach for small datasets
-  if (allData.length < SMALL_DATASET_THRESHOLD) {
-    const filteredData = applyFiltersExcept(allData, currentFilters, targetColumn);
-    const valueCounts = new Map<string, number>();
-    
-    filteredData.forEach(row => {
-      const value = String(row[targetColumn as keyof DataRow]);
-      valueCounts.set(value, (valueCounts.get(value) || 0) + 1);
-    });
-    
-    return Array.from(valueCounts.entries())
-      .map(([value, count]) => ({ value, label: value, count }))
-      .sort((a, b) => {
-        const numA = Number(a.value);
-        const numB = Number(b.value);
-        if (!isNaN(numA) && !isNaN(numB)) {
-          return numA - numB;
-        }
-        return a.value.localeCompare(b.value);
-      });
-  }
-  
-  // Strategy 2: Indexed approach for large datasets
-  const cacheKey = `${allData.length}-${Object.keys(allData[0] || {}).join(',')}`;
-  const index = buildOptimizedFilterIndex(allData, cacheKey);
-  
+  targetColumn: string,
+  expression: FilterExpression | null = null
+): FilterOption[] => {
   const filtersWithoutTarget = Object.fromEntries(
     Object.entries(currentFilters).filter(([column]) => column !== targetColumn)
   );
   
-  // Get valid indices based on other filters
-  let validIndices: Set<number> | null = null;
-  
-  Object.entries(filtersWithoutTarget).forEach(([column, selectedValues]) => {
-    if (selectedValues.length === 0) return;
-    
-    const columnMap = index.columnIndices.get(column);
-    if (!columnMap) return;
-    
-    const columnIndices = new Set<number>();
-    selectedValues.forEach(value => {
-      const valueIndices = columnMap.get(value);
-      if (valueIndices) {
-        valueIndices.forEach(idx => columnIndices.add(idx));
-      }
-    });
-    
-    if (validIndices === null) {
-      validIndices = columnIndices;
-    } else {
-      validIndices = new Set([...validIndices].filter(x => columnIndices.has(x)));
+  return countMatchingFacets(allData, filtersWithoutTarget, expression, targetColumn);
+};
+
+// FilterEngine over the functions above: scans small datasets, uses the
+// statistics-ordered bitmap index for large ones. The search is a scan over
+// the matching rows, as there is no text index.
+export class FilterLogicEngine implements FilterEngine {
+  private data: DataRow[] = [];
+  private filterIndex: OptimizedFilterIndex | null = null;
+  // Detected types with the user's overrides; order the facets
+  private columnTypes: Map<string, ColumnConfig['type']> = new Map();
+
+  index(data: DataRow[], overrides: SchemaOverrides = {}): void {
+    this.data = data;
+    this.columnTypes = new Map(
+      applySchemaOverrides(getColumnConfigs(data), overrides).map(config => [config.key, config.type])
+    );
+    // Built lazily: small datasets never need it
+    this.filterIndex = null;
+  }
+
+  private getIndex(): OptimizedFilterIndex | undefined {
+    if (this.data.length < SMALL_DATASET_THRESHOLD) return undefined;
+    if (!this.filterIndex) {
+      this.filterIndex = buildOptimizedFilterIndex(this.data);
     }
-  });
-  
-  // Get unique values with counts
-  const targetColumnMap = index.columnIndices.get(targetColumn);
-  if (!targetColumnMap) return [];
-  
-  const valueCounts = new Map<string, number>();
-  
-  if (validIndices === null) {
-    // No other filters, use all values
-    targetColumnMap.forEach((indices, value) => {
-      valueCounts.set(value, indices.size);
-    });
-  } else {
-    // Count intersections
-    targetColumnMap.forEach((indices, value) => {
-      const intersection = [...indices].filter(idx => validIndices!.has(idx));
-      if (intersection.length > 0) {
-        valueCounts.set(value, intersection.length);
-      }
-    });
+    return this.filterIndex;
   }
-  
-  return Array.from(valueCounts.entries())
-    .map(([value, count]) => ({ value, label: value, count }))
-    .sort((a, b) => {
-      const numA = Number(a.value);
-      const numB = Number(b.value);
-      if (!isNaN(numA) && !isNaN(numB)) {
-        return numA - numB;
-      }
-      return a.value.localeCompare(b.value);
-    });
-};
+
+  // Filters and expression (minus excludeColumn's filter) AND the search;
+  // null when the query keeps every row
+  private match(query: FilterQuery, excludeColumn?: string): Uint32Array | null {
+    const filters = Object.fromEntries(Object.entries(query.filters).filter(([key]) => key !== excludeColumn));
+    const matches = findMatchingRows(this.data, filters, query.expression ?? null, this.getIndex());
+    const terms = parseSearchQuery(query.search, this.data.length > 0 ? Object.keys(this.data[0]) : []);
+    if (terms.length === 0) return matches;
+
+    return (matches ?? rangeIndices(this.data.length)).filter(row => matchesSearchTerms(this.data[row], terms));
+  }
+
+  filter(query: FilterQuery): Uint32Array {
+    return this.match(query) ?? rangeIndices(this.data.length);
+  }
+
+  facets(column: string, query: FilterQuery): FilterOption[] {
+    const columnType = this.columnTypes.get(column);
+    if (normalizeSearch(query.search) !== '') {
+      return countRowFacets(this.data, column, this.match(query, column) ?? rangeIndices(this.data.length), columnType);
+    }
+
+    const filters = Object.fromEntries(Object.entries(query.filters).filter(([key]) => key !== column));
+    return countMatchingFacets(this.data, filters, query.expression ?? null, column, this.getIndex(), columnType);
+  }
+
+  count(query: FilterQuery): number {
+    return this.match(query)?.length ?? this.data.length;
+  }
+
+  dispose(): void {
+    this.data = [];
+    this.filterIndex = null;
+    this.columnTypes.clear();
+  }
+}
 
 // Optimized state management functions
 export const updateFilterState = (
   currentFilters: FilterState,
   column: string,
-  selectedValues: string[]
+  filter: ColumnFilter
 ): FilterState => {
-  if (selectedValues.length === 0) {
+  if (!isFilterActive(filter)) {
     const newFilters = { ...currentFilters };
     delete newFilters[column];
     return newFilters;
@@ -375,7 +421,7 @@ export const updateFilterState = (
   
   return {
     ...currentFilters,
-    [column]: selectedValues,
+    [column]: filter,
   };
 };
 
@@ -393,15 +439,14 @@ export const clearFilter = (
 // Performance monitoring and optimization utilities
 export const getFilterPerformanceStats = () => {
   return {
-    cacheSize: indexCache.size,
-    cacheKeys: Array.from(indexCache.keys()),
+    cache: indexCache.report(),
     clearCache: () => indexCache.clear(),
   };
 };
 
 // Preload index for better performance
-export const preloadFilterIndex = (data: DataRow[], cacheKey: string): void => {
+export const preloadFilterIndex = (data: DataRow[]): void => {
   requestIdleCallback(() => {
-    buildOptimizedFilterIndex(data, cacheKey);
+    buildOptimizedFilterIndex(data, true);
   });
 };
@@ -0,0 +1,230 @@
+import { ColumnFilter, DateFilter, FilterState, HistogramBin, NumericSummary, RangeFilter, TextFilter, TextOperator } from '@/types';
+import { createDateMatcher, getToday, toDayKey } from './dateColumns';
+
+// Numeric columns with at most this many distinct values keep the checkbox
+// dropdown (e.g. "modulo 3"); wider columns get the range slider instead
+export const DISCRETE_NUMERIC_THRESHOLD = 20;
+export const HISTOGRAM_BIN_COUNT = 24;
+
+// Wide numeric columns get a range slider; low-cardinality ones stay checkbox lists
+export const getFilterKind = (summary: NumericSummary | null): 'range' | 'values' => {
+  return summary && summary.distinctCount > DISCRETE_NUMERIC_THRESHOLD ? 'range' : 'values';
+};
+
+export const isRangeFilter = (filter: ColumnFilter | undefined): filter is RangeFilter => {
+  return !!filter && !Array.isArray(filter) && filter.type === 'range';
+};
+
+export const isTextFilter = (filter: ColumnFilter | undefined): filter is TextFilter => {
+  return !!filter && !Array.isArray(filter) && filter.type === 'text';
+};
+
+export const isDateFilter = (filter: ColumnFilter | undefined): filter is DateFilter => {
+  return !!filter && !Array.isArray(filter) && filter.type === 'date';
+};
+
+// A text filter with an empty or uncompilable pattern is a draft, not a filter
+export const isFilterActive = (filter: ColumnFilter | undefined): boolean => {
+  if (!filter) return false;
+  if (isRangeFilter(filter)) return filter.min !== null || filter.max !== null;
+  if (isTextFilter(filter)) return filter.value !== '' && getTextMatcher(filter) !== null;
+  if (isDateFilter(filter)) {
+    return filter.preset !== null || filter.start !== null || filter.end !== null
+      || filter.months.length > 0 || filter.weekdays.length > 0;
+  }
+  return filter.length > 0;
+};
+
+export const getActiveFilters = (
+  filters: FilterState,
+  excludeColumn?: string
+): [string, ColumnFilter][] => {
+  return Object.entries(filters).filter(
+    ([column, filter]) => column !== excludeColumn && isFilterActive(filter)
+  );
+};
+
+export const countActiveFilters = (filters: FilterState): number => {
+  return getActiveFilters(filters).length;
+};
+
+export const createRangeFilter = (
+  min: number | null,
+  max: number | null,
+  includeMin: boolean = true,
+  includeMax: boolean = true
+): RangeFilter => ({ type: 'range', min, max, includeMin, includeMax });
+
+export const TEXT_OPERATOR_LABELS: Record<TextOperator, string> = {
+  equals: 'equals',
+  contains: 'contains',
+  startsWith: 'starts with',
+  endsWith: 'ends with',
+  wildcard: 'matches wildcard',
+  regex: 'matches regex',
+};
+
+export const createTextFilter = (
+  operator: TextOperator = 'contains',
+  value: string = '',
+  caseSensitive: boolean = false
+): TextFilter => ({ type: 'text', operator, value, caseSensitive });
+
+const escapeRegExp = (text: string): string => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// `*` is any run of characters, `?` exactly one; the whole value has to match
+const wildcardToRegExp = (pattern: string, flags: string): RegExp => {
+  const source = Array.from(pattern, char => (char === '*' ? '.*' : char === '?' ? '.' : escapeRegExp(char))).join('');
+  return new RegExp(`^${source}$`, flags);
+};
+
+const compileTextFilter = (filter: TextFilter): ((value: string) => boolean) | null => {
+  const flags = filter.caseSensitive ? '' : 'i';
+
+  if (filter.operator === 'regex' || filter.operator === 'wildcard') {
+    try {
+      const pattern = filter.operator === 'regex' ? new RegExp(filter.value, flags) : wildcardToRegExp(filter.value, flags);
+      return value => pattern.test(value);
+    } catch {
+      return null;
+    }
+  }
+
+  const needle = filter.caseSensitive ? filter.value : filter.value.toLowerCase();
+  const fold = (value: string) => (filter.caseSensitive ? value : value.toLowerCase());
+  switch (filter.operator) {
+    case 'equals':
+      return value => fold(value) === needle;
+    case 'startsWith':
+      return value => fold(value).startsWith(needle);
+    case 'endsWith':
+      return value => fold(value).endsWith(needle);
+    default:
+      return value => fold(value).includes(needle);
+  }
+};
+
+// Filters are replaced rather than mutated, so compiled predicates can be
+// cached per object; null means the pattern doesn't compile
+const textMatchers = new WeakMap<TextFilter, ((value: string) => boolean) | null>();
+
+export const getTextMatcher = (filter: TextFilter): ((value: string) => boolean) | null => {
+  if (!textMatchers.has(filter)) {
+    textMatchers.set(filter, compileTextFilter(filter));
+  }
+  return textMatchers.get(filter)!;
+};
+
+// Message for the filter editor, or null when the pattern is usable
+export const getTextFilterError = (filter: TextFilter): string | null => {
+  if (filter.operator !== 'regex' || filter.value === '') return null;
+  try {
+    new RegExp(filter.value);
+    return null;
+  } catch (error) {
+    return error instanceof Error ? error.message : 'Invalid regular expression';
+  }
+};
+
+export const formatTextFilter = (filter: TextFilter): string => {
+  const value = filter.operator === 'regex' ? `/${filter.value}/` : `"${filter.value}"`;
+  return `${TEXT_OPERATOR_LABELS[filter.operator]} ${value}${filter.caseSensitive ? ' (case-sensitive)' : ''}`;
+};
+
+// Presets depend on today, so a cached matcher is only reused on the same day
+const dateMatchers = new WeakMap<DateFilter, { today: number; matches: (value: unknown) => boolean }>();
+
+export const getDateMatcher = (filter: DateFilter): ((value: unknown) => boolean) => {
+  const today = getToday();
+  let cached = dateMatchers.get(filter);
+  if (!cached || cached.today !== today) {
+    cached = { today, matches: createDateMatcher(filter, today) };
+    dateMatchers.set(filter, cached);
+  }
+  return cached.matches;
+};
+
+// Empty strings would coerce to 0, so treat them as missing values
+export const toNumber = (value: unknown): number => {
+  if (typeof value === 'number') return value;
+  if (value === null || value === undefined || value === '') return NaN;
+  return Number(value);
+};
+
+export const matchesRange = (value: unknown, range: RangeFilter): boolean => {
+  const numeric = toNumber(value);
+  if (Number.isNaN(numeric)) return false;
+
+  if (range.min !== null) {
+    if (range.includeMin ? numeric < range.min : numeric <= range.min) return false;
+  }
+  if (range.max !== null) {
+    if (range.includeMax ? numeric > range.max : numeric >= range.max) return false;
+  }
+  return true;
+};
+
+// Row-level predicate shared by the scan-based engines
+export const matchesFilter = (value: unknown, filter: ColumnFilter): boolean => {
+  if (isRangeFilter(filter)) return matchesRange(value, filter);
+  if (isTextFilter(filter)) return getTextMatcher(filter)?.(String(value)) ?? false;
+  if (isDateFilter(filter)) return getDateMatcher(filter)(value);
+  return filter.includes(String(value));
+};
+
+// Keys of an inverted index that satisfy a filter; lets index-based engines
+// evaluate ranges, text predicates and dates against their value dictionary
+// instead of every row
+export const matchingIndexKeys = (keys: Iterable<string>, filter: ColumnFilter): string[] => {
+  if (Array.isArray(filter)) return filter;
+
+  const matches: string[] = [];
+  for (const key of keys) {
+    if (matchesFilter(key, filter)) matches.push(key);
+  }
+  return matches;
+};
+
+// Stable string form for cache keys; value order doesn't change the result
+export const serializeFilter = (filter: ColumnFilter): string => {
+  if (isRangeFilter(filter)) {
+    return `${filter.includeMin ? '[' : '('}${filter.min ?? ''}..${filter.max ?? ''}${filter.includeMax ? ']' : ')'}`;
+  }
+  if (isTextFilter(filter)) {
+    return `${filter.operator}/${filter.caseSensitive ? 'c' : 'i'}:${filter.value}`;
+  }
+  if (isDateFilter(filter)) {
+    // Presets are keyed by the day they resolve on
+    const range = filter.preset ? `${filter.preset}@${toDayKey(getToday())}` : `${filter.start ?? ''}..${filter.end ?? ''}`;
+    return `date/${filter.format}:${range}:m${[...filter.months].sort((a, b) => a - b).join(',')}:w${[...filter.weekdays].sort((a, b) => a - b).join(',')}`;
+  }
+  return [...filter].sort().join(',');
+};
+
+export const formatRange = (range: RangeFilter): string => {
+  if (range.min !== null && range.max !== null) {
+    return `${range.min} ${range.includeMin ? '≤' : '<'} x ${range.includeMax ? '≤' : '<'} ${range.max}`;
+  }
+  if (range.min !== null) return `${range.includeMin ? '≥' : '>'} ${range.min}`;
+  if (range.max !== null) return `${range.includeMax ? '≤' : '<'} ${range.max}`;
+  return 'Any';
+};
+
+export const createEmptyHistogram = (min: number, max: number, binCount: number = HISTOGRAM_BIN_COUNT): HistogramBin[] => {
+  const span = max - min;
+  const bins = span === 0 ? 1 : binCount;
+  const width = span === 0 ? 1 : span / bins;
+
+  return Array.from({ length: bins }, (_, i) => ({
+    start: min + i * width,
+    end: i === bins - 1 ? max : min + (i + 1) * width,
+    count: 0,
+  }));
+};
+
+// Bin index for a value; the last bin is closed so max lands inside it
+export const getHistogramBinIndex = (value: number, min: number, max: number, binCount: number): number => {
+  if (max === min) return 0;
+  const index = Math.floor(((value - min) / (max - min)) * binCount);
+  return Math.min(binCount - 1, Math.max(0, index));
+};
@@ -0,0 +1,183 @@
+import { DateFacets, FilterOption, HistogramBin, NumericSummary, SchemaOverrides, SortState } from '@/types';
+import { ColumnTable } from './columnStore';
+import { FilterQuery, getQueryKey } from './filterEngine';
+import { getSortKey } from './multiSort';
+import { getTypeOverrides, getTypeOverridesKey } from './schemaOverrides';
+import { FacetKind, FilterEngineHost, FilterWorkerRequest, FilterWorkerResponse, getFacetChannel } from './filterEngineHost';
+
+interface PendingRequest {
+  resolve: (response: FilterWorkerResponse | null) => void;
+  reject: (error: Error) => void;
+}
+
+interface ChannelRequest {
+  id: number;
+  key: string;
+  promise: Promise<FilterWorkerResponse | null>;
+}
+
+export interface FacetResult {
+  options: FilterOption[];
+  histogram: HistogramBin[];
+  dates: DateFacets | null;
+}
+
+// Main-thread side of the filter worker. Requests on the same channel replace
+// each other: the older one is cancelled and resolves to null, and asking the
+// same question twice shares one answer. Falls back to an in-process host
+// where workers are unavailable, or when asked to after a worker died.
+export class FilterWorkerClient {
+  private worker: Worker | null = null;
+  private host: FilterEngineHost | null = null;
+  private nextId = 1;
+  private pending = new Map<number, PendingRequest>();
+  private channels = new Map<string, ChannelRequest>();
+  // Set once the worker has died; every later request is rejected with it
+  private failure: Error | null = null;
+
+  constructor(inProcess = false) {
+    if (!inProcess && typeof Worker !== 'undefined') {
+      try {
+        this.worker = new Worker(new URL('../workers/filterEngine.worker.ts', import.meta.url));
+        this.worker.onmessage = (event: MessageEvent<FilterWorkerResponse>) => this.receive(event.data);
+        this.worker.onerror = (event) => this.failAll(event.message || 'Filter worker failed');
+        return;
+      } catch (error) {
+        console.warn('Filter worker unavailable, filtering on the main thread:', error);
+      }
+    }
+
+    this.host = new FilterEngineHost(response => this.receive(response));
+  }
+
+  // Ship the columns; index() builds the indices over them
+  async load(table: ColumnTable): Promise<void> {
+    // Answers about the previous dataset are no longer wanted
+    this.channels.forEach(request => this.cancel(request.id));
+    this.channels.clear();
+
+    await this.request(id => ({ type: 'load', id, table }));
+  }
+
+  // (Re)build the indices with the column types the overrides set; resolves
+  // with the numeric column summaries, or null when a newer index request
+  // replaced this one. Label and filterability changes share the request.
+  async index(overrides: SchemaOverrides): Promise<Record<string, NumericSummary> | null> {
+    const response = await this.request(
+      id => ({ type: 'index', id, overrides }),
+      { name: 'index', key: getTypeOverridesKey(overrides) }
+    );
+    return response?.type === 'indexed' ? response.summaries : null;
+  }
+
+  // Matching row indices, or null when a newer filter request replaced this one
+  async filter(query: FilterQuery): Promise<Uint32Array | null> {
+    const response = await this.request(
+      id => ({ type: 'filter', id, query }),
+      { name: 'filter', key: getQueryKey(query) }
+    );
+    return response?.type === 'filtered' ? response.indices : null;
+  }
+
+  async facets(column: string, kind: FacetKind, query: FilterQuery): Promise<FacetResult | null> {
+    const response = await this.request(
+      id => ({ type: 'facets', id, column, kind, query }),
+      { name: getFacetChannel(column, kind, query), key: getQueryKey(query, column) }
+    );
+    return response?.type === 'facets'
+      ? { options: response.options, histogram: response.histogram, dates: response.dates }
+      : null;
+  }
+
+  // Row order for the sort as indices into the loaded rows, or null when a
+  // newer sort request replaced this one. Type overrides change how columns compare.
+  async sort(sort: SortState, overrides: SchemaOverrides): Promise<Uint32Array | null> {
+    const response = await this.request(
+      id => ({ type: 'sort', id, sort, overrides }),
+      { name: 'sort', key: getSortKey(sort, getTypeOverrides(overrides)) }
+    );
+    return response?.type === 'sorted' ? response.order : null;
+  }
+
+  // The worker died and took the loaded data with it; a new client is needed
+  get failed(): boolean {
+    return this.failure !== null;
+  }
+
+  dispose(): void {
+    this.pending.forEach(request => request.resolve(null));
+    this.pending.clear();
+    this.channels.clear();
+    this.worker?.terminate();
+    this.worker = null;
+    this.host = null;
+  }
+
+  private request(
+    create: (id: number) => FilterWorkerRequest,
+    channel?: { name: string; key: string }
+  ): Promise<FilterWorkerResponse | null> {
+    if (this.failure) return Promise.reject(this.failure);
+
+    if (channel) {
+      const current = this.channels.get(channel.name);
+      if (current && current.key === channel.key) return current.promise;
+      if (current) this.cancel(current.id);
+    }
+
+    const id = this.nextId++;
+    const promise = new Promise<FilterWorkerResponse | null>((resolve, reject) => {
+      this.pending.set(id, { resolve, reject });
+    });
+
+    if (channel) {
+      this.channels.set(channel.name, { id, key: channel.key, promise });
+    }
+    this.post(create(id));
+    return promise;
+  }
+
+  private cancel(id: number): void {
+    const request = this.pending.get(id);
+    if (!request) return;
+
+    this.pending.delete(id);
+    request.resolve(null);
+    this.post({ type: 'cancel', id: this.nextId++, target: id });
+  }
+
+  private post(request: FilterWorkerRequest): void {
+    if (this.worker) {
+      this.worker.postMessage(request);
+    } else {
+      this.host?.receive(request);
+    }
+  }
+
+  private receive(response: FilterWorkerResponse): void {
+    this.channels.forEach((request, name) => {
+      if (request.id === response.id) this.channels.delete(name);
+    });
+
+    // Cancelled on this side already
+    const request = this.pending.get(response.id);
+    if (!request) return;
+
+    this.pending.delete(response.id);
+    if (response.type === 'error') {
+      request.reject(new Error(response.message));
+    } else {
+      request.resolve(response.type === 'cancelled' ? null : response);
+    }
+  }
+
+  private failAll(message: string): void {
+    const failure = new Error(message);
+    this.failure = failure;
+    this.pending.forEach(request => request.reject(failure));
+    this.pending.clear();
+    this.channels.clear();
+    this.worker?.terminate();
+    this.worker = null;
+  }
+}
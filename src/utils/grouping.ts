@@ -0,0 +1,236 @@
+import { Aggregate, AggregateFunction, ColumnConfig, DataRow, GroupingState, SortState } from '@/types';
+import { createRowCursor } from './columnStore';
+
+export const EMPTY_GROUPING: GroupingState = { columns: [], aggregates: [] };
+
+// Offered for group rows, which always show their row count
+export const AGGREGATE_FUNCTIONS: AggregateFunction[] = ['sum', 'avg', 'min', 'max', 'distinct'];
+
+export const AGGREGATE_LABELS: Record<AggregateFunction, string> = {
+  count: 'Count',
+  sum: 'Sum',
+  avg: 'Avg',
+  min: 'Min',
+  max: 'Max',
+  distinct: 'Distinct',
+};
+
+export interface GroupNode {
+  // Path of group values from the outermost level, unique in the tree
+  id: string;
+  column: string;
+  value: string;
+  depth: number;
+  count: number;
+  // Keyed by getAggregateKey; null when the group has no numeric values
+  aggregates: Record<string, number | null>;
+  // Empty at the innermost level
+  children: GroupNode[];
+  // Row positions in the grouped rows, innermost level only
+  rows: number[];
+}
+
+export interface GroupSummary {
+  count: number;
+  aggregates: Record<string, number | null>;
+}
+
+// One line of the grouped table: a group header, or a row inside an open group
+export type GroupedItem =
+  | { type: 'group'; group: GroupNode; isExpanded: boolean }
+  | { type: 'row'; row: number; depth: number };
+
+export const getAggregateKey = (aggregate: Aggregate): string => `${aggregate.fn}:${aggregate.column}`;
+
+const collator = new Intl.Collator(undefined, { numeric: true, sensitivity: 'base' });
+
+const isMissing = (value: unknown) => value === null || value === undefined || value === '';
+
+// Running totals for one group; distinct values are only kept when asked for
+export class Accumulator {
+  count = 0;
+  private presentCounts: Uint32Array;
+  private sums: Float64Array;
+  private numericCounts: Uint32Array;
+  private mins: Float64Array;
+  private maxs: Float64Array;
+  private distinct: (Set<string> | null)[];
+
+  constructor(private readonly aggregates: Aggregate[]) {
+    this.presentCounts = new Uint32Array(aggregates.length);
+    this.sums = new Float64Array(aggregates.length);
+    this.numericCounts = new Uint32Array(aggregates.length);
+    this.mins = new Float64Array(aggregates.length).fill(Infinity);
+    this.maxs = new Float64Array(aggregates.length).fill(-Infinity);
+    this.distinct = aggregates.map(aggregate => (aggregate.fn === 'distinct' ? new Set<string>() : null));
+  }
+
+  add(row: DataRow) {
+    this.count++;
+    this.aggregates.forEach((aggregate, index) => {
+      const value = row[aggregate.column];
+      if (isMissing(value)) return;
+      this.presentCounts[index]++;
+
+      const distinct = this.distinct[index];
+      if (distinct) {
+        distinct.add(String(value));
+        return;
+      }
+
+      const number = Number(value);
+      if (!Number.isFinite(number)) return;
+      this.sums[index] += number;
+      this.numericCounts[index]++;
+      if (number < this.mins[index]) this.mins[index] = number;
+      if (number > this.maxs[index]) this.maxs[index] = number;
+    });
+  }
+
+  result(): Record<string, number | null> {
+    const results: Record<string, number | null> = {};
+    this.aggregates.forEach((aggregate, index) => {
+      const key = getAggregateKey(aggregate);
+      const distinct = this.distinct[index];
+      if (distinct) {
+        results[key] = distinct.size;
+        return;
+      }
+      if (aggregate.fn === 'count') {
+        results[key] = this.presentCounts[index];
+        return;
+      }
+
+      const count = this.numericCounts[index];
+      if (count === 0) {
+        results[key] = null;
+      } else if (aggregate.fn === 'sum') {
+        results[key] = this.sums[index];
+      } else if (aggregate.fn === 'avg') {
+        results[key] = this.sums[index] / count;
+      } else if (aggregate.fn === 'min') {
+        results[key] = this.mins[index];
+      } else {
+        results[key] = this.maxs[index];
+      }
+    });
+    return results;
+  }
+}
+
+interface GroupBuilder {
+  value: string;
+  totals: Accumulator;
+  children: Map<string, GroupBuilder>;
+  rows: number[];
+}
+
+// Group values ascending (numbers in numeric order), or descending with
+// direction -1; the empty value goes last either way
+export const compareGroupValues = (column: ColumnConfig | undefined, direction: 1 | -1 = 1) => {
+  const isNumeric = column?.type === 'number';
+  return (a: string, b: string) => {
+    if (a === '' || b === '') return a === '' ? (b === '' ? 0 : 1) : -1;
+    const order = isNumeric ? Number(a) - Number(b) : collator.compare(a, b);
+    return order * direction;
+  };
+};
+
+// Group rows by the chosen columns, outermost first. Rows keep their order
+// inside each group, so the table's sort still applies within groups.
+export const groupRows = (
+  rows: DataRow[],
+  grouping: GroupingState,
+  columns: ColumnConfig[],
+  sort: SortState
+): GroupNode[] => {
+  const { columns: groupColumns, aggregates } = grouping;
+  if (groupColumns.length === 0) return [];
+
+  const root = new Map<string, GroupBuilder>();
+  const cursor = createRowCursor(rows);
+  for (let index = 0; index < rows.length; index++) {
+    cursor.moveTo(index);
+    const row = cursor.row;
+    let level = root;
+    let group: GroupBuilder | undefined;
+    for (const column of groupColumns) {
+      const raw = row[column];
+      const value = isMissing(raw) ? '' : String(raw);
+      group = level.get(value);
+      if (!group) {
+        group = { value, totals: new Accumulator(aggregates), children: new Map(), rows: [] };
+        level.set(value, group);
+      }
+      group.totals.add(row);
+      level = group.children;
+    }
+    group!.rows.push(index);
+  }
+
+  const configs = new Map(columns.map(column => [column.key, column]));
+  const build = (level: Map<string, GroupBuilder>, depth: number, parentId: string): GroupNode[] => {
+    const column = groupColumns[depth];
+    // Follows the table sort when it includes the group column
+    const direction = sort.find(key => key.column === column)?.direction === 'desc' ? -1 : 1;
+    const compare = compareGroupValues(configs.get(column), direction);
+    return Array.from(level.values())
+      .sort((a, b) => compare(a.value, b.value))
+      .map(group => {
+        const id = `${parentId}${JSON.stringify(group.value)}/`;
+        return {
+          id,
+          column,
+          value: group.value,
+          depth,
+          count: group.totals.count,
+          aggregates: group.totals.result(),
+          children: build(group.children, depth + 1, id),
+          rows: group.rows,
+        };
+      });
+  };
+
+  return build(root, 0, '');
+};
+
+// Grand total over every row
+export const summarizeRows = (rows: DataRow[], aggregates: Aggregate[]): GroupSummary => {
+  const totals = new Accumulator(aggregates);
+  const cursor = createRowCursor(rows);
+  for (let index = 0; index < rows.length; index++) {
+    cursor.moveTo(index);
+    totals.add(cursor.row);
+  }
+  return { count: totals.count, aggregates: totals.result() };
+};
+
+// Visible lines with the given groups open, in display order
+export const flattenGroups = (groups: GroupNode[], expanded: Set<string>): GroupedItem[] => {
+  const items: GroupedItem[] = [];
+  const visit = (group: GroupNode) => {
+    const isExpanded = expanded.has(group.id);
+    items.push({ type: 'group', group, isExpanded });
+    if (!isExpanded) return;
+
+    if (group.children.length > 0) {
+      group.children.forEach(visit);
+      return;
+    }
+    group.rows.forEach(row => items.push({ type: 'row', row, depth: group.depth + 1 }));
+  };
+  groups.forEach(visit);
+  return items;
+};
+
+// Every group id, for expand all
+export const getGroupIds = (groups: GroupNode[]): string[] => {
+  return groups.flatMap(group => [group.id, ...getGroupIds(group.children)]);
+};
+
+export const formatAggregate = (fn: AggregateFunction, value: number | null): string => {
+  if (value === null) return '—';
+  if (fn === 'distinct') return value.toLocaleString();
+  return value.toLocaleString(undefined, { maximumFractionDigits: fn === 'avg' ? 2 : 4 });
+};
+
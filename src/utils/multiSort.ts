@@ -0,0 +1,137 @@
+import { ColumnConfig, DataRow, SortState } from '@/types';
+import { getColumnReader } from './columnStore';
+import { parseDateValue } from './dateColumns';
+
+// Same ordering the single-column sort used: case-insensitive, "item 2" before "item 10"
+const collator = new Intl.Collator(undefined, { numeric: true, sensitivity: 'base' });
+
+const isMissing = (value: unknown) => value === null || value === undefined || value === '';
+
+const isNumericColumn = (data: DataRow[], column: string, config: ColumnConfig | undefined) => {
+  if (config) return config.type === 'number';
+  const sample = data.find(row => !isMissing(row[column]));
+  return typeof sample?.[column] === 'number';
+};
+
+// One comparable number per row so the comparator never touches the raw values;
+// NaN marks a missing (or unparseable) value
+const rankColumn = (data: DataRow[], column: string, config: ColumnConfig | undefined): Float64Array => {
+  const ranks = new Float64Array(data.length);
+  const read = getColumnReader(data, column);
+
+  if (config?.type === 'date' && config.dateFormat) {
+    const format = config.dateFormat;
+    for (let index = 0; index < ranks.length; index++) ranks[index] = parseDateValue(read(index), format);
+    return ranks;
+  }
+
+  if (isNumericColumn(data, column, config)) {
+    for (let index = 0; index < ranks.length; index++) {
+      const value = read(index);
+      ranks[index] = isMissing(value) ? NaN : Number(value);
+    }
+    return ranks;
+  }
+
+  // Collate each distinct string once, then compare integer ranks
+  const distinct = new Map<string, number>();
+  for (let index = 0; index < ranks.length; index++) {
+    const value = read(index);
+    if (!isMissing(value)) distinct.set(String(value), 0);
+  }
+
+  const sorted = Array.from(distinct.keys()).sort(collator.compare);
+  let rank = 0;
+  sorted.forEach((value, index) => {
+    // Values the collator considers equal share a rank so the next key decides
+    if (index > 0 && collator.compare(sorted[index - 1], value) !== 0) rank++;
+    distinct.set(value, rank);
+  });
+
+  for (let index = 0; index < ranks.length; index++) {
+    const value = read(index);
+    ranks[index] = isMissing(value) ? NaN : distinct.get(String(value))!;
+  }
+  return ranks;
+};
+
+// Row order for the given sort keys as indices into data. Keys apply in priority
+// order, missing values go last in either direction and full ties keep data order.
+export const getSortPermutation = (
+  data: DataRow[],
+  sort: SortState,
+  columns: ColumnConfig[]
+): Uint32Array => {
+  const order = new Uint32Array(data.length);
+  for (let i = 0; i < order.length; i++) order[i] = i;
+  if (sort.length === 0) return order;
+
+  const configs = new Map(columns.map(column => [column.key, column]));
+  const keys = sort.map(key => ({
+    ranks: rankColumn(data, key.column, configs.get(key.column)),
+    sign: key.direction === 'asc' ? 1 : -1,
+  }));
+
+  return order.sort((a, b) => {
+    for (const { ranks, sign } of keys) {
+      const left = ranks[a];
+      const right = ranks[b];
+      const leftMissing = Number.isNaN(left);
+      const rightMissing = Number.isNaN(right);
+
+      if (leftMissing || rightMissing) {
+        if (leftMissing && rightMissing) continue;
+        return leftMissing ? 1 : -1;
+      }
+      if (left !== right) return left < right ? -sign : sign;
+    }
+    return a - b;
+  });
+};
+
+// Identifies a sort for caching and for matching worker answers to requests;
+// overridden column types are part of it since they change the order
+export const getSortKey = (sort: SortState, types: Record<string, ColumnConfig['type']> = {}): string => {
+  return sort
+    .map(key => (types[key.column] ? `${key.direction}:${key.column}:${types[key.column]}` : `${key.direction}:${key.column}`))
+    .join('|');
+};
+
+// The filtered rows (ascending indices) in sort order: a stable subset of the
+// full permutation, so a filter change never re-sorts
+export const selectInOrder = (order: Uint32Array, indices: Uint32Array, rowCount: number): Uint32Array => {
+  const isMatch = new Uint8Array(rowCount);
+  indices.forEach(index => {
+    isMatch[index] = 1;
+  });
+
+  const selected = new Uint32Array(indices.length);
+  let count = 0;
+  for (let i = 0; i < order.length; i++) {
+    if (isMatch[order[i]]) selected[count++] = order[i];
+  }
+  return selected;
+};
+
+export const sortRows = (data: DataRow[], sort: SortState, columns: ColumnConfig[]): DataRow[] => {
+  if (sort.length === 0) return data;
+  return Array.from(getSortPermutation(data, sort, columns), index => data[index]);
+};
+
+// Header click: sort by this column alone, cycling asc -> desc -> unsorted
+export const toggleSortKey = (sort: SortState, column: string): SortState => {
+  const current = sort.length === 1 && sort[0].column === column ? sort[0] : null;
+  if (!current) return [{ column, direction: 'asc' }];
+  return current.direction === 'asc' ? [{ column, direction: 'desc' }] : [];
+};
+
+// Shift+click: add the column as the lowest-priority key, or cycle it in place
+// asc -> desc -> removed without disturbing the other keys
+export const appendSortKey = (sort: SortState, column: string): SortState => {
+  const current = sort.find(key => key.column === column);
+  if (!current) return [...sort, { column, direction: 'asc' }];
+  if (current.direction === 'asc') {
+    return sort.map(key => (key.column === column ? { column, direction: 'desc' } : key));
+  }
+  return sort.filter(key => key.column !== column);
+};
@@ -1,15 +1,32 @@
-import { DataRow, FilterState } from '@/types';
-
-// Optimized filtering system with indexing and caching
-export class OptimizedFilterManager {
-  private dataIndex: Map<string, Map<string, Set<number>>>;
+import { ColumnConfig, DataRow, FilterOption } from '@/types';
+import { getColumnConfigs } from './dataProcessing';
+import { evaluateExpressionIndices } from './filterExpression';
+import {
+  ChunkedFilterEngine,
+  FilterQuery,
+  InvertedIndex,
+  addToInvertedIndex,
+  countIndexedFacets,
+  createInvertedIndexEvaluator,
+  resolveQuery,
+  searchInvertedIndex,
+  toSortedIndices,
+} from './filterEngine';
+import { parseSearchQuery } from './textSearch';
+
+// Optimized filtering system with indexing and caching. Rows can be indexed
+// chunk by chunk as they load, so filters only see the chunks indexed so far.
+export class OptimizedFilterManager implements ChunkedFilterEngine {
+  private dataIndex: InvertedIndex;
   private dataCache: Map<number, DataRow>;
-  private filterCache: Map<string, Set<number>>;
-  private optionsCache: Map<string, Set<string>>;
+  private filterCache: Map<string, Set<number> | null>;
+  private optionsCache: Map<string, FilterOption[]>;
+  // Detected from the first indexed chunk; orders the facets
+  private columnTypes: Map<string, ColumnConfig['type']> = new Map();
   private totalCount: number;
   private chunkSize: number;
 
-  constructor(totalCount: number, chunkSize: number = 1000) {
+  constructor(totalCount: number = 0, chunkSize: number = 1000) {
     this.dataIndex = new Map();
     this.dataCache = new Map();
     this.filterCache = new Map();
@@ -25,11 +42,11 @@ export class OptimizedFilterManager {
     }
 
     const columnIndex = this.dataIndex.get(column)!;
-    
+
     data.forEach((row, localIndex) => {
       const globalIndex = startIndex + localIndex;
       const value = String(row[column as keyof DataRow]);
-      
+
       if (!columnIndex.has(value)) {
         columnIndex.set(value, new Set());
       }
@@ -45,160 +62,86 @@ export class OptimizedFilterManager {
     });
   }
 
-  // Get filtered data range with optimized performance
-  getFilteredDataRange(startIndex: number, endIndex: number, filters: FilterState): DataRow[] {
-    if (Object.keys(filters).length === 0) {
-      // No filters, return cached data
-      const result: DataRow[] = [];
-      for (let i = startIndex; i <= endIndex && i < this.totalCount; i++) {
-        const cached = this.dataCache.get(i);
-        if (cached) {
-          result.push(cached);
-        }
-      }
-      return result;
-    }
-
-    // Get filtered indices
-    const filteredIndices = this.getFilteredIndices(filters);
-    if (!filteredIndices) {
-      return [];
+  // Index every column of a loaded chunk; earlier results are now stale
+  indexChunk(data: DataRow[], startIndex: number = 0): void {
+    if (this.columnTypes.size === 0) {
+      this.columnTypes = new Map(getColumnConfigs(data).map(config => [config.key, config.type]));
     }
-
-    // Convert to array and sort
-    const sortedIndices = Array.from(filteredIndices).sort((a, b) => a - b);
-    
-    // Get data for the requested range
-    const result: DataRow[] = [];
-    for (const index of sortedIndices) {
-      if (index >= startIndex && index <= endIndex) {
-        const cached = this.dataCache.get(index);
-        if (cached) {
-          result.push(cached);
-        }
-      }
-      if (result.length >= (endIndex - startIndex + 1)) {
-        break;
-      }
-    }
-
-    return result;
+    addToInvertedIndex(this.dataIndex, data, startIndex);
+    this.cacheData(data, startIndex);
+    this.clearCache();
   }
 
-  // Get filtered count with caching
-  getFilteredCount(filters: FilterState): number {
-    if (Object.keys(filters).length === 0) {
-      return this.totalCount;
-    }
+  getRow(index: number): DataRow | undefined {
+    return this.dataCache.get(index);
+  }
 
-    const cacheKey = JSON.stringify(filters);
-    if (this.filterCache.has(cacheKey)) {
-      return this.filterCache.get(cacheKey)!.size;
-    }
+  // FilterEngine: index a complete dataset in one go
+  index(data: DataRow[]): void {
+    this.dispose();
+    this.totalCount = data.length;
+    this.indexChunk(data, 0);
+  }
 
-    const filteredIndices = this.getFilteredIndices(filters);
-    if (!filteredIndices) {
-      return 0;
-    }
+  filter(query: FilterQuery): Uint32Array {
+    const matches = this.getFilteredIndices(query);
+    return toSortedIndices(matches ?? this.dataCache.keys());
+  }
 
-    const count = filteredIndices.size;
-    this.filterCache.set(cacheKey, filteredIndices);
-    return count;
+  // Unfiltered counts report the full dataset, even before every chunk is indexed
+  count(query: FilterQuery): number {
+    const matches = this.getFilteredIndices(query);
+    return matches === null ? this.totalCount : matches.size;
   }
 
   // Get filter options with optimized performance
-  getFilterOptions(column: string, currentFilters: FilterState = {}): string[] {
-    const cacheKey = `options_${column}_${JSON.stringify(currentFilters)}`;
-    
-    if (this.optionsCache.has(cacheKey)) {
-      return Array.from(this.optionsCache.get(cacheKey)!);
-    }
-
-    if (!this.dataIndex.has(column)) {
-      return [];
-    }
+  facets(column: string, query: FilterQuery): FilterOption[] {
+    const cacheKey = `options_${column}_${JSON.stringify(query)}`;
 
-    const columnIndex = this.dataIndex.get(column)!;
-    const uniqueValues = new Set<string>();
-
-    // If no other filters, return all unique values
-    if (Object.keys(currentFilters).length === 0) {
-      columnIndex.forEach((indices, value) => {
-        uniqueValues.add(value);
-      });
-    } else {
-      // Apply other filters to get valid indices
-      const validIndices = this.getFilteredIndices(currentFilters, column);
-      if (validIndices) {
-        // Get unique values from valid indices
-        columnIndex.forEach((indices, value) => {
-          for (const index of indices) {
-            if (validIndices.has(index)) {
-              uniqueValues.add(value);
-              break;
-            }
-          }
-        });
-      }
+    if (this.optionsCache.has(cacheKey)) {
+      return this.optionsCache.get(cacheKey)!;
     }
 
-    const result = Array.from(uniqueValues).sort((a, b) => {
-      const numA = Number(a);
-      const numB = Number(b);
-      if (!isNaN(numA) && !isNaN(numB)) {
-        return numA - numB;
-      }
-      return a.localeCompare(b);
-    });
+    const result = countIndexedFacets(
+      this.dataIndex.get(column),
+      this.getFilteredIndices(query, column),
+      this.columnTypes.get(column)
+    );
 
     // Cache the result
-    this.optionsCache.set(cacheKey, new Set(result));
+    this.optionsCache.set(cacheKey, result);
     return result;
   }
 
-  // Get filtered indices with optimized intersection
-  private getFilteredIndices(filters: FilterState, excludeColumn?: string): Set<number> | null {
-    let result: Set<number> | null = null;
-
-    for (const [column, selectedValues] of Object.entries(filters)) {
-      if (column === excludeColumn || selectedValues.length === 0) {
-        continue;
-      }
-
-      if (!this.dataIndex.has(column)) {
-        return new Set(); // No data for this column
-      }
-
-      const columnIndex = this.dataIndex.get(column)!;
-      const columnIndices = new Set<number>();
+  dispose(): void {
+    this.dataIndex.clear();
+    this.dataCache.clear();
+    this.columnTypes.clear();
+    this.clearCache();
+  }
 
-      // Collect indices for selected values
-      for (const value of selectedValues) {
-        const indices = columnIndex.get(value);
-        if (indices) {
-          indices.forEach(index => columnIndices.add(index));
-        }
-      }
+  // Get filtered indices with caching; null when nothing is filtered or searched
+  private getFilteredIndices(query: FilterQuery, excludeColumn?: string): Set<number> | null {
+    const expression = resolveQuery(query, excludeColumn);
+    const terms = parseSearchQuery(query.search, Array.from(this.dataIndex.keys()));
+    if (expression === null && terms.length === 0) {
+      return null;
+    }
 
-      // Intersect with previous result
-      if (result === null) {
-        result = columnIndices;
-      } else {
-        const intersection = new Set<number>();
-        for (const index of result) {
-          if (columnIndices.has(index)) {
-            intersection.add(index);
-          }
-        }
-        result = intersection;
-      }
+    const cacheKey = JSON.stringify([expression, terms]);
+    if (this.filterCache.has(cacheKey)) {
+      return this.filterCache.get(cacheKey)!;
+    }
 
-      // Early exit if no results
-      if (result.size === 0) {
-        return result;
-      }
+    let result = expression === null ? null : evaluateExpressionIndices(
+      expression,
+      createInvertedIndexEvaluator(this.dataIndex, () => this.dataCache.keys())
+    );
+    if (terms.length > 0) {
+      result = searchInvertedIndex(this.dataIndex, terms, result);
     }
 
+    this.filterCache.set(cacheKey, result);
     return result;
   }
 
@@ -211,7 +154,7 @@ export class OptimizedFilterManager {
   // Clear specific cache
   clearFilterCache(column?: string): void {
     if (column) {
-      const keysToDelete = Array.from(this.optionsCache.keys()).filter(key => 
+      const keysToDelete = Array.from(this.optionsCache.keys()).filter(key =>
         key.startsWith(`options_${column}_`)
       );
       keysToDelete.forEach(key => this.optionsCache.delete(key));
@@ -236,30 +179,3 @@ export class OptimizedFilterManager {
     };
   }
 }
-
-// Optimized filter options for large datasets
-export const getOptimizedFilterOptions = (
-  filterManager: OptimizedFilterManager,
-  targetColumn: string,
-  currentFilters: FilterState = {}
-): string[] => {
-  return filterManager.getFilterOptions(targetColumn, currentFilters);
-};
-
-// Apply optimized filters to data
-export const applyOptimizedFilters = (
-  filterManager: OptimizedFilterManager,
-  filters: FilterState,
-  startIndex: number,
-  endIndex: number
-): DataRow[] => {
-  return filterManager.getFilteredDataRange(startIndex, endIndex, filters);
-};
-
-// Get optimized filtered count
-export const getOptimizedFilteredCount = (
-  filterManager: OptimizedFilterManager,
-  filters: FilterState
-): number => {
-  return filterManager.getFilteredCount(filters);
-}; 
\ No newline at end of file
@@ -0,0 +1,313 @@
+import { Aggregate, AggregateFunction, ColumnConfig, ColumnFilter, DataRow, PivotConfig } from '@/types';
+import {
+  AGGREGATE_FUNCTIONS,
+  AGGREGATE_LABELS,
+  Accumulator,
+  GroupSummary,
+  compareGroupValues,
+  getAggregateKey,
+} from './grouping';
+import { createRowCursor } from './columnStore';
+import { createDateFilter, parseDateValue, toDayKey } from './dateColumns';
+import { createRangeFilter, toNumber } from './filterModel';
+
+export const EMPTY_PIVOT: PivotConfig = { rows: [], columns: [], values: [] };
+
+// More distinct combinations than this on one axis make an unreadable cross-tab
+export const MAX_PIVOT_ROWS = 2000;
+export const MAX_PIVOT_COLUMNS = 200;
+
+export type PivotZone = 'rows' | 'columns' | 'values';
+
+export interface PivotEntry {
+  id: string;
+  // Values from the outermost field; shorter for subtotals, empty for the total
+  path: string[];
+  kind: 'value' | 'subtotal' | 'total';
+}
+
+export interface PivotResult {
+  // Display order, subtotals after their group and the total last
+  rows: PivotEntry[];
+  columns: PivotEntry[];
+  // Keyed by getCellKey; missing when no row falls in the cell
+  cells: Map<string, GroupSummary>;
+  // Set instead of the entries when an axis has too many combinations
+  overflow: { zone: 'rows' | 'columns'; count: number } | null;
+}
+
+// What a cell shows; the row count when no values are chosen
+export interface PivotMeasure {
+  key: string;
+  label: string;
+  fn: AggregateFunction;
+}
+
+const ROW_COUNT = 'rows';
+
+// Each level adds a separator, so prefixes of different depth never collide
+const LEVEL_SEPARATOR = '\u001f';
+const CELL_SEPARATOR = '\u001e';
+
+const isMissing = (value: unknown) => value === null || value === undefined || value === '';
+
+const getValue = (row: DataRow, column: string): string => {
+  const raw = row[column];
+  return isMissing(raw) ? '' : String(raw);
+};
+
+const toId = (path: string[]) => path.map(value => `${LEVEL_SEPARATOR}${value}`).join('');
+
+export const getCellKey = (row: PivotEntry, column: PivotEntry): string => `${row.id}${CELL_SEPARATOR}${column.id}`;
+
+// Text columns can only be counted
+export const getPivotFunctions = (column: ColumnConfig | undefined): AggregateFunction[] => {
+  return column?.type === 'number' ? ['count', ...AGGREGATE_FUNCTIONS] : ['count', 'distinct'];
+};
+
+export const getDefaultPivotFunction = (column: ColumnConfig | undefined): AggregateFunction => {
+  return column?.type === 'number' ? 'sum' : 'count';
+};
+
+export const getPivotMeasures = (config: PivotConfig, labels: Map<string, string>): PivotMeasure[] => {
+  if (config.values.length === 0) return [{ key: ROW_COUNT, label: 'Rows', fn: 'count' }];
+  return config.values.map(value => ({
+    key: getAggregateKey(value),
+    label: `${AGGREGATE_LABELS[value.fn]} of ${labels.get(value.column) ?? value.column}`,
+    fn: value.fn,
+  }));
+};
+
+export const getMeasureValue = (summary: GroupSummary | undefined, measure: PivotMeasure): number | null => {
+  if (!summary) return null;
+  return measure.key === ROW_COUNT ? summary.count : summary.aggregates[measure.key] ?? null;
+};
+
+export const formatPivotValue = (value: string): string => (value === '' ? '(empty)' : value);
+
+export const getEntryLabel = (entry: PivotEntry): string => {
+  if (entry.kind === 'total') return 'Total';
+  const label = entry.path.map(formatPivotValue).join(' › ');
+  return entry.kind === 'subtotal' ? `${label} total` : label;
+};
+
+// Entries for one axis from its distinct value paths
+const buildAxis = (paths: string[][], fields: string[], configs: Map<string, ColumnConfig>): PivotEntry[] => {
+  const entries: PivotEntry[] = [];
+
+  const visit = (group: string[][], prefix: string[]) => {
+    const depth = prefix.length;
+    if (depth === fields.length) {
+      entries.push({ id: toId(prefix), path: prefix, kind: 'value' });
+      return;
+    }
+
+    const byValue = new Map<string, string[][]>();
+    group.forEach(path => {
+      const members = byValue.get(path[depth]);
+      if (members) {
+        members.push(path);
+      } else {
+        byValue.set(path[depth], [path]);
+      }
+    });
+
+    Array.from(byValue.keys())
+      .sort(compareGroupValues(configs.get(fields[depth])))
+      .forEach(value => {
+        const path = [...prefix, value];
+        visit(byValue.get(value)!, path);
+        if (path.length < fields.length) entries.push({ id: toId(path), path, kind: 'subtotal' });
+      });
+  };
+
+  if (fields.length > 0) visit(paths, []);
+  entries.push({ id: '', path: [], kind: 'total' });
+  return entries;
+};
+
+// Cross-tab of the rows at `indices` (every row when null). Each row adds to
+// its cell and to every subtotal and total cell above it.
+export const computePivot = (
+  data: DataRow[],
+  indices: Uint32Array | null,
+  config: PivotConfig,
+  columns: ColumnConfig[]
+): PivotResult => {
+  const rowCount = indices ? indices.length : data.length;
+  // One reused row: every row is fully read before the next one
+  const cursor = createRowCursor(data);
+  const rowAt = (position: number) => {
+    cursor.moveTo(indices ? indices[position] : position);
+    return cursor.row;
+  };
+
+  // Distinct paths first, so an oversized axis is refused before any cell is built
+  const axes = [
+    { zone: 'rows' as const, fields: config.rows, limit: MAX_PIVOT_ROWS, paths: new Map<string, string[]>() },
+    { zone: 'columns' as const, fields: config.columns, limit: MAX_PIVOT_COLUMNS, paths: new Map<string, string[]>() },
+  ];
+  for (let position = 0; position < rowCount; position++) {
+    const row = rowAt(position);
+    for (const axis of axes) {
+      const path = axis.fields.map(field => getValue(row, field));
+      const id = toId(path);
+      if (axis.paths.has(id)) continue;
+      axis.paths.set(id, path);
+      if (axis.paths.size > axis.limit) {
+        return { rows: [], columns: [], cells: new Map(), overflow: { zone: axis.zone, count: axis.paths.size } };
+      }
+    }
+  }
+
+  const accumulators = new Map<string, Accumulator>();
+  const rowIds = new Array<string>(config.rows.length + 1).fill('');
+  const columnIds = new Array<string>(config.columns.length + 1).fill('');
+  for (let position = 0; position < rowCount; position++) {
+    const row = rowAt(position);
+    config.rows.forEach((field, level) => {
+      rowIds[level + 1] = `${rowIds[level]}${LEVEL_SEPARATOR}${getValue(row, field)}`;
+    });
+    config.columns.forEach((field, level) => {
+      columnIds[level + 1] = `${columnIds[level]}${LEVEL_SEPARATOR}${getValue(row, field)}`;
+    });
+
+    for (const rowId of rowIds) {
+      for (const columnId of columnIds) {
+        const key = `${rowId}${CELL_SEPARATOR}${columnId}`;
+        let accumulator = accumulators.get(key);
+        if (!accumulator) {
+          accumulator = new Accumulator(config.values);
+          accumulators.set(key, accumulator);
+        }
+        accumulator.add(row);
+      }
+    }
+  }
+
+  const cells = new Map<string, GroupSummary>();
+  accumulators.forEach((accumulator, key) => {
+    cells.set(key, { count: accumulator.count, aggregates: accumulator.result() });
+  });
+
+  const configs = new Map(columns.map(column => [column.key, column]));
+  return {
+    rows: buildAxis(Array.from(axes[0].paths.values()), config.rows, configs),
+    columns: buildAxis(Array.from(axes[1].paths.values()), config.columns, configs),
+    cells,
+    overflow: null,
+  };
+};
+
+// Filter for one drilled-down value, in the form the field's sidebar control
+// edits (see Dashboard), so it shows there and can be cleared. Date cells
+// become their whole day; missing values only fit a value list.
+const toDrillDownFilter = (
+  value: string,
+  column: ColumnConfig | undefined,
+  getFilterKind: (column: string) => 'range' | 'values'
+): ColumnFilter => {
+  if (value === '' || !column) return [value];
+
+  if (column.type === 'date' && column.dateFormat) {
+    const time = parseDateValue(value, column.dateFormat);
+    if (!Number.isNaN(time)) {
+      const day = toDayKey(time);
+      return createDateFilter(column.dateFormat, { start: day, end: day });
+    }
+  } else if (column.type === 'number' && getFilterKind(column.key) === 'range') {
+    const number = toNumber(value);
+    if (!Number.isNaN(number)) return createRangeFilter(number, number);
+  }
+  return [value];
+};
+
+// Filters isolating a cell's rows: the cell's value for every field on its path
+export const getCellFilters = (
+  config: PivotConfig,
+  row: PivotEntry,
+  column: PivotEntry,
+  columns: ColumnConfig[],
+  getFilterKind: (column: string) => 'range' | 'values'
+): Record<string, ColumnFilter> => {
+  const filters: Record<string, ColumnFilter> = {};
+  const addFilter = (field: string, value: string) => {
+    filters[field] = toDrillDownFilter(value, columns.find(item => item.key === field), getFilterKind);
+  };
+  row.path.forEach((value, level) => addFilter(config.rows[level], value));
+  column.path.forEach((value, level) => addFilter(config.columns[level], value));
+  return filters;
+};
+
+const escapeCsvValue = (value: string): string => {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+};
+
+// One line per row entry: a cell per row field (subtotals and the total are
+// marked "Total"), then one per column entry and measure. Numbers are unformatted.
+export const pivotToCsv = (result: PivotResult, config: PivotConfig, labels: Map<string, string>): string => {
+  const measures = getPivotMeasures(config, labels);
+  const rowFields = config.rows.length > 0 ? config.rows : [''];
+
+  const header = [
+    ...rowFields.map(field => labels.get(field) ?? field),
+    ...result.columns.flatMap(column => measures.map(measure => {
+      if (config.columns.length === 0) return measure.label;
+      return measures.length === 1 ? getEntryLabel(column) : `${getEntryLabel(column)} - ${measure.label}`;
+    })),
+  ];
+
+  const lines = result.rows.map(row => {
+    const rowCells = rowFields.map((_, level) => {
+      if (level < row.path.length) return row.path[level];
+      return level === row.path.length && row.kind !== 'value' ? 'Total' : '';
+    });
+    const valueCells = result.columns.flatMap(column => {
+      const summary = result.cells.get(getCellKey(row, column));
+      return measures.map(measure => {
+        const value = getMeasureValue(summary, measure);
+        return value === null ? '' : String(value);
+      });
+    });
+    return [...rowCells, ...valueCells];
+  });
+
+  return [header, ...lines].map(line => line.map(escapeCsvValue).join(',')).join('\n');
+};
+
+// Adds `column` to a zone at `position` (the end by default). A field is
+// either a row or a column, never both; a repeated value is ignored.
+export const addPivotField = (
+  config: PivotConfig,
+  zone: PivotZone,
+  column: string,
+  fn: AggregateFunction,
+  position?: number
+): PivotConfig => {
+  if (zone === 'values') {
+    if (config.values.some(value => value.column === column && value.fn === fn)) return config;
+    const values = [...config.values];
+    values.splice(position ?? values.length, 0, { column, fn });
+    return { ...config, values };
+  }
+
+  const rows = config.rows.filter(field => field !== column);
+  const columnsZone = config.columns.filter(field => field !== column);
+  const target = zone === 'rows' ? rows : columnsZone;
+  target.splice(Math.min(position ?? target.length, target.length), 0, column);
+  return { ...config, rows, columns: columnsZone };
+};
+
+export const removePivotField = (config: PivotConfig, zone: PivotZone, index: number): PivotConfig => {
+  if (zone === 'values') return { ...config, values: config.values.filter((_, position) => position !== index) };
+  return { ...config, [zone]: config[zone].filter((_, position) => position !== index) };
+};
+
+export const setPivotFunction = (config: PivotConfig, index: number, fn: AggregateFunction): PivotConfig => {
+  const column = config.values[index]?.column;
+  if (config.values.some(value => value.column === column && value.fn === fn)) return config;
+  return {
+    ...config,
+    values: config.values.map((value: Aggregate, position) => (position === index ? { ...value, fn } : value)),
+  };
+};
@@ -0,0 +1,177 @@
+import { SavedView, SavedViewSettings } from '@/types';
+import { createViewState, parseViewSettings, sanitizeViewState } from './viewState';
+
+const DB_NAME = 'bi-dashboard';
+const DB_VERSION = 1;
+const STORE_NAME = 'savedViews';
+
+const EXPORT_FORMAT = 'bi-dashboard-views';
+const EXPORT_VERSION = 1;
+
+interface SavedViewsFile {
+  format: typeof EXPORT_FORMAT;
+  version: number;
+  columns: string[];
+  views: Array<Pick<SavedView, 'name' | 'settings' | 'createdAt' | 'updatedAt'>>;
+}
+
+export interface SavedViewsImport {
+  views: SavedView[];
+  skipped: number;
+}
+
+// FNV-1a over the column names: datasets with the same columns share views
+export const getSchemaKey = (columns: string[]): string => {
+  let hash = 0x811c9dc5;
+  const text = columns.join('\u0000');
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return `schema-${(hash >>> 0).toString(36)}`;
+};
+
+const createViewId = (): string => {
+  if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
+    return crypto.randomUUID();
+  }
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+};
+
+export const createSavedView = (name: string, schemaKey: string, settings: SavedViewSettings): SavedView => {
+  const now = new Date().toISOString();
+  return {
+    id: createViewId(),
+    name: name.trim(),
+    schemaKey,
+    settings,
+    createdAt: now,
+    updatedAt: now,
+  };
+};
+
+// Settings trimmed to the columns of the loaded dataset
+export const resolveViewSettings = (settings: SavedViewSettings, columns: string[]): SavedViewSettings => {
+  const { widths, pinned, ...view } = settings;
+  const { filters, expression, sort, visibleColumns } = sanitizeViewState({ ...createViewState(), ...view }, columns);
+  const known = new Set(columns);
+  return {
+    filters,
+    expression,
+    sort,
+    visibleColumns,
+    widths: Object.fromEntries(Object.entries(widths).filter(([column]) => known.has(column))),
+    pinned: pinned.filter(column => known.has(column)),
+  };
+};
+
+// One shared connection; a failed open is retried on the next call
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (databasePromise) return databasePromise;
+
+  databasePromise = new Promise<IDBDatabase>((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('Saved views need IndexedDB, which this browser does not provide'));
+      return;
+    }
+
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const store = request.result.createObjectStore(STORE_NAME, { keyPath: 'id' });
+      store.createIndex('schemaKey', 'schemaKey', { unique: false });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error ?? new Error('Unable to open saved views storage'));
+  });
+
+  databasePromise.catch(() => {
+    databasePromise = null;
+  });
+  return databasePromise;
+};
+
+const transactionDone = (transaction: IDBTransaction): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error ?? new Error('Saved views transaction failed'));
+    transaction.onabort = () => reject(transaction.error ?? new Error('Saved views transaction was aborted'));
+  });
+};
+
+export const listSavedViews = async (schemaKey: string): Promise<SavedView[]> => {
+  const database = await openDatabase();
+  const transaction = database.transaction(STORE_NAME, 'readonly');
+  const request = transaction.objectStore(STORE_NAME).index('schemaKey').getAll(schemaKey);
+
+  const views = await new Promise<SavedView[]>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result as SavedView[]);
+    request.onerror = () => reject(request.error ?? new Error('Unable to read saved views'));
+  });
+
+  // Skip records that no longer match the current settings shape; older
+  // records come back with the fields they lack filled in
+  return views
+    .flatMap(view => {
+      const settings = parseViewSettings(view.settings);
+      return settings ? [{ ...view, settings }] : [];
+    })
+    .sort((a, b) => a.name.localeCompare(b.name));
+};
+
+export const putSavedViews = async (views: SavedView[]): Promise<void> => {
+  const database = await openDatabase();
+  const transaction = database.transaction(STORE_NAME, 'readwrite');
+  const store = transaction.objectStore(STORE_NAME);
+  views.forEach(view => store.put(view));
+  await transactionDone(transaction);
+};
+
+export const deleteSavedView = async (id: string): Promise<void> => {
+  const database = await openDatabase();
+  const transaction = database.transaction(STORE_NAME, 'readwrite');
+  transaction.objectStore(STORE_NAME).delete(id);
+  await transactionDone(transaction);
+};
+
+export const serializeSavedViews = (views: SavedView[], columns: string[]): string => {
+  const file: SavedViewsFile = {
+    format: EXPORT_FORMAT,
+    version: EXPORT_VERSION,
+    columns,
+    views: views.map(({ name, settings, createdAt, updatedAt }) => ({ name, settings, createdAt, updatedAt })),
+  };
+  return JSON.stringify(file, null, 2);
+};
+
+// Imported views are re-keyed to the current schema; invalid entries are counted, not fatal
+export const parseSavedViewsFile = (text: string, schemaKey: string, columns: string[]): SavedViewsImport => {
+  let file: Partial<SavedViewsFile>;
+  try {
+    file = JSON.parse(text);
+  } catch {
+    throw new Error('The file is not valid JSON');
+  }
+
+  if (!file || file.format !== EXPORT_FORMAT || !Array.isArray(file.views)) {
+    throw new Error('The file is not a saved views export');
+  }
+  if (typeof file.version !== 'number' || file.version > EXPORT_VERSION) {
+    throw new Error('The file was exported by a newer version of the dashboard');
+  }
+
+  const views: SavedView[] = [];
+  let skipped = 0;
+
+  file.views.forEach(entry => {
+    const settings = parseViewSettings(entry?.settings);
+    if (!settings || typeof entry.name !== 'string' || entry.name.trim() === '') {
+      skipped++;
+      return;
+    }
+    views.push(createSavedView(entry.name, schemaKey, resolveViewSettings(settings, columns)));
+  });
+
+  return { views, skipped };
+};
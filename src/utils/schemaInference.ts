@@ -0,0 +1,141 @@
+import { ColumnConfig, ColumnSchema, DataRow, InferredType } from '@/types';
+import { detectDateFormat, parseDateValue } from './dateColumns';
+import { DatasetCache } from './cacheRegistry';
+
+// Column types for the whole app: getColumnConfigs and the filter indices
+// both read them from here, so every part agrees on what a column holds.
+
+export interface SchemaSampleOptions {
+  // Leading rows, which usually show the intended shape of the file
+  headRows: number;
+  // Rows drawn from the rest, so a column that changes further down is noticed
+  randomRows: number;
+}
+
+export const DEFAULT_SAMPLE_OPTIONS: SchemaSampleOptions = { headRows: 100, randomRows: 400 };
+
+export const INFERRED_TYPE_LABELS: Record<InferredType, string> = {
+  integer: 'Integer',
+  float: 'Decimal',
+  boolean: 'Boolean',
+  date: 'Date',
+  categorical: 'Categorical',
+  text: 'Free text',
+};
+
+// Share of the present sampled values that must parse for a typed column;
+// the same bar detectDateFormat sets for dates
+const MIN_TYPE_RATIO = 0.9;
+
+// String columns where at least this share of the sampled values occurs only
+// once are free text rather than categories
+const MIN_UNIQUE_RATIO = 0.5;
+
+const BOOLEAN_VALUES = new Set(['true', 'false', 'yes', 'no']);
+
+const schemaCache = new DatasetCache<ColumnSchema[]>('schema');
+
+const isMissing = (value: unknown) => value === null || value === undefined || value === '';
+
+const isBooleanValue = (value: unknown) => {
+  return typeof value === 'boolean' || BOOLEAN_VALUES.has(String(value).trim().toLowerCase());
+};
+
+const toNumber = (value: unknown): number => {
+  if (typeof value === 'number') return value;
+  const text = String(value).trim();
+  return text === '' ? NaN : Number(text);
+};
+
+// Seeded, so the worker and the page sample the same rows of a dataset
+const createRandom = (seed: number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = Math.imul(state ^ (state >>> 15), state | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+// Head rows plus distinct random rows from the rest, ascending
+export const getSampleIndices = (rowCount: number, options: SchemaSampleOptions = DEFAULT_SAMPLE_OPTIONS): number[] => {
+  const headCount = Math.min(rowCount, options.headRows);
+  if (rowCount - headCount <= options.randomRows) {
+    return Array.from({ length: rowCount }, (_, index) => index);
+  }
+
+  const random = createRandom(rowCount);
+  const picked = new Set<number>();
+  while (picked.size < options.randomRows) {
+    picked.add(headCount + Math.floor(random() * (rowCount - headCount)));
+  }
+  const rest = Array.from(picked).sort((a, b) => a - b);
+  return [...Array.from({ length: headCount }, (_, index) => index), ...rest];
+};
+
+// Type of one column from its sampled values. Confidence is the share of the
+// present values that fit: parseable ones for typed columns, values seen more
+// than once for categories and values seen once for free text.
+export const inferColumnSchema = (key: string, values: unknown[]): ColumnSchema => {
+  const present = values.filter(value => !isMissing(value));
+  const base = { key, sampleSize: values.length, presentCount: present.length, dateFormat: null };
+  if (present.length === 0) {
+    return { ...base, inferredType: 'categorical', confidence: 0 };
+  }
+  const share = (count: number) => count / present.length;
+
+  // Dates first: epoch columns would otherwise count as numbers
+  const dateFormat = detectDateFormat(present, key);
+  if (dateFormat) {
+    const parsed = present.filter(value => !Number.isNaN(parseDateValue(value, dateFormat))).length;
+    return { ...base, dateFormat, inferredType: 'date', confidence: share(parsed) };
+  }
+
+  const booleanCount = present.filter(isBooleanValue).length;
+  if (share(booleanCount) >= MIN_TYPE_RATIO) {
+    return { ...base, inferredType: 'boolean', confidence: share(booleanCount) };
+  }
+
+  const numbers = present.map(toNumber).filter(Number.isFinite);
+  if (share(numbers.length) >= MIN_TYPE_RATIO) {
+    return {
+      ...base,
+      inferredType: numbers.every(Number.isInteger) ? 'integer' : 'float',
+      confidence: share(numbers.length),
+    };
+  }
+
+  const counts = new Map<string, number>();
+  present.forEach(value => {
+    const text = String(value);
+    counts.set(text, (counts.get(text) ?? 0) + 1);
+  });
+  let uniqueCount = 0;
+  counts.forEach(count => {
+    if (count === 1) uniqueCount++;
+  });
+  const uniqueShare = share(uniqueCount);
+  return uniqueShare >= MIN_UNIQUE_RATIO
+    ? { ...base, inferredType: 'text', confidence: uniqueShare }
+    : { ...base, inferredType: 'categorical', confidence: 1 - uniqueShare };
+};
+
+export const inferSchema = (data: DataRow[], options: SchemaSampleOptions = DEFAULT_SAMPLE_OPTIONS): ColumnSchema[] => {
+  if (data.length === 0) return [];
+
+  const cacheKey = `${options.headRows}:${options.randomRows}`;
+  const cached = schemaCache.get(data, cacheKey);
+  if (cached) return cached;
+
+  const sample = getSampleIndices(data.length, options).map(index => data[index]);
+  const schema = Object.keys(data[0]).map(key => inferColumnSchema(key, sample.map(row => row[key])));
+  schemaCache.set(data, cacheKey, schema);
+  return schema;
+};
+
+export const toColumnType = (inferredType: InferredType): ColumnConfig['type'] => {
+  if (inferredType === 'integer' || inferredType === 'float') return 'number';
+  if (inferredType === 'boolean' || inferredType === 'date') return inferredType;
+  return 'string';
+};
@@ -0,0 +1,117 @@
+import { ColumnConfig, SchemaOverride, SchemaOverrides } from '@/types';
+
+const STORAGE_PREFIX = 'bi-dashboard:schema-overrides:';
+
+const COLUMN_TYPES: ColumnConfig['type'][] = ['number', 'string', 'boolean', 'date'];
+
+export const COLUMN_TYPE_LABELS: Record<ColumnConfig['type'], string> = {
+  number: 'Number',
+  string: 'Text',
+  boolean: 'Boolean',
+  date: 'Date',
+};
+
+// Types a column can be switched to; dates need a format found while inferring
+export const getAllowedTypes = (column: ColumnConfig): ColumnConfig['type'][] => {
+  return column.dateFormat ? COLUMN_TYPES : COLUMN_TYPES.filter(type => type !== 'date');
+};
+
+// The inferred columns with the user's changes on top. A column that stops
+// being a date drops its format, so it is shown and filtered as plain values.
+export const applySchemaOverrides = (columns: ColumnConfig[], overrides: SchemaOverrides): ColumnConfig[] => {
+  if (Object.keys(overrides).length === 0) return columns;
+
+  return columns.map(column => {
+    const override = overrides[column.key];
+    if (!override) return column;
+
+    const type = override.type && getAllowedTypes(column).includes(override.type) ? override.type : column.type;
+    const { dateFormat, ...rest } = column;
+    return {
+      ...rest,
+      ...(type === 'date' ? { dateFormat } : {}),
+      type,
+      label: override.label ?? column.label,
+      filterable: override.filterable ?? column.filterable,
+    };
+  });
+};
+
+// Overridden column types only; part of the sort key, since they change the order
+export const getTypeOverrides = (overrides: SchemaOverrides): Record<string, ColumnConfig['type']> => {
+  const types: Record<string, ColumnConfig['type']> = {};
+  Object.entries(overrides).forEach(([column, override]) => {
+    if (override.type) types[column] = override.type;
+  });
+  return types;
+};
+
+// Identity of the type overrides; the filter indices are rebuilt when it changes
+export const getTypeOverridesKey = (overrides: SchemaOverrides): string => {
+  return Object.entries(getTypeOverrides(overrides))
+    .map(([column, type]) => `${column}:${type}`)
+    .sort()
+    .join('|');
+};
+
+// Merges `changes` into the column's override. Values that match the inferred
+// column are dropped, so resetting a field just removes it.
+export const updateSchemaOverride = (
+  overrides: SchemaOverrides,
+  column: ColumnConfig,
+  changes: SchemaOverride
+): SchemaOverrides => {
+  const merged = { ...overrides[column.key], ...changes };
+  const override: SchemaOverride = {};
+  if (merged.type !== undefined && merged.type !== column.type) override.type = merged.type;
+  const label = merged.label?.trim();
+  if (label && label !== column.label) override.label = label;
+  if (merged.filterable !== undefined && merged.filterable !== column.filterable) override.filterable = merged.filterable;
+
+  const next = { ...overrides };
+  if (Object.keys(override).length > 0) {
+    next[column.key] = override;
+  } else {
+    delete next[column.key];
+  }
+  return next;
+};
+
+const parseSchemaOverrides = (value: unknown): SchemaOverrides => {
+  const overrides: SchemaOverrides = {};
+  if (!value || typeof value !== 'object') return overrides;
+
+  Object.entries(value as Record<string, unknown>).forEach(([column, raw]) => {
+    if (!raw || typeof raw !== 'object') return;
+    const entry = raw as Record<string, unknown>;
+    const override: SchemaOverride = {};
+    if (COLUMN_TYPES.includes(entry.type as ColumnConfig['type'])) override.type = entry.type as ColumnConfig['type'];
+    if (typeof entry.label === 'string' && entry.label.trim() !== '') override.label = entry.label;
+    if (typeof entry.filterable === 'boolean') override.filterable = entry.filterable;
+    if (Object.keys(override).length > 0) overrides[column] = override;
+  });
+  return overrides;
+};
+
+// Overrides live in localStorage under the dataset's schema key (see getSchemaKey),
+// like the column layout
+export const loadSchemaOverrides = (schemaKey: string): SchemaOverrides => {
+  try {
+    const stored = localStorage.getItem(`${STORAGE_PREFIX}${schemaKey}`);
+    return stored ? parseSchemaOverrides(JSON.parse(stored)) : {};
+  } catch {
+    return {};
+  }
+};
+
+export const saveSchemaOverrides = (schemaKey: string, overrides: SchemaOverrides): void => {
+  try {
+    if (Object.keys(overrides).length === 0) {
+      localStorage.removeItem(`${STORAGE_PREFIX}${schemaKey}`);
+    } else {
+      localStorage.setItem(`${STORAGE_PREFIX}${schemaKey}`, JSON.stringify(overrides));
+    }
+  } catch (error) {
+    console.warn('Unable to save schema overrides:', error);
+  }
+};
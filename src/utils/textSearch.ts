@@ -0,0 +1,185 @@
+// Free-text search: `north 42` needs both words somewhere in the row,
+// `"Category C"` matches the phrase as written and `status:Active` only looks
+// in one column. Matching is case-insensitive substring matching on the
+// cell value as text.
+
+export interface SearchTerm {
+  text: string; // lowercased
+  column: string | null;
+}
+
+const GRAM_SIZE = 3;
+
+// column:"quoted phrase" | column:word | "quoted phrase" | word
+const TOKEN_PATTERN = /(?:([^\s:"]+):)?(?:"([^"]*)"?|(\S+))/g;
+
+export const normalizeSearch = (search: string | null | undefined): string => {
+  return (search ?? '').trim().replace(/\s+/g, ' ');
+};
+
+// Column prefixes are matched case-insensitively against the known columns;
+// anything else (`http://...`, `10:30`) is searched as plain text
+export const parseSearchQuery = (search: string | null | undefined, columns: string[]): SearchTerm[] => {
+  const columnsByName = new Map(columns.map(column => [column.toLowerCase(), column]));
+  const terms: SearchTerm[] = [];
+
+  for (const match of normalizeSearch(search).matchAll(TOKEN_PATTERN)) {
+    const [token, prefix, phrase, word] = match;
+    const column = prefix ? columnsByName.get(prefix.toLowerCase()) ?? null : null;
+    const text = prefix && !column ? token.replace(/"/g, '') : (phrase ?? word ?? '');
+    if (text.trim() !== '') {
+      terms.push({ text: text.toLowerCase(), column });
+    }
+  }
+
+  return terms;
+};
+
+const getGrams = (text: string): string[] => {
+  const grams = new Set<string>();
+  for (let i = 0; i + GRAM_SIZE <= text.length; i++) {
+    grams.add(text.slice(i, i + GRAM_SIZE));
+  }
+  return Array.from(grams);
+};
+
+// Ascending id lists; walks the shorter one
+const intersectSorted = (a: Uint32Array, b: Uint32Array): Uint32Array => {
+  const [smaller, larger] = a.length < b.length ? [a, b] : [b, a];
+  const result = new Uint32Array(smaller.length);
+  let count = 0;
+  let j = 0;
+  for (let i = 0; i < smaller.length; i++) {
+    while (j < larger.length && larger[j] < smaller[i]) j++;
+    if (j < larger.length && larger[j] === smaller[i]) result[count++] = smaller[i];
+  }
+  return result.slice(0, count);
+};
+
+export interface TextMatch {
+  column: string;
+  value: string;
+}
+
+// Trigram index over the distinct values of each column. Terms of three or
+// more characters only verify the values sharing all their trigrams; shorter
+// terms check every distinct value, which is still far fewer than rows.
+export class TextIndex {
+  private values: TextMatch[] = [];
+  private lowerValues: string[] = [];
+  private columnRanges = new Map<string, [number, number]>();
+  private grams = new Map<string, Uint32Array>();
+
+  constructor(columns: Map<string, Iterable<string>>) {
+    const postings = new Map<string, number[]>();
+
+    columns.forEach((values, column) => {
+      const start = this.values.length;
+      for (const value of values) {
+        const id = this.values.length;
+        const lower = value.toLowerCase();
+        this.values.push({ column, value });
+        this.lowerValues.push(lower);
+
+        getGrams(lower).forEach(gram => {
+          let ids = postings.get(gram);
+          if (!ids) {
+            ids = [];
+            postings.set(gram, ids);
+          }
+          ids.push(id);
+        });
+      }
+      this.columnRanges.set(column, [start, this.values.length]);
+    });
+
+    // Ids were handed out in order, so every posting list is already sorted
+    postings.forEach((ids, gram) => this.grams.set(gram, Uint32Array.from(ids)));
+  }
+
+  // Distinct column values containing the term
+  match(term: SearchTerm): TextMatch[] {
+    const [start, end] = term.column !== null
+      ? this.columnRanges.get(term.column) ?? [0, 0]
+      : [0, this.values.length];
+    const matches: TextMatch[] = [];
+
+    const check = (id: number) => {
+      if (id >= start && id < end && this.lowerValues[id].includes(term.text)) {
+        matches.push(this.values[id]);
+      }
+    };
+
+    if (term.text.length < GRAM_SIZE) {
+      for (let id = start; id < end; id++) check(id);
+      return matches;
+    }
+
+    let candidates: Uint32Array | null = null;
+    for (const gram of getGrams(term.text)) {
+      const ids = this.grams.get(gram);
+      if (!ids) return matches;
+      candidates = candidates === null ? ids : intersectSorted(candidates, ids);
+      if (candidates.length === 0) return matches;
+    }
+
+    candidates?.forEach(check);
+    return matches;
+  }
+}
+
+// Row-by-row check for engines without a TextIndex: every term has to be
+// contained in one of the row's values (or in its column's, when scoped)
+export const matchesSearchTerms = (row: Record<string, unknown>, terms: SearchTerm[]): boolean => {
+  return terms.every(term => {
+    const contains = (value: unknown) => String(value).toLowerCase().includes(term.text);
+    return term.column !== null ? contains(row[term.column]) : Object.values(row).some(contains);
+  });
+};
+
+export interface HighlightSegment {
+  text: string;
+  isMatch: boolean;
+}
+
+// Split cell text into plain and matched runs for the terms that apply to the column
+export const getHighlightSegments = (text: string, terms: SearchTerm[], column: string): HighlightSegment[] => {
+  const lower = text.toLowerCase();
+  const ranges: [number, number][] = [];
+
+  terms.forEach(term => {
+    if (term.column !== null && term.column !== column) return;
+    let position = lower.indexOf(term.text);
+    while (position !== -1) {
+      ranges.push([position, position + term.text.length]);
+      position = lower.indexOf(term.text, position + 1);
+    }
+  });
+
+  if (ranges.length === 0) return [{ text, isMatch: false }];
+
+  // Merge overlapping matches so every character is emitted once
+  ranges.sort((a, b) => a[0] - b[0]);
+  const segments: HighlightSegment[] = [];
+  let cursor = 0;
+  let [runStart, runEnd] = ranges[0];
+
+  const flush = () => {
+    if (runStart > cursor) segments.push({ text: text.slice(cursor, runStart), isMatch: false });
+    segments.push({ text: text.slice(runStart, runEnd), isMatch: true });
+    cursor = runEnd;
+  };
+
+  ranges.slice(1).forEach(([start, end]) => {
+    if (start <= runEnd) {
+      runEnd = Math.max(runEnd, end);
+    } else {
+      flush();
+      [runStart, runEnd] = [start, end];
+    }
+  });
+  flush();
+
+  if (cursor < text.length) segments.push({ text: text.slice(cursor), isMatch: false });
+  return segments;
+};
@@ -0,0 +1,354 @@
+import {
+  ColumnFilter,
+  DateFilter,
+  FilterExpression,
+  FilterState,
+  RangeFilter,
+  SavedViewSettings,
+  SortKey,
+  SortState,
+  TextFilter,
+  ViewState,
+} from '@/types';
+import {
+  TEXT_OPERATOR_LABELS,
+  createRangeFilter,
+  createTextFilter,
+  getActiveFilters,
+  isDateFilter,
+  isRangeFilter,
+  isTextFilter,
+} from './filterModel';
+import { DATE_PRESET_LABELS, createDateFilter, parseDayKey } from './dateColumns';
+import { normalizeExpression } from './filterExpression';
+import { parseColumnWidths } from './columnLayout';
+
+// Query string layout:
+//   dataset=<id>
+//   f.<column>=<value>   repeated, one per selected value
+//   r.<column>=[10,500)  numeric range in interval notation, open ends left empty
+//   t.<column>=contains:i:north   text predicate: operator, i/c for case, pattern
+//   d.<column>=iso:2024-01-01..2024-03-31:m=0,1:w=6,0
+//                        date format, preset name or day range, optional months / weekdays
+//   q=<json>             query builder expression
+//   sort=<column>:<asc|desc>  repeated, primary key first
+//   page=<n>&size=<n>
+//   col=<column>         repeated, visible columns in display order
+const VALUES_PREFIX = 'f.';
+const RANGE_PREFIX = 'r.';
+const TEXT_PREFIX = 't.';
+const DATE_PREFIX = 'd.';
+const DATE_FORMATS: DateFilter['format'][] = ['iso', 'mdy', 'dmy', 'text', 'epoch-s', 'epoch-ms'];
+
+export const DEFAULT_SORT: SortState = [];
+
+export const createViewState = (datasetId: string | null = null): ViewState => ({
+  datasetId,
+  filters: {},
+  expression: null,
+  sort: DEFAULT_SORT,
+  page: 1,
+  pageSize: null,
+  visibleColumns: null,
+});
+
+export const formatInterval = (range: RangeFilter): string => {
+  return `${range.includeMin ? '[' : '('}${range.min ?? ''},${range.max ?? ''}${range.includeMax ? ']' : ')'}`;
+};
+
+export const parseInterval = (text: string): RangeFilter | null => {
+  const match = /^([[(])([^,]*),([^,]*)([\])])$/.exec(text.trim());
+  if (!match) return null;
+
+  const parseBound = (bound: string): number | null | undefined => {
+    if (bound === '') return null;
+    const value = Number(bound);
+    return Number.isFinite(value) ? value : undefined;
+  };
+
+  const min = parseBound(match[2]);
+  const max = parseBound(match[3]);
+  if (min === undefined || max === undefined) return null;
+
+  return createRangeFilter(min, max, match[1] === '[', match[4] === ']');
+};
+
+const isTextOperator = (value: unknown): value is TextFilter['operator'] => {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(TEXT_OPERATOR_LABELS, value);
+};
+
+export const formatTextParam = (filter: TextFilter): string => {
+  return `${filter.operator}:${filter.caseSensitive ? 'c' : 'i'}:${filter.value}`;
+};
+
+// The pattern may contain colons itself, so only the first two separate fields
+export const parseTextParam = (text: string): TextFilter | null => {
+  const match = /^([^:]+):([ic]):([\s\S]*)$/.exec(text);
+  if (!match || !isTextOperator(match[1]) || match[3] === '') return null;
+  return createTextFilter(match[1], match[3], match[2] === 'c');
+};
+
+const isDatePreset = (value: unknown): value is NonNullable<DateFilter['preset']> => {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(DATE_PRESET_LABELS, value);
+};
+
+const isDayList = (value: unknown, max: number): value is number[] => {
+  return Array.isArray(value) && value.every(item => Number.isInteger(item) && item >= 0 && item <= max);
+};
+
+export const formatDateParam = (filter: DateFilter): string => {
+  const parts: string[] = [filter.format, filter.preset ?? `${filter.start ?? ''}..${filter.end ?? ''}`];
+  if (filter.months.length > 0) parts.push(`m=${filter.months.join(',')}`);
+  if (filter.weekdays.length > 0) parts.push(`w=${filter.weekdays.join(',')}`);
+  return parts.join(':');
+};
+
+export const parseDateParam = (text: string): DateFilter | null => {
+  const [format, range, ...lists] = text.split(':');
+  if (!DATE_FORMATS.includes(format as DateFilter['format']) || range === undefined) return null;
+
+  const filter = createDateFilter(format as DateFilter['format']);
+  if (isDatePreset(range)) {
+    filter.preset = range;
+  } else {
+    const [start, end, extra] = range.split('..');
+    if (end === undefined || extra !== undefined) return null;
+    if ((start !== '' && parseDayKey(start) === null) || (end !== '' && parseDayKey(end) === null)) return null;
+    filter.start = start || null;
+    filter.end = end || null;
+  }
+
+  for (const list of lists) {
+    const values = list.slice(2).split(',').filter(Boolean).map(Number);
+    if (list.startsWith('m=') && isDayList(values, 11)) {
+      filter.months = values;
+    } else if (list.startsWith('w=') && isDayList(values, 6)) {
+      filter.weekdays = values;
+    } else {
+      return null;
+    }
+  }
+  return filter;
+};
+
+const parsePositiveInt = (text: string | null): number | null => {
+  if (text === null) return null;
+  const value = Number(text);
+  return Number.isInteger(value) && value > 0 ? value : null;
+};
+
+const isColumnFilter = (value: unknown): value is ColumnFilter => {
+  if (Array.isArray(value)) return value.every(item => typeof item === 'string');
+  if (!value || typeof value !== 'object') return false;
+
+  const filter = value as Record<string, unknown>;
+  if (filter.type === 'text') {
+    return isTextOperator(filter.operator) && typeof filter.value === 'string' && typeof filter.caseSensitive === 'boolean';
+  }
+  if (filter.type === 'date') {
+    const isDay = (day: unknown) => day === null || (typeof day === 'string' && parseDayKey(day) !== null);
+    return DATE_FORMATS.includes(filter.format as DateFilter['format'])
+      && (filter.preset === null || isDatePreset(filter.preset))
+      && isDay(filter.start)
+      && isDay(filter.end)
+      && isDayList(filter.months, 11)
+      && isDayList(filter.weekdays, 6);
+  }
+
+  const isBound = (bound: unknown) => bound === null || (typeof bound === 'number' && Number.isFinite(bound));
+  return filter.type === 'range'
+    && isBound(filter.min)
+    && isBound(filter.max)
+    && typeof filter.includeMin === 'boolean'
+    && typeof filter.includeMax === 'boolean';
+};
+
+// Hand-edited or stale links shouldn't be able to crash the reducer
+const isFilterExpression = (value: unknown): value is FilterExpression => {
+  if (!value || typeof value !== 'object') return false;
+
+  const node = value as Record<string, unknown>;
+  switch (node.type) {
+    case 'condition':
+      return typeof node.column === 'string' && isColumnFilter(node.filter);
+    case 'not':
+      return isFilterExpression(node.child);
+    case 'and':
+    case 'or':
+      return Array.isArray(node.children) && node.children.every(isFilterExpression);
+    default:
+      return false;
+  }
+};
+
+const parseExpression = (text: string | null): FilterExpression | null => {
+  if (!text) return null;
+  try {
+    const value: unknown = JSON.parse(text);
+    return isFilterExpression(value) ? normalizeExpression(value) : null;
+  } catch {
+    return null;
+  }
+};
+
+export const serializeViewState = (view: ViewState): URLSearchParams => {
+  const params = new URLSearchParams();
+
+  if (view.datasetId) params.set('dataset', view.datasetId);
+
+  getActiveFilters(view.filters).forEach(([column, filter]) => {
+    if (isRangeFilter(filter)) {
+      params.set(`${RANGE_PREFIX}${column}`, formatInterval(filter));
+    } else if (isTextFilter(filter)) {
+      params.set(`${TEXT_PREFIX}${column}`, formatTextParam(filter));
+    } else if (isDateFilter(filter)) {
+      params.set(`${DATE_PREFIX}${column}`, formatDateParam(filter));
+    } else {
+      filter.forEach(value => params.append(`${VALUES_PREFIX}${column}`, value));
+    }
+  });
+
+  const expression = normalizeExpression(view.expression);
+  if (expression) params.set('q', JSON.stringify(expression));
+
+  view.sort.forEach(key => params.append('sort', `${key.column}:${key.direction}`));
+
+  if (view.page > 1) params.set('page', String(view.page));
+  if (view.pageSize !== null) params.set('size', String(view.pageSize));
+
+  view.visibleColumns?.forEach(column => params.append('col', column));
+
+  return params;
+};
+
+export const parseViewState = (params: URLSearchParams): ViewState => {
+  const filters: FilterState = {};
+
+  params.forEach((value, key) => {
+    if (key.startsWith(VALUES_PREFIX)) {
+      const column = key.slice(VALUES_PREFIX.length);
+      const values = filters[column];
+      filters[column] = Array.isArray(values) ? [...values, value] : [value];
+    } else if (key.startsWith(RANGE_PREFIX)) {
+      const range = parseInterval(value);
+      if (range) filters[key.slice(RANGE_PREFIX.length)] = range;
+    } else if (key.startsWith(TEXT_PREFIX)) {
+      const text = parseTextParam(value);
+      if (text) filters[key.slice(TEXT_PREFIX.length)] = text;
+    } else if (key.startsWith(DATE_PREFIX)) {
+      const date = parseDateParam(value);
+      if (date) filters[key.slice(DATE_PREFIX.length)] = date;
+    }
+  });
+
+  // "column:dir" - split on the last colon, column names may contain one
+  const sort: SortState = [];
+  params.getAll('sort').forEach(sortParam => {
+    const separator = sortParam.lastIndexOf(':');
+    const column = sortParam.slice(0, separator);
+    const direction = sortParam.slice(separator + 1);
+    if (separator > 0 && (direction === 'asc' || direction === 'desc') && !sort.some(key => key.column === column)) {
+      sort.push({ column, direction });
+    }
+  });
+
+  const visibleColumns = params.getAll('col');
+
+  return {
+    datasetId: params.get('dataset'),
+    filters,
+    expression: parseExpression(params.get('q')),
+    sort,
+    page: parsePositiveInt(params.get('page')) ?? 1,
+    pageSize: parsePositiveInt(params.get('size')),
+    visibleColumns: visibleColumns.length > 0 ? visibleColumns : null,
+  };
+};
+
+const isStringArray = (value: unknown): value is string[] => {
+  return Array.isArray(value) && value.every(item => typeof item === 'string');
+};
+
+const isSortKey = (value: unknown): value is SortKey => {
+  if (!value || typeof value !== 'object') return false;
+  const key = value as Record<string, unknown>;
+  return typeof key.column === 'string' && (key.direction === 'asc' || key.direction === 'desc');
+};
+
+// Views saved before multi-column sorting stored a single { column, direction }
+const parseSortState = (value: unknown): SortState | null => {
+  if (Array.isArray(value)) return value.every(isSortKey) ? value : null;
+  if (!value || typeof value !== 'object') return null;
+
+  const legacy = value as Record<string, unknown>;
+  if (legacy.column === null || legacy.direction === null) return [];
+  return isSortKey(legacy) ? [{ column: legacy.column, direction: legacy.direction }] : null;
+};
+
+// Validate settings read back from storage or an imported file
+export const parseViewSettings = (value: unknown): SavedViewSettings | null => {
+  if (!value || typeof value !== 'object') return null;
+  const settings = value as Record<string, unknown>;
+
+  if (!settings.filters || typeof settings.filters !== 'object' || Array.isArray(settings.filters)) return null;
+  if (!Object.values(settings.filters).every(isColumnFilter)) return null;
+  if (settings.expression !== null && !isFilterExpression(settings.expression)) return null;
+  const sort = parseSortState(settings.sort);
+  if (!sort) return null;
+
+  const { visibleColumns } = settings;
+  if (visibleColumns !== null && !isStringArray(visibleColumns)) return null;
+
+  // Views saved before widths and pins were part of a view restore the defaults
+  const widths = settings.widths === undefined ? {} : parseColumnWidths(settings.widths);
+  if (!widths) return null;
+  const pinned = settings.pinned === undefined ? [] : settings.pinned;
+  if (!isStringArray(pinned)) return null;
+
+  return {
+    filters: settings.filters as FilterState,
+    expression: normalizeExpression(settings.expression as FilterExpression | null),
+    sort,
+    visibleColumns: visibleColumns as string[] | null,
+    widths,
+    pinned,
+  };
+};
+
+const collectExpressionColumns = (expression: FilterExpression, columns: Set<string>): Set<string> => {
+  switch (expression.type) {
+    case 'condition':
+      columns.add(expression.column);
+      break;
+    case 'not':
+      collectExpressionColumns(expression.child, columns);
+      break;
+    default:
+      expression.children.forEach(child => collectExpressionColumns(child, columns));
+  }
+  return columns;
+};
+
+// Drop anything that refers to columns the loaded dataset doesn't have
+export const sanitizeViewState = (view: ViewState, columns: string[]): ViewState => {
+  const known = new Set(columns);
+
+  const filters = Object.fromEntries(
+    Object.entries(view.filters).filter(([column]) => known.has(column))
+  );
+
+  const expressionColumns = view.expression ? collectExpressionColumns(view.expression, new Set()) : new Set<string>();
+  const expression = Array.from(expressionColumns).every(column => known.has(column)) ? view.expression : null;
+
+  const sort = view.sort.filter(key => known.has(key.column));
+
+  const visibleColumns = view.visibleColumns?.filter(column => known.has(column)) ?? null;
+
+  return {
+    ...view,
+    filters,
+    expression,
+    sort,
+    visibleColumns: visibleColumns && visibleColumns.length > 0 ? visibleColumns : null,
+  };
+};
@@ -0,0 +1,32 @@
+import type { CSVData } from '@/utils/csvParser';
+import { CSVParseProgress, CSVStreamSummary, streamCSV } from '@/utils/csvStream';
+
+// Message protocol between parseCSVFile() and this worker
+// Cancellation terminates the worker, so parse is the only request
+export type CSVWorkerRequest = { type: 'parse'; file: Blob };
+
+export type CSVWorkerResponse =
+  | { type: 'rows'; rows: CSVData[] }
+  | { type: 'progress'; progress: CSVParseProgress }
+  | { type: 'complete'; summary: CSVStreamSummary }
+  | { type: 'error'; message: string };
+
+const ctx = self as unknown as Worker;
+
+const post = (message: CSVWorkerResponse) => ctx.postMessage(message);
+
+ctx.onmessage = (event: MessageEvent<CSVWorkerRequest>) => {
+  const stream = streamCSV(event.data.file, {
+    // Each Papa Parse chunk becomes one message so the main thread can
+    // append rows incrementally instead of cloning one giant array at the end
+    onRows: rows => post({ type: 'rows', rows }),
+    onProgress: progress => post({ type: 'progress', progress }),
+  });
+
+  stream.done
+    .then(summary => post({ type: 'complete', summary }))
+    .catch(error => post({
+      type: 'error',
+      message: error instanceof Error ? error.message : 'Unable to parse CSV file',
+    }));
+};
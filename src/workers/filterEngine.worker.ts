@@ -0,0 +1,10 @@
+import { FilterEngineHost, FilterWorkerRequest, FilterWorkerResponse } from '@/utils/filterEngineHost';
+
+const ctx = self as unknown as Worker;
+
+// All engine state lives in the host; the worker only moves messages
+const host = new FilterEngineHost((response: FilterWorkerResponse, transfer: Transferable[] = []) => {
+  ctx.postMessage(response, transfer);
+});
+
+ctx.onmessage = (event: MessageEvent<FilterWorkerRequest>) => host.receive(event.data);